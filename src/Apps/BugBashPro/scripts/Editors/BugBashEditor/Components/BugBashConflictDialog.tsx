@@ -0,0 +1,248 @@
+import "./BugBashConflictDialog.scss";
+
+import * as React from "react";
+
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
+import { equals, format } from "azure-devops-ui/Core/Util/String";
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBash } from "BugBashPro/Shared/Contracts";
+import { getBugBashScoring } from "BugBashPro/Shared/Helpers";
+import { useFields } from "Common/AzDev/Fields/Hooks/useFields";
+import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
+import { useTeamTemplates } from "Common/AzDev/WorkItemTemplates/Hooks/useTeamTemplates";
+import * as formatDate from "date-fns/format";
+
+import { getBugBashConflictKeys, isConflictKeyChangedInDraft, mergeBugBash } from "../Helpers";
+
+interface IBugBashConflictDialogProps {
+    draftBugBash: IBugBash;
+    originalBugBash: IBugBash;
+    latestBugBash: IBugBash;
+    onResolve: (mergedBugBash: IBugBash) => void;
+    onDismiss: () => void;
+}
+
+export function BugBashConflictDialog(props: IBugBashConflictDialogProps) {
+    const { draftBugBash, originalBugBash, latestBugBash, onResolve, onDismiss } = props;
+    const { teamsMap } = useTeams();
+    const { fieldsMap } = useFields();
+
+    const conflictKeys = React.useMemo(() => getBugBashConflictKeys(draftBugBash, latestBugBash), [draftBugBash, latestBugBash]);
+
+    // settings the user changed default to their own value, settings only changed by someone else default to the latest value
+    const [draftKeysMap, setDraftKeysMap] = React.useState(() => {
+        const map: { [conflictKey: string]: boolean } = {};
+        for (const key of conflictKeys) {
+            map[key] = isConflictKeyChangedInDraft(draftBugBash, originalBugBash, key);
+        }
+        return map;
+    });
+
+    const onResolveClick = React.useCallback(() => {
+        onResolve(
+            mergeBugBash(
+                draftBugBash,
+                latestBugBash,
+                conflictKeys.filter((key) => draftKeysMap[key])
+            )
+        );
+    }, [draftBugBash, latestBugBash, conflictKeys, draftKeysMap, onResolve]);
+
+    const getTeamName = (teamId: string | undefined): string | undefined => {
+        const team = teamsMap && teamId && teamsMap[teamId.toLowerCase()];
+        return team ? team.name : teamId;
+    };
+
+    const getFieldName = (fieldRefName: string | undefined): string | undefined => {
+        const field = fieldsMap && fieldRefName && fieldsMap[fieldRefName.toLowerCase()];
+        return field ? field.name : fieldRefName;
+    };
+
+    const getIdentityNames = (identities: IdentityRef[] | undefined): string => {
+        return (identities || []).map((i) => i.displayName).join(", ");
+    };
+
+    const renderValue = (bugBash: IBugBash, conflictKey: string): React.ReactNode => {
+        let value: string | undefined;
+        switch (conflictKey) {
+            case "startTime":
+            case "endTime": {
+                const date = bugBash[conflictKey];
+                value = date ? formatDate(date, "M/D/YYYY h:mm aa") : undefined;
+                break;
+            }
+            case "recurrence": {
+                const { recurrence } = bugBash;
+                if (!recurrence) {
+                    value = Resources.Recurrence_None;
+                } else if (recurrence.frequency === "monthly") {
+                    value = format(Resources.Recurrence_MonthlySummary, recurrence.interval);
+                    if (recurrence.dayOfMonth) {
+                        value = `${value}, ${Resources.RecurrenceDayOfMonth_Label} ${recurrence.dayOfMonth}`;
+                    }
+                } else {
+                    value = format(Resources.Recurrence_WeeklySummary, recurrence.interval);
+                }
+                break;
+            }
+            case "itemDescriptionField":
+            case "severityField":
+            case "priorityField":
+                value = getFieldName(bugBash[conflictKey]);
+                break;
+            case "itemFields":
+                value = (bugBash.itemFields || []).map(getFieldName).join(", ");
+                break;
+            case "acceptTemplate":
+                if (bugBash.acceptTemplateTeam) {
+                    return (
+                        <TemplateValue
+                            teamId={bugBash.acceptTemplateTeam}
+                            teamName={getTeamName(bugBash.acceptTemplateTeam)!}
+                            templateId={bugBash.acceptTemplateId}
+                        />
+                    );
+                }
+                break;
+            case "acceptIteration":
+                value =
+                    bugBash.acceptIteration === "current"
+                        ? Resources.AcceptIteration_Current
+                        : bugBash.acceptIteration === "backlog"
+                        ? Resources.AcceptIteration_Backlog
+                        : Resources.AcceptIteration_Template;
+                break;
+            case "defaultTeam":
+                value = getTeamName(bugBash.defaultTeam);
+                break;
+            case "autoAccept":
+            case "privateSubmissions":
+            case "hideSubmitters":
+                value = bugBash[conflictKey] ? Resources.Yes : Resources.No;
+                break;
+            case "owners":
+            case "triagers":
+                value = getIdentityNames(bugBash[conflictKey]);
+                break;
+            case "scoring": {
+                const { acceptedPoints, pendingPoints, rejectedPoints, resolvedBonusPoints } = getBugBashScoring(bugBash);
+                value = [
+                    `${Resources.AcceptedPoints_Label}: ${acceptedPoints}`,
+                    `${Resources.PendingPoints_Label}: ${pendingPoints}`,
+                    `${Resources.RejectedPoints_Label}: ${rejectedPoints}`,
+                    `${Resources.ResolvedBonusPoints_Label}: ${resolvedBonusPoints}`
+                ].join(", ");
+                break;
+            }
+            default:
+                value = bugBash[conflictKey as "title" | "workItemType"];
+        }
+
+        return value ? <span>{value}</span> : <span className="conflict-value-empty">{Resources.EmptyValue}</span>;
+    };
+
+    const renderOption = (conflictKey: string, keepDraft: boolean) => {
+        const isSelected = !!draftKeysMap[conflictKey] === keepDraft;
+        return (
+            <div
+                className={css("conflict-option flex-column flex-grow", isSelected && "selected")}
+                onClick={() => setDraftKeysMap({ ...draftKeysMap, [conflictKey]: keepDraft })}
+            >
+                <span className="conflict-option-header font-size-s">{keepDraft ? Resources.YourChange : Resources.LatestVersion}</span>
+                {renderValue(keepDraft ? draftBugBash : latestBugBash, conflictKey)}
+            </div>
+        );
+    };
+
+    return (
+        <Dialog
+            className="bugbash-conflict-dialog"
+            titleProps={{ text: Resources.BugBashConflictDialogTitle, size: TitleSize.Medium }}
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Save,
+                    primary: true,
+                    onClick: onResolveClick
+                }
+            ]}
+        >
+            <div className="conflict-info font-size-s">{Resources.BugBashConflict_Info}</div>
+            <div className="conflicts flex-column">
+                {conflictKeys.length === 0 && <div className="font-size-s">{Resources.NoConflicts}</div>}
+                {conflictKeys.map((key) => (
+                    <div key={key} className="conflict flex-column">
+                        <span className="conflict-label font-weight-semibold">{getConflictLabel(key)}</span>
+                        <div className="flex-row">
+                            {renderOption(key, true)}
+                            {renderOption(key, false)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </Dialog>
+    );
+}
+
+interface ITemplateValueProps {
+    teamId: string;
+    teamName: string;
+    templateId: string | undefined;
+}
+
+function TemplateValue(props: ITemplateValueProps) {
+    const { teamId, teamName, templateId } = props;
+    const { templates } = useTeamTemplates(teamId);
+
+    const template = templateId && templates && templates.find((t) => equals(t.id, templateId, true));
+    const templateName = template ? template.name : templateId;
+    return <span>{templateName ? `${teamName}: ${templateName}` : teamName}</span>;
+}
+
+function getConflictLabel(conflictKey: string): string {
+    switch (conflictKey) {
+        case "title":
+            return Resources.Title_Label;
+        case "startTime":
+            return Resources.StartTime_Label;
+        case "endTime":
+            return Resources.EndTime_Label;
+        case "recurrence":
+            return Resources.Recurrence_Label;
+        case "workItemType":
+            return Resources.WorkItemType_Label;
+        case "itemDescriptionField":
+            return Resources.DescriptionField_Label;
+        case "acceptTemplate":
+            return Resources.Template_Label;
+        case "acceptIteration":
+            return Resources.AcceptIteration_Label;
+        case "defaultTeam":
+            return Resources.DefaultTeam_Label;
+        case "autoAccept":
+            return Resources.AutoAccept_Label;
+        case "owners":
+            return Resources.Owners_Label;
+        case "triagers":
+            return Resources.Triagers_Label;
+        case "privateSubmissions":
+            return Resources.PrivateSubmissions_Label;
+        case "hideSubmitters":
+            return Resources.HideSubmitters_Label;
+        case "scoring":
+            return Resources.Scoring_Label;
+        case "itemFields":
+            return Resources.ItemFields_Label;
+        case "severityField":
+            return Resources.SeverityField_Label;
+        default:
+            return Resources.PriorityField_Label;
+    }
+}
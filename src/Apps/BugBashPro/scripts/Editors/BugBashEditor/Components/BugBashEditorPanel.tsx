@@ -3,17 +3,23 @@ import "./BugBashEditor.scss";
 import * as React from "react";
 
 import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { FieldType, WorkItemField, WorkItemTemplate, WorkItemType } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
 import { Button } from "azure-devops-ui/Button";
 import { Checkbox } from "azure-devops-ui/Checkbox";
 import { ContentSize } from "azure-devops-ui/Components/Callout/Callout.Props";
+import { IListBoxItem } from "azure-devops-ui/Components/ListBox/ListBox.Props";
 import { ConditionalChildren } from "azure-devops-ui/ConditionalChildren";
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { CustomHeader, HeaderTitleArea } from "azure-devops-ui/Header";
 import { CustomPanel, Panel, PanelCloseButton, PanelContent, PanelFooter } from "azure-devops-ui/Panel";
 import { Status, Statuses, StatusSize } from "azure-devops-ui/Status";
 import { ZeroData } from "azure-devops-ui/ZeroData";
 import { Resources } from "BugBashPro/Resources";
-import { IBugBash } from "BugBashPro/Shared/Contracts";
+import { IdentityListEditor } from "BugBashPro/Shared/Components/IdentityListEditor";
+import { BugBashItemPriorities, BugBashItemSeverities } from "BugBashPro/Shared/Constants";
+import { BugBashAcceptIteration, IBugBash, IBugBashRecurrence, IBugBashScoring } from "BugBashPro/Shared/Contracts";
+import { getBugBashScoring } from "BugBashPro/Shared/Helpers";
 import { WorkItemTypeFieldPicker } from "Common/AzDev/Fields/Components/WorkItemTypeFieldPicker";
 import { IFieldAwareState } from "Common/AzDev/Fields/Redux/Contracts";
 import { TeamPicker } from "Common/AzDev/Teams/Components/TeamPicker";
@@ -27,6 +33,7 @@ import { InfoLabel } from "Common/Components/InfoLabel";
 import { Loading } from "Common/Components/Loading";
 import { Mousetrapped } from "Common/Components/Mousetrapped";
 import { DateTimePickerDropdown } from "Common/Components/Pickers/DateTimePickerDropdown";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
 import { TextField } from "Common/Components/TextField";
 import { useActionCreators } from "Common/Hooks/useActionCreators";
 import { useMappedState } from "Common/Hooks/useMappedState";
@@ -41,7 +48,26 @@ import { BugBashEditorErrorKey, BugBashEditorNotificationKey, TitleFieldMaxLengt
 import { BugBashEditorActions } from "../Redux/Actions";
 import { IBugBashEditorAwareState } from "../Redux/Contracts";
 import { getBugBashEditorModule } from "../Redux/Module";
-import { getDraftBugBash, getDraftInitializeError, isDraftDirty, isDraftSaving, isDraftValid } from "../Redux/Selectors";
+import {
+    getDraftBugBash,
+    getDraftConflictBugBash,
+    getDraftInitializeError,
+    getOriginalBugBash,
+    isDraftDirty,
+    isDraftSaving,
+    isDraftValid
+} from "../Redux/Selectors";
+import { BugBashConflictDialog } from "./BugBashConflictDialog";
+import { ItemFieldsEditor } from "./ItemFieldsEditor";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { ScoringEditor } from "./ScoringEditor";
+import { TriageValueMapEditor } from "./TriageValueMapEditor";
+
+const AcceptIterationOptions: IListBoxItem[] = [
+    { id: "template", text: Resources.AcceptIteration_Template },
+    { id: "current", text: Resources.AcceptIteration_Current },
+    { id: "backlog", text: Resources.AcceptIteration_Backlog }
+];
 
 interface IBugBashEditorPanelOwnProps {
     bugBashId?: string;
@@ -51,6 +77,8 @@ interface IBugBashEditorPanelOwnProps {
 
 interface IBugBashEditorPanelStateProps {
     draftBugBash?: IBugBash;
+    originalBugBash?: IBugBash;
+    conflictBugBash?: IBugBash;
     draftInitializeError?: string;
     isValid: boolean;
     isDirty: boolean;
@@ -60,7 +88,9 @@ interface IBugBashEditorPanelStateProps {
 const Actions = {
     requestDraftSave: BugBashEditorActions.requestDraftSave,
     updateDraft: BugBashEditorActions.updateDraft,
-    requestDraftInitialize: BugBashEditorActions.requestDraftInitialize
+    requestDraftInitialize: BugBashEditorActions.requestDraftInitialize,
+    resolveDraftConflict: BugBashEditorActions.resolveDraftConflict,
+    dismissDraftConflict: BugBashEditorActions.dismissDraftConflict
 };
 
 function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
@@ -71,6 +101,8 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
         ): IBugBashEditorPanelStateProps => {
             return {
                 draftBugBash: getDraftBugBash(state, bugBashId),
+                originalBugBash: getOriginalBugBash(state, bugBashId),
+                conflictBugBash: getDraftConflictBugBash(state, bugBashId),
                 draftInitializeError: getDraftInitializeError(state, bugBashId),
                 isValid: isDraftValid(state, bugBashId),
                 isDirty: isDraftDirty(state, bugBashId),
@@ -79,8 +111,8 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
         },
         [bugBashId]
     );
-    const { draftBugBash, isValid, isDirty, isSaving, draftInitializeError } = useMappedState(mapState);
-    const { requestDraftSave, updateDraft, requestDraftInitialize } = useActionCreators(Actions);
+    const { draftBugBash, originalBugBash, conflictBugBash, isValid, isDirty, isSaving, draftInitializeError } = useMappedState(mapState);
+    const { requestDraftSave, updateDraft, requestDraftInitialize, resolveDraftConflict, dismissDraftConflict } = useActionCreators(Actions);
 
     const throttledOnDraftChanged = useThrottle(updateDraft, 200);
     React.useEffect(() => {
@@ -105,6 +137,17 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
         requestDraftSave(bugBashId);
     }, [bugBashId]);
 
+    const resolveConflict = React.useCallback(
+        (mergedBugBash: IBugBash) => {
+            resolveDraftConflict(mergedBugBash);
+            requestDraftSave(bugBashId);
+        },
+        [bugBashId]
+    );
+    const dismissConflict = React.useCallback(() => {
+        dismissDraftConflict(bugBashId!);
+    }, [bugBashId]);
+
     const getDatesError = React.useCallback(() => {
         if (draftBugBash) {
             const { startTime, endTime } = draftBugBash;
@@ -141,9 +184,34 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
     const onEndTimeChange = (value: Date) => updateDraft({ ...draftBugBash, endTime: value || undefined });
     const onAutoAcceptChange = (_: unknown, checked: boolean) => updateDraft({ ...draftBugBash, autoAccept: checked });
     const onWorkItemTypeChange = (option: WorkItemType, value?: string) =>
-        updateDraft({ ...draftBugBash, workItemType: option ? option.name : value || "", itemDescriptionField: "" });
-    const onDescriptionFieldChange = (option: WorkItemField, value?: string) =>
-        updateDraft({ ...draftBugBash, itemDescriptionField: option ? option.referenceName : value || "" });
+        updateDraft({
+            ...draftBugBash,
+            workItemType: option ? option.name : value || "",
+            itemDescriptionField: "",
+            itemFields: [],
+            severityField: undefined,
+            priorityField: undefined
+        });
+    const onDescriptionFieldChange = (option: WorkItemField, value?: string) => {
+        const itemDescriptionField = option ? option.referenceName : value || "";
+        const itemFields = (draftBugBash.itemFields || []).filter((f) => !equals(f, itemDescriptionField, true));
+        updateDraft({ ...draftBugBash, itemDescriptionField, itemFields });
+    };
+    const onItemFieldsChange = (itemFields: string[]) => updateDraft({ ...draftBugBash, itemFields });
+    const onSeverityFieldChange = (option: WorkItemField, value?: string) =>
+        updateDraft({ ...draftBugBash, severityField: option ? option.referenceName : value || undefined, severityValueMap: undefined });
+    const onPriorityFieldChange = (option: WorkItemField, value?: string) =>
+        updateDraft({ ...draftBugBash, priorityField: option ? option.referenceName : value || undefined, priorityValueMap: undefined });
+    const onSeverityValueMapChange = (severityValueMap: { [severity: string]: string }) => updateDraft({ ...draftBugBash, severityValueMap });
+    const onPriorityValueMapChange = (priorityValueMap: { [priority: string]: string }) => updateDraft({ ...draftBugBash, priorityValueMap });
+    const onScoringChange = (scoring: IBugBashScoring) => updateDraft({ ...draftBugBash, scoring });
+    const onPrivateSubmissionsChange = (_: unknown, checked: boolean) => updateDraft({ ...draftBugBash, privateSubmissions: checked });
+    const onHideSubmittersChange = (_: unknown, checked: boolean) => updateDraft({ ...draftBugBash, hideSubmitters: checked });
+    const onOwnersChange = (owners: IdentityRef[]) => updateDraft({ ...draftBugBash, owners });
+    const onTriagersChange = (triagers: IdentityRef[]) => updateDraft({ ...draftBugBash, triagers });
+    const onRecurrenceChange = (recurrence: IBugBashRecurrence | undefined) => updateDraft({ ...draftBugBash, recurrence });
+    const onAcceptIterationChange = (option?: IListBoxItem) =>
+        updateDraft({ ...draftBugBash, acceptIteration: option && option.id !== "template" ? (option.id as BugBashAcceptIteration) : undefined });
     const onDefaultTeamChange = (option: WebApiTeam, value?: string) =>
         updateDraft({ ...draftBugBash, defaultTeam: option ? option.id : value || "" });
     const onTemplateTeamChange = (option: WebApiTeam, value?: string) =>
@@ -210,6 +278,16 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
                                 label={Resources.EndTime_Label}
                             />
                         </div>
+                        <div className="section-row flex-row flex-noshrink">
+                            <RecurrenceEditor
+                                className="bugbash-control"
+                                recurrence={draftBugBash.recurrence}
+                                startTime={draftBugBash.startTime}
+                                endTime={draftBugBash.endTime}
+                                disabled={isSaving}
+                                onChange={onRecurrenceChange}
+                            />
+                        </div>
                         <div className="section-row flex-row flex-noshrink">
                             <WorkItemTypePicker
                                 className="bugbash-control"
@@ -255,6 +333,20 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
                                 />
                             </ConditionalChildren>
                         </div>
+                        <div className="section-row flex-row flex-noshrink">
+                            <DropdownPicker<IListBoxItem>
+                                className="bugbash-control"
+                                label={Resources.AcceptIteration_Label}
+                                info={Resources.AcceptIteration_LabelInfo}
+                                required={true}
+                                options={AcceptIterationOptions}
+                                limitedToAllowedOptions={true}
+                                getDropdownItem={getAcceptIterationDropdownItem}
+                                selectedValue={draftBugBash.acceptIteration || "template"}
+                                disabled={isSaving}
+                                onChange={onAcceptIterationChange}
+                            />
+                        </div>
                         <div className="section-row flex-row flex-noshrink">
                             <TeamPicker
                                 className="bugbash-control"
@@ -275,6 +367,120 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
                                 <InfoLabel label="Auto Accept?" info={Resources.AutoAccept_LabelInfo} />
                             </div>
                         </div>
+                        <div className="section-row flex-row flex-noshrink">
+                            <IdentityListEditor
+                                className="bugbash-control"
+                                label={Resources.Owners_Label}
+                                info={Resources.Owners_LabelInfo}
+                                placeholder={Resources.Owners_Placeholder}
+                                identities={draftBugBash.owners || []}
+                                disabled={isSaving}
+                                onChange={onOwnersChange}
+                            />
+                            <IdentityListEditor
+                                className="bugbash-control"
+                                label={Resources.Triagers_Label}
+                                info={Resources.Triagers_LabelInfo}
+                                placeholder={Resources.Triagers_Placeholder}
+                                identities={draftBugBash.triagers || []}
+                                disabled={isSaving}
+                                onChange={onTriagersChange}
+                            />
+                        </div>
+                        <div className="section-row flex-row flex-noshrink">
+                            <div className="bugbash-control flex-row flex-center">
+                                <Checkbox
+                                    className="private-submissions"
+                                    disabled={isSaving}
+                                    label=""
+                                    checked={!!draftBugBash.privateSubmissions}
+                                    onChange={onPrivateSubmissionsChange}
+                                />
+                                <InfoLabel label={Resources.PrivateSubmissions_Label} info={Resources.PrivateSubmissions_LabelInfo} />
+                            </div>
+                            <div className="bugbash-control flex-row flex-center">
+                                <Checkbox
+                                    className="hide-submitters"
+                                    disabled={isSaving}
+                                    label=""
+                                    checked={!!draftBugBash.hideSubmitters}
+                                    onChange={onHideSubmittersChange}
+                                />
+                                <InfoLabel label={Resources.HideSubmitters_Label} info={Resources.HideSubmitters_LabelInfo} />
+                            </div>
+                        </div>
+                        <div className="section-row flex-row flex-noshrink">
+                            <ScoringEditor
+                                className="bugbash-control"
+                                scoring={getBugBashScoring(draftBugBash)}
+                                disabled={isSaving}
+                                onChange={onScoringChange}
+                            />
+                        </div>
+                        <ConditionalChildren renderChildren={!isNullOrWhiteSpace(draftBugBash.workItemType)}>
+                            <div className="section-row flex-row flex-noshrink">
+                                <ItemFieldsEditor
+                                    className="bugbash-control"
+                                    workItemTypeName={draftBugBash.workItemType}
+                                    itemDescriptionField={draftBugBash.itemDescriptionField}
+                                    itemFields={draftBugBash.itemFields || []}
+                                    disabled={isSaving}
+                                    onChange={onItemFieldsChange}
+                                />
+                            </div>
+                            <div className="section-row flex-row flex-noshrink">
+                                <WorkItemTypeFieldPicker
+                                    className="bugbash-control"
+                                    workItemTypeName={draftBugBash.workItemType}
+                                    allowedFieldTypes={[FieldType.String, FieldType.Integer]}
+                                    selectedValue={draftBugBash.severityField || ""}
+                                    onChange={onSeverityFieldChange}
+                                    disabled={isSaving}
+                                    label={Resources.SeverityField_Label}
+                                    info={Resources.SeverityField_LabelInfo}
+                                />
+                                <WorkItemTypeFieldPicker
+                                    className="bugbash-control"
+                                    workItemTypeName={draftBugBash.workItemType}
+                                    allowedFieldTypes={[FieldType.String, FieldType.Integer]}
+                                    selectedValue={draftBugBash.priorityField || ""}
+                                    onChange={onPriorityFieldChange}
+                                    disabled={isSaving}
+                                    label={Resources.PriorityField_Label}
+                                    info={Resources.PriorityField_LabelInfo}
+                                />
+                            </div>
+                            <ConditionalChildren renderChildren={!isNullOrWhiteSpace(draftBugBash.severityField)}>
+                                <div className="section-row flex-row flex-noshrink">
+                                    <TriageValueMapEditor
+                                        className="bugbash-control"
+                                        workItemTypeName={draftBugBash.workItemType}
+                                        fieldRefName={draftBugBash.severityField!}
+                                        values={BugBashItemSeverities}
+                                        valueMap={draftBugBash.severityValueMap}
+                                        label={Resources.SeverityValueMap_Label}
+                                        info={Resources.TriageValueMap_LabelInfo}
+                                        disabled={isSaving}
+                                        onChange={onSeverityValueMapChange}
+                                    />
+                                </div>
+                            </ConditionalChildren>
+                            <ConditionalChildren renderChildren={!isNullOrWhiteSpace(draftBugBash.priorityField)}>
+                                <div className="section-row flex-row flex-noshrink">
+                                    <TriageValueMapEditor
+                                        className="bugbash-control"
+                                        workItemTypeName={draftBugBash.workItemType}
+                                        fieldRefName={draftBugBash.priorityField!}
+                                        values={BugBashItemPriorities}
+                                        valueMap={draftBugBash.priorityValueMap}
+                                        label={Resources.PriorityValueMap_Label}
+                                        info={Resources.TriageValueMap_LabelInfo}
+                                        disabled={isSaving}
+                                        onChange={onPriorityValueMapChange}
+                                    />
+                                </div>
+                            </ConditionalChildren>
+                        </ConditionalChildren>
                     </div>
                 </PanelContent>
                 <PanelFooter showSeparator={true}>
@@ -290,11 +496,24 @@ function BugBashEditorPanelInternal(props: IBugBashEditorPanelOwnProps) {
                         </Button>
                     </div>
                 </PanelFooter>
+                {conflictBugBash && originalBugBash && (
+                    <BugBashConflictDialog
+                        draftBugBash={draftBugBash}
+                        originalBugBash={originalBugBash}
+                        latestBugBash={conflictBugBash}
+                        onResolve={resolveConflict}
+                        onDismiss={dismissConflict}
+                    />
+                )}
             </CustomPanel>
         </Mousetrapped>
     );
 }
 
+function getAcceptIterationDropdownItem(option: IListBoxItem): IListBoxItem {
+    return option;
+}
+
 export function BugBashEditorPanel(props: IBugBashEditorPanelOwnProps) {
     return (
         <DynamicModuleLoader modules={[getBugBashEditorModule()]} cleanOnUnmount={true}>
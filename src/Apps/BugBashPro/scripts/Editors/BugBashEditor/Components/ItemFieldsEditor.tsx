@@ -0,0 +1,89 @@
+import * as React from "react";
+
+import { FieldType, WorkItemField } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { Button } from "azure-devops-ui/Button";
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { WorkItemTypeFieldPicker } from "Common/AzDev/Fields/Components/WorkItemTypeFieldPicker";
+import { useFields } from "Common/AzDev/Fields/Hooks/useFields";
+import { getFieldModule } from "Common/AzDev/Fields/Redux/Module";
+import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
+import { LabelledComponent } from "Common/Components/LabelledComponent";
+import { CoreFieldRefNames } from "Common/Constants";
+
+const AllowedItemFieldTypes = [
+    FieldType.Boolean,
+    FieldType.DateTime,
+    FieldType.Double,
+    FieldType.Html,
+    FieldType.Integer,
+    FieldType.PlainText,
+    FieldType.String,
+    FieldType.TreePath
+];
+
+interface IItemFieldsEditorProps {
+    className?: string;
+    workItemTypeName: string;
+    itemDescriptionField: string;
+    itemFields: string[];
+    disabled?: boolean;
+    onChange: (itemFields: string[]) => void;
+}
+
+function ItemFieldsEditorInternal(props: IItemFieldsEditorProps) {
+    const { className, workItemTypeName, itemDescriptionField, itemFields, disabled, onChange } = props;
+    const { fieldsMap } = useFields();
+
+    const onFieldAdd = (option: WorkItemField) => {
+        if (option) {
+            onChange([...itemFields, option.referenceName]);
+        }
+    };
+    const onFieldRemove = (fieldRefName: string) => {
+        onChange(itemFields.filter((f) => !equals(f, fieldRefName, true)));
+    };
+
+    return (
+        <LabelledComponent className={css("item-fields-editor", className)} label={Resources.ItemFields_Label} info={Resources.ItemFields_LabelInfo}>
+            <div className="flex-column">
+                {itemFields.map((fieldRefName) => {
+                    const field = fieldsMap && fieldsMap[fieldRefName.toLowerCase()];
+                    return (
+                        <div key={fieldRefName} className="item-field-row flex-row flex-center">
+                            <span className="flex-grow text-ellipsis">{field ? field.name : fieldRefName}</span>
+                            <Button
+                                className="error-text"
+                                subtle={true}
+                                disabled={disabled}
+                                onClick={() => onFieldRemove(fieldRefName)}
+                                iconProps={{ iconName: "Cancel" }}
+                                tooltipProps={{ text: Resources.RemoveItemField }}
+                            />
+                        </div>
+                    );
+                })}
+                <WorkItemTypeFieldPicker
+                    key={`add-item-field-${itemFields.length}`}
+                    className="item-field-picker"
+                    workItemTypeName={workItemTypeName}
+                    allowedFieldTypes={AllowedItemFieldTypes}
+                    excludeFieldRefNames={[CoreFieldRefNames.Title, CoreFieldRefNames.AreaPath, itemDescriptionField, ...itemFields]}
+                    placeholder={Resources.AddItemField_Placeholder}
+                    selectedValue=""
+                    onChange={onFieldAdd}
+                    disabled={disabled}
+                />
+            </div>
+        </LabelledComponent>
+    );
+}
+
+export function ItemFieldsEditor(props: IItemFieldsEditorProps) {
+    return (
+        <DynamicModuleLoader modules={[getFieldModule()]}>
+            <ItemFieldsEditorInternal {...props} />
+        </DynamicModuleLoader>
+    );
+}
@@ -0,0 +1,129 @@
+import * as React from "react";
+
+import { IListBoxItem } from "azure-devops-ui/Components/ListBox/ListBox.Props";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashRecurrence } from "BugBashPro/Shared/Contracts";
+import { LabelledComponent } from "Common/Components/LabelledComponent";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
+import { TextField } from "Common/Components/TextField";
+
+import { isRecurrenceDayOfMonthValid, isRecurrenceDurationValid, isRecurrenceIntervalValid } from "../Helpers";
+
+interface IRecurrenceEditorProps {
+    className?: string;
+    recurrence: IBugBashRecurrence | undefined;
+    startTime: Date | undefined;
+    endTime: Date | undefined;
+    disabled?: boolean;
+    onChange: (recurrence: IBugBashRecurrence | undefined) => void;
+}
+
+const FrequencyOptions: IListBoxItem[] = [
+    { id: "none", text: Resources.Recurrence_None },
+    { id: "weekly", text: Resources.Recurrence_Weekly },
+    { id: "monthly", text: Resources.Recurrence_Monthly }
+];
+
+export function RecurrenceEditor(props: IRecurrenceEditorProps) {
+    const { className, recurrence, startTime, endTime, disabled, onChange } = props;
+
+    const onFrequencyChange = (option?: IListBoxItem) => {
+        if (!option || option.id === "none") {
+            onChange(undefined);
+        } else if (option.id === "monthly") {
+            onChange({ frequency: "monthly", interval: 1, dayOfMonth: startTime ? startTime.getDate() : 1 });
+        } else {
+            onChange({ frequency: "weekly", interval: 1 });
+        }
+    };
+    const onIntervalChange = (interval: number) => onChange({ ...recurrence!, interval });
+    const onDayOfMonthChange = (dayOfMonth: number) => onChange({ ...recurrence!, dayOfMonth });
+    const getFrequencyErrorMessage = () => {
+        if (!recurrence) {
+            return undefined;
+        } else if (!startTime || !endTime) {
+            return Resources.RecurrenceDatesError;
+        } else if (!isRecurrenceDurationValid(recurrence, startTime, endTime)) {
+            return Resources.RecurrenceDurationError;
+        }
+        return undefined;
+    };
+
+    return (
+        <LabelledComponent className={css("recurrence-editor", className)} label={Resources.Recurrence_Label} info={Resources.Recurrence_LabelInfo}>
+            <div className="flex-row">
+                <DropdownPicker<IListBoxItem>
+                    className="recurrence-field"
+                    disabled={disabled}
+                    required={true}
+                    options={FrequencyOptions}
+                    limitedToAllowedOptions={true}
+                    getDropdownItem={getFrequencyDropdownItem}
+                    selectedValue={recurrence ? recurrence.frequency : "none"}
+                    onChange={onFrequencyChange}
+                    getErrorMessage={getFrequencyErrorMessage}
+                />
+                {recurrence && (
+                    <NumberField
+                        key={`interval-${recurrence.frequency}`}
+                        label={
+                            recurrence.frequency === "monthly" ? Resources.RecurrenceIntervalMonths_Label : Resources.RecurrenceIntervalWeeks_Label
+                        }
+                        value={recurrence.interval}
+                        disabled={disabled}
+                        isValid={isRecurrenceIntervalValid}
+                        errorMessage={Resources.RecurrenceIntervalError}
+                        onChange={onIntervalChange}
+                    />
+                )}
+                {recurrence && recurrence.frequency === "monthly" && (
+                    <NumberField
+                        label={Resources.RecurrenceDayOfMonth_Label}
+                        value={recurrence.dayOfMonth!}
+                        disabled={disabled}
+                        isValid={isRecurrenceDayOfMonthValid}
+                        errorMessage={Resources.RecurrenceDayOfMonthError}
+                        onChange={onDayOfMonthChange}
+                    />
+                )}
+            </div>
+        </LabelledComponent>
+    );
+}
+
+function getFrequencyDropdownItem(option: IListBoxItem): IListBoxItem {
+    return option;
+}
+
+interface INumberFieldProps {
+    label: string;
+    value: number;
+    disabled?: boolean;
+    errorMessage: string;
+    isValid: (value: number) => boolean;
+    onChange: (value: number) => void;
+}
+
+function NumberField(props: INumberFieldProps) {
+    const { label, value, disabled, errorMessage, isValid, onChange } = props;
+    const [text, setText] = React.useState(isNaN(value) ? "" : `${value}`);
+
+    const onTextChange = (newText: string) => {
+        setText(newText);
+        // keep invalid input as NaN so that the bug bash can not be saved until it is fixed
+        onChange(/^\s*\d+\s*$/.test(newText) ? parseInt(newText, 10) : NaN);
+    };
+    const getErrorMessage = () => (isValid(value) ? undefined : errorMessage);
+
+    return (
+        <TextField
+            className="recurrence-field"
+            label={label}
+            disabled={disabled}
+            value={text}
+            onChange={onTextChange}
+            getErrorMessage={getErrorMessage}
+        />
+    );
+}
@@ -0,0 +1,68 @@
+import * as React from "react";
+
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashScoring } from "BugBashPro/Shared/Contracts";
+import { LabelledComponent } from "Common/Components/LabelledComponent";
+import { TextField } from "Common/Components/TextField";
+
+import { isScoringPointsValid } from "../Helpers";
+
+interface IScoringEditorProps {
+    className?: string;
+    scoring: IBugBashScoring;
+    disabled?: boolean;
+    onChange: (scoring: IBugBashScoring) => void;
+}
+
+export function ScoringEditor(props: IScoringEditorProps) {
+    const { className, scoring, disabled, onChange } = props;
+
+    const renderPointsField = (key: keyof IBugBashScoring, label: string, info?: string) => {
+        const onPointsChange = (points: number) => onChange({ ...scoring, [key]: points });
+        return <PointsField key={key} label={label} info={info} disabled={disabled} points={scoring[key]} onChange={onPointsChange} />;
+    };
+
+    return (
+        <LabelledComponent className={css("scoring-editor", className)} label={Resources.Scoring_Label} info={Resources.Scoring_LabelInfo}>
+            <div className="flex-row">
+                {renderPointsField("acceptedPoints", Resources.AcceptedPoints_Label)}
+                {renderPointsField("pendingPoints", Resources.PendingPoints_Label)}
+                {renderPointsField("rejectedPoints", Resources.RejectedPoints_Label)}
+                {renderPointsField("resolvedBonusPoints", Resources.ResolvedBonusPoints_Label, Resources.ResolvedBonusPoints_LabelInfo)}
+            </div>
+        </LabelledComponent>
+    );
+}
+
+interface IPointsFieldProps {
+    label: string;
+    info?: string;
+    points: number;
+    disabled?: boolean;
+    onChange: (points: number) => void;
+}
+
+function PointsField(props: IPointsFieldProps) {
+    const { label, info, points, disabled, onChange } = props;
+    const [text, setText] = React.useState(isNaN(points) ? "" : `${points}`);
+
+    const onTextChange = (value: string) => {
+        setText(value);
+        // keep invalid input as NaN so that the bug bash can not be saved until it is fixed
+        onChange(/^\s*-?\d+\s*$/.test(value) ? parseInt(value, 10) : NaN);
+    };
+    const getErrorMessage = () => (isScoringPointsValid(points) ? undefined : Resources.ScoringPointsError);
+
+    return (
+        <TextField
+            className="scoring-points-field"
+            label={label}
+            info={info}
+            disabled={disabled}
+            value={text}
+            onChange={onTextChange}
+            getErrorMessage={getErrorMessage}
+        />
+    );
+}
@@ -0,0 +1,80 @@
+import * as React from "react";
+
+import { IListBoxItem } from "azure-devops-ui/Components/ListBox/ListBox.Props";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { getMappedTriageValue } from "BugBashPro/Shared/Helpers";
+import { useField } from "Common/AzDev/Fields/Hooks/useField";
+import { useWorkItemTypeField } from "Common/AzDev/Fields/Hooks/useWorkItemTypeField";
+import { LabelledComponent } from "Common/Components/LabelledComponent";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
+import { TextField } from "Common/Components/TextField";
+
+import { isTriageValueAllowed } from "../Helpers";
+
+interface ITriageValueMapEditorProps {
+    className?: string;
+    workItemTypeName: string;
+    fieldRefName: string;
+    values: string[];
+    valueMap: { [value: string]: string } | undefined;
+    label: string;
+    info?: string;
+    disabled?: boolean;
+    onChange: (valueMap: { [value: string]: string }) => void;
+}
+
+export function TriageValueMapEditor(props: ITriageValueMapEditorProps) {
+    const { className, workItemTypeName, fieldRefName, values, valueMap, label, info, disabled, onChange } = props;
+    const { field } = useField(fieldRefName);
+    const { field: workItemTypeField } = useWorkItemTypeField(workItemTypeName, fieldRefName);
+    const allowedValues: string[] = ((workItemTypeField && workItemTypeField.allowedValues) || []).map((v) => `${v}`);
+    const fieldType = field && field.type;
+
+    const renderValue = (value: string) => {
+        const mappedValue = getMappedTriageValue(value, valueMap);
+        const onValueChange = (newValue: string) => onChange({ ...valueMap, [value]: newValue });
+        const getErrorMessage = () =>
+            isTriageValueAllowed(allowedValues, fieldType, mappedValue) ? undefined : Resources.TriageValueNotAllowedError;
+
+        if (allowedValues.length > 0) {
+            return (
+                <DropdownPicker<string>
+                    key={value}
+                    className="triage-value-field"
+                    label={value}
+                    options={allowedValues}
+                    limitedToAllowedOptions={true}
+                    required={true}
+                    selectedValue={mappedValue}
+                    disabled={disabled}
+                    getErrorMessage={getErrorMessage}
+                    getDropdownItem={getAllowedValueDropdownItem}
+                    onChange={(option?: string, text?: string) => onValueChange(option || text || "")}
+                />
+            );
+        } else {
+            return (
+                <TextField
+                    key={value}
+                    className="triage-value-field"
+                    label={value}
+                    value={mappedValue}
+                    disabled={disabled}
+                    getErrorMessage={getErrorMessage}
+                    onChange={onValueChange}
+                />
+            );
+        }
+    };
+
+    return (
+        <LabelledComponent className={css("triage-value-map-editor", className)} label={label} info={info}>
+            <div className="flex-row">{values.map(renderValue)}</div>
+        </LabelledComponent>
+    );
+}
+
+function getAllowedValueDropdownItem(value: string): IListBoxItem {
+    return { id: value, text: value };
+}
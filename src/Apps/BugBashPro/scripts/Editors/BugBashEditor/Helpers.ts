@@ -1,6 +1,8 @@
 import { FieldType } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
 import { equals } from "azure-devops-ui/Core/Util/String";
-import { IBugBash } from "BugBashPro/Shared/Contracts";
+import { BugBashItemPriorities, BugBashItemSeverities } from "BugBashPro/Shared/Constants";
+import { IBugBash, IBugBashRecurrence, IBugBashScoring } from "BugBashPro/Shared/Contracts";
+import { getMappedTriageValue } from "BugBashPro/Shared/Helpers";
 import { IFieldAwareState } from "Common/AzDev/Fields/Redux/Contracts";
 import { getField, getWorkItemTypeField } from "Common/AzDev/Fields/Redux/Selectors";
 import { ITeamAwareState } from "Common/AzDev/Teams/Redux/Contracts";
@@ -9,8 +11,11 @@ import { IWorkItemTemplateAwareState } from "Common/AzDev/WorkItemTemplates/Redu
 import { getTeamTemplate } from "Common/AzDev/WorkItemTemplates/Redux/Selectors";
 import { IWorkItemTypeAwareState } from "Common/AzDev/WorkItemTypes/Redux/Contracts";
 import { getWorkItemType } from "Common/AzDev/WorkItemTypes/Redux/Selectors";
+import { arrayEquals } from "Common/Utilities/Array";
 import { defaultDateComparer } from "Common/Utilities/Date";
+import { getCurrentUser } from "Common/Utilities/Identity";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
+import * as addDays from "date-fns/add_days";
 
 import { TitleFieldMaxLength } from "./Constants";
 
@@ -20,7 +25,8 @@ export function getNewBugBashInstance(): IBugBash {
         workItemType: "",
         projectId: "",
         itemDescriptionField: "",
-        autoAccept: false
+        autoAccept: false,
+        owners: [getCurrentUser()]
     };
 }
 
@@ -28,13 +34,34 @@ export function isBugBashValid(
     state: ITeamAwareState & IFieldAwareState & IWorkItemTypeAwareState & IWorkItemTemplateAwareState,
     bugBash: IBugBash
 ): boolean {
-    const { title, workItemType, itemDescriptionField, startTime, endTime, defaultTeam, acceptTemplateTeam, acceptTemplateId } = bugBash;
+    const {
+        title,
+        workItemType,
+        itemDescriptionField,
+        startTime,
+        endTime,
+        defaultTeam,
+        acceptTemplateTeam,
+        acceptTemplateId,
+        itemFields,
+        scoring,
+        recurrence,
+        severityField,
+        severityValueMap,
+        priorityField,
+        priorityValueMap
+    } = bugBash;
 
     return (
         isTitleValid(title) &&
         areDatesValid(startTime, endTime) &&
         isWorkItemTypeValid(state, workItemType) &&
         isDescriptionFieldValid(state, workItemType, itemDescriptionField) &&
+        areItemFieldsValid(state, workItemType, itemFields) &&
+        isMappedFieldValid(state, workItemType, severityField, BugBashItemSeverities, severityValueMap) &&
+        isMappedFieldValid(state, workItemType, priorityField, BugBashItemPriorities, priorityValueMap) &&
+        isScoringValid(scoring) &&
+        isRecurrenceValid(recurrence, startTime, endTime) &&
         isTeamValid(state, defaultTeam) &&
         isTeamValid(state, acceptTemplateTeam) &&
         isTemplateValid(state, acceptTemplateTeam, acceptTemplateId)
@@ -51,7 +78,19 @@ export function isBugBashDirty(originalBugBash: IBugBash, updatedBugBash: IBugBa
         defaultTeam = "",
         acceptTemplateTeam = "",
         acceptTemplateId = "",
-        autoAccept
+        autoAccept,
+        itemFields = [],
+        scoring,
+        recurrence,
+        owners = [],
+        triagers = [],
+        privateSubmissions,
+        hideSubmitters,
+        severityField = "",
+        severityValueMap,
+        priorityField = "",
+        priorityValueMap,
+        acceptIteration = "template"
     } = updatedBugBash;
     const {
         title: orig_title = "",
@@ -62,7 +101,19 @@ export function isBugBashDirty(originalBugBash: IBugBash, updatedBugBash: IBugBa
         defaultTeam: orig_defaultTeam = "",
         acceptTemplateTeam: orig_acceptTemplateTeam = "",
         acceptTemplateId: orig_acceptTemplateId = "",
-        autoAccept: orig_autoAccept
+        autoAccept: orig_autoAccept,
+        itemFields: orig_itemFields = [],
+        scoring: orig_scoring,
+        recurrence: orig_recurrence,
+        owners: orig_owners = [],
+        triagers: orig_triagers = [],
+        privateSubmissions: orig_privateSubmissions,
+        hideSubmitters: orig_hideSubmitters,
+        severityField: orig_severityField = "",
+        severityValueMap: orig_severityValueMap,
+        priorityField: orig_priorityField = "",
+        priorityValueMap: orig_priorityValueMap,
+        acceptIteration: orig_acceptIteration = "template"
     } = originalBugBash;
 
     return (
@@ -74,10 +125,81 @@ export function isBugBashDirty(originalBugBash: IBugBash, updatedBugBash: IBugBa
         autoAccept !== orig_autoAccept ||
         !equals(defaultTeam, orig_defaultTeam, true) ||
         !equals(acceptTemplateTeam, orig_acceptTemplateTeam, true) ||
-        !equals(acceptTemplateId, orig_acceptTemplateId, true)
+        !equals(acceptTemplateId, orig_acceptTemplateId, true) ||
+        !arrayEquals(itemFields, orig_itemFields, (f1, f2) => equals(f1, f2, true), true) ||
+        isScoringDirty(orig_scoring, scoring) ||
+        isRecurrenceDirty(orig_recurrence, recurrence) ||
+        !arrayEquals(owners, orig_owners, (i1, i2) => equals(i1.id, i2.id, true)) ||
+        !arrayEquals(triagers, orig_triagers, (i1, i2) => equals(i1.id, i2.id, true)) ||
+        !!privateSubmissions !== !!orig_privateSubmissions ||
+        !!hideSubmitters !== !!orig_hideSubmitters ||
+        !equals(severityField, orig_severityField, true) ||
+        !equals(priorityField, orig_priorityField, true) ||
+        isValueMapDirty(orig_severityValueMap, severityValueMap) ||
+        isValueMapDirty(orig_priorityValueMap, priorityValueMap) ||
+        acceptIteration !== orig_acceptIteration
     );
 }
 
+export const BugBashConflictKeys = [
+    "title",
+    "startTime",
+    "endTime",
+    "recurrence",
+    "workItemType",
+    "itemDescriptionField",
+    "acceptTemplate",
+    "acceptIteration",
+    "defaultTeam",
+    "autoAccept",
+    "owners",
+    "triagers",
+    "privateSubmissions",
+    "hideSubmitters",
+    "scoring",
+    "itemFields",
+    "severityField",
+    "priorityField"
+];
+
+/**
+ * Returns the keys of the settings whose value in the draft differs from the latest saved version
+ */
+export function getBugBashConflictKeys(draftBugBash: IBugBash, latestBugBash: IBugBash): string[] {
+    return BugBashConflictKeys.filter((key) => isBugBashDirty(latestBugBash, applyConflictKey(latestBugBash, draftBugBash, key)));
+}
+
+/**
+ * Whether the user changed the given setting in their draft, as opposed to it being changed by someone else
+ */
+export function isConflictKeyChangedInDraft(draftBugBash: IBugBash, originalBugBash: IBugBash, conflictKey: string): boolean {
+    return isBugBashDirty(originalBugBash, applyConflictKey(originalBugBash, draftBugBash, conflictKey));
+}
+
+/**
+ * Takes the picked settings from the draft and everything else, including the etag, from the latest saved version
+ */
+export function mergeBugBash(draftBugBash: IBugBash, latestBugBash: IBugBash, draftConflictKeys: string[]): IBugBash {
+    return draftConflictKeys.reduce((mergedBugBash, key) => applyConflictKey(mergedBugBash, draftBugBash, key), latestBugBash);
+}
+
+function applyConflictKey(target: IBugBash, source: IBugBash, conflictKey: string): IBugBash {
+    if (conflictKey === "acceptTemplate") {
+        // the template belongs to the team, so both are always taken from the same version
+        const { acceptTemplateTeam, acceptTemplateId } = source;
+        return { ...target, acceptTemplateTeam, acceptTemplateId };
+    } else if (conflictKey === "severityField") {
+        // the value map is made for the values of the field, so both are always taken from the same version
+        const { severityField, severityValueMap } = source;
+        return { ...target, severityField, severityValueMap };
+    } else if (conflictKey === "priorityField") {
+        const { priorityField, priorityValueMap } = source;
+        return { ...target, priorityField, priorityValueMap };
+    } else {
+        return { ...target, [conflictKey]: source[conflictKey as keyof IBugBash] };
+    }
+}
+
 function isTitleValid(title: string): boolean {
     return !isNullOrWhiteSpace(title) && title.length <= TitleFieldMaxLength;
 }
@@ -96,6 +218,120 @@ function isDescriptionFieldValid(state: IFieldAwareState, workItemTypeName: stri
     return !isNullOrWhiteSpace(fieldRefName) && field !== undefined && workItemTypeField !== undefined && field.type === FieldType.Html;
 }
 
+function areItemFieldsValid(state: IFieldAwareState, workItemTypeName: string, itemFields: string[] | undefined): boolean {
+    return !itemFields || itemFields.every((fieldRefName) => getWorkItemTypeField(state, workItemTypeName, fieldRefName) !== undefined);
+}
+
+function isMappedFieldValid(
+    state: IFieldAwareState,
+    workItemTypeName: string,
+    fieldRefName: string | undefined,
+    values: string[],
+    valueMap: { [value: string]: string } | undefined
+): boolean {
+    if (!fieldRefName) {
+        return true;
+    }
+
+    const field = getField(state, fieldRefName);
+    const workItemTypeField = getWorkItemTypeField(state, workItemTypeName, fieldRefName);
+    return (
+        field !== undefined &&
+        workItemTypeField !== undefined &&
+        values.every((value) => isTriageValueAllowed(workItemTypeField.allowedValues, field.type, getMappedTriageValue(value, valueMap)))
+    );
+}
+
+/**
+ * Whether the field accepts the given severity or priority value, otherwise accepting an item with it would fail
+ */
+export function isTriageValueAllowed(allowedValues: any[] | undefined, fieldType: FieldType | undefined, value: string): boolean {
+    if (allowedValues && allowedValues.length > 0) {
+        return allowedValues.some((v) => equals(`${v}`, value, true));
+    }
+    return fieldType !== FieldType.Integer || /^\s*-?\d+\s*$/.test(value);
+}
+
+export function isScoringPointsValid(points: number): boolean {
+    return typeof points === "number" && isFinite(points) && Math.floor(points) === points;
+}
+
+function isScoringValid(scoring: IBugBashScoring | undefined): boolean {
+    return (
+        !scoring ||
+        (isScoringPointsValid(scoring.acceptedPoints) &&
+            isScoringPointsValid(scoring.pendingPoints) &&
+            isScoringPointsValid(scoring.rejectedPoints) &&
+            isScoringPointsValid(scoring.resolvedBonusPoints))
+    );
+}
+
+function isScoringDirty(originalScoring: IBugBashScoring | undefined, updatedScoring: IBugBashScoring | undefined): boolean {
+    if (!originalScoring || !updatedScoring) {
+        return originalScoring !== updatedScoring;
+    }
+    return (
+        originalScoring.acceptedPoints !== updatedScoring.acceptedPoints ||
+        originalScoring.pendingPoints !== updatedScoring.pendingPoints ||
+        originalScoring.rejectedPoints !== updatedScoring.rejectedPoints ||
+        originalScoring.resolvedBonusPoints !== updatedScoring.resolvedBonusPoints
+    );
+}
+
+function isValueMapDirty(
+    originalValueMap: { [value: string]: string } | undefined,
+    updatedValueMap: { [value: string]: string } | undefined
+): boolean {
+    const keys = Object.keys({ ...originalValueMap, ...updatedValueMap });
+    return keys.some((key) => !equals((originalValueMap || {})[key] || "", (updatedValueMap || {})[key] || ""));
+}
+
+export function isRecurrenceIntervalValid(interval: number): boolean {
+    return isScoringPointsValid(interval) && interval >= 1;
+}
+
+export function isRecurrenceDayOfMonthValid(dayOfMonth: number): boolean {
+    return isScoringPointsValid(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31;
+}
+
+/**
+ * An occurrence has to finish before the next one starts. Months are counted as 28 days, the shortest gap between two monthly occurrences.
+ */
+export function isRecurrenceDurationValid(recurrence: IBugBashRecurrence, startTime: Date, endTime: Date): boolean {
+    if (!isRecurrenceIntervalValid(recurrence.interval)) {
+        // reported by the interval field
+        return true;
+    }
+
+    const intervalInDays = recurrence.interval * (recurrence.frequency === "monthly" ? 28 : 7);
+    return defaultDateComparer(endTime, addDays(startTime, intervalInDays)) <= 0;
+}
+
+function isRecurrenceValid(recurrence: IBugBashRecurrence | undefined, startTime: Date | undefined, endTime: Date | undefined): boolean {
+    if (!recurrence) {
+        return true;
+    }
+
+    return (
+        !!startTime &&
+        !!endTime &&
+        isRecurrenceIntervalValid(recurrence.interval) &&
+        isRecurrenceDurationValid(recurrence, startTime, endTime) &&
+        (recurrence.frequency !== "monthly" || isRecurrenceDayOfMonthValid(recurrence.dayOfMonth!))
+    );
+}
+
+function isRecurrenceDirty(originalRecurrence: IBugBashRecurrence | undefined, updatedRecurrence: IBugBashRecurrence | undefined): boolean {
+    if (!originalRecurrence || !updatedRecurrence) {
+        return originalRecurrence !== updatedRecurrence;
+    }
+    return (
+        originalRecurrence.frequency !== updatedRecurrence.frequency ||
+        originalRecurrence.interval !== updatedRecurrence.interval ||
+        originalRecurrence.dayOfMonth !== updatedRecurrence.dayOfMonth
+    );
+}
+
 function isTeamValid(state: ITeamAwareState, teamId: string | undefined): boolean {
     return !teamId || getTeam(state, teamId) !== undefined;
 }
@@ -8,7 +8,10 @@ export const BugBashEditorActions = {
     initializeDraft: (draftBugBash: IBugBash) => createAction(BugBashEditorActionTypes.InitializeDraft, draftBugBash),
     updateDraft: (draftBugBash: IBugBash) => createAction(BugBashEditorActionTypes.UpdateDraft, draftBugBash),
     requestDraftSave: (bugBashId: string | undefined) => createAction(BugBashEditorActionTypes.RequestDraftSave, bugBashId),
-    draftSaveSucceeded: (bugBash: IBugBash) => createAction(BugBashEditorActionTypes.DraftSaveSucceeded, bugBash)
+    draftSaveSucceeded: (bugBash: IBugBash) => createAction(BugBashEditorActionTypes.DraftSaveSucceeded, bugBash),
+    draftConflictDetected: (latestBugBash: IBugBash) => createAction(BugBashEditorActionTypes.DraftConflictDetected, latestBugBash),
+    resolveDraftConflict: (mergedBugBash: IBugBash) => createAction(BugBashEditorActionTypes.ResolveDraftConflict, mergedBugBash),
+    dismissDraftConflict: (bugBashId: string) => createAction(BugBashEditorActionTypes.DismissDraftConflict, bugBashId)
 };
 
 export const enum BugBashEditorActionTypes {
@@ -17,7 +20,10 @@ export const enum BugBashEditorActionTypes {
     InitializeDraft = "BugBashEditor/InitializeDraft",
     UpdateDraft = "BugBashEditor/UpdateDraft",
     RequestDraftSave = "BugBashEditor/RequestDraftSave",
-    DraftSaveSucceeded = "BugBashEditor/DraftSaveSucceeded"
+    DraftSaveSucceeded = "BugBashEditor/DraftSaveSucceeded",
+    DraftConflictDetected = "BugBashEditor/DraftConflictDetected",
+    ResolveDraftConflict = "BugBashEditor/ResolveDraftConflict",
+    DismissDraftConflict = "BugBashEditor/DismissDraftConflict"
 }
 
 export type BugBashEditorActions = ActionsUnion<typeof BugBashEditorActions>;
@@ -12,4 +12,8 @@ export interface IBugBashEditorState {
 export interface IDraftBugBash extends IChangeableValue<IBugBash | undefined> {
     isSaving?: boolean;
     initializeError?: string;
+    /**
+     * Latest saved version of the bug bash, set when saving the draft failed because someone else changed it in the meantime
+     */
+    conflictValue?: IBugBash;
 }
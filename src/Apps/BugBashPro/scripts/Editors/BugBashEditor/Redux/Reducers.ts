@@ -54,6 +54,46 @@ export function bugBashEditorReducer(state: IBugBashEditorState | undefined, act
                 break;
             }
 
+            case BugBashEditorActionTypes.DraftConflictDetected: {
+                const latestBugBash = action.payload;
+                const id = resolveNullableMapKey(latestBugBash.id);
+                if (draft.draftBugBashMap[id]) {
+                    draft.draftBugBashMap[id].conflictValue = { ...latestBugBash };
+                }
+                break;
+            }
+
+            case BugBashEditorActionTypes.ResolveDraftConflict: {
+                const mergedBugBash = action.payload;
+                const id = resolveNullableMapKey(mergedBugBash.id);
+                const draftBugBash = draft.draftBugBashMap[id];
+                if (draftBugBash && draftBugBash.conflictValue) {
+                    // the latest version becomes the base, so that the merged draft is saved on top of it
+                    draftBugBash.originalValue = draftBugBash.conflictValue;
+                    draftBugBash.draftValue = { ...mergedBugBash };
+                    draftBugBash.conflictValue = undefined;
+                }
+                break;
+            }
+
+            case BugBashEditorActionTypes.DismissDraftConflict: {
+                const id = resolveNullableMapKey(action.payload);
+                if (draft.draftBugBashMap[id]) {
+                    draft.draftBugBashMap[id].conflictValue = undefined;
+                }
+                break;
+            }
+
+            case BugBashesActionTypes.BugBashCreateFailed:
+            case BugBashesActionTypes.BugBashUpdateFailed: {
+                const { bugBash } = action.payload;
+                const id = resolveNullableMapKey(bugBash.id);
+                if (draft.draftBugBashMap[id]) {
+                    draft.draftBugBashMap[id].isSaving = false;
+                }
+                break;
+            }
+
             case BugBashesActionTypes.BeginCreateBugBash:
             case BugBashesActionTypes.BeginUpdateBugBash: {
                 const bugBash = action.payload;
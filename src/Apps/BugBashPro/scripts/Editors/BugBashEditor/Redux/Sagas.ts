@@ -2,6 +2,7 @@ import { equals } from "azure-devops-ui/Core/Util/String";
 import { BugBashPortalActions } from "BugBashPro/Portals/BugBashPortal/Redux/Actions";
 import { Resources } from "BugBashPro/Resources";
 import { IBugBash } from "BugBashPro/Shared/Contracts";
+import { isBugBashOwner } from "BugBashPro/Shared/Helpers";
 import { navigateToBugBashItemsList } from "BugBashPro/Shared/NavHelpers";
 import { BugBashesActions, BugBashesActionTypes } from "BugBashPro/Shared/Redux/BugBashes/Actions";
 import { getBugBash } from "BugBashPro/Shared/Redux/BugBashes/Selectors";
@@ -32,26 +33,11 @@ function* requestDraftInitialize(action: ActionsOfType<BugBashEditorActions, Bug
     } else {
         const existingBugBash: RT<typeof getBugBash> = yield select(getBugBash, bugBashId);
         if (existingBugBash && readFromCache) {
-            yield put(BugBashEditorActions.initializeDraft(existingBugBash));
+            yield call(initializeExistingDraft, existingBugBash);
         } else {
-            yield put(BugBashesActions.bugBashLoadRequested(bugBashId));
-            const loadedAction: ActionsOfType<
-                BugBashesActions,
-                BugBashesActionTypes.BugBashLoaded | BugBashesActionTypes.BugBashLoadFailed
-            > = yield take(
-                (action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashLoaded | BugBashesActionTypes.BugBashLoadFailed>): boolean => {
-                    if (action.type === BugBashesActionTypes.BugBashLoaded && equals(action.payload.id!, bugBashId, true)) {
-                        return true;
-                    } else if (action.type === BugBashesActionTypes.BugBashLoadFailed && equals(action.payload.bugBashId, bugBashId, true)) {
-                        return true;
-                    } else {
-                        return false;
-                    }
-                }
-            );
-
+            const loadedAction: BugBashLoadedAction = yield call(loadBugBash, bugBashId);
             if (loadedAction.type === BugBashesActionTypes.BugBashLoaded) {
-                yield put(BugBashEditorActions.initializeDraft(loadedAction.payload));
+                yield call(initializeExistingDraft, loadedAction.payload);
             } else {
                 const error = loadedAction.payload.error;
                 yield put(BugBashEditorActions.draftInitializeFailed(bugBashId, error));
@@ -60,6 +46,31 @@ function* requestDraftInitialize(action: ActionsOfType<BugBashEditorActions, Bug
     }
 }
 
+type BugBashLoadedAction = ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashLoaded | BugBashesActionTypes.BugBashLoadFailed>;
+
+function* loadBugBash(bugBashId: string): SagaIterator {
+    yield put(BugBashesActions.bugBashLoadRequested(bugBashId));
+    const loadedAction: BugBashLoadedAction = yield take((action: BugBashLoadedAction): boolean => {
+        if (action.type === BugBashesActionTypes.BugBashLoaded && equals(action.payload.id!, bugBashId, true)) {
+            return true;
+        } else if (action.type === BugBashesActionTypes.BugBashLoadFailed && equals(action.payload.bugBashId, bugBashId, true)) {
+            return true;
+        } else {
+            return false;
+        }
+    });
+
+    return loadedAction;
+}
+
+function* initializeExistingDraft(bugBash: IBugBash): SagaIterator {
+    if (isBugBashOwner(bugBash)) {
+        yield put(BugBashEditorActions.initializeDraft(bugBash));
+    } else {
+        yield put(BugBashEditorActions.draftInitializeFailed(bugBash.id!, Resources.BugBashEditNotAllowed));
+    }
+}
+
 function* requestDraftSave(action: ActionsOfType<BugBashEditorActions, BugBashEditorActionTypes.RequestDraftSave>): SagaIterator {
     const bugBashId = action.payload;
 
@@ -133,6 +144,12 @@ function* requestDraftUpdate(draftBugBash: IBugBash) {
     if (itemUpdatedAction.type === BugBashesActionTypes.BugBashUpdated) {
         yield put(BugBashEditorActions.draftSaveSucceeded(itemUpdatedAction.payload));
         yield put(KeyValuePairActions.pushEntry(BugBashEditorNotificationKey, "Saved"));
+    } else if (itemUpdatedAction.payload.isConflict) {
+        // the latest version is loaded, so that the user can merge their changes into it instead of losing them
+        const loadedAction: BugBashLoadedAction = yield call(loadBugBash, draftBugBash.id!);
+        if (loadedAction.type === BugBashesActionTypes.BugBashLoaded) {
+            yield put(BugBashEditorActions.draftConflictDetected(loadedAction.payload));
+        }
     }
 }
 
@@ -35,6 +35,17 @@ export const getOriginalBugBash = (state: IBugBashEditorAwareState, bugBashId: s
     );
 };
 
+export const getDraftConflictBugBash = (state: IBugBashEditorAwareState, bugBashId: string | undefined): IBugBash | undefined => {
+    const bugBashEditorState = getBugBashEditorState(state);
+    const id = resolveNullableMapKey(bugBashId);
+    return (
+        bugBashEditorState &&
+        bugBashEditorState.draftBugBashMap &&
+        bugBashEditorState.draftBugBashMap[id] &&
+        bugBashEditorState.draftBugBashMap[id].conflictValue
+    );
+};
+
 export const isDraftSaving = (state: IBugBashEditorAwareState, bugBashId: string | undefined): boolean => {
     const bugBashEditorState = getBugBashEditorState(state);
     const id = resolveNullableMapKey(bugBashId);
@@ -0,0 +1,119 @@
+import "./AcceptAsExistingDialog.scss";
+
+import * as React from "react";
+
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { Checkbox } from "azure-devops-ui/Checkbox";
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { Spinner, SpinnerSize } from "azure-devops-ui/Spinner";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { searchWorkItemsAsync } from "BugBashPro/Shared/Redux/BugBashItems/DataSource";
+import { TextField } from "Common/Components/TextField";
+import { CoreFieldRefNames } from "Common/Constants";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
+
+import { WorkItemSearchDelay, WorkItemSearchMaxCount } from "../Constants";
+
+interface IAcceptAsExistingDialogProps {
+    onAccept: (workItemId: number, addLink: boolean) => void;
+    onDismiss: () => void;
+}
+
+export function AcceptAsExistingDialog(props: IAcceptAsExistingDialogProps) {
+    const { onAccept, onDismiss } = props;
+    const [searchText, setSearchText] = React.useState("");
+    const [results, setResults] = React.useState<WorkItem[] | undefined>(undefined);
+    const [isSearching, setSearching] = React.useState(false);
+    const [selectedWorkItemId, setSelectedWorkItemId] = React.useState<number | undefined>(undefined);
+    const [addLink, setAddLink] = React.useState(true);
+
+    React.useEffect(() => {
+        if (isNullOrWhiteSpace(searchText)) {
+            setResults(undefined);
+            return;
+        }
+
+        // only the latest search is applied, results of searches that were superseded while in flight are ignored
+        let isCancelled = false;
+        const timer = setTimeout(async () => {
+            setSearching(true);
+            let workItems: WorkItem[];
+            try {
+                workItems = await searchWorkItemsAsync(searchText, WorkItemSearchMaxCount);
+            } catch {
+                workItems = [];
+            }
+            if (!isCancelled) {
+                setResults(workItems);
+                setSearching(false);
+            }
+        }, WorkItemSearchDelay);
+
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchText]);
+
+    const onAcceptClick = React.useCallback(() => {
+        if (selectedWorkItemId) {
+            onAccept(selectedWorkItemId, addLink);
+        }
+    }, [selectedWorkItemId, addLink, onAccept]);
+
+    const renderResult = (workItem: WorkItem) => {
+        const { fields } = workItem;
+        return (
+            <div
+                key={workItem.id}
+                className={css("work-item-search-result flex-row flex-center", workItem.id === selectedWorkItemId && "selected")}
+                onClick={() => setSelectedWorkItemId(workItem.id)}
+            >
+                <span className="work-item-search-result-id flex-noshrink font-size-s">{`${fields[CoreFieldRefNames.WorkItemType]} ${
+                    workItem.id
+                }`}</span>
+                <span className="work-item-search-result-title flex-grow text-ellipsis">{fields[CoreFieldRefNames.Title]}</span>
+                <span className="work-item-search-result-state flex-noshrink font-size-s">{fields[CoreFieldRefNames.State]}</span>
+            </div>
+        );
+    };
+
+    return (
+        <Dialog
+            className="accept-as-existing-dialog"
+            titleProps={{ text: Resources.AcceptAsExistingDialogTitle, size: TitleSize.Medium }}
+            defaultActiveElement=".work-item-search-input"
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Accept,
+                    primary: true,
+                    disabled: !selectedWorkItemId,
+                    onClick: onAcceptClick
+                }
+            ]}
+        >
+            <div className="accept-as-existing-info font-size-s">{Resources.AcceptAsExisting_Info}</div>
+            <TextField
+                inputClassName="work-item-search-input"
+                placeholder={Resources.WorkItemSearch_Placeholder}
+                value={searchText}
+                onChange={setSearchText}
+            />
+            <div className="work-item-search-results flex-column">
+                {isSearching && <Spinner size={SpinnerSize.small} />}
+                {!isSearching && results && results.map(renderResult)}
+                {!isSearching && results && results.length === 0 && (
+                    <div className="work-item-search-no-results font-size-s">{Resources.WorkItemSearch_NoResults}</div>
+                )}
+            </div>
+            <Checkbox label={Resources.AddLinkToBugBashItem} checked={addLink} onChange={(_, checked: boolean) => setAddLink(checked)} />
+        </Dialog>
+    );
+}
@@ -0,0 +1,152 @@
+import "./AttachmentsList.scss";
+
+import * as React from "react";
+
+import { Button } from "azure-devops-ui/Button";
+import { Icon } from "azure-devops-ui/Icon";
+import { Link } from "azure-devops-ui/Link";
+import { Spinner, SpinnerSize } from "azure-devops-ui/Spinner";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashItemAttachment } from "BugBashPro/Shared/Contracts";
+import { uploadAttachmentAsync } from "BugBashPro/Shared/Redux/BugBashItems/DataSource";
+import { LabelledComponent } from "Common/Components/LabelledComponent";
+
+import { AttachmentMaxSize } from "../Constants";
+
+interface IAttachmentsListProps {
+    className?: string;
+    attachments: IBugBashItemAttachment[];
+    disabled?: boolean;
+    onAdd: (attachments: IBugBashItemAttachment[]) => void;
+    onRemove: (attachment: IBugBashItemAttachment) => void;
+    onError: (error: string) => void;
+}
+
+export function AttachmentsList(props: IAttachmentsListProps) {
+    const { className, attachments, disabled, onAdd, onRemove, onError } = props;
+    const [isUploading, setUploading] = React.useState(false);
+    const [isDragOver, setDragOver] = React.useState(false);
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+    const isDisabled = disabled || isUploading;
+
+    const uploadFiles = async (files: File[]) => {
+        const validFiles = files.filter((file) => {
+            if (file.size > AttachmentMaxSize) {
+                onError(`"${file.name}" ${Resources.AttachmentTooLargeError}`);
+                return false;
+            }
+            return true;
+        });
+
+        if (validFiles.length === 0) {
+            return;
+        }
+
+        setUploading(true);
+        // upload each file independently so that one failed upload does not discard the others
+        const results = await Promise.all(
+            validFiles.map(async (file) => {
+                try {
+                    return await uploadAttachmentAsync(file);
+                } catch (e) {
+                    onError(e.message);
+                    return undefined;
+                }
+            })
+        );
+        setUploading(false);
+
+        const uploadedAttachments = results.filter((a) => !!a) as IBugBashItemAttachment[];
+        if (uploadedAttachments.length > 0) {
+            onAdd(uploadedAttachments);
+        }
+    };
+
+    const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files ? Array.from(e.target.files) : [];
+        // reset the input so that the same file can be picked again
+        e.target.value = "";
+        uploadFiles(files);
+    };
+    const onDropZoneClick = () => {
+        if (!isDisabled && fileInputRef.current) {
+            fileInputRef.current.click();
+        }
+    };
+    const onDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        if (!isDisabled) {
+            setDragOver(true);
+        }
+    };
+    const onDragLeave = () => setDragOver(false);
+    const onDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setDragOver(false);
+        if (!isDisabled && e.dataTransfer.files) {
+            uploadFiles(Array.from(e.dataTransfer.files));
+        }
+    };
+
+    return (
+        <LabelledComponent className={css("attachments-list", className)} label={Resources.Attachments_Label} info={Resources.Attachments_LabelInfo}>
+            <div className="flex-column">
+                {attachments.map((attachment) => (
+                    <div key={attachment.id} className="attachment flex-row flex-center">
+                        <Icon className="attachment-icon flex-noshrink" iconName="Attach" />
+                        <div className="attachment-name flex-grow">
+                            <Link
+                                className="text-ellipsis"
+                                href={`${attachment.url}?fileName=${encodeURIComponent(attachment.fileName)}`}
+                                target="_blank"
+                            >
+                                {attachment.fileName}
+                            </Link>
+                        </div>
+                        <span className="attachment-size flex-noshrink font-size-s">{getSizeText(attachment.size)}</span>
+                        <Button
+                            className="error-text flex-noshrink"
+                            subtle={true}
+                            disabled={isDisabled}
+                            onClick={() => onRemove(attachment)}
+                            iconProps={{ iconName: "Cancel" }}
+                            tooltipProps={{ text: Resources.RemoveAttachment }}
+                        />
+                    </div>
+                ))}
+                <div
+                    className={css("attachments-drop-zone flex-row flex-center justify-center", isDragOver && "drag-over", isDisabled && "disabled")}
+                    onClick={onDropZoneClick}
+                    onDragOver={onDragOver}
+                    onDragLeave={onDragLeave}
+                    onDrop={onDrop}
+                >
+                    {isUploading ? (
+                        <Spinner size={SpinnerSize.small} label={Resources.UploadingAttachments} />
+                    ) : (
+                        <span className="font-size-s">{Resources.AddAttachments}</span>
+                    )}
+                    <input
+                        ref={fileInputRef}
+                        className="attachments-file-input"
+                        type="file"
+                        multiple={true}
+                        disabled={isDisabled}
+                        onChange={onFileChange}
+                    />
+                </div>
+            </div>
+        </LabelledComponent>
+    );
+}
+
+function getSizeText(size: number): string {
+    if (size < 1024) {
+        return `${size} B`;
+    } else if (size < 1024 * 1024) {
+        return `${Math.round(size / 1024)} KB`;
+    } else {
+        return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+    }
+}
@@ -0,0 +1,141 @@
+import "./BugBashItemConflictDialog.scss";
+
+import * as React from "react";
+
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { useFields } from "Common/AzDev/Fields/Hooks/useFields";
+import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
+
+import { getBugBashItemConflictKeys, getFieldRefNameFromConflictKey, isConflictKeyChangedInDraft, mergeBugBashItem } from "../Helpers";
+
+interface IBugBashItemConflictDialogProps {
+    draftBugBashItem: IBugBashItem;
+    originalBugBashItem: IBugBashItem;
+    latestBugBashItem: IBugBashItem;
+    onResolve: (mergedBugBashItem: IBugBashItem) => void;
+    onDismiss: () => void;
+}
+
+export function BugBashItemConflictDialog(props: IBugBashItemConflictDialogProps) {
+    const { draftBugBashItem, originalBugBashItem, latestBugBashItem, onResolve, onDismiss } = props;
+    const { teamsMap } = useTeams();
+    const { fieldsMap } = useFields();
+
+    const conflictKeys = React.useMemo(() => getBugBashItemConflictKeys(draftBugBashItem, latestBugBashItem), [draftBugBashItem, latestBugBashItem]);
+
+    // parts the user changed default to their own value, parts only changed by someone else default to the latest value
+    const [draftKeysMap, setDraftKeysMap] = React.useState(() => {
+        const map: { [conflictKey: string]: boolean } = {};
+        for (const key of conflictKeys) {
+            map[key] = isConflictKeyChangedInDraft(draftBugBashItem, originalBugBashItem, key);
+        }
+        return map;
+    });
+
+    const onResolveClick = React.useCallback(() => {
+        onResolve(
+            mergeBugBashItem(
+                draftBugBashItem,
+                latestBugBashItem,
+                conflictKeys.filter((key) => draftKeysMap[key])
+            )
+        );
+    }, [draftBugBashItem, latestBugBashItem, conflictKeys, draftKeysMap, onResolve]);
+
+    const getLabel = (conflictKey: string): string => {
+        const fieldRefName = getFieldRefNameFromConflictKey(conflictKey);
+        if (fieldRefName) {
+            const field = fieldsMap && fieldsMap[fieldRefName.toLowerCase()];
+            return field ? field.name : fieldRefName;
+        }
+
+        switch (conflictKey) {
+            case "title":
+                return Resources.Title_Label;
+            case "teamId":
+                return Resources.AssignedToTeam_Label;
+            case "severity":
+                return Resources.Severity_Label;
+            case "priority":
+                return Resources.Priority_Label;
+            case "rejected":
+                return Resources.Rejection_Label;
+            case "description":
+                return Resources.Description_Label;
+            default:
+                return Resources.Attachments_Label;
+        }
+    };
+
+    const renderValue = (bugBashItem: IBugBashItem, conflictKey: string): React.ReactNode => {
+        const fieldRefName = getFieldRefNameFromConflictKey(conflictKey);
+        let value: string | undefined;
+        if (fieldRefName) {
+            const fieldValue = (bugBashItem.fieldValues || {})[fieldRefName];
+            value = fieldValue == null ? undefined : fieldValue.toString();
+        } else if (conflictKey === "description") {
+            return <div className="conflict-value-html" dangerouslySetInnerHTML={{ __html: bugBashItem.description || "" }} />;
+        } else if (conflictKey === "teamId") {
+            const team = teamsMap && bugBashItem.teamId && teamsMap[bugBashItem.teamId.toLowerCase()];
+            value = team ? team.name : bugBashItem.teamId;
+        } else if (conflictKey === "rejected") {
+            value = bugBashItem.rejected ? `${Resources.Rejected}: ${bugBashItem.rejectReason || ""}` : Resources.NotRejected;
+        } else if (conflictKey === "attachments") {
+            value = (bugBashItem.attachments || []).map((a) => a.fileName).join(", ");
+        } else {
+            value = bugBashItem[conflictKey as "title" | "severity" | "priority"];
+        }
+
+        return value ? <span>{value}</span> : <span className="conflict-value-empty">{Resources.EmptyValue}</span>;
+    };
+
+    const renderOption = (conflictKey: string, keepDraft: boolean) => {
+        const isSelected = !!draftKeysMap[conflictKey] === keepDraft;
+        return (
+            <div
+                className={css("conflict-option flex-column flex-grow", isSelected && "selected")}
+                onClick={() => setDraftKeysMap({ ...draftKeysMap, [conflictKey]: keepDraft })}
+            >
+                <span className="conflict-option-header font-size-s">{keepDraft ? Resources.YourChange : Resources.LatestVersion}</span>
+                {renderValue(keepDraft ? draftBugBashItem : latestBugBashItem, conflictKey)}
+            </div>
+        );
+    };
+
+    return (
+        <Dialog
+            className="bugbash-item-conflict-dialog"
+            titleProps={{ text: Resources.ConflictDialogTitle, size: TitleSize.Medium }}
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Save,
+                    primary: true,
+                    onClick: onResolveClick
+                }
+            ]}
+        >
+            <div className="conflict-info font-size-s">{Resources.Conflict_Info}</div>
+            <div className="conflicts flex-column">
+                {conflictKeys.length === 0 && <div className="font-size-s">{Resources.NoConflicts}</div>}
+                {conflictKeys.map((key) => (
+                    <div key={key} className="conflict flex-column">
+                        <span className="conflict-label font-weight-semibold">{getLabel(key)}</span>
+                        <div className="flex-row">
+                            {renderOption(key, true)}
+                            {renderOption(key, false)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </Dialog>
+    );
+}
@@ -3,20 +3,28 @@ import "./BugBashItemEditor.scss";
 import * as React from "react";
 
 import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { Button } from "azure-devops-ui/Button";
 import { Checkbox } from "azure-devops-ui/Checkbox";
 import { ContentSize } from "azure-devops-ui/Components/Callout/Callout.Props";
 import { ConditionalChildren } from "azure-devops-ui/ConditionalChildren";
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { CustomHeader, HeaderTitleArea } from "azure-devops-ui/Header";
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
 import { CustomPanel, Panel, PanelCloseButton, PanelContent, PanelFooter } from "azure-devops-ui/Panel";
 import { Status, Statuses, StatusSize } from "azure-devops-ui/Status";
 import { ZeroData } from "azure-devops-ui/ZeroData";
 import { Resources } from "BugBashPro/Resources";
 import { BugBashRichEditor } from "BugBashPro/Shared/Components/BugBashRichEditor";
-import { IBugBashItem } from "BugBashPro/Shared/Contracts";
-import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
+import { IdentityListEditor } from "BugBashPro/Shared/Components/IdentityListEditor";
+import { BugBashItemPriorities, BugBashItemSeverities } from "BugBashPro/Shared/Constants";
+import { IBugBashItem, IBugBashItemAttachment } from "BugBashPro/Shared/Contracts";
+import { canEditBugBashItem, isBugBashClosed, isBugBashItemAccepted, isBugBashTriager } from "BugBashPro/Shared/Helpers";
 import { useBugBash } from "BugBashPro/Shared/Hooks/useBugBash";
 import { getCommentsModule } from "BugBashPro/Shared/Redux/Comments/Module";
+import { WorkItemFieldValuePicker } from "Common/AzDev/Fields/Components/WorkItemFieldValuePicker";
+import { useFields } from "Common/AzDev/Fields/Hooks/useFields";
+import { getFieldModule } from "Common/AzDev/Fields/Redux/Module";
 import { getTeamFieldModule } from "Common/AzDev/TeamFields/Redux/Module";
 import { TeamPicker } from "Common/AzDev/Teams/Components/TeamPicker";
 import { ITeamAwareState } from "Common/AzDev/Teams/Redux/Contracts";
@@ -24,6 +32,7 @@ import { getWorkItemTemplateModule } from "Common/AzDev/WorkItemTemplates/Redux/
 import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
 import { Loading } from "Common/Components/Loading";
 import { Mousetrapped } from "Common/Components/Mousetrapped";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
 import { TextField } from "Common/Components/TextField";
 import { useActionCreators } from "Common/Hooks/useActionCreators";
 import { useMappedState } from "Common/Hooks/useMappedState";
@@ -39,8 +48,22 @@ import { BugBashItemEditorErrorKey, BugBashItemEditorNotificationKey, TitleField
 import { BugBashItemEditorActions } from "../Redux/Actions";
 import { IBugBashItemEditorAwareState } from "../Redux/Contracts";
 import { getBugBashItemEditorModule } from "../Redux/Module";
-import { getDraftBugBashItem, getDraftComment, getDraftInitializeError, isDraftDirty, isDraftSaving, isDraftValid } from "../Redux/Selectors";
+import {
+    getDraftBugBashItem,
+    getDraftComment,
+    getDraftCommentMentions,
+    getDraftConflictBugBashItem,
+    getDraftInitializeError,
+    getOriginalBugBashItem,
+    isDraftDirty,
+    isDraftSaving,
+    isDraftValid
+} from "../Redux/Selectors";
+import { AcceptAsExistingDialog } from "./AcceptAsExistingDialog";
+import { AttachmentsList } from "./AttachmentsList";
+import { BugBashItemConflictDialog } from "./BugBashItemConflictDialog";
 import { CommentsList } from "./CommentsList";
+import { PossibleDuplicatesList } from "./PossibleDuplicatesList";
 
 interface IBugBashItemEditorPanelOwnProps {
     bugBashId: string;
@@ -51,7 +74,10 @@ interface IBugBashItemEditorPanelOwnProps {
 
 interface IBugBashItemEditorPanelStateProps {
     draftBugBashItem?: IBugBashItem;
+    originalBugBashItem?: IBugBashItem;
+    conflictBugBashItem?: IBugBashItem;
     draftComment?: string;
+    draftCommentMentions?: IdentityRef[];
     draftInitializeError?: string;
     isValid: boolean;
     isDirty: boolean;
@@ -62,8 +88,14 @@ const Actions = {
     requestDraftSave: BugBashItemEditorActions.requestDraftSave,
     updateDraft: BugBashItemEditorActions.updateDraft,
     updateDraftComment: BugBashItemEditorActions.updateDraftComment,
+    updateDraftCommentMentions: BugBashItemEditorActions.updateDraftCommentMentions,
     requestDraftInitialize: BugBashItemEditorActions.requestDraftInitialize,
+    discardDraft: BugBashItemEditorActions.discardDraft,
+    resolveDraftConflict: BugBashItemEditorActions.resolveDraftConflict,
+    dismissDraftConflict: BugBashItemEditorActions.dismissDraftConflict,
     requestDraftAccept: BugBashItemEditorActions.requestDraftAccept,
+    requestDraftAcceptAsExisting: BugBashItemEditorActions.requestDraftAcceptAsExisting,
+    requestDraftMarkAsDuplicate: BugBashItemEditorActions.requestDraftMarkAsDuplicate,
     pushError: KeyValuePairActions.pushEntry
 };
 
@@ -73,7 +105,10 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
         (state: IBugBashItemEditorAwareState & ITeamAwareState): IBugBashItemEditorPanelStateProps => {
             return {
                 draftBugBashItem: getDraftBugBashItem(state, bugBashItemId),
+                originalBugBashItem: getOriginalBugBashItem(state, bugBashItemId),
+                conflictBugBashItem: getDraftConflictBugBashItem(state, bugBashItemId),
                 draftComment: getDraftComment(state, bugBashItemId),
+                draftCommentMentions: getDraftCommentMentions(state, bugBashItemId),
                 draftInitializeError: getDraftInitializeError(state, bugBashItemId),
                 isValid: isDraftValid(state, bugBashItemId),
                 isDirty: isDraftDirty(state, bugBashItemId),
@@ -82,14 +117,43 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
         },
         [bugBashItemId]
     );
-    const { draftBugBashItem, isValid, isDirty, draftComment, isSaving, draftInitializeError } = useMappedState(mapState);
-    const { requestDraftSave, updateDraft, updateDraftComment, requestDraftInitialize, requestDraftAccept, pushError } = useActionCreators(Actions);
+    const {
+        draftBugBashItem,
+        originalBugBashItem,
+        conflictBugBashItem,
+        isValid,
+        isDirty,
+        draftComment,
+        draftCommentMentions,
+        isSaving,
+        draftInitializeError
+    } = useMappedState(mapState);
+    const {
+        requestDraftSave,
+        updateDraft,
+        updateDraftComment,
+        updateDraftCommentMentions,
+        requestDraftInitialize,
+        discardDraft,
+        resolveDraftConflict,
+        dismissDraftConflict,
+        requestDraftAccept,
+        requestDraftAcceptAsExisting,
+        requestDraftMarkAsDuplicate,
+        pushError
+    } = useActionCreators(Actions);
+    const [isAcceptAsExistingDialogOpen, setAcceptAsExistingDialogOpen] = React.useState(false);
     const { bugBash } = useBugBash(bugBashId);
+    const { fieldsMap } = useFields();
 
     if (!bugBash) {
         throw new Error(`BugBash ${bugBashId} has not been loaded yet`);
     }
 
+    // uploads finish asynchronously, so attachment changes are applied on top of the latest draft
+    const latestDraftBugBashItem = React.useRef(draftBugBashItem);
+    latestDraftBugBashItem.current = draftBugBashItem;
+
     const throttledOnDraftChanged = useThrottle(updateDraft, 200);
     const throttledOnDraftCommentChanged = useThrottle(updateDraftComment, 200);
 
@@ -103,13 +167,14 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
         if (isDirty) {
             confirmAction(Resources.ConfirmPanelTitle, Resources.ConfirmPanelClose_Content, (ok: boolean) => {
                 if (ok) {
+                    discardDraft(bugBashId, bugBashItemId);
                     onDismiss();
                 }
             });
         } else {
             onDismiss();
         }
-    }, [isDirty, onDismiss]);
+    }, [isDirty, onDismiss, bugBashId, bugBashItemId]);
 
     const onImageUploadError = React.useCallback((error: string) => {
         pushError(BugBashItemEditorErrorKey, error);
@@ -120,6 +185,31 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
     const acceptBugBashItem = React.useCallback(() => {
         requestDraftAccept(bugBash, bugBashItemId);
     }, [bugBash, bugBashItemId]);
+    const resolveConflict = React.useCallback(
+        (mergedBugBashItem: IBugBashItem) => {
+            resolveDraftConflict(mergedBugBashItem);
+            requestDraftSave(bugBash, bugBashItemId);
+        },
+        [bugBash, bugBashItemId]
+    );
+    const dismissConflict = React.useCallback(() => {
+        dismissDraftConflict(bugBashItemId!);
+    }, [bugBashItemId]);
+    const openAcceptAsExistingDialog = React.useCallback(() => setAcceptAsExistingDialogOpen(true), []);
+    const closeAcceptAsExistingDialog = React.useCallback(() => setAcceptAsExistingDialogOpen(false), []);
+    const acceptBugBashItemAsExisting = React.useCallback(
+        (workItemId: number, addLink: boolean) => {
+            setAcceptAsExistingDialogOpen(false);
+            requestDraftAcceptAsExisting(bugBash, bugBashItemId!, workItemId, addLink);
+        },
+        [bugBash, bugBashItemId]
+    );
+    const markAsDuplicate = React.useCallback(
+        (originalBugBashItemId: string, originalTitle: string) => {
+            requestDraftMarkAsDuplicate(bugBash, bugBashItemId!, originalBugBashItemId, originalTitle);
+        },
+        [bugBash, bugBashItemId]
+    );
 
     if (!draftBugBashItem) {
         return (
@@ -146,12 +236,22 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
 
     const panelTitle = bugBashItemId ? Resources.EditBugBashItemPanelTitle : Resources.CreateBugBashItemPanelTitle;
     const isNew = isNullOrWhiteSpace(bugBashItemId);
+    const canTriage = isBugBashTriager(bugBash);
+    const isClosed = isBugBashClosed(bugBash, new Date());
+    const canEdit = isNew ? !isClosed : canEditBugBashItem(bugBash, draftBugBashItem);
 
     const onTitleChange = (value: string) => {
         throttledOnDraftChanged({ ...draftBugBashItem, title: value });
     };
     const onRejectChange = (_: unknown, checked?: boolean) =>
-        updateDraft({ ...draftBugBashItem, rejected: checked, rejectReason: "", rejectedBy: checked ? getCurrentUser() : undefined });
+        updateDraft({
+            ...draftBugBashItem,
+            rejected: checked,
+            rejectReason: "",
+            rejectedBy: checked ? getCurrentUser() : undefined,
+            rejectedDate: checked ? new Date() : undefined,
+            duplicateOfId: undefined
+        });
     const onRejectReasonChange = (value: string) => {
         throttledOnDraftChanged({ ...draftBugBashItem, rejectReason: value });
     };
@@ -160,9 +260,26 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
     };
     const onAssignedToTeamChange = (option: WebApiTeam, value?: string) =>
         updateDraft({ ...draftBugBashItem, teamId: option ? option.id : value || "" });
+    const onSeverityChange = (option?: string) => updateDraft({ ...draftBugBashItem, severity: option });
+    const onPriorityChange = (option?: string) => updateDraft({ ...draftBugBashItem, priority: option });
+    const onFieldValueChange = (fieldRefName: string, value: any) => {
+        throttledOnDraftChanged({ ...draftBugBashItem, fieldValues: { ...draftBugBashItem.fieldValues, [fieldRefName]: value } });
+    };
+    const onAttachmentsAdd = (attachments: IBugBashItemAttachment[]) => {
+        const latestDraft = latestDraftBugBashItem.current || draftBugBashItem;
+        updateDraft({ ...latestDraft, attachments: [...(latestDraft.attachments || []), ...attachments] });
+    };
+    const onAttachmentRemove = (attachment: IBugBashItemAttachment) =>
+        updateDraft({
+            ...draftBugBashItem,
+            attachments: (draftBugBashItem.attachments || []).filter((a) => !equals(a.id, attachment.id, true))
+        });
     const onCommentChange = (value: string) => {
         throttledOnDraftCommentChanged(bugBashItemId, value);
     };
+    const onCommentMentionsChange = (mentions: IdentityRef[]) => {
+        updateDraftCommentMentions(bugBashItemId, mentions);
+    };
 
     return (
         <Mousetrapped
@@ -189,7 +306,7 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
                             <ConditionalChildren renderChildren={bugBash.autoAccept}>
                                 <Status className="header-button" {...Statuses.Success} text="Auto accept on" size={StatusSize.l} animated={false} />
                             </ConditionalChildren>
-                            <ConditionalChildren renderChildren={!isNew && !bugBash.autoAccept}>
+                            <ConditionalChildren renderChildren={!isNew && !bugBash.autoAccept && canTriage}>
                                 <Button
                                     className="header-button"
                                     disabled={!isValid || isDirty || isSaving}
@@ -199,7 +316,17 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
                                     Accept
                                 </Button>
                             </ConditionalChildren>
-                            <ConditionalChildren renderChildren={!isNew && !bugBash.autoAccept}>
+                            <ConditionalChildren renderChildren={!isNew && !bugBash.autoAccept && canTriage}>
+                                <Button
+                                    className="header-button"
+                                    disabled={isDirty || isSaving}
+                                    onClick={openAcceptAsExistingDialog}
+                                    iconProps={{ iconName: "Link" }}
+                                >
+                                    {Resources.AcceptAsExisting}
+                                </Button>
+                            </ConditionalChildren>
+                            <ConditionalChildren renderChildren={!isNew && !bugBash.autoAccept && canTriage}>
                                 <Checkbox
                                     className="header-button"
                                     label="Rejected"
@@ -219,44 +346,102 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
                             onChange={onTitleChange}
                             required={true}
                             value={draftBugBashItem.title}
-                            disabled={isSaving}
+                            disabled={isSaving || !canEdit}
                             maxLength={TitleFieldMaxLength}
                         />
                         <ErrorMessageBox className="bugbash-item-edit-error" errorKey={BugBashItemEditorErrorKey} />
+                        <ConditionalChildren renderChildren={isClosed && !canEdit}>
+                            <MessageCard className="bugbash-item-closed-message" severity={MessageCardSeverity.Info}>
+                                {Resources.BugBashClosedMessage}
+                            </MessageCard>
+                        </ConditionalChildren>
                     </HeaderTitleArea>
                 </CustomHeader>
                 <PanelContent>
                     <div className="bugbash-item-editor-panel-contents flex-grow flex-column scroll-auto">
+                        <PossibleDuplicatesList
+                            bugBash={bugBash}
+                            draftBugBashItem={draftBugBashItem}
+                            disabled={isSaving}
+                            onMarkAsDuplicate={isNew || bugBash.autoAccept || !canTriage ? undefined : markAsDuplicate}
+                        />
                         <TeamPicker
                             className="bugbash-item-control"
                             selectedValue={draftBugBashItem.teamId || ""}
                             onChange={onAssignedToTeamChange}
                             required={true}
-                            disabled={isSaving}
+                            disabled={isSaving || !canEdit}
                             label="Assigned to team"
                             info="Select a team to assign this bug bash item to"
                         />
+                        <div className="bugbash-item-control flex-row">
+                            <DropdownPicker<string>
+                                className="bugbash-item-triage-control"
+                                label={Resources.Severity_Label}
+                                info={Resources.Severity_LabelInfo}
+                                options={BugBashItemSeverities}
+                                limitedToAllowedOptions={true}
+                                getDropdownItem={getTriageDropdownItem}
+                                selectedValue={draftBugBashItem.severity || ""}
+                                disabled={isSaving || !canTriage}
+                                onChange={onSeverityChange}
+                            />
+                            <DropdownPicker<string>
+                                className="bugbash-item-triage-control"
+                                label={Resources.Priority_Label}
+                                info={Resources.Priority_LabelInfo}
+                                options={BugBashItemPriorities}
+                                limitedToAllowedOptions={true}
+                                getDropdownItem={getTriageDropdownItem}
+                                selectedValue={draftBugBashItem.priority || ""}
+                                disabled={isSaving || !canTriage}
+                                onChange={onPriorityChange}
+                            />
+                        </div>
                         <ConditionalChildren renderChildren={!isNew && draftBugBashItem.rejected}>
                             <TextField
                                 className="bugbash-item-control"
                                 placeholder="Enter reject reason"
                                 label="Reject reason"
                                 info={`Rejected by ${draftBugBashItem.rejectedBy ? draftBugBashItem.rejectedBy.displayName : ""}`}
-                                disabled={isSaving}
+                                disabled={isSaving || !canTriage}
                                 onChange={onRejectReasonChange}
                                 value={draftBugBashItem.rejectReason || ""}
                                 maxLength={TitleFieldMaxLength}
                             />
                         </ConditionalChildren>
+                        {(bugBash.itemFields || []).map((fieldRefName) => {
+                            const field = fieldsMap && fieldsMap[fieldRefName.toLowerCase()];
+                            return (
+                                <WorkItemFieldValuePicker
+                                    key={fieldRefName}
+                                    className="bugbash-item-control"
+                                    fieldRefName={fieldRefName}
+                                    workItemTypeName={bugBash.workItemType}
+                                    label={field ? field.name : fieldRefName}
+                                    disabled={isSaving || !canEdit}
+                                    value={draftBugBashItem.fieldValues ? draftBugBashItem.fieldValues[fieldRefName] : undefined}
+                                    onChange={(value: any) => onFieldValueChange(fieldRefName, value)}
+                                />
+                            );
+                        })}
                         <BugBashRichEditor
                             bugBashId={draftBugBashItem.bugBashId}
                             className="bugbash-item-control"
                             label="Description"
-                            disabled={isSaving}
+                            disabled={isSaving || !canEdit}
                             value={draftBugBashItem.description || ""}
                             onChange={onDescriptionChange}
                             onImageUploadError={onImageUploadError}
                         />
+                        <AttachmentsList
+                            className="bugbash-item-control"
+                            attachments={draftBugBashItem.attachments || []}
+                            disabled={isSaving || !canEdit}
+                            onAdd={onAttachmentsAdd}
+                            onRemove={onAttachmentRemove}
+                            onError={onImageUploadError}
+                        />
                         <BugBashRichEditor
                             bugBashId={draftBugBashItem.bugBashId}
                             className="bugbash-item-control"
@@ -266,8 +451,15 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
                             onChange={onCommentChange}
                             onImageUploadError={onImageUploadError}
                         />
+                        <IdentityListEditor
+                            className="bugbash-item-control"
+                            placeholder={Resources.MentionPeople_Placeholder}
+                            identities={draftCommentMentions || []}
+                            disabled={isSaving}
+                            onChange={onCommentMentionsChange}
+                        />
                         <ConditionalChildren renderChildren={!isNew}>
-                            <CommentsList bugBashItemId={bugBashItemId!} />
+                            <CommentsList bugBashId={bugBashId} bugBashItemId={bugBashItemId!} disabled={isSaving} />
                         </ConditionalChildren>
                     </div>
                 </PanelContent>
@@ -284,15 +476,31 @@ function BugBashItemEditorPanelInternal(props: IBugBashItemEditorPanelOwnProps)
                         </Button>
                     </div>
                 </PanelFooter>
+                {conflictBugBashItem && originalBugBashItem && (
+                    <BugBashItemConflictDialog
+                        draftBugBashItem={draftBugBashItem}
+                        originalBugBashItem={originalBugBashItem}
+                        latestBugBashItem={conflictBugBashItem}
+                        onResolve={resolveConflict}
+                        onDismiss={dismissConflict}
+                    />
+                )}
+                {isAcceptAsExistingDialogOpen && (
+                    <AcceptAsExistingDialog onAccept={acceptBugBashItemAsExisting} onDismiss={closeAcceptAsExistingDialog} />
+                )}
             </CustomPanel>
         </Mousetrapped>
     );
 }
 
+function getTriageDropdownItem(value: string) {
+    return { id: value, text: value };
+}
+
 export function BugBashItemEditorPanel(props: IBugBashItemEditorPanelOwnProps) {
     return (
         <DynamicModuleLoader modules={[getBugBashItemEditorModule(), getCommentsModule()]} cleanOnUnmount={true}>
-            <DynamicModuleLoader modules={[getTeamFieldModule(), getWorkItemTemplateModule()]}>
+            <DynamicModuleLoader modules={[getTeamFieldModule(), getWorkItemTemplateModule(), getFieldModule()]}>
                 <BugBashItemEditorPanelInternal {...props} />
             </DynamicModuleLoader>
         </DynamicModuleLoader>
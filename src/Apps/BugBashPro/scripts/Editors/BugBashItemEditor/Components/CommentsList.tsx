@@ -2,44 +2,287 @@ import "./CommentsList.scss";
 
 import * as React from "react";
 
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
+import { Button } from "azure-devops-ui/Button";
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
+import { Tooltip } from "azure-devops-ui/TooltipEx";
+import { css } from "azure-devops-ui/Util";
 import { ago } from "azure-devops-ui/Utilities/Date";
+import { Resources } from "BugBashPro/Resources";
+import { BugBashRichEditor } from "BugBashPro/Shared/Components/BugBashRichEditor";
+import { IdentityListEditor } from "BugBashPro/Shared/Components/IdentityListEditor";
 import { IBugBashItemComment } from "BugBashPro/Shared/Contracts";
 import { useComments } from "BugBashPro/Shared/Hooks/useComments";
+import { useMentions } from "BugBashPro/Shared/Hooks/useMentions";
+import { CommentActions } from "BugBashPro/Shared/Redux/Comments/Actions";
+import { MentionActions } from "BugBashPro/Shared/Redux/Mentions/Actions";
+import { getMentionsModule } from "BugBashPro/Shared/Redux/Mentions/Module";
+import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
 import { IdentityView } from "Common/Components/IdentityView";
 import { Loading } from "Common/Components/Loading";
 import { LoadStatus } from "Common/Contracts";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
+import { arrayEquals } from "Common/Utilities/Array";
+import { isCurrentUser } from "Common/Utilities/Identity";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
+import * as format from "date-fns/format";
 
 interface ICommentsListProps {
+    bugBashId: string;
     bugBashItemId: string;
+    disabled?: boolean;
 }
 
-export function CommentsList(props: ICommentsListProps) {
-    const { bugBashItemId } = props;
-    const { comments, status } = useComments(bugBashItemId);
+interface ICommentThread {
+    comment: IBugBashItemComment;
+    replies: IBugBashItemComment[];
+}
+
+const Actions = {
+    createComment: CommentActions.commentCreateRequested,
+    updateComment: CommentActions.commentUpdateRequested,
+    deleteComment: CommentActions.commentDeleteRequested,
+    acknowledgeMentions: MentionActions.mentionsAcknowledgeRequested
+};
+
+function CommentsListInternal(props: ICommentsListProps) {
+    const { bugBashId, bugBashItemId, disabled } = props;
+    const { comments, status, error } = useComments(bugBashItemId);
+    const { mentions } = useMentions();
+    const { createComment, updateComment, deleteComment, acknowledgeMentions } = useActionCreators(Actions);
+    const [editingCommentId, setEditingCommentId] = React.useState<string | undefined>(undefined);
+    const [replyingToCommentId, setReplyingToCommentId] = React.useState<string | undefined>(undefined);
+
+    // mentions stay highlighted while the item is open and are marked as seen once it is closed
+    React.useEffect(() => {
+        return () => {
+            acknowledgeMentions(bugBashItemId);
+        };
+    }, [bugBashItemId]);
+
+    const threads = React.useMemo(() => getCommentThreads(comments || []), [comments]);
+    const mentionedCommentIds = React.useMemo(() => {
+        const map: { [commentId: string]: boolean } = {};
+        for (const mention of mentions || []) {
+            if (equals(mention.bugBashItemId, bugBashItemId, true)) {
+                map[mention.commentId.toLowerCase()] = true;
+            }
+        }
+        return map;
+    }, [mentions, bugBashItemId]);
 
     if (!comments || status === LoadStatus.Loading) {
         return <Loading />;
-    } else if (comments.length === 0) {
+    } else if (comments.length === 0 && !error) {
         return null;
-    } else {
-        return <div className="comments-container">{comments.map(renderComment)}</div>;
     }
+
+    const isUpdating = status === LoadStatus.Updating;
+    const onDeleteComment = (comment: IBugBashItemComment) => {
+        confirmAction(Resources.ConfirmDialogTitle, Resources.DeleteCommentConfirmation, (ok: boolean) => {
+            if (ok) {
+                deleteComment(bugBashItemId, comment.id!);
+            }
+        });
+    };
+
+    const renderComment = (comment: IBugBashItemComment, isReply: boolean) => {
+        const { createdBy, createdDate, modifiedDate, content, mentions: commentMentions, deleted } = comment;
+        const isEditing = !!editingCommentId && equals(editingCommentId, comment.id!, true);
+        const isOwnComment = isCurrentUser(createdBy);
+
+        return (
+            <div className="comment-item flex-row" key={`comment_${comment.id!}`}>
+                <div className="flex-noshrink comment-identity">
+                    <IdentityView value={createdBy} avatarOnly={true} size={isReply ? "small" : "medium"} />
+                </div>
+                <div className="flex-column flex-grow comment-content">
+                    <div className="flex-noshrink flex-row flex-center">
+                        <span className="comment-created-by font-size font-weight-semibold">{createdBy.displayName}</span>
+                        <span className="comment-created-date font-size-s">commented {ago(createdDate)}</span>
+                        {modifiedDate && !deleted && (
+                            <Tooltip text={format(modifiedDate, "M/D/YYYY h:mm aa")}>
+                                <span className="comment-edited font-size-s">{Resources.CommentEdited}</span>
+                            </Tooltip>
+                        )}
+                    </div>
+                    {isEditing ? (
+                        <CommentEditor
+                            bugBashId={bugBashId}
+                            initialText={content}
+                            initialMentions={commentMentions}
+                            saveText={Resources.Save}
+                            showMentions={true}
+                            onSave={(text: string, editedMentions: IdentityRef[]) => {
+                                updateComment(bugBashItemId, {
+                                    ...comment,
+                                    content: text,
+                                    mentions: editedMentions.length > 0 ? editedMentions : undefined
+                                });
+                                setEditingCommentId(undefined);
+                            }}
+                            onCancel={() => setEditingCommentId(undefined)}
+                        />
+                    ) : (
+                        <>
+                            {deleted ? (
+                                <div className="flex-grow comment-text comment-deleted">{Resources.CommentDeleted}</div>
+                            ) : (
+                                <div className="flex-grow comment-text" dangerouslySetInnerHTML={{ __html: content }} />
+                            )}
+                            {commentMentions && commentMentions.length > 0 && (
+                                <div className="comment-mentions flex-row flex-wrap">
+                                    {commentMentions.map((m) => (
+                                        <span key={m.id} className="comment-mention font-size-s">{`@${m.displayName}`}</span>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="comment-actions flex-row">
+                                {!isReply && (
+                                    <Button
+                                        subtle={true}
+                                        text={Resources.Reply}
+                                        disabled={disabled || isUpdating}
+                                        onClick={() => setReplyingToCommentId(comment.id)}
+                                    />
+                                )}
+                                {isOwnComment && !deleted && (
+                                    <Button
+                                        subtle={true}
+                                        text={Resources.Edit}
+                                        disabled={disabled || isUpdating}
+                                        onClick={() => setEditingCommentId(comment.id)}
+                                    />
+                                )}
+                                {isOwnComment && !deleted && (
+                                    <Button
+                                        subtle={true}
+                                        className="error-text"
+                                        text={Resources.Delete}
+                                        disabled={disabled || isUpdating}
+                                        onClick={() => onDeleteComment(comment)}
+                                    />
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    const renderThread = (thread: ICommentThread) => {
+        const { comment, replies } = thread;
+        const isMentioned = [comment, ...replies].some((c) => mentionedCommentIds[c.id!.toLowerCase()]);
+        const isReplying = !!replyingToCommentId && equals(replyingToCommentId, comment.id!, true);
+
+        return (
+            <div className={css("comment-thread", isMentioned && "mentioned")} key={`thread_${comment.id!}`}>
+                {renderComment(comment, false)}
+                {(replies.length > 0 || isReplying) && (
+                    <div className="comment-replies">
+                        {replies.map((r) => renderComment(r, true))}
+                        {isReplying && (
+                            <CommentEditor
+                                bugBashId={bugBashId}
+                                initialText=""
+                                saveText={Resources.Reply}
+                                showMentions={true}
+                                onSave={(text: string, replyMentions: IdentityRef[]) => {
+                                    createComment(bugBashItemId, text, comment.id, replyMentions);
+                                    setReplyingToCommentId(undefined);
+                                }}
+                                onCancel={() => setReplyingToCommentId(undefined)}
+                            />
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="comments-container">
+            {error && (
+                <MessageCard className="comments-error" severity={MessageCardSeverity.Error}>
+                    {error}
+                </MessageCard>
+            )}
+            {threads.map(renderThread)}
+        </div>
+    );
+}
+
+interface ICommentEditorProps {
+    bugBashId: string;
+    initialText: string;
+    initialMentions?: IdentityRef[];
+    saveText: string;
+    showMentions?: boolean;
+    onSave: (text: string, mentions: IdentityRef[]) => void;
+    onCancel: () => void;
 }
 
-function renderComment(item: IBugBashItemComment): JSX.Element {
-    const { createdBy, createdDate, content } = item;
+function CommentEditor(props: ICommentEditorProps) {
+    const { bugBashId, initialText, initialMentions = [], saveText, showMentions, onSave, onCancel } = props;
+    const [text, setText] = React.useState(initialText);
+    const [mentions, setMentions] = React.useState<IdentityRef[]>(initialMentions);
+    const isMentionsChanged = !arrayEquals(mentions, initialMentions, (m1, m2) => equals(m1.id, m2.id, true));
+
     return (
-        <div className="comment-item flex-row" key={`comment_${item.id!}`}>
-            <div className="flex-noshrink comment-identity">
-                <IdentityView value={createdBy} avatarOnly={true} size={"medium"} />
-            </div>
-            <div className="flex-column flex-grow comment-content">
-                <div className="flex-noshrink flex-row">
-                    <span className="comment-created-by font-size font-weight-semibold">{createdBy.displayName}</span>
-                    <span className="comment-created-date font-size-s">commented {ago(createdDate)}</span>
-                </div>
-                <div className="flex-grow comment-text" dangerouslySetInnerHTML={{ __html: content }} />
+        <div className="comment-editor flex-column">
+            <BugBashRichEditor bugBashId={bugBashId} value={text} onChange={setText} autoFocus={true} />
+            {showMentions && (
+                <IdentityListEditor
+                    className="comment-editor-mentions"
+                    placeholder={Resources.MentionPeople_Placeholder}
+                    identities={mentions}
+                    onChange={setMentions}
+                />
+            )}
+            <div className="comment-editor-buttons flex-row justify-end">
+                <Button text={Resources.Cancel} onClick={onCancel} />
+                <Button
+                    primary={true}
+                    text={saveText}
+                    disabled={isNullOrWhiteSpace(text) || (text === initialText && !isMentionsChanged)}
+                    onClick={() => onSave(text, mentions)}
+                />
             </div>
         </div>
     );
 }
+
+/**
+ * Groups comments into threads of a top level comment and its replies. Replies whose parent no longer exists are shown as top level comments.
+ */
+function getCommentThreads(comments: IBugBashItemComment[]): ICommentThread[] {
+    const threadsMap: { [commentId: string]: ICommentThread } = {};
+    for (const comment of comments) {
+        if (!comment.parentId) {
+            threadsMap[comment.id!.toLowerCase()] = { comment, replies: [] };
+        }
+    }
+
+    const threads: ICommentThread[] = [];
+    for (const comment of comments) {
+        const parentThread = comment.parentId && threadsMap[comment.parentId.toLowerCase()];
+        if (parentThread) {
+            parentThread.replies.push(comment);
+        } else {
+            threads.push(threadsMap[comment.id!.toLowerCase()] || { comment, replies: [] });
+        }
+    }
+
+    return threads;
+}
+
+export function CommentsList(props: ICommentsListProps) {
+    return (
+        <DynamicModuleLoader modules={[getMentionsModule()]}>
+            <CommentsListInternal {...props} />
+        </DynamicModuleLoader>
+    );
+}
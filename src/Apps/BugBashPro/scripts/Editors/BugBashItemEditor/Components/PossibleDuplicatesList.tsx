@@ -0,0 +1,99 @@
+import "./PossibleDuplicatesList.scss";
+
+import * as React from "react";
+
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { Button } from "azure-devops-ui/Button";
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { getVisibleBugBashItems, isBugBashItemAccepted, isBugBashItemRejected } from "BugBashPro/Shared/Helpers";
+import { getBugBashItemUrlAsync } from "BugBashPro/Shared/NavHelpers";
+import { IBugBashItemsAwareState } from "BugBashPro/Shared/Redux/BugBashItems/Contracts";
+import { getAllBugBashItems, getResolvedWorkItemsMap } from "BugBashPro/Shared/Redux/BugBashItems/Selectors";
+import { AsyncLinkComponent } from "Common/Components/AsyncComponent/AsyncLinkComponent";
+import { InfoLabel } from "Common/Components/InfoLabel";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+import { getPossibleDuplicates, IPossibleDuplicate } from "../Helpers";
+
+interface IPossibleDuplicatesListProps {
+    bugBash: IBugBash;
+    draftBugBashItem: IBugBashItem;
+    disabled?: boolean;
+    onMarkAsDuplicate?: (originalBugBashItemId: string, originalTitle: string) => void;
+}
+
+interface IPossibleDuplicatesListStateProps {
+    bugBashItems?: IBugBashItem[];
+    workItemsMap?: { [id: number]: WorkItem };
+}
+
+function mapState(state: IBugBashItemsAwareState): IPossibleDuplicatesListStateProps {
+    return {
+        bugBashItems: getAllBugBashItems(state),
+        workItemsMap: getResolvedWorkItemsMap(state)
+    };
+}
+
+export function PossibleDuplicatesList(props: IPossibleDuplicatesListProps) {
+    const { bugBash, draftBugBashItem, disabled, onMarkAsDuplicate } = props;
+    const { bugBashItems, workItemsMap } = useMappedState(mapState);
+    const { id, title, description, duplicateOfId } = draftBugBashItem;
+
+    const possibleDuplicates = React.useMemo(() => {
+        if (!bugBashItems) {
+            return [];
+        }
+        return getPossibleDuplicates(draftBugBashItem, getVisibleBugBashItems(bugBash, bugBashItems), workItemsMap);
+    }, [id, title, description, bugBash, bugBashItems, workItemsMap]);
+
+    if (possibleDuplicates.length === 0) {
+        return null;
+    }
+
+    const renderPossibleDuplicate = (possibleDuplicate: IPossibleDuplicate) => {
+        const { bugBashItem, score } = possibleDuplicate;
+        const isOriginal = !!duplicateOfId && equals(duplicateOfId, bugBashItem.id!, true);
+
+        return (
+            <div key={bugBashItem.id} className="possible-duplicate flex-row flex-center">
+                <div className="possible-duplicate-title flex-grow">
+                    <AsyncLinkComponent
+                        className="text-ellipsis"
+                        getHrefAsync={async () => getBugBashItemUrlAsync(bugBashItem.bugBashId, bugBashItem.id!)}
+                        title={possibleDuplicate.title}
+                    />
+                </div>
+                <span className="possible-duplicate-status flex-noshrink font-size-s">{getStatusText(bugBashItem)}</span>
+                <span className="possible-duplicate-score flex-noshrink font-size-s">{`${Math.round(score * 100)}%`}</span>
+                {onMarkAsDuplicate && (
+                    <Button
+                        className="flex-noshrink"
+                        subtle={true}
+                        disabled={disabled || isOriginal}
+                        text={isOriginal ? Resources.MarkedAsDuplicate : Resources.MarkAsDuplicate}
+                        onClick={() => onMarkAsDuplicate(bugBashItem.id!, possibleDuplicate.title)}
+                    />
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="possible-duplicates flex-column">
+            <InfoLabel label={Resources.PossibleDuplicates_Label} info={Resources.PossibleDuplicates_LabelInfo} />
+            {possibleDuplicates.map(renderPossibleDuplicate)}
+        </div>
+    );
+}
+
+function getStatusText(bugBashItem: IBugBashItem): string {
+    if (isBugBashItemAccepted(bugBashItem)) {
+        return "Accepted";
+    } else if (isBugBashItemRejected(bugBashItem)) {
+        return "Rejected";
+    } else {
+        return "Pending";
+    }
+}
@@ -1,3 +1,8 @@
 export const TitleFieldMaxLength = 255;
 export const BugBashItemEditorErrorKey = "BugBashItemEditor/Error";
 export const BugBashItemEditorNotificationKey = "BugBashItemEditor/Notification";
+export const PossibleDuplicatesMaxCount = 5;
+export const PossibleDuplicateMinScore = 0.3;
+export const AttachmentMaxSize = 60 * 1024 * 1024;
+export const WorkItemSearchMaxCount = 20;
+export const WorkItemSearchDelay = 300;
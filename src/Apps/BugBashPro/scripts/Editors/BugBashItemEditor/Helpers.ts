@@ -1,11 +1,14 @@
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
 import { equals } from "azure-devops-ui/Core/Util/String";
 import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
 import { ITeamAwareState } from "Common/AzDev/Teams/Redux/Contracts";
 import { getTeam } from "Common/AzDev/Teams/Redux/Selectors";
+import { CoreFieldRefNames } from "Common/Constants";
 import { getCurrentUser } from "Common/Utilities/Identity";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
 
-import { TitleFieldMaxLength } from "./Constants";
+import { PossibleDuplicateMinScore, PossibleDuplicatesMaxCount, TitleFieldMaxLength } from "./Constants";
 import { IBugBashItemEditorAwareState } from "./Redux/Contracts";
 
 export function getNewBugBashItemInstance(bugBashId: string, teamId?: string): IBugBashItem {
@@ -34,13 +37,29 @@ function isTitleValid(title: string): boolean {
 }
 
 export function isBugBashItemDirty(originalBugBashItem: IBugBashItem, updatedBugBashItem: IBugBashItem): boolean {
-    const { title = "", teamId = "", description = "", rejectReason = "", rejected } = updatedBugBashItem;
+    const {
+        title = "",
+        teamId = "",
+        description = "",
+        rejectReason = "",
+        rejected,
+        duplicateOfId = "",
+        fieldValues = {},
+        attachments = [],
+        severity = "",
+        priority = ""
+    } = updatedBugBashItem;
     const {
         title: orig_title = "",
         teamId: orig_teamId = "",
         description: orig_description = "",
         rejectReason: orig_rejectReason = "",
-        rejected: orig_rejected
+        rejected: orig_rejected,
+        duplicateOfId: orig_duplicateOfId = "",
+        fieldValues: orig_fieldValues = {},
+        attachments: orig_attachments = [],
+        severity: orig_severity = "",
+        priority: orig_priority = ""
     } = originalBugBashItem;
 
     return (
@@ -48,6 +67,167 @@ export function isBugBashItemDirty(originalBugBashItem: IBugBashItem, updatedBug
         !equals(teamId, orig_teamId, true) ||
         !equals(description, orig_description, true) ||
         rejected !== orig_rejected ||
-        !equals(rejectReason, orig_rejectReason, true)
+        !equals(rejectReason, orig_rejectReason, true) ||
+        !equals(duplicateOfId, orig_duplicateOfId, true) ||
+        !equals(severity, orig_severity, true) ||
+        !equals(priority, orig_priority, true) ||
+        areFieldValuesDirty(orig_fieldValues, fieldValues) ||
+        attachments.length !== orig_attachments.length ||
+        attachments.some((a, i) => !equals(a.id, orig_attachments[i].id, true))
+    );
+}
+
+function areFieldValuesDirty(originalFieldValues: { [fieldRefName: string]: any }, updatedFieldValues: { [fieldRefName: string]: any }): boolean {
+    const fieldRefNames = Object.keys({ ...originalFieldValues, ...updatedFieldValues });
+    return fieldRefNames.some((fieldRefName) => {
+        const value = updatedFieldValues[fieldRefName];
+        const orig_value = originalFieldValues[fieldRefName];
+        return (value == null ? "" : value).toString() !== (orig_value == null ? "" : orig_value).toString();
+    });
+}
+
+/**
+ * Parts of an item which can be picked from either version when the draft conflicts with the latest saved version.
+ * "rejected" stands for the rejection as a whole, i.e. the flag, its reason, who rejected it and the duplicate it points to.
+ */
+export const BugBashItemConflictKeys = ["title", "teamId", "severity", "priority", "rejected", "description", "attachments"];
+
+const FieldValueConflictKeyPrefix = "fieldValues.";
+
+export function getFieldRefNameFromConflictKey(conflictKey: string): string | undefined {
+    return conflictKey.indexOf(FieldValueConflictKeyPrefix) === 0 ? conflictKey.substr(FieldValueConflictKeyPrefix.length) : undefined;
+}
+
+/**
+ * Returns the keys of the parts whose value in the draft differs from the latest saved version
+ */
+export function getBugBashItemConflictKeys(draftBugBashItem: IBugBashItem, latestBugBashItem: IBugBashItem): string[] {
+    const fieldRefNames = Object.keys({ ...(latestBugBashItem.fieldValues || {}), ...(draftBugBashItem.fieldValues || {}) });
+    const conflictKeys = [...BugBashItemConflictKeys, ...fieldRefNames.map((f) => `${FieldValueConflictKeyPrefix}${f}`)];
+
+    return conflictKeys.filter((key) => isBugBashItemDirty(latestBugBashItem, applyConflictKey(latestBugBashItem, draftBugBashItem, key)));
+}
+
+/**
+ * Whether the user changed the given part in their draft, as opposed to it being changed by someone else
+ */
+export function isConflictKeyChangedInDraft(draftBugBashItem: IBugBashItem, originalBugBashItem: IBugBashItem, conflictKey: string): boolean {
+    return isBugBashItemDirty(originalBugBashItem, applyConflictKey(originalBugBashItem, draftBugBashItem, conflictKey));
+}
+
+/**
+ * Takes the picked parts from the draft and everything else, including the etag, from the latest saved version
+ */
+export function mergeBugBashItem(draftBugBashItem: IBugBashItem, latestBugBashItem: IBugBashItem, draftConflictKeys: string[]): IBugBashItem {
+    return draftConflictKeys.reduce((mergedBugBashItem, key) => applyConflictKey(mergedBugBashItem, draftBugBashItem, key), latestBugBashItem);
+}
+
+function applyConflictKey(target: IBugBashItem, source: IBugBashItem, conflictKey: string): IBugBashItem {
+    const fieldRefName = getFieldRefNameFromConflictKey(conflictKey);
+    if (fieldRefName) {
+        return { ...target, fieldValues: { ...target.fieldValues, [fieldRefName]: (source.fieldValues || {})[fieldRefName] } };
+    } else if (conflictKey === "rejected") {
+        const { rejected, rejectReason, rejectedBy, rejectedDate, duplicateOfId } = source;
+        return { ...target, rejected, rejectReason, rejectedBy, rejectedDate, duplicateOfId };
+    } else {
+        return { ...target, [conflictKey]: source[conflictKey as keyof IBugBashItem] };
+    }
+}
+
+export interface IPossibleDuplicate {
+    bugBashItem: IBugBashItem;
+    title: string;
+    score: number;
+}
+
+const IgnoredWords: { [word: string]: boolean } = {
+    the: true,
+    and: true,
+    for: true,
+    are: true,
+    was: true,
+    not: true,
+    with: true,
+    when: true,
+    this: true,
+    that: true,
+    from: true,
+    does: true,
+    doesn: true,
+    can: true,
+    cannot: true,
+    should: true,
+    into: true,
+    after: true,
+    then: true
+};
+
+export function getPossibleDuplicates(
+    draftBugBashItem: IBugBashItem,
+    bugBashItems: IBugBashItem[],
+    workItemsMap: { [id: number]: WorkItem } | undefined
+): IPossibleDuplicate[] {
+    const draftTitleWords = getWords(draftBugBashItem.title);
+    if (draftTitleWords.length === 0) {
+        return [];
+    }
+    const draftWords = draftTitleWords.concat(getWords(draftBugBashItem.description));
+
+    const possibleDuplicates: IPossibleDuplicate[] = [];
+    for (const bugBashItem of bugBashItems) {
+        if (draftBugBashItem.id && equals(bugBashItem.id!, draftBugBashItem.id, true)) {
+            continue;
+        }
+
+        let title = bugBashItem.title;
+        let description = bugBashItem.description;
+        if (isBugBashItemAccepted(bugBashItem)) {
+            // accepted items only keep a reference to the work item
+            const workItem = workItemsMap && workItemsMap[bugBashItem.workItemId!];
+            if (!workItem) {
+                continue;
+            }
+            title = workItem.fields[CoreFieldRefNames.Title];
+            description = undefined;
+        }
+
+        const titleWords = getWords(title);
+        // titles are what people usually type the same, so they weigh more than the description
+        const score = 0.7 * getSimilarity(draftTitleWords, titleWords) + 0.3 * getSimilarity(draftWords, titleWords.concat(getWords(description)));
+        if (score >= PossibleDuplicateMinScore) {
+            possibleDuplicates.push({ bugBashItem, title, score });
+        }
+    }
+
+    return possibleDuplicates.sort((d1, d2) => d2.score - d1.score).slice(0, PossibleDuplicatesMaxCount);
+}
+
+function getWords(text: string | undefined): string[] {
+    if (isNullOrWhiteSpace(text)) {
+        return [];
+    }
+
+    return (
+        text!
+            .replace(/<[^>]*>/g, " ")
+            .toLowerCase()
+            // letters and digits of any script make up words, so that titles which are not in english are compared as well
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter((w) => w.length > 2 && !IgnoredWords[w])
     );
 }
+
+function getSimilarity(words1: string[], words2: string[]): number {
+    if (words1.length === 0 || words2.length === 0) {
+        return 0;
+    }
+
+    const set1: { [word: string]: boolean } = {};
+    const set2: { [word: string]: boolean } = {};
+    words1.forEach((w) => (set1[w] = true));
+    words2.forEach((w) => (set2[w] = true));
+
+    const unionCount = Object.keys({ ...set1, ...set2 }).length;
+    const intersectionCount = Object.keys(set1).filter((w) => set2[w]).length;
+    return intersectionCount / unionCount;
+}
@@ -1,3 +1,4 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
 import { ActionsUnion, createAction } from "Common/Redux";
 
@@ -10,11 +11,22 @@ export const BugBashItemEditorActions = {
     updateDraft: (draftBugBashItem: IBugBashItem) => createAction(BugBashItemEditorActionTypes.UpdateDraft, draftBugBashItem),
     updateDraftComment: (bugBashItemId: string | undefined, comment: string) =>
         createAction(BugBashItemEditorActionTypes.UpdateDraftComment, { bugBashItemId, comment }),
+    updateDraftCommentMentions: (bugBashItemId: string | undefined, mentions: IdentityRef[]) =>
+        createAction(BugBashItemEditorActionTypes.UpdateDraftCommentMentions, { bugBashItemId, mentions }),
     requestDraftSave: (bugBash: IBugBash, bugBashItemId: string | undefined) =>
         createAction(BugBashItemEditorActionTypes.RequestDraftSave, { bugBash, bugBashItemId }),
     draftSaveSucceeded: (bugBashItem: IBugBashItem) => createAction(BugBashItemEditorActionTypes.DraftSaveSucceeded, bugBashItem),
+    draftConflictDetected: (latestBugBashItem: IBugBashItem) => createAction(BugBashItemEditorActionTypes.DraftConflictDetected, latestBugBashItem),
+    resolveDraftConflict: (mergedBugBashItem: IBugBashItem) => createAction(BugBashItemEditorActionTypes.ResolveDraftConflict, mergedBugBashItem),
+    dismissDraftConflict: (bugBashItemId: string) => createAction(BugBashItemEditorActionTypes.DismissDraftConflict, bugBashItemId),
+    discardDraft: (bugBashId: string, bugBashItemId: string | undefined) =>
+        createAction(BugBashItemEditorActionTypes.DiscardDraft, { bugBashId, bugBashItemId }),
     requestDraftAccept: (bugBash: IBugBash, bugBashItemId: string | undefined) =>
-        createAction(BugBashItemEditorActionTypes.RequestDraftAccept, { bugBash, bugBashItemId })
+        createAction(BugBashItemEditorActionTypes.RequestDraftAccept, { bugBash, bugBashItemId }),
+    requestDraftAcceptAsExisting: (bugBash: IBugBash, bugBashItemId: string, workItemId: number, addLink: boolean) =>
+        createAction(BugBashItemEditorActionTypes.RequestDraftAcceptAsExisting, { bugBash, bugBashItemId, workItemId, addLink }),
+    requestDraftMarkAsDuplicate: (bugBash: IBugBash, bugBashItemId: string, originalBugBashItemId: string, originalTitle: string) =>
+        createAction(BugBashItemEditorActionTypes.RequestDraftMarkAsDuplicate, { bugBash, bugBashItemId, originalBugBashItemId, originalTitle })
 };
 
 export const enum BugBashItemEditorActionTypes {
@@ -23,9 +35,16 @@ export const enum BugBashItemEditorActionTypes {
     InitializeDraft = "BugBashItemEditor/InitializeDraft",
     UpdateDraft = "BugBashItemEditor/UpdateDraft",
     UpdateDraftComment = "BugBashItemEditor/UpdateDraftComment",
+    UpdateDraftCommentMentions = "BugBashItemEditor/UpdateDraftCommentMentions",
     RequestDraftSave = "BugBashItemEditor/RequestDraftSave",
     DraftSaveSucceeded = "BugBashItemEditor/DraftSaveSucceeded",
-    RequestDraftAccept = "BugBashItemEditor/RequestDraftAccept"
+    DraftConflictDetected = "BugBashItemEditor/DraftConflictDetected",
+    ResolveDraftConflict = "BugBashItemEditor/ResolveDraftConflict",
+    DismissDraftConflict = "BugBashItemEditor/DismissDraftConflict",
+    DiscardDraft = "BugBashItemEditor/DiscardDraft",
+    RequestDraftAccept = "BugBashItemEditor/RequestDraftAccept",
+    RequestDraftAcceptAsExisting = "BugBashItemEditor/RequestDraftAcceptAsExisting",
+    RequestDraftMarkAsDuplicate = "BugBashItemEditor/RequestDraftMarkAsDuplicate"
 }
 
 export type BugBashItemEditorActions = ActionsUnion<typeof BugBashItemEditorActions>;
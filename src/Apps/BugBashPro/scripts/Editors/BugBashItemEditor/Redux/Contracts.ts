@@ -1,3 +1,4 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { IBugBashItem } from "BugBashPro/Shared/Contracts";
 import { IChangeableValue } from "Common/Contracts";
 
@@ -11,8 +12,11 @@ export interface IBugBashItemEditorState {
 
 export interface IDraftBugBashItem extends IChangeableValue<IBugBashItem | undefined> {
     newComment?: string;
+    newCommentMentions?: IdentityRef[];
     isSaving?: boolean;
     initializeError?: string;
+    /** The latest saved version of the item, when saving the draft failed because someone else changed it in the meantime */
+    conflictValue?: IBugBashItem;
 }
 
 export const defaultBugBashItemEditorState: IBugBashItemEditorState = {
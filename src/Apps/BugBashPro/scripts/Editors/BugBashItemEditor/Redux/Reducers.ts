@@ -41,6 +41,15 @@ export function bugBashItemEditorReducer(
                 break;
             }
 
+            case BugBashItemEditorActionTypes.UpdateDraftCommentMentions: {
+                const { bugBashItemId, mentions } = action.payload;
+                const id = resolveNullableMapKey(bugBashItemId);
+                if (draft.draftBugBashItemsMap[id]) {
+                    draft.draftBugBashItemsMap[id].newCommentMentions = mentions;
+                }
+                break;
+            }
+
             case BugBashItemEditorActionTypes.DraftInitializeFailed: {
                 const { bugBashItemId, error } = action.payload;
                 const id = resolveNullableMapKey(bugBashItemId);
@@ -60,6 +69,7 @@ export function bugBashItemEditorReducer(
                         originalValue: { ...updatedBugBashItem },
                         draftValue: { ...updatedBugBashItem },
                         newComment: undefined,
+                        newCommentMentions: undefined,
                         isSaving: false
                     };
                 }
@@ -67,6 +77,46 @@ export function bugBashItemEditorReducer(
                 break;
             }
 
+            case BugBashItemEditorActionTypes.DraftConflictDetected: {
+                const latestBugBashItem = action.payload;
+                const id = resolveNullableMapKey(latestBugBashItem.id);
+                if (draft.draftBugBashItemsMap[id]) {
+                    draft.draftBugBashItemsMap[id].conflictValue = { ...latestBugBashItem };
+                }
+                break;
+            }
+
+            case BugBashItemEditorActionTypes.ResolveDraftConflict: {
+                const mergedBugBashItem = action.payload;
+                const id = resolveNullableMapKey(mergedBugBashItem.id);
+                const draftBugBashItem = draft.draftBugBashItemsMap[id];
+                if (draftBugBashItem && draftBugBashItem.conflictValue) {
+                    // the latest version becomes the base, so that the merged draft is saved on top of it
+                    draftBugBashItem.originalValue = draftBugBashItem.conflictValue;
+                    draftBugBashItem.draftValue = { ...mergedBugBashItem };
+                    draftBugBashItem.conflictValue = undefined;
+                }
+                break;
+            }
+
+            case BugBashItemEditorActionTypes.DismissDraftConflict: {
+                const id = resolveNullableMapKey(action.payload);
+                if (draft.draftBugBashItemsMap[id]) {
+                    draft.draftBugBashItemsMap[id].conflictValue = undefined;
+                }
+                break;
+            }
+
+            case BugBashItemsActionTypes.BugBashItemCreateFailed:
+            case BugBashItemsActionTypes.BugBashItemUpdateFailed: {
+                const { bugBashItem } = action.payload;
+                const id = resolveNullableMapKey(bugBashItem.id);
+                if (draft.draftBugBashItemsMap[id]) {
+                    draft.draftBugBashItemsMap[id].isSaving = false;
+                }
+                break;
+            }
+
             case BugBashItemsActionTypes.BeginCreateBugBashItem:
             case BugBashItemsActionTypes.BeginUpdateBugBashItem: {
                 const bugBashItem = action.payload;
@@ -1,24 +1,57 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { equals } from "azure-devops-ui/Core/Util/String";
 import { BugBashViewActions } from "BugBashPro/Hubs/BugBashView/Redux/Actions";
+import { BugBashPortalActions } from "BugBashPro/Portals/BugBashPortal/Redux/Actions";
+import { Resources } from "BugBashPro/Resources";
 import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { getVisibleBugBashItems, isBugBashClosed } from "BugBashPro/Shared/Helpers";
 import { BugBashItemsActions, BugBashItemsActionTypes } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import {
+    createBugBashItemAsync,
+    readBugBashItemDraft,
+    removeBugBashItemDraft,
+    writeBugBashItemDraft
+} from "BugBashPro/Shared/Redux/BugBashItems/DataSource";
 import { getBugBashItem } from "BugBashPro/Shared/Redux/BugBashItems/Selectors";
 import { CommentActions, CommentActionTypes } from "BugBashPro/Shared/Redux/Comments/Actions";
 import { KeyValuePairActions } from "Common/Notifications/Redux/Actions";
 import { ActionsOfType, RT } from "Common/Redux";
+import { isTransientError } from "Common/ServiceWrappers/ExtensionDataManager";
+import { addToast } from "Common/ServiceWrappers/GlobalMessageService";
+import { getCurrentUser } from "Common/Utilities/Identity";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
 import { SagaIterator } from "redux-saga";
 import { all, call, put, race, select, take, takeEvery, takeLeading } from "redux-saga/effects";
 
-import { BugBashItemEditorErrorKey, BugBashItemEditorNotificationKey } from "../Constants";
+import { BugBashItemEditorErrorKey, BugBashItemEditorNotificationKey, TitleFieldMaxLength } from "../Constants";
 import { getNewBugBashItemInstance } from "../Helpers";
 import { BugBashItemEditorActions, BugBashItemEditorActionTypes } from "./Actions";
-import { getDraftBugBashItem, getDraftComment, isDraftDirty, isDraftSaving, isDraftValid } from "./Selectors";
+import {
+    getDraftBugBashItem,
+    getDraftComment,
+    getDraftCommentMentions,
+    getOriginalBugBashItem,
+    isDraftDirty,
+    isDraftSaving,
+    isDraftValid
+} from "./Selectors";
 
 export function* bugBashItemEditorSaga(): SagaIterator {
     yield takeLeading(BugBashItemEditorActionTypes.RequestDraftInitialize, requestDraftInitialize);
     yield takeLeading(BugBashItemEditorActionTypes.RequestDraftSave, requestDraftSave);
     yield takeLeading(BugBashItemEditorActionTypes.RequestDraftAccept, requestDraftAccept);
+    yield takeLeading(BugBashItemEditorActionTypes.RequestDraftAcceptAsExisting, requestDraftAcceptAsExisting);
+    yield takeLeading(BugBashItemEditorActionTypes.RequestDraftMarkAsDuplicate, requestDraftMarkAsDuplicate);
+
+    yield takeEvery(
+        [
+            BugBashItemEditorActionTypes.UpdateDraft,
+            BugBashItemEditorActionTypes.UpdateDraftComment,
+            BugBashItemEditorActionTypes.ResolveDraftConflict
+        ],
+        persistDraft
+    );
+    yield takeEvery(BugBashItemEditorActionTypes.DiscardDraft, discardDraft);
 
     yield takeEvery(
         [BugBashItemsActionTypes.BugBashItemUpdateFailed, BugBashItemsActionTypes.BugBashItemCreateFailed],
@@ -31,37 +64,16 @@ function* requestDraftInitialize(action: ActionsOfType<BugBashItemEditorActions,
 
     if (!bugBashItemId) {
         yield put(BugBashItemEditorActions.initializeDraft({ ...getNewBugBashItemInstance(bugBash.id!, bugBash.defaultTeam) }));
+        yield call(restoreDraft, bugBash.id!, bugBashItemId);
     } else {
         const existingBugBashItem: RT<typeof getBugBashItem> = yield select(getBugBashItem, bugBashItemId);
         if (existingBugBashItem && readFromCache) {
-            yield put(BugBashItemEditorActions.initializeDraft(existingBugBashItem));
+            yield call(initializeExistingDraft, bugBash, existingBugBashItem);
         } else {
-            yield put(BugBashItemsActions.bugBashItemLoadRequested(bugBash.id!, bugBashItemId));
-            const itemLoadedAction: ActionsOfType<
-                BugBashItemsActions,
-                BugBashItemsActionTypes.BugBashItemLoaded | BugBashItemsActionTypes.BugBashItemLoadFailed
-            > = yield take(
-                (
-                    action: ActionsOfType<
-                        BugBashItemsActions,
-                        BugBashItemsActionTypes.BugBashItemLoaded | BugBashItemsActionTypes.BugBashItemLoadFailed
-                    >
-                ): boolean => {
-                    if (action.type === BugBashItemsActionTypes.BugBashItemLoaded && equals(action.payload.bugBashItem.id!, bugBashItemId, true)) {
-                        return true;
-                    } else if (
-                        action.type === BugBashItemsActionTypes.BugBashItemLoadFailed &&
-                        equals(action.payload.bugBashItemId, bugBashItemId, true)
-                    ) {
-                        return true;
-                    } else {
-                        return false;
-                    }
-                }
-            );
+            const itemLoadedAction: BugBashItemLoadedAction = yield call(loadBugBashItem, bugBash.id!, bugBashItemId);
 
             if (itemLoadedAction.type === BugBashItemsActionTypes.BugBashItemLoaded) {
-                yield put(BugBashItemEditorActions.initializeDraft(itemLoadedAction.payload.bugBashItem));
+                yield call(initializeExistingDraft, bugBash, itemLoadedAction.payload.bugBashItem);
             } else {
                 const error = itemLoadedAction.payload.error;
                 yield put(BugBashItemEditorActions.draftInitializeFailed(bugBash, bugBashItemId, error));
@@ -70,61 +82,168 @@ function* requestDraftInitialize(action: ActionsOfType<BugBashItemEditorActions,
     }
 }
 
+function* initializeExistingDraft(bugBash: IBugBash, bugBashItem: IBugBashItem): SagaIterator {
+    // a link to a private submission of someone else must not open it
+    if (getVisibleBugBashItems(bugBash, [bugBashItem]).length > 0) {
+        yield put(BugBashItemEditorActions.initializeDraft(bugBashItem));
+        yield call(restoreDraft, bugBash.id!, bugBashItem.id);
+    } else {
+        yield put(BugBashItemEditorActions.draftInitializeFailed(bugBash, bugBashItem.id!, Resources.BugBashItemViewNotAllowed));
+    }
+}
+
+type BugBashItemLoadedAction = ActionsOfType<
+    BugBashItemsActions,
+    BugBashItemsActionTypes.BugBashItemLoaded | BugBashItemsActionTypes.BugBashItemLoadFailed
+>;
+
+function* loadBugBashItem(bugBashId: string, bugBashItemId: string): SagaIterator {
+    yield put(BugBashItemsActions.bugBashItemLoadRequested(bugBashId, bugBashItemId));
+    const itemLoadedAction: BugBashItemLoadedAction = yield take((action: BugBashItemLoadedAction): boolean => {
+        if (action.type === BugBashItemsActionTypes.BugBashItemLoaded && equals(action.payload.bugBashItem.id!, bugBashItemId, true)) {
+            return true;
+        } else if (action.type === BugBashItemsActionTypes.BugBashItemLoadFailed && equals(action.payload.bugBashItemId, bugBashItemId, true)) {
+            return true;
+        } else {
+            return false;
+        }
+    });
+
+    return itemLoadedAction;
+}
+
+function* restoreDraft(bugBashId: string, bugBashItemId: string | undefined): SagaIterator {
+    const [localDraft, originalBugBashItem]: [RT<typeof readBugBashItemDraft>, RT<typeof getOriginalBugBashItem>] = yield all([
+        call(readBugBashItemDraft, bugBashId, bugBashItemId),
+        select(getOriginalBugBashItem, bugBashItemId)
+    ]);
+
+    if (!localDraft || !originalBugBashItem) {
+        return;
+    }
+
+    // changes made to an older version of the item would silently overwrite whatever was saved since then
+    if (bugBashItemId && localDraft.bugBashItem.__etag !== originalBugBashItem.__etag) {
+        yield call(removeBugBashItemDraft, bugBashId, bugBashItemId);
+        return;
+    }
+
+    yield put(BugBashItemEditorActions.updateDraft(localDraft.bugBashItem));
+    if (localDraft.comment) {
+        yield put(BugBashItemEditorActions.updateDraftComment(bugBashItemId, localDraft.comment));
+    }
+}
+
+function* persistDraft(
+    action: ActionsOfType<
+        BugBashItemEditorActions,
+        BugBashItemEditorActionTypes.UpdateDraft | BugBashItemEditorActionTypes.UpdateDraftComment | BugBashItemEditorActionTypes.ResolveDraftConflict
+    >
+): SagaIterator {
+    const bugBashItemId = action.type === BugBashItemEditorActionTypes.UpdateDraftComment ? action.payload.bugBashItemId : action.payload.id;
+    const [isDirty, draftBugBashItem, draftComment]: [
+        RT<typeof isDraftDirty>,
+        RT<typeof getDraftBugBashItem>,
+        RT<typeof getDraftComment>
+    ] = yield all([select(isDraftDirty, bugBashItemId), select(getDraftBugBashItem, bugBashItemId), select(getDraftComment, bugBashItemId)]);
+
+    if (!draftBugBashItem) {
+        return;
+    }
+
+    if (isDirty) {
+        yield call(writeBugBashItemDraft, draftBugBashItem.bugBashId, bugBashItemId, { bugBashItem: draftBugBashItem, comment: draftComment });
+    } else {
+        yield call(removeBugBashItemDraft, draftBugBashItem.bugBashId, bugBashItemId);
+    }
+}
+
+function* discardDraft(action: ActionsOfType<BugBashItemEditorActions, BugBashItemEditorActionTypes.DiscardDraft>): SagaIterator {
+    const { bugBashId, bugBashItemId } = action.payload;
+    yield call(removeBugBashItemDraft, bugBashId, bugBashItemId);
+}
+
 function* requestDraftSave(action: ActionsOfType<BugBashItemEditorActions, BugBashItemEditorActionTypes.RequestDraftSave>): SagaIterator {
     const { bugBash, bugBashItemId } = action.payload;
-    const [isDirty, isValid, isSaving, draftBugBashItem, draftComment]: [
+    const [isDirty, isValid, isSaving, draftBugBashItem, draftComment, draftCommentMentions]: [
         RT<typeof isDraftDirty>,
         RT<typeof isDraftValid>,
         RT<typeof isDraftSaving>,
         RT<typeof getDraftBugBashItem>,
-        RT<typeof getDraftComment>
+        RT<typeof getDraftComment>,
+        RT<typeof getDraftCommentMentions>
     ] = yield all([
         select(isDraftDirty, bugBashItemId),
         select(isDraftValid, bugBashItemId),
         select(isDraftSaving, bugBashItemId),
         select(getDraftBugBashItem, bugBashItemId),
-        select(getDraftComment, bugBashItemId)
+        select(getDraftComment, bugBashItemId),
+        select(getDraftCommentMentions, bugBashItemId)
     ]);
 
     if (draftBugBashItem && isValid && isDirty && !isSaving) {
         if (isNullOrWhiteSpace(bugBashItemId)) {
-            yield call(requestDraftCreate, bugBash, draftBugBashItem, draftComment);
+            yield call(requestDraftCreate, bugBash, draftBugBashItem, draftComment, draftCommentMentions);
         } else {
-            yield call(requestDraftUpdate, draftBugBashItem, draftComment);
+            yield call(requestDraftUpdate, draftBugBashItem, draftComment, draftCommentMentions);
         }
     }
 }
 
-function* requestDraftCreate(bugBash: IBugBash, draftBugBashItem: IBugBashItem, draftComment: string | undefined) {
-    yield put(BugBashItemsActions.bugBashItemCreateRequested(draftBugBashItem));
-
-    const itemCreatedAction: ActionsOfType<
-        BugBashItemsActions,
-        BugBashItemsActionTypes.BugBashItemCreated | BugBashItemsActionTypes.BugBashItemCreateFailed
-    > = yield take(
-        (
-            action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemCreated | BugBashItemsActionTypes.BugBashItemCreateFailed>
-        ): boolean => {
-            return action.type === BugBashItemsActionTypes.BugBashItemCreated || action.type === BugBashItemsActionTypes.BugBashItemCreateFailed;
-        }
-    );
+function* requestDraftCreate(
+    bugBash: IBugBash,
+    draftBugBashItem: IBugBashItem,
+    draftComment: string | undefined,
+    draftCommentMentions: IdentityRef[] | undefined
+) {
+    if (isBugBashClosed(bugBash, new Date())) {
+        yield put(KeyValuePairActions.pushEntry(BugBashItemEditorErrorKey, Resources.BugBashClosedError));
+        return;
+    }
 
-    if (itemCreatedAction.type === BugBashItemsActionTypes.BugBashItemCreated) {
-        const { bugBashItem: createdBugBashItem } = itemCreatedAction.payload;
+    // the item is created here instead of waiting on the next BugBashItemCreated action, which can also come from a synced queued item
+    yield put(BugBashItemsActions.beginCreateBugBashItem(draftBugBashItem));
+    let createdBugBashItem: RT<typeof createBugBashItemAsync>;
+    try {
+        createdBugBashItem = yield call(createBugBashItemAsync, draftBugBashItem.bugBashId, draftBugBashItem);
+    } catch (e) {
+        if (isTransientError(e)) {
+            // the submission is kept and retried later instead of being lost, for example while the user is offline
+            yield put(BugBashItemsActions.bugBashItemQueueRequested(draftBugBashItem, draftComment, draftCommentMentions, e.message));
+            yield call(removeBugBashItemDraft, bugBash.id!, undefined);
 
-        if (draftComment) {
-            yield put(CommentActions.commentCreateRequested(createdBugBashItem.id!, draftComment));
-            yield race([take(CommentActionTypes.CommentCreated), take(CommentActionTypes.CommentCreateFailed)]);
-        }
-        if (bugBash.autoAccept) {
-            yield call(acceptBugBashItem, bugBash, createdBugBashItem, true);
+            yield call(addToast, {
+                message: Resources.BugBashItemQueuedMessage,
+                duration: 5000,
+                forceOverrideExisting: true
+            });
+            yield put(BugBashPortalActions.dismissPortal());
         } else {
-            yield put(BugBashViewActions.dismissBugBashItemPortalRequested(bugBash.id!, createdBugBashItem.id!, undefined));
+            yield put(BugBashItemsActions.bugBashItemCreateFailed(draftBugBashItem, e.message));
         }
+        return;
+    }
+
+    yield put(BugBashItemsActions.bugBashItemCreated(createdBugBashItem, undefined));
+    yield call(removeBugBashItemDraft, bugBash.id!, undefined);
+
+    if (draftComment) {
+        yield put(CommentActions.commentCreateRequested(createdBugBashItem.id!, draftComment, undefined, draftCommentMentions));
+        yield race([take(CommentActionTypes.CommentCreated), take(CommentActionTypes.CommentCreateFailed)]);
+    }
+    if (bugBash.autoAccept) {
+        yield call(
+            acceptBugBashItem,
+            bugBash,
+            createdBugBashItem,
+            BugBashItemsActions.bugBashItemAcceptRequested(bugBash, createdBugBashItem.id!, true)
+        );
+    } else {
+        yield put(BugBashViewActions.dismissBugBashItemPortalRequested(bugBash.id!, createdBugBashItem.id!, undefined));
     }
 }
 
-function* requestDraftUpdate(draftBugBashItem: IBugBashItem, draftComment: string | undefined) {
+function* requestDraftUpdate(draftBugBashItem: IBugBashItem, draftComment: string | undefined, draftCommentMentions: IdentityRef[] | undefined) {
     yield put(BugBashItemsActions.bugBashItemUpdateRequested(draftBugBashItem));
 
     const itemUpdatedAction: ActionsOfType<
@@ -143,13 +262,20 @@ function* requestDraftUpdate(draftBugBashItem: IBugBashItem, draftComment: strin
 
     if (itemUpdatedAction.type === BugBashItemsActionTypes.BugBashItemUpdated) {
         const { bugBashItem: updatedBugBashItem } = itemUpdatedAction.payload;
+        yield call(removeBugBashItemDraft, updatedBugBashItem.bugBashId, updatedBugBashItem.id);
         if (draftComment) {
-            yield put(CommentActions.commentCreateRequested(updatedBugBashItem.id!, draftComment));
+            yield put(CommentActions.commentCreateRequested(updatedBugBashItem.id!, draftComment, undefined, draftCommentMentions));
             yield race([take(CommentActionTypes.CommentCreated), take(CommentActionTypes.CommentCreateFailed)]);
         }
 
         yield put(BugBashItemEditorActions.draftSaveSucceeded(updatedBugBashItem));
         yield put(KeyValuePairActions.pushEntry(BugBashItemEditorNotificationKey, "Saved"));
+    } else if (itemUpdatedAction.payload.isConflict) {
+        // the latest version is loaded, so that the user can merge their changes into it instead of losing them
+        const itemLoadedAction: BugBashItemLoadedAction = yield call(loadBugBashItem, draftBugBashItem.bugBashId, draftBugBashItem.id!);
+        if (itemLoadedAction.type === BugBashItemsActionTypes.BugBashItemLoaded) {
+            yield put(BugBashItemEditorActions.draftConflictDetected(itemLoadedAction.payload.bugBashItem));
+        }
     }
 }
 
@@ -166,10 +292,57 @@ function* requestDraftAccept(action: ActionsOfType<BugBashItemEditorActions, Bug
     ]);
 
     if (isValid && !isDirty && !isSaving) {
-        yield call(acceptBugBashItem, bugBash, draftBugBashItem, false);
+        yield call(acceptBugBashItem, bugBash, draftBugBashItem, BugBashItemsActions.bugBashItemAcceptRequested(bugBash, bugBashItemId!, false));
     }
 }
 
+function* requestDraftAcceptAsExisting(
+    action: ActionsOfType<BugBashItemEditorActions, BugBashItemEditorActionTypes.RequestDraftAcceptAsExisting>
+): SagaIterator {
+    const { bugBash, bugBashItemId, workItemId, addLink } = action.payload;
+    const [isDirty, isSaving, draftBugBashItem]: [RT<typeof isDraftDirty>, RT<typeof isDraftSaving>, RT<typeof getDraftBugBashItem>] = yield all([
+        select(isDraftDirty, bugBashItemId),
+        select(isDraftSaving, bugBashItemId),
+        select(getDraftBugBashItem, bugBashItemId)
+    ]);
+
+    if (draftBugBashItem && !isDirty && !isSaving) {
+        yield call(
+            acceptBugBashItem,
+            bugBash,
+            draftBugBashItem,
+            BugBashItemsActions.bugBashItemAcceptAsExistingRequested(bugBash, bugBashItemId, workItemId, addLink)
+        );
+    }
+}
+
+function* requestDraftMarkAsDuplicate(
+    action: ActionsOfType<BugBashItemEditorActions, BugBashItemEditorActionTypes.RequestDraftMarkAsDuplicate>
+): SagaIterator {
+    const { bugBash, bugBashItemId, originalBugBashItemId, originalTitle } = action.payload;
+    const [isSaving, draftBugBashItem]: [RT<typeof isDraftSaving>, RT<typeof getDraftBugBashItem>] = yield all([
+        select(isDraftSaving, bugBashItemId),
+        select(getDraftBugBashItem, bugBashItemId)
+    ]);
+
+    if (!draftBugBashItem || isSaving) {
+        return;
+    }
+
+    const rejectReason = `${Resources.DuplicateOf_RejectReason} "${originalTitle}"`;
+    yield put(
+        BugBashItemEditorActions.updateDraft({
+            ...draftBugBashItem,
+            rejected: true,
+            rejectedBy: getCurrentUser(),
+            rejectedDate: new Date(),
+            rejectReason: rejectReason.length > TitleFieldMaxLength ? `${rejectReason.substr(0, TitleFieldMaxLength - 4)}..."` : rejectReason,
+            duplicateOfId: originalBugBashItemId
+        })
+    );
+    yield put(BugBashItemEditorActions.requestDraftSave(bugBash, bugBashItemId));
+}
+
 function* bugBashItemCreateAndUpdateFailed(
     action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemCreateFailed | BugBashItemsActionTypes.BugBashItemUpdateFailed>
 ): SagaIterator {
@@ -177,8 +350,8 @@ function* bugBashItemCreateAndUpdateFailed(
     yield put(KeyValuePairActions.pushEntry(BugBashItemEditorErrorKey, error));
 }
 
-function* acceptBugBashItem(bugBash: IBugBash, bugBashItem: IBugBashItem, acceptingDuringCreation: boolean): SagaIterator {
-    yield put(BugBashItemsActions.bugBashItemAcceptRequested(bugBash, bugBashItem.id!, acceptingDuringCreation));
+function* acceptBugBashItem(bugBash: IBugBash, bugBashItem: IBugBashItem, acceptAction: BugBashItemsActions): SagaIterator {
+    yield put(acceptAction);
 
     const itemUpdatedAction: ActionsOfType<
         BugBashItemsActions,
@@ -1,3 +1,4 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { IBugBashItem } from "BugBashPro/Shared/Contracts";
 import { ITeamAwareState } from "Common/AzDev/Teams/Redux/Contracts";
 import { isNullOrEmpty, resolveNullableMapKey } from "Common/Utilities/String";
@@ -54,6 +55,17 @@ export const getDraftInitializeError = (state: IBugBashItemEditorAwareState, bug
     );
 };
 
+export const getDraftConflictBugBashItem = (state: IBugBashItemEditorAwareState, bugBashItemId: string | undefined): IBugBashItem | undefined => {
+    const bugBashItemEditorState = getBugBashItemEditorState(state);
+    const id = resolveNullableMapKey(bugBashItemId);
+    return (
+        bugBashItemEditorState &&
+        bugBashItemEditorState.draftBugBashItemsMap &&
+        bugBashItemEditorState.draftBugBashItemsMap[id] &&
+        bugBashItemEditorState.draftBugBashItemsMap[id].conflictValue
+    );
+};
+
 export const getDraftComment = (state: IBugBashItemEditorAwareState, bugBashItemId: string | undefined): string | undefined => {
     const bugBashItemEditorState = getBugBashItemEditorState(state);
     const id = resolveNullableMapKey(bugBashItemId);
@@ -65,6 +77,17 @@ export const getDraftComment = (state: IBugBashItemEditorAwareState, bugBashItem
     );
 };
 
+export const getDraftCommentMentions = (state: IBugBashItemEditorAwareState, bugBashItemId: string | undefined): IdentityRef[] | undefined => {
+    const bugBashItemEditorState = getBugBashItemEditorState(state);
+    const id = resolveNullableMapKey(bugBashItemId);
+    return (
+        bugBashItemEditorState &&
+        bugBashItemEditorState.draftBugBashItemsMap &&
+        bugBashItemEditorState.draftBugBashItemsMap[id] &&
+        bugBashItemEditorState.draftBugBashItemsMap[id].newCommentMentions
+    );
+};
+
 export function isDraftValid(state: IBugBashItemEditorAwareState & ITeamAwareState, bugBashItemId: string | undefined): boolean {
     const draft = getDraftBugBashItem(state, bugBashItemId);
     if (!draft) {
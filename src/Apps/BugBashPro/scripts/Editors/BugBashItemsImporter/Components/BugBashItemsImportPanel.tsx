@@ -0,0 +1,291 @@
+import "./BugBashItemsImportPanel.scss";
+
+import * as React from "react";
+
+import { Button } from "azure-devops-ui/Button";
+import { Checkbox } from "azure-devops-ui/Checkbox";
+import { ContentSize } from "azure-devops-ui/Components/Callout/Callout.Props";
+import { format } from "azure-devops-ui/Core/Util/String";
+import { CustomHeader, HeaderTitleArea } from "azure-devops-ui/Header";
+import { CustomPanel, PanelCloseButton, PanelContent, PanelFooter } from "azure-devops-ui/Panel";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { useBugBash } from "BugBashPro/Shared/Hooks/useBugBash";
+import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
+import { getTeamModule } from "Common/AzDev/Teams/Redux/Module";
+import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
+import { Loading } from "Common/Components/Loading";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
+import { TextField } from "Common/Components/TextField";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { useMappedState } from "Common/Hooks/useMappedState";
+import { ErrorMessageBox } from "Common/Notifications/Components/ErrorMessageBox";
+import { KeyValuePairActions } from "Common/Notifications/Redux/Actions";
+import { getKeyValuePairModule } from "Common/Notifications/Redux/Module";
+import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
+
+import { BugBashItemsImporterErrorKey, ImportableFieldNames, ImportableFields, ImportPreviewRowCount } from "../Constants";
+import { getColumnNames, getDefaultColumnMapping, getImportRows, guessDelimiter, ImportColumnMapping, parseDelimitedText } from "../Helpers";
+import { BugBashItemsImporterActions } from "../Redux/Actions";
+import { IBugBashItemsImporterAwareState } from "../Redux/Contracts";
+import { getBugBashItemsImporterModule } from "../Redux/Module";
+import { getImportedCount, getImportFailures, getImportTotal, isImporting } from "../Redux/Selectors";
+
+interface IBugBashItemsImportPanelOwnProps {
+    bugBashId: string;
+    onDismiss: () => void;
+}
+
+interface IBugBashItemsImportPanelStateProps {
+    isImporting: boolean;
+    total: number;
+    importedCount: number;
+    failures: { [rowNumber: number]: string };
+}
+
+interface IImportColumn {
+    index: number;
+    name: string;
+}
+
+function mapState(state: IBugBashItemsImporterAwareState): IBugBashItemsImportPanelStateProps {
+    return {
+        isImporting: isImporting(state),
+        total: getImportTotal(state),
+        importedCount: getImportedCount(state),
+        failures: getImportFailures(state)
+    };
+}
+
+const Actions = {
+    importBugBashItems: BugBashItemsImporterActions.importRequested,
+    pushError: KeyValuePairActions.pushEntry
+};
+
+function BugBashItemsImportPanelInternal(props: IBugBashItemsImportPanelOwnProps) {
+    const { bugBashId, onDismiss } = props;
+    const { bugBash } = useBugBash(bugBashId);
+    const { teamsMap } = useTeams();
+    const { isImporting, total, importedCount, failures } = useMappedState(mapState);
+    const { importBugBashItems, pushError } = useActionCreators(Actions);
+
+    const [sourceText, setSourceText] = React.useState("");
+    const [fileName, setFileName] = React.useState<string | undefined>(undefined);
+    const [hasHeaderRow, setHasHeaderRow] = React.useState(true);
+    const [columnMapping, setColumnMapping] = React.useState<ImportColumnMapping>({});
+
+    const parsedRows = React.useMemo(() => parseDelimitedText(sourceText, guessDelimiter(sourceText, fileName)), [sourceText, fileName]);
+    const columns: IImportColumn[] = React.useMemo(() => getColumnNames(parsedRows, hasHeaderRow).map((name, index) => ({ index, name })), [
+        parsedRows,
+        hasHeaderRow
+    ]);
+
+    // re-map the columns whenever a different set of columns is loaded
+    const columnsKey = columns.map((c) => c.name).join("|");
+    React.useEffect(() => {
+        setColumnMapping(
+            getDefaultColumnMapping(
+                columns.map((c) => c.name),
+                hasHeaderRow
+            )
+        );
+    }, [columnsKey]);
+
+    const importRows = React.useMemo(() => (bugBash ? getImportRows(bugBash, parsedRows, hasHeaderRow, columnMapping, teamsMap) : []), [
+        bugBash,
+        parsedRows,
+        hasHeaderRow,
+        columnMapping,
+        teamsMap
+    ]);
+
+    // once an import has run, only the rows which failed to import can be imported again
+    const hasImported = total > 0 && !isImporting;
+    const rowsToImport = importRows.filter((r) => r.errors.length === 0 && (!hasImported || failures[r.rowNumber] !== undefined));
+    const invalidRowsCount = importRows.filter((r) => r.errors.length > 0).length;
+
+    const onFileChange = React.useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files && e.target.files[0];
+        if (file) {
+            const reader = new FileReader();
+            reader.onload = () => {
+                setFileName(file.name);
+                setSourceText(reader.result as string);
+            };
+            reader.onerror = () => {
+                pushError(BugBashItemsImporterErrorKey, format(Resources.ImportFileReadError, file.name));
+            };
+            reader.readAsText(file);
+        }
+    }, []);
+
+    const onTextChange = React.useCallback((value: string) => {
+        setFileName(undefined);
+        setSourceText(value);
+    }, []);
+
+    const onHeaderRowChange = React.useCallback((_: unknown, checked: boolean) => {
+        setHasHeaderRow(checked);
+    }, []);
+
+    const onColumnMappingChange = (key: ImportableFieldNames, column: IImportColumn | undefined) => {
+        setColumnMapping({ ...columnMapping, [key]: column ? column.index : undefined });
+    };
+
+    const dismissPanel = React.useCallback(() => {
+        if (isImporting) {
+            return;
+        }
+
+        if (sourceText && !hasImported) {
+            confirmAction(Resources.ConfirmPanelTitle, Resources.ConfirmPanelClose_Content, (ok: boolean) => {
+                if (ok) {
+                    onDismiss();
+                }
+            });
+        } else {
+            onDismiss();
+        }
+    }, [isImporting, sourceText, hasImported, onDismiss]);
+
+    const onImport = () => {
+        if (rowsToImport.length > 0 && !isImporting) {
+            importBugBashItems(
+                bugBashId,
+                rowsToImport.map((r) => ({ rowNumber: r.rowNumber, bugBashItem: r.bugBashItem }))
+            );
+        }
+    };
+
+    const getRowStatus = (rowNumber: number, errors: string[]): string => {
+        if (errors.length > 0) {
+            return errors.join(" ");
+        } else if (failures[rowNumber] !== undefined) {
+            return failures[rowNumber];
+        } else if (hasImported) {
+            return Resources.ImportRowImported;
+        } else {
+            return Resources.ImportRowReady;
+        }
+    };
+
+    return (
+        <CustomPanel blurDismiss={false} className="bugbash-items-import-panel" size={ContentSize.Large} onDismiss={dismissPanel}>
+            <CustomHeader className="bugbash-items-import-panel--header" separator={true}>
+                <HeaderTitleArea>
+                    <div className="bugbash-items-import-panel--header-title flex-row flex-center">
+                        <div className="flex-grow font-size-l">{Resources.ImportBugBashItemsTitle}</div>
+                        <PanelCloseButton className="bugbash-items-import-panel--closeButton" onDismiss={dismissPanel} />
+                    </div>
+                    <ErrorMessageBox className="bugbash-items-import-error" errorKey={BugBashItemsImporterErrorKey} />
+                </HeaderTitleArea>
+            </CustomHeader>
+            <PanelContent>
+                {!bugBash && <Loading />}
+                {bugBash && (
+                    <div className="bugbash-items-import-panel-contents flex-grow flex-column scroll-auto">
+                        <div className="import-section">
+                            <div className="import-label">{Resources.ImportFile_Label}</div>
+                            <input type="file" accept=".csv,.tsv,.txt" disabled={isImporting || hasImported} onChange={onFileChange} />
+                        </div>
+                        <TextField
+                            className="import-section"
+                            label={Resources.ImportText_Label}
+                            multiline={true}
+                            disabled={isImporting || hasImported}
+                            value={fileName ? "" : sourceText}
+                            onChange={onTextChange}
+                        />
+                        <Checkbox
+                            className="import-section"
+                            label={Resources.ImportHasHeaderRow_Label}
+                            checked={hasHeaderRow}
+                            disabled={isImporting || hasImported}
+                            onChange={onHeaderRowChange}
+                        />
+                        {columns.length > 0 && (
+                            <>
+                                <div className="section-header font-size-l font-weight-heavy">{Resources.ImportColumnMappingHeader}</div>
+                                <div className="import-column-mapping flex-row flex-wrap">
+                                    {ImportableFields.map((field) => (
+                                        <DropdownPicker<IImportColumn>
+                                            key={field.key}
+                                            className="import-column-mapping-picker"
+                                            label={field.name}
+                                            required={field.key === ImportableFieldNames.Title}
+                                            disabled={isImporting || hasImported}
+                                            options={columns}
+                                            limitedToAllowedOptions={true}
+                                            getDropdownItem={getColumnDropdownItem}
+                                            selectedValue={columnMapping[field.key] !== undefined ? `${columnMapping[field.key]}` : undefined}
+                                            onChange={(column?: IImportColumn) => onColumnMappingChange(field.key, column)}
+                                        />
+                                    ))}
+                                </div>
+                                <div className="section-header font-size-l font-weight-heavy">{Resources.ImportPreviewHeader}</div>
+                                <div className="import-summary">
+                                    {`${importRows.length - invalidRowsCount} of ${importRows.length} rows are ready to import.`}
+                                    {importRows.length > ImportPreviewRowCount && ` Showing the first ${ImportPreviewRowCount} rows.`}
+                                </div>
+                                <table className="import-preview-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Row</th>
+                                            <th>Title</th>
+                                            <th>Team</th>
+                                            <th>Created By</th>
+                                            <th>Status</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {importRows.slice(0, ImportPreviewRowCount).map(({ rowNumber, bugBashItem, errors }) => {
+                                            const team = teamsMap && bugBashItem.teamId ? teamsMap[bugBashItem.teamId.toLowerCase()] : undefined;
+                                            const hasError = errors.length > 0 || failures[rowNumber] !== undefined;
+                                            return (
+                                                <tr key={rowNumber} className={css(hasError && "import-row-error")}>
+                                                    <td>{rowNumber}</td>
+                                                    <td>{bugBashItem.title}</td>
+                                                    <td>{team ? team.name : bugBashItem.teamId}</td>
+                                                    <td>{bugBashItem.createdBy && bugBashItem.createdBy.displayName}</td>
+                                                    <td className={css(hasError && "error-text")}>{getRowStatus(rowNumber, errors)}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </>
+                        )}
+                    </div>
+                )}
+            </PanelContent>
+            <PanelFooter showSeparator={true}>
+                <div className="footer-buttons flex-row flex-center justify-end">
+                    {(isImporting || hasImported) && (
+                        <div className="import-progress flex-grow">{`${importedCount} of ${total} bug bash items imported`}</div>
+                    )}
+                    <Button className="footer-button" disabled={isImporting} onClick={dismissPanel}>
+                        {hasImported ? Resources.Close : Resources.Cancel}
+                    </Button>
+                    <Button className="footer-button" primary={true} onClick={onImport} disabled={isImporting || rowsToImport.length === 0}>
+                        {`${Resources.Import} (${rowsToImport.length})`}
+                    </Button>
+                </div>
+            </PanelFooter>
+        </CustomPanel>
+    );
+}
+
+function getColumnDropdownItem(column: IImportColumn) {
+    return {
+        id: `${column.index}`,
+        text: column.name
+    };
+}
+
+export function BugBashItemsImportPanel(props: IBugBashItemsImportPanelOwnProps) {
+    return (
+        <DynamicModuleLoader modules={[getTeamModule(), getKeyValuePairModule(), getBugBashItemsImporterModule()]} cleanOnUnmount={true}>
+            <BugBashItemsImportPanelInternal {...props} />
+        </DynamicModuleLoader>
+    );
+}
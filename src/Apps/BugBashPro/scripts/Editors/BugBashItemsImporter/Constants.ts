@@ -0,0 +1,17 @@
+export const BugBashItemsImporterErrorKey = "BugBashItemsImporter/Error";
+export const ImportBatchSize = 10;
+export const ImportPreviewRowCount = 50;
+
+export const enum ImportableFieldNames {
+    Title = "title",
+    Description = "description",
+    TeamId = "teamId",
+    CreatedBy = "createdBy"
+}
+
+export const ImportableFields: { key: ImportableFieldNames; name: string; aliases: string[] }[] = [
+    { key: ImportableFieldNames.Title, name: "Title", aliases: ["title", "summary", "name"] },
+    { key: ImportableFieldNames.Description, name: "Description", aliases: ["description", "details", "repro steps", "repro"] },
+    { key: ImportableFieldNames.TeamId, name: "Team", aliases: ["team", "assigned to team", "area"] },
+    { key: ImportableFieldNames.CreatedBy, name: "Created By", aliases: ["created by", "createdby", "reporter", "author"] }
+];
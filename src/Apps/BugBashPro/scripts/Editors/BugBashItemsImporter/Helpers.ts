@@ -0,0 +1,163 @@
+import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
+import { format } from "azure-devops-ui/Core/Util/String";
+import { TitleFieldMaxLength } from "BugBashPro/Editors/BugBashItemEditor/Constants";
+import { getNewBugBashItemInstance } from "BugBashPro/Editors/BugBashItemEditor/Helpers";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { parseUniquefiedIdentityName } from "Common/Utilities/Identity";
+import { htmlEncode, isNullOrWhiteSpace } from "Common/Utilities/String";
+
+import { ImportableFieldNames, ImportableFields } from "./Constants";
+
+export type ImportColumnMapping = { [key in ImportableFieldNames]?: number };
+
+export interface IImportRow {
+    rowNumber: number;
+    bugBashItem: IBugBashItem;
+    errors: string[];
+}
+
+export function guessDelimiter(text: string, fileName?: string): string {
+    if (fileName && /\.csv$/i.test(fileName)) {
+        return ",";
+    }
+    if (fileName && /\.(tsv|tab)$/i.test(fileName)) {
+        return "\t";
+    }
+
+    // spreadsheet pastes are tab separated
+    const firstLine = text.split(/\r?\n/)[0] || "";
+    return firstLine.indexOf("\t") !== -1 ? "\t" : ",";
+}
+
+/**
+ * Parses delimited text into rows of cells. Supports quoted cells with escaped quotes and line breaks, which is what spreadsheets emit.
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"' && cell.length === 0) {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(cell);
+            cell = "";
+        } else if (ch === "\r" || ch === "\n") {
+            if (ch === "\r" && text[i + 1] === "\n") {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += ch;
+        }
+    }
+
+    if (cell.length > 0 || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // ignore blank lines
+    return rows.filter((r) => r.some((c) => !isNullOrWhiteSpace(c)));
+}
+
+export function getColumnNames(rows: string[][], hasHeaderRow: boolean): string[] {
+    const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0);
+    const columnNames: string[] = [];
+    for (let i = 0; i < columnCount; i++) {
+        const headerCell = hasHeaderRow && rows.length > 0 ? (rows[0][i] || "").trim() : "";
+        columnNames.push(headerCell || `Column ${i + 1}`);
+    }
+    return columnNames;
+}
+
+export function getDefaultColumnMapping(columnNames: string[], hasHeaderRow: boolean): ImportColumnMapping {
+    const mapping: ImportColumnMapping = {};
+    if (!hasHeaderRow) {
+        // without headers, assume the first column is the title
+        if (columnNames.length > 0) {
+            mapping[ImportableFieldNames.Title] = 0;
+        }
+        return mapping;
+    }
+
+    for (const field of ImportableFields) {
+        const index = columnNames.findIndex((c) => field.aliases.indexOf(c.trim().toLowerCase()) !== -1);
+        if (index !== -1) {
+            mapping[field.key] = index;
+        }
+    }
+    return mapping;
+}
+
+export function getImportRows(
+    bugBash: IBugBash,
+    rows: string[][],
+    hasHeaderRow: boolean,
+    mapping: ImportColumnMapping,
+    teamsMap: { [idOrName: string]: WebApiTeam } | undefined
+): IImportRow[] {
+    const dataRows = hasHeaderRow ? rows.slice(1) : rows;
+    const getCell = (row: string[], key: ImportableFieldNames) => {
+        const index = mapping[key];
+        return index !== undefined && index < row.length ? row[index].trim() : "";
+    };
+
+    return dataRows.map((row, index) => {
+        const errors: string[] = [];
+        const title = getCell(row, ImportableFieldNames.Title);
+        const description = getCell(row, ImportableFieldNames.Description);
+        const teamValue = getCell(row, ImportableFieldNames.TeamId) || bugBash.defaultTeam || "";
+        const createdByValue = getCell(row, ImportableFieldNames.CreatedBy);
+
+        if (isNullOrWhiteSpace(title)) {
+            errors.push(Resources.ImportTitleRequiredError);
+        } else if (title.length > TitleFieldMaxLength) {
+            errors.push(format(Resources.ImportTitleTooLongError, TitleFieldMaxLength));
+        }
+
+        // teams can be referred to by either id or name
+        const team = teamValue && teamsMap ? teamsMap[teamValue.toLowerCase()] : undefined;
+        if (isNullOrWhiteSpace(teamValue)) {
+            errors.push(Resources.ImportTeamRequiredError);
+        } else if (!team) {
+            errors.push(format(Resources.ImportUnknownTeamError, teamValue));
+        }
+
+        const bugBashItem = getNewBugBashItemInstance(bugBash.id!, team ? team.id : teamValue);
+        bugBashItem.title = title;
+        // descriptions are stored as html
+        bugBashItem.description = description ? htmlEncode(description).replace(/\r?\n/g, "<br/>") : "";
+        if (createdByValue) {
+            // free text like "Jane Doe" parses to an identity without an id or unique name, which can't be matched to a user
+            const createdBy = parseUniquefiedIdentityName(createdByValue);
+            if (createdBy && (createdBy.id || createdBy.uniqueName)) {
+                bugBashItem.createdBy = createdBy;
+            } else {
+                errors.push(format(Resources.ImportUnknownCreatedByError, createdByValue));
+            }
+        }
+
+        return {
+            rowNumber: index + (hasHeaderRow ? 2 : 1),
+            bugBashItem,
+            errors
+        };
+    });
+}
@@ -0,0 +1,23 @@
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { ActionsUnion, createAction } from "Common/Redux";
+
+export const BugBashItemsImporterActions = {
+    importRequested: (bugBashId: string, rows: { rowNumber: number; bugBashItem: IBugBashItem }[]) =>
+        createAction(BugBashItemsImporterActionTypes.ImportRequested, { bugBashId, rows }),
+    beginImport: (total: number) => createAction(BugBashItemsImporterActionTypes.BeginImport, total),
+    rowImported: (rowNumber: number) => createAction(BugBashItemsImporterActionTypes.RowImported, rowNumber),
+    rowImportFailed: (rowNumber: number, error: string) => createAction(BugBashItemsImporterActionTypes.RowImportFailed, { rowNumber, error }),
+    importCompleted: () => createAction(BugBashItemsImporterActionTypes.ImportCompleted),
+    reset: () => createAction(BugBashItemsImporterActionTypes.Reset)
+};
+
+export const enum BugBashItemsImporterActionTypes {
+    ImportRequested = "BugBashItemsImporter/ImportRequested",
+    BeginImport = "BugBashItemsImporter/BeginImport",
+    RowImported = "BugBashItemsImporter/RowImported",
+    RowImportFailed = "BugBashItemsImporter/RowImportFailed",
+    ImportCompleted = "BugBashItemsImporter/ImportCompleted",
+    Reset = "BugBashItemsImporter/Reset"
+}
+
+export type BugBashItemsImporterActions = ActionsUnion<typeof BugBashItemsImporterActions>;
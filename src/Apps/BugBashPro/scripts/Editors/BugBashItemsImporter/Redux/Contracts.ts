@@ -0,0 +1,17 @@
+export interface IBugBashItemsImporterAwareState {
+    bugBashItemsImporterState: IBugBashItemsImporterState;
+}
+
+export interface IBugBashItemsImporterState {
+    isImporting: boolean;
+    total: number;
+    importedCount: number;
+    failures: { [rowNumber: number]: string };
+}
+
+export const defaultBugBashItemsImporterState: IBugBashItemsImporterState = {
+    isImporting: false,
+    total: 0,
+    importedCount: 0,
+    failures: {}
+};
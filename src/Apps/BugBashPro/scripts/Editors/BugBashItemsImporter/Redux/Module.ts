@@ -0,0 +1,19 @@
+import { ReducersMapObject } from "redux";
+import { ISagaModule } from "redux-dynamic-modules-saga";
+
+import { BugBashItemsImporterActions } from "./Actions";
+import { IBugBashItemsImporterAwareState } from "./Contracts";
+import { bugBashItemsImporterReducer } from "./Reducers";
+import { bugBashItemsImporterSaga } from "./Sagas";
+
+export function getBugBashItemsImporterModule(): ISagaModule<IBugBashItemsImporterAwareState> {
+    const reducerMap: ReducersMapObject<IBugBashItemsImporterAwareState, BugBashItemsImporterActions> = {
+        bugBashItemsImporterState: bugBashItemsImporterReducer
+    };
+
+    return {
+        id: "bugBashItemsImporter",
+        reducerMap,
+        sagas: [bugBashItemsImporterSaga]
+    };
+}
@@ -0,0 +1,44 @@
+import { produce } from "immer";
+
+import { BugBashItemsImporterActions, BugBashItemsImporterActionTypes } from "./Actions";
+import { defaultBugBashItemsImporterState, IBugBashItemsImporterState } from "./Contracts";
+
+export function bugBashItemsImporterReducer(
+    state: IBugBashItemsImporterState | undefined,
+    action: BugBashItemsImporterActions
+): IBugBashItemsImporterState {
+    return produce(state || defaultBugBashItemsImporterState, (draft) => {
+        switch (action.type) {
+            case BugBashItemsImporterActionTypes.BeginImport: {
+                draft.isImporting = true;
+                draft.total = action.payload;
+                draft.importedCount = 0;
+                draft.failures = {};
+                break;
+            }
+
+            case BugBashItemsImporterActionTypes.RowImported: {
+                draft.importedCount++;
+                break;
+            }
+
+            case BugBashItemsImporterActionTypes.RowImportFailed: {
+                const { rowNumber, error } = action.payload;
+                draft.failures[rowNumber] = error;
+                break;
+            }
+
+            case BugBashItemsImporterActionTypes.ImportCompleted: {
+                draft.isImporting = false;
+                break;
+            }
+
+            case BugBashItemsImporterActionTypes.Reset: {
+                draft.isImporting = false;
+                draft.total = 0;
+                draft.importedCount = 0;
+                draft.failures = {};
+            }
+        }
+    });
+}
@@ -0,0 +1,55 @@
+import { BugBashPortalActions } from "BugBashPro/Portals/BugBashPortal/Redux/Actions";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { getBugBash } from "BugBashPro/Shared/Redux/BugBashes/Selectors";
+import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import { createBugBashItemAsync } from "BugBashPro/Shared/Redux/BugBashItems/DataSource";
+import { ActionsOfType, RT } from "Common/Redux";
+import { addToast } from "Common/ServiceWrappers/GlobalMessageService";
+import { SagaIterator } from "redux-saga";
+import { all, call, put, select, takeLeading } from "redux-saga/effects";
+
+import { ImportBatchSize } from "../Constants";
+import { BugBashItemsImporterActions, BugBashItemsImporterActionTypes } from "./Actions";
+import { getImportFailures } from "./Selectors";
+
+export function* bugBashItemsImporterSaga(): SagaIterator {
+    yield takeLeading(BugBashItemsImporterActionTypes.ImportRequested, importBugBashItems);
+}
+
+function* importBugBashItems(action: ActionsOfType<BugBashItemsImporterActions, BugBashItemsImporterActionTypes.ImportRequested>): SagaIterator {
+    const { bugBashId, rows } = action.payload;
+    const bugBash: RT<typeof getBugBash> = yield select(getBugBash, bugBashId);
+    yield put(BugBashItemsImporterActions.beginImport(rows.length));
+
+    for (let i = 0; i < rows.length; i += ImportBatchSize) {
+        const batch = rows.slice(i, i + ImportBatchSize);
+        yield all(batch.map((row) => call(importBugBashItem, bugBashId, bugBash, row.rowNumber, row.bugBashItem)));
+    }
+
+    yield put(BugBashItemsImporterActions.importCompleted());
+
+    // keep the panel open if some rows failed, so that the failures can be reviewed and retried
+    const failures: RT<typeof getImportFailures> = yield select(getImportFailures);
+    if (Object.keys(failures).length === 0) {
+        yield call(addToast, {
+            message: `${rows.length} ${Resources.BugBashItemsImportedMessage}`,
+            duration: 5000,
+            forceOverrideExisting: true
+        });
+        yield put(BugBashPortalActions.dismissPortal());
+    }
+}
+
+function* importBugBashItem(bugBashId: string, bugBash: IBugBash | undefined, rowNumber: number, bugBashItem: IBugBashItem): SagaIterator {
+    try {
+        const createdBugBashItem: RT<typeof createBugBashItemAsync> = yield call(createBugBashItemAsync, bugBashId, bugBashItem);
+        yield put(BugBashItemsActions.bugBashItemCreated(createdBugBashItem, undefined));
+        yield put(BugBashItemsImporterActions.rowImported(rowNumber));
+        if (bugBash && bugBash.autoAccept) {
+            yield put(BugBashItemsActions.bugBashItemAcceptRequested(bugBash, createdBugBashItem.id!, true));
+        }
+    } catch (e) {
+        yield put(BugBashItemsImporterActions.rowImportFailed(rowNumber, e.message));
+    }
+}
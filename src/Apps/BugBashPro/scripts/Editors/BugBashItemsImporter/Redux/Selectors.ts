@@ -0,0 +1,15 @@
+import { createSelector } from "reselect";
+
+import { IBugBashItemsImporterAwareState, IBugBashItemsImporterState } from "./Contracts";
+
+export function getBugBashItemsImporterState(state: IBugBashItemsImporterAwareState): IBugBashItemsImporterState | undefined {
+    return state.bugBashItemsImporterState;
+}
+
+export const isImporting = createSelector(getBugBashItemsImporterState, (state) => !!(state && state.isImporting));
+
+export const getImportTotal = createSelector(getBugBashItemsImporterState, (state) => (state && state.total) || 0);
+
+export const getImportedCount = createSelector(getBugBashItemsImporterState, (state) => (state && state.importedCount) || 0);
+
+export const getImportFailures = createSelector(getBugBashItemsImporterState, (state) => (state && state.failures) || {});
@@ -0,0 +1 @@
+export * from "./Components/BugBashItemsImportPanel";
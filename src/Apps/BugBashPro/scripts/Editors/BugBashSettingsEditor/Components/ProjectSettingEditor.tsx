@@ -2,12 +2,16 @@ import * as React from "react";
 
 import { GitRepository } from "azure-devops-extension-api/Git/Git";
 import { Button } from "azure-devops-ui/Button";
+import { Checkbox } from "azure-devops-ui/Checkbox";
 import { equals } from "azure-devops-ui/Core/Util/String";
 import { Resources } from "BugBashPro/Resources";
+import { DefaultGitMediaFolder } from "BugBashPro/Shared/Constants";
 import { IProjectSetting } from "BugBashPro/Shared/Contracts";
 import { useProjectSetting } from "BugBashPro/Shared/Hooks/useProjectSetting";
 import { ProjectSettingActions } from "BugBashPro/Shared/Redux/ProjectSettings/Actions";
 import { GitRepoPicker } from "Common/AzDev/GitRepos/Components";
+import { InfoLabel } from "Common/Components/InfoLabel";
+import { TextField } from "Common/Components/TextField";
 import { LoadStatus } from "Common/Contracts";
 import { useActionCreators } from "Common/Hooks/useActionCreators";
 import { useControlledState } from "Common/Hooks/useControlledState";
@@ -22,11 +26,7 @@ export function ProjectSettingEditor() {
 
     const [projectSetting, setProjectSetting] = useControlledState<IProjectSetting | undefined>(prop_projectSetting);
 
-    const isProjectSettingDirty = !equals(
-        (prop_projectSetting && prop_projectSetting.gitMediaRepo) || "",
-        (projectSetting && projectSetting.gitMediaRepo) || "",
-        true
-    );
+    const isProjectSettingDirty = isSettingDirty(prop_projectSetting, projectSetting);
     const saveProjectSetting = () => {
         if (isProjectSettingDirty && projectSetting) {
             updateProjectSetting(projectSetting);
@@ -35,6 +35,15 @@ export function ProjectSettingEditor() {
     const onGitRepoChange = (option: GitRepository, value?: string) => {
         setProjectSetting({ ...projectSetting, gitMediaRepo: option ? option.id : value || "" });
     };
+    const onGitBranchChange = (value: string) => {
+        setProjectSetting({ ...projectSetting!, gitMediaBranch: value });
+    };
+    const onGitFolderChange = (value: string) => {
+        setProjectSetting({ ...projectSetting!, gitMediaFolder: value });
+    };
+    const onCreateGitBranchChange = (_: unknown, checked: boolean) => {
+        setProjectSetting({ ...projectSetting!, createGitMediaBranch: checked });
+    };
     const isLoading = !projectSetting || status === LoadStatus.Loading;
 
     return (
@@ -47,9 +56,53 @@ export function ProjectSettingEditor() {
                 onChange={onGitRepoChange}
                 disabled={isLoading}
             />
+            <TextField
+                className="setting-control"
+                label={Resources.GitMediaBranch_Label}
+                info={Resources.GitMediaBranch_LabelInfo}
+                placeholder={Resources.GitMediaBranch_Placeholder}
+                value={(projectSetting && projectSetting.gitMediaBranch) || ""}
+                onChange={onGitBranchChange}
+                disabled={isLoading}
+            />
+            <TextField
+                className="setting-control"
+                label={Resources.GitMediaFolder_Label}
+                info={Resources.GitMediaFolder_LabelInfo}
+                placeholder={DefaultGitMediaFolder}
+                value={(projectSetting && projectSetting.gitMediaFolder) || ""}
+                onChange={onGitFolderChange}
+                disabled={isLoading}
+            />
+            <div className="setting-control flex-row flex-center">
+                <Checkbox
+                    label=""
+                    checked={!!(projectSetting && projectSetting.createGitMediaBranch)}
+                    onChange={onCreateGitBranchChange}
+                    disabled={isLoading}
+                />
+                <InfoLabel label={Resources.CreateGitMediaBranch_Label} info={Resources.CreateGitMediaBranch_LabelInfo} />
+            </div>
             <Button className="save-button flex-self-end" primary={true} disabled={!isProjectSettingDirty} onClick={saveProjectSetting}>
                 Save
             </Button>
         </>
     );
 }
+
+function isSettingDirty(originalSetting: IProjectSetting | undefined, updatedSetting: IProjectSetting | undefined): boolean {
+    const { gitMediaRepo = "", gitMediaBranch = "", gitMediaFolder = "", createGitMediaBranch = false } = updatedSetting || {};
+    const {
+        gitMediaRepo: orig_gitMediaRepo = "",
+        gitMediaBranch: orig_gitMediaBranch = "",
+        gitMediaFolder: orig_gitMediaFolder = "",
+        createGitMediaBranch: orig_createGitMediaBranch = false
+    } = originalSetting || {};
+
+    return (
+        !equals(gitMediaRepo, orig_gitMediaRepo, true) ||
+        !equals(gitMediaBranch, orig_gitMediaBranch) ||
+        !equals(gitMediaFolder, orig_gitMediaFolder) ||
+        createGitMediaBranch !== orig_createGitMediaBranch
+    );
+}
@@ -5,6 +5,7 @@ import { Page } from "azure-devops-ui/Page";
 import { TabContent } from "azure-devops-ui/Tabs";
 import { BugBashPortal } from "BugBashPro/Portals/BugBashPortal";
 import { getBugBashesModule } from "BugBashPro/Shared/Redux/BugBashes/Module";
+import { getBugBashTemplatesModule } from "BugBashPro/Shared/Redux/BugBashTemplates/Module";
 import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
 import { ErrorMessageBox } from "Common/Notifications/Components/ErrorMessageBox";
 import { getKeyValuePairModule } from "Common/Notifications/Redux/Module";
@@ -14,12 +15,14 @@ import { getBugBashDirectoryModule } from "../Redux/Module";
 import { BugBashDirectoryHeader } from "./BugBashDirectoryHeader";
 import { BugBashDirectoryTable } from "./BugBashDirectoryTable";
 import { BugBashDirectoryTabs } from "./BugBashDirectoryTabs";
+import { BugBashPurgeProgress } from "./BugBashPurgeProgress";
 
 function BugBashDirectoryInternal(): JSX.Element {
     return (
         <Page className="bugbash-page flex-column flex-grow">
             <div className="flex-column flex-noshrink">
                 <ErrorMessageBox errorKey={DirectoryPageErrorKey} />
+                <BugBashPurgeProgress />
             </div>
 
             <BugBashPortal />
@@ -38,7 +41,10 @@ function BugBashDirectoryInternal(): JSX.Element {
 
 export function BugBashDirectory() {
     return (
-        <DynamicModuleLoader modules={[getBugBashesModule(), getBugBashDirectoryModule(), getKeyValuePairModule()]} cleanOnUnmount={true}>
+        <DynamicModuleLoader
+            modules={[getBugBashesModule(), getBugBashTemplatesModule(), getBugBashDirectoryModule(), getKeyValuePairModule()]}
+            cleanOnUnmount={true}
+        >
             <BugBashDirectoryInternal />
         </DynamicModuleLoader>
     );
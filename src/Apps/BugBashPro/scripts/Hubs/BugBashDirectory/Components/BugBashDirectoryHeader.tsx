@@ -9,6 +9,7 @@ import { useActionCreators } from "Common/Hooks/useActionCreators";
 
 import { DirectoryPageHeaderCommands } from "../Constants";
 import { useFilteredBugBashes } from "../Hooks/useFilteredBugBashes";
+import { CloneBugBashDialog } from "./CloneBugBashDialog";
 
 const Actions = {
     openBugBashPortal: BugBashPortalActions.openBugBashPortal,
@@ -20,33 +21,45 @@ export function BugBashDirectoryHeader(): JSX.Element {
     const { status } = useFilteredBugBashes();
     const { openBugBashPortal, openSettingsPortal, loadBugBashes } = useActionCreators(Actions);
     const isLoading = status === LoadStatus.Loading || status === LoadStatus.NotLoaded;
+    const [isTemplateDialogOpen, setTemplateDialogOpen] = React.useState(false);
+    const dismissTemplateDialog = React.useCallback(() => setTemplateDialogOpen(false), []);
 
     return (
-        <Header
-            className="bugbash-page-header"
-            title={Resources.DirectoryPageHeader}
-            commandBarItems={[
-                {
-                    ...DirectoryPageHeaderCommands.new,
-                    disabled: isLoading,
-                    onActivate: () => {
-                        openBugBashPortal(undefined);
+        <>
+            <Header
+                className="bugbash-page-header"
+                title={Resources.DirectoryPageHeader}
+                commandBarItems={[
+                    {
+                        ...DirectoryPageHeaderCommands.new,
+                        disabled: isLoading,
+                        onActivate: () => {
+                            openBugBashPortal(undefined);
+                        }
+                    },
+                    {
+                        ...DirectoryPageHeaderCommands.newFromTemplate,
+                        disabled: isLoading,
+                        onActivate: () => {
+                            setTemplateDialogOpen(true);
+                        }
+                    },
+                    {
+                        ...DirectoryPageHeaderCommands.refresh,
+                        disabled: isLoading,
+                        onActivate: loadBugBashes
+                    },
+                    {
+                        ...DirectoryPageHeaderCommands.settings,
+                        disabled: isLoading,
+                        onActivate: () => {
+                            openSettingsPortal();
+                        }
                     }
-                },
-                {
-                    ...DirectoryPageHeaderCommands.refresh,
-                    disabled: isLoading,
-                    onActivate: loadBugBashes
-                },
-                {
-                    ...DirectoryPageHeaderCommands.settings,
-                    disabled: isLoading,
-                    onActivate: () => {
-                        openSettingsPortal();
-                    }
-                }
-            ]}
-            titleSize={TitleSize.Large}
-        />
+                ]}
+                titleSize={TitleSize.Large}
+            />
+            {isTemplateDialogOpen && <CloneBugBashDialog onDismiss={dismissTemplateDialog} />}
+        </>
     );
 }
@@ -7,8 +7,8 @@ import { BugBashPortalActions } from "BugBashPro/Portals/BugBashPortal/Redux/Act
 import { Resources } from "BugBashPro/Resources";
 import { AppView } from "BugBashPro/Shared/Constants";
 import { IBugBash } from "BugBashPro/Shared/Contracts";
+import { isBugBashOwner } from "BugBashPro/Shared/Helpers";
 import { getBugBashViewUrlAsync, navigateToBugBashItemsList } from "BugBashPro/Shared/NavHelpers";
-import { BugBashesActions } from "BugBashPro/Shared/Redux/BugBashes/Actions";
 import { AsyncLinkComponent } from "Common/Components/AsyncComponent/AsyncLinkComponent";
 import { Loading } from "Common/Components/Loading";
 import { ITableColumn, Table } from "Common/Components/Table";
@@ -19,25 +19,38 @@ import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
 import * as format from "date-fns/format";
 
 import { BugBashFieldNames } from "../Constants";
+import { isBugBashOccurrencePreview } from "../Helpers";
 import { useBugBashesSort } from "../Hooks/useBugBashesSort";
 import { useFilteredBugBashes } from "../Hooks/useFilteredBugBashes";
+import { BugBashDirectoryActions } from "../Redux/Actions";
+import { CloneBugBashDialog } from "./CloneBugBashDialog";
+import { SaveAsTemplateDialog } from "./SaveAsTemplateDialog";
 
 const Actions = {
     openBugBashPortal: BugBashPortalActions.openBugBashPortal,
-    deleteBugBash: BugBashesActions.bugBashDeleteRequested
+    purgeBugBash: BugBashDirectoryActions.purgeBugBashRequested,
+    archiveBugBash: BugBashDirectoryActions.archiveBugBashRequested
 };
 
 export function BugBashDirectoryTable() {
     const { sortColumn, isSortedDescending, applySort } = useBugBashesSort();
     const { filteredBugBashes, status } = useFilteredBugBashes();
-    const { openBugBashPortal, deleteBugBash } = useActionCreators(Actions);
+    const { openBugBashPortal, purgeBugBash, archiveBugBash } = useActionCreators(Actions);
+    const [bugBashToClone, setBugBashToClone] = React.useState<IBugBash | undefined>(undefined);
+    const [bugBashToSaveAsTemplate, setBugBashToSaveAsTemplate] = React.useState<IBugBash | undefined>(undefined);
 
     const isLoading = status === LoadStatus.Loading || status === LoadStatus.NotLoaded;
     const onEditBugBash = React.useCallback((bugBashId: string) => {
         openBugBashPortal(bugBashId, { readFromCache: false });
     }, []);
 
-    const columns = React.useMemo(() => getColumns(sortColumn, isSortedDescending, deleteBugBash, onEditBugBash), [sortColumn, isSortedDescending]);
+    const dismissCloneDialog = React.useCallback(() => setBugBashToClone(undefined), []);
+    const dismissSaveAsTemplateDialog = React.useCallback(() => setBugBashToSaveAsTemplate(undefined), []);
+
+    const columns = React.useMemo(
+        () => getColumns(sortColumn, isSortedDescending, purgeBugBash, archiveBugBash, onEditBugBash, setBugBashToClone, setBugBashToSaveAsTemplate),
+        [sortColumn, isSortedDescending]
+    );
     const sortingBehavior = React.useMemo(
         () =>
             new ColumnSorting<IBugBash>((proposedColumn: VSSUI_ITableColumn<IBugBash>, proposedSortOrder: SortOrder) => {
@@ -57,15 +70,19 @@ export function BugBashDirectoryTable() {
     }
 
     return (
-        <Table<IBugBash>
-            columns={columns}
-            items={filteredBugBashes}
-            scrollable={true}
-            showLines={false}
-            singleClickActivation={true}
-            onActivate={onRowActivate}
-            behaviors={[sortingBehavior]}
-        />
+        <>
+            <Table<IBugBash>
+                columns={columns}
+                items={filteredBugBashes}
+                scrollable={true}
+                showLines={false}
+                singleClickActivation={true}
+                onActivate={onRowActivate}
+                behaviors={[sortingBehavior]}
+            />
+            {bugBashToClone && <CloneBugBashDialog bugBash={bugBashToClone} onDismiss={dismissCloneDialog} />}
+            {bugBashToSaveAsTemplate && <SaveAsTemplateDialog bugBash={bugBashToSaveAsTemplate} onDismiss={dismissSaveAsTemplateDialog} />}
+        </>
     );
 }
 
@@ -76,8 +93,11 @@ function getBugBashUrlPromise(bugBashId: string): () => Promise<string> {
 function getColumns(
     sortColumn: string | undefined,
     isSortedDescending: boolean | undefined,
-    onDeleteBugBash: (bugBashId: string) => void,
-    onEditBugBash: (bugBashId: string) => void
+    onDeleteBugBash: (bugBash: IBugBash) => void,
+    onArchiveBugBash: (bugBash: IBugBash, archived: boolean) => void,
+    onEditBugBash: (bugBashId: string) => void,
+    onCloneBugBash: (bugBash: IBugBash) => void,
+    onSaveAsTemplate: (bugBash: IBugBash) => void
 ): ITableColumn<IBugBash>[] {
     return [
         {
@@ -89,6 +109,16 @@ function getColumns(
             isSorted: sortColumn === BugBashFieldNames.Title,
             isSortedDescending: isSortedDescending,
             renderCell: (_: unknown, columnIndex: number, tableColumn: ITableColumn<IBugBash>, bugBash: IBugBash) => {
+                if (isBugBashOccurrencePreview(bugBash)) {
+                    return (
+                        <SimpleTableCell columnIndex={columnIndex} tableColumn={tableColumn} key={`col-${columnIndex}`}>
+                            <Tooltip text={Resources.ScheduledOccurrence_Tooltip}>
+                                <span className="text-ellipsis secondary-text">{`${bugBash.title} (${Resources.ScheduledOccurrence})`}</span>
+                            </Tooltip>
+                        </SimpleTableCell>
+                    );
+                }
+
                 return (
                     <SimpleTableCell
                         contentClassName="bolt-table-cell-content-with-link"
@@ -151,42 +181,73 @@ function getColumns(
                 );
             }
         },
-        new ColumnMore((bugBash: IBugBash) => {
-            return {
-                id: "sub-menu",
-                items: [
-                    {
-                        id: "list",
-                        text: Resources.Open,
-                        onActivate: () => {
-                            navigateToBugBashItemsList(bugBash.id!);
+        new ColumnMore(
+            (bugBash: IBugBash) => {
+                const isOwner = isBugBashOwner(bugBash);
+                return {
+                    id: "sub-menu",
+                    items: [
+                        {
+                            id: "list",
+                            text: Resources.Open,
+                            onActivate: () => {
+                                navigateToBugBashItemsList(bugBash.id!);
+                            },
+                            iconProps: { iconName: "ReplyMirrored", className: "communication-foreground" }
                         },
-                        iconProps: { iconName: "ReplyMirrored", className: "communication-foreground" }
-                    },
-                    {
-                        id: "edit",
-                        text: Resources.Edit,
-                        onActivate: () => {
-                            // refresh bug bash from server before edit
-                            onEditBugBash(bugBash.id!);
+                        {
+                            id: "edit",
+                            text: Resources.Edit,
+                            disabled: !isOwner,
+                            onActivate: () => {
+                                // refresh bug bash from server before edit
+                                onEditBugBash(bugBash.id!);
+                            },
+                            iconProps: { iconName: "Edit", className: "communication-foreground" }
                         },
-                        iconProps: { iconName: "Edit", className: "communication-foreground" }
-                    },
-                    {
-                        id: "delete",
-                        text: Resources.Delete,
-                        onActivate: () => {
-                            confirmAction(Resources.ConfirmDialogTitle, Resources.DeleteBugBashConfirmation, (ok: boolean) => {
-                                if (ok) {
-                                    onDeleteBugBash(bugBash.id!);
-                                }
-                            });
+                        {
+                            id: "clone",
+                            text: Resources.Clone,
+                            onActivate: () => {
+                                onCloneBugBash(bugBash);
+                            },
+                            iconProps: { iconName: "Copy", className: "communication-foreground" }
                         },
-                        iconProps: { iconName: "Cancel", className: "error-text" }
-                    }
-                ]
-            };
-        })
+                        {
+                            id: "saveastemplate",
+                            text: Resources.SaveAsTemplate,
+                            onActivate: () => {
+                                onSaveAsTemplate(bugBash);
+                            },
+                            iconProps: { iconName: "SaveTemplate", className: "communication-foreground" }
+                        },
+                        {
+                            id: "archive",
+                            text: bugBash.archived ? Resources.Unarchive : Resources.Archive,
+                            disabled: !isOwner,
+                            onActivate: () => {
+                                onArchiveBugBash(bugBash, !bugBash.archived);
+                            },
+                            iconProps: { iconName: "Archive", className: "communication-foreground" }
+                        },
+                        {
+                            id: "delete",
+                            text: Resources.Delete,
+                            disabled: !isOwner,
+                            onActivate: () => {
+                                confirmAction(Resources.ConfirmDialogTitle, Resources.DeleteBugBashConfirmation, (ok: boolean) => {
+                                    if (ok) {
+                                        onDeleteBugBash(bugBash);
+                                    }
+                                });
+                            },
+                            iconProps: { iconName: "Cancel", className: "error-text" }
+                        }
+                    ]
+                };
+            },
+            (bugBash: IBugBash) => !isBugBashOccurrencePreview(bugBash)
+        )
     ];
 }
 
@@ -200,5 +261,7 @@ function onLinkClick(bugBash: IBugBash) {
 }
 
 function onRowActivate(_event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<IBugBash>) {
-    navigateToBugBashItemsList(tableRow.data.id!);
+    if (!isBugBashOccurrencePreview(tableRow.data)) {
+        navigateToBugBashItemsList(tableRow.data.id!);
+    }
 }
@@ -25,6 +25,7 @@ export function BugBashDirectoryTabs(): JSX.Element {
             <Tab name={Resources.InProgress} id={BugBashDirectoryTabId.Ongoing} badgeCount={(bugBashCounts && bugBashCounts.ongoing) || 0} />
             <Tab name={Resources.Scheduled} id={BugBashDirectoryTabId.Upcoming} badgeCount={(bugBashCounts && bugBashCounts.upcoming) || 0} />
             <Tab name={Resources.Completed} id={BugBashDirectoryTabId.Past} badgeCount={(bugBashCounts && bugBashCounts.past) || 0} />
+            <Tab name={Resources.Archived} id={BugBashDirectoryTabId.Archived} badgeCount={(bugBashCounts && bugBashCounts.archived) || 0} />
         </TabBar>
     );
 }
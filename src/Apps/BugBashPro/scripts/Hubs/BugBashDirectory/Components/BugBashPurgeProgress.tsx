@@ -0,0 +1,19 @@
+import * as React from "react";
+
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
+
+import { usePurgeOperation } from "../Hooks/usePurgeOperation";
+
+export function BugBashPurgeProgress() {
+    const { purgeOperation } = usePurgeOperation();
+    if (!purgeOperation) {
+        return null;
+    }
+
+    const { title, completed, total } = purgeOperation;
+    return (
+        <MessageCard className="bugbash-purge-progress" severity={MessageCardSeverity.Info}>
+            {`Deleting "${title}": ${completed} of ${total} processed`}
+        </MessageCard>
+    );
+}
@@ -0,0 +1,143 @@
+import * as React from "react";
+
+import { Button } from "azure-devops-ui/Button";
+import { IListBoxItem } from "azure-devops-ui/Components/ListBox/ListBox.Props";
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { TitleFieldMaxLength } from "BugBashPro/Editors/BugBashEditor/Constants";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBash, IBugBashTemplate } from "BugBashPro/Shared/Contracts";
+import { useBugBashTemplates } from "BugBashPro/Shared/Hooks/useBugBashTemplates";
+import { BugBashTemplatesActions } from "BugBashPro/Shared/Redux/BugBashTemplates/Actions";
+import { DateTimePickerDropdown } from "Common/Components/Pickers/DateTimePickerDropdown";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
+import { TextField } from "Common/Components/TextField";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
+
+import { getClonedBugBash } from "../Helpers";
+import { BugBashDirectoryActions } from "../Redux/Actions";
+
+interface ICloneBugBashDialogProps {
+    /**
+     * The bug bash to clone. When it is not provided, the dialog lets the user pick a saved template instead.
+     */
+    bugBash?: IBugBash;
+    onDismiss: () => void;
+}
+
+const Actions = {
+    cloneBugBash: BugBashDirectoryActions.cloneBugBashRequested,
+    deleteTemplate: BugBashTemplatesActions.templateDeleteRequested
+};
+
+export function CloneBugBashDialog(props: ICloneBugBashDialogProps) {
+    const { bugBash, onDismiss } = props;
+    const { templates } = useBugBashTemplates();
+    const { cloneBugBash, deleteTemplate } = useActionCreators(Actions);
+
+    const [template, setTemplate] = React.useState<IBugBashTemplate | undefined>(undefined);
+    const [title, setTitle] = React.useState(bugBash ? `${Resources.CopyOf} ${bugBash.title}` : "");
+    const [startTime, setStartTime] = React.useState<Date | undefined>(bugBash && bugBash.startTime);
+
+    const source = bugBash || (template && template.bugBash);
+    const endTime = source && getClonedBugBash(source, title, startTime).endTime;
+
+    const onTemplateChange = (option?: IBugBashTemplate) => {
+        setTemplate(option);
+        setTitle(option ? option.bugBash.title : "");
+        setStartTime(option && option.bugBash.startTime);
+    };
+    const onDeleteTemplateClick = () => {
+        confirmAction(Resources.ConfirmDialogTitle, Resources.DeleteBugBashTemplateConfirmation, (ok: boolean) => {
+            if (ok && template) {
+                deleteTemplate(template.id!);
+                onTemplateChange(undefined);
+            }
+        });
+    };
+    const onStartTimeChange = (value: Date) => setStartTime(value || undefined);
+    const onCloneClick = () => {
+        if (source) {
+            cloneBugBash(source, template ? template.details : undefined, title.trim(), startTime);
+            onDismiss();
+        }
+    };
+
+    return (
+        <Dialog
+            className="clone-bugbash-dialog"
+            titleProps={{ text: bugBash ? Resources.CloneBugBashDialogTitle : Resources.NewBugBashFromTemplateDialogTitle, size: TitleSize.Medium }}
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: bugBash ? Resources.Clone : Resources.Create,
+                    primary: true,
+                    disabled: !source || isNullOrWhiteSpace(title),
+                    onClick: onCloneClick
+                }
+            ]}
+        >
+            <div className="flex-column rhythm-vertical-16">
+                {!bugBash && (
+                    <div className="flex-row flex-end">
+                        <DropdownPicker<IBugBashTemplate>
+                            className="flex-grow"
+                            label={Resources.BugBashTemplate_Label}
+                            placeholder={Resources.BugBashTemplate_Placeholder}
+                            required={true}
+                            options={templates || []}
+                            limitedToAllowedOptions={true}
+                            getDropdownItem={getTemplateDropdownItem}
+                            selectedValue={template ? template.id : undefined}
+                            onChange={onTemplateChange}
+                        />
+                        <Button
+                            className="error-text"
+                            subtle={true}
+                            disabled={!template}
+                            onClick={onDeleteTemplateClick}
+                            iconProps={{ iconName: "Delete" }}
+                            tooltipProps={{ text: Resources.DeleteBugBashTemplate }}
+                        />
+                    </div>
+                )}
+                <TextField
+                    label={Resources.Title_Label}
+                    required={true}
+                    disabled={!source}
+                    value={title}
+                    onChange={setTitle}
+                    maxLength={TitleFieldMaxLength}
+                />
+                <DateTimePickerDropdown
+                    placeholder="Select Start Time"
+                    label={Resources.StartTime_Label}
+                    disableInput={true}
+                    disabled={!source}
+                    value={startTime}
+                    onChange={onStartTimeChange}
+                />
+                <DateTimePickerDropdown
+                    label={Resources.EndTime_Label}
+                    info={Resources.CloneEndTime_LabelInfo}
+                    disableInput={true}
+                    disabled={true}
+                    value={endTime}
+                />
+            </div>
+        </Dialog>
+    );
+}
+
+function getTemplateDropdownItem(template: IBugBashTemplate): IListBoxItem {
+    return {
+        id: template.id!,
+        text: template.name
+    };
+}
@@ -0,0 +1,62 @@
+import * as React from "react";
+
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { TitleFieldMaxLength } from "BugBashPro/Editors/BugBashEditor/Constants";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBash } from "BugBashPro/Shared/Contracts";
+import { BugBashTemplatesActions } from "BugBashPro/Shared/Redux/BugBashTemplates/Actions";
+import { TextField } from "Common/Components/TextField";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
+
+interface ISaveAsTemplateDialogProps {
+    bugBash: IBugBash;
+    onDismiss: () => void;
+}
+
+const Actions = {
+    createTemplate: BugBashTemplatesActions.templateCreateRequested
+};
+
+export function SaveAsTemplateDialog(props: ISaveAsTemplateDialogProps) {
+    const { bugBash, onDismiss } = props;
+    const { createTemplate } = useActionCreators(Actions);
+    const [name, setName] = React.useState(bugBash.title);
+
+    const onSaveClick = () => {
+        createTemplate(bugBash, name.trim());
+        onDismiss();
+    };
+
+    return (
+        <Dialog
+            className="save-as-template-dialog"
+            titleProps={{ text: Resources.SaveAsTemplateDialogTitle, size: TitleSize.Medium }}
+            defaultActiveElement=".template-name-input"
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Save,
+                    primary: true,
+                    disabled: isNullOrWhiteSpace(name),
+                    onClick: onSaveClick
+                }
+            ]}
+        >
+            <TextField
+                inputClassName="template-name-input"
+                label={Resources.TemplateName_Label}
+                info={Resources.TemplateName_LabelInfo}
+                required={true}
+                value={name}
+                onChange={setName}
+                maxLength={TitleFieldMaxLength}
+            />
+        </Dialog>
+    );
+}
@@ -42,6 +42,14 @@ export const DirectoryPageHeaderCommands: { [key: string]: IHeaderCommandBarItem
             iconName: "Add"
         }
     },
+    newFromTemplate: {
+        important: false,
+        id: "newfromtemplate",
+        text: Resources.NewBugBashFromTemplate,
+        iconProps: {
+            iconName: "Copy"
+        }
+    },
     refresh: {
         important: true,
         id: "refresh",
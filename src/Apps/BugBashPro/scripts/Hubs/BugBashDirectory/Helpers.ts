@@ -1,8 +1,16 @@
 import { caseInsensitiveContains, localeIgnoreCaseComparer } from "azure-devops-ui/Core/Util/String";
 import { IFilterState } from "azure-devops-ui/Utilities/Filter";
+import { UpcomingOccurrencesCount } from "BugBashPro/Shared/Constants";
 import { IBugBash, ISortState } from "BugBashPro/Shared/Contracts";
-import { applyFilterAndSort, isBugBashCompleted, isBugBashInProgress, isBugBashScheduled } from "BugBashPro/Shared/Helpers";
+import {
+    applyFilterAndSort,
+    getUpcomingBugBashOccurrences,
+    isBugBashCompleted,
+    isBugBashInProgress,
+    isBugBashScheduled
+} from "BugBashPro/Shared/Helpers";
 import { defaultDateComparer } from "Common/Utilities/Date";
+import { getCurrentUser } from "Common/Utilities/Identity";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
 
 import { BugBashFieldNames, BugBashKeyTypes } from "./Constants";
@@ -19,15 +27,22 @@ export function getFilteredBugBashes(
     }
 
     const currentTime = new Date();
-    const filteredAllBugBashes = applyFilterAndSort(allBugBashes, filterState, undefined, matcher, comparer);
-    const pastBugBashes = filteredAllBugBashes.filter((b) => isBugBashCompleted(b, currentTime));
-    const ongoingBugBashes = filteredAllBugBashes.filter((b) => isBugBashInProgress(b, currentTime));
-    const upcomingBugBashes = filteredAllBugBashes.filter((b) => isBugBashScheduled(b, currentTime));
+    const occurrences = allBugBashes
+        .filter((b) => !!b.recurrence && !b.archived)
+        .map((b) => getUpcomingBugBashOccurrences(b, currentTime, UpcomingOccurrencesCount))
+        .reduce((all, o) => all.concat(o), []);
+    const filteredAllBugBashes = applyFilterAndSort([...allBugBashes, ...occurrences], filterState, undefined, matcher, comparer);
+    const archivedBugBashes = filteredAllBugBashes.filter((b) => !!b.archived);
+    const activeBugBashes = filteredAllBugBashes.filter((b) => !b.archived);
+    const pastBugBashes = activeBugBashes.filter((b) => isBugBashCompleted(b, currentTime));
+    const ongoingBugBashes = activeBugBashes.filter((b) => isBugBashInProgress(b, currentTime));
+    const upcomingBugBashes = activeBugBashes.filter((b) => isBugBashScheduled(b, currentTime));
 
     const counts: IBugBashCounts = {
         past: pastBugBashes ? pastBugBashes.length : 0,
         ongoing: ongoingBugBashes ? ongoingBugBashes.length : 0,
-        upcoming: upcomingBugBashes ? upcomingBugBashes.length : 0
+        upcoming: upcomingBugBashes ? upcomingBugBashes.length : 0,
+        archived: archivedBugBashes.length
     };
     let filteredBugBashes: IBugBash[];
     let defaultSortState: ISortState;
@@ -38,6 +53,11 @@ export function getFilteredBugBashes(
             defaultSortState = { sortKey: BugBashFieldNames.EndTime, isSortedDescending: true };
             break;
         }
+        case BugBashDirectoryTabId.Archived: {
+            filteredBugBashes = archivedBugBashes;
+            defaultSortState = { sortKey: BugBashFieldNames.EndTime, isSortedDescending: true };
+            break;
+        }
         case BugBashDirectoryTabId.Ongoing: {
             filteredBugBashes = ongoingBugBashes;
             defaultSortState = { sortKey: BugBashFieldNames.StartTime, isSortedDescending: true };
@@ -82,3 +102,27 @@ function comparer(bugBash1: IBugBash, bugBash2: IBugBash, sortState: ISortState)
 
     return isSortedDescending ? compareValue * -1 : compareValue;
 }
+
+/**
+ * Future occurrences of recurring bug bashes are shown in the directory before they are created, so they don't have an id yet
+ */
+export function isBugBashOccurrencePreview(bugBash: IBugBash): boolean {
+    return isNullOrWhiteSpace(bugBash.id);
+}
+
+export function getClonedBugBash(bugBash: IBugBash, title: string, startTime: Date | undefined): IBugBash {
+    // the clone is owned by whoever clones it, and it does not repeat so that it does not start a second schedule next to the original
+    const clonedBugBash: IBugBash = { ...bugBash, title: title, startTime: startTime, owners: [getCurrentUser()] };
+    delete clonedBugBash.id;
+    delete clonedBugBash.__etag;
+    delete clonedBugBash.closed;
+    delete clonedBugBash.archived;
+    delete clonedBugBash.recurrence;
+
+    // shift the finish time so that the clone keeps the duration of the original bug bash
+    if (bugBash.endTime && bugBash.startTime && startTime) {
+        clonedBugBash.endTime = new Date(bugBash.endTime.getTime() + (startTime.getTime() - bugBash.startTime.getTime()));
+    }
+
+    return clonedBugBash;
+}
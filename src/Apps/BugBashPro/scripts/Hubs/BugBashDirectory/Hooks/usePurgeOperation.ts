@@ -0,0 +1,19 @@
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+import { IBugBashDirectoryAwareState, IPurgeOperationState } from "../Redux/Contracts";
+import { getPurgeOperationState } from "../Redux/Selectors";
+
+export function usePurgeOperation(): IUsePurgeOperationHookMappedState {
+    const { purgeOperation } = useMappedState(mapState);
+    return { purgeOperation };
+}
+
+function mapState(state: IBugBashDirectoryAwareState): IUsePurgeOperationHookMappedState {
+    return {
+        purgeOperation: getPurgeOperationState(state)
+    };
+}
+
+interface IUsePurgeOperationHookMappedState {
+    purgeOperation: IPurgeOperationState | undefined;
+}
@@ -11,7 +11,16 @@ export const BugBashDirectoryActions = {
     selectTab: (tabId: BugBashDirectoryTabId) => createAction(BugBashDirectoryActionTypes.SelectTab, tabId),
     applyFilter: (filterState: IFilterState) => createAction(BugBashDirectoryActionTypes.ApplyFilter, filterState),
     applySort: (sortState: ISortState) => createAction(BugBashDirectoryActionTypes.ApplySort, sortState),
-    clearSortAndFilter: () => createAction(BugBashDirectoryActionTypes.ClearSortAndFilter)
+    clearSortAndFilter: () => createAction(BugBashDirectoryActionTypes.ClearSortAndFilter),
+    cloneBugBashRequested: (bugBash: IBugBash, details: string | undefined, title: string, startTime: Date | undefined) =>
+        createAction(BugBashDirectoryActionTypes.CloneBugBashRequested, { bugBash, details, title, startTime }),
+    archiveBugBashRequested: (bugBash: IBugBash, archived: boolean) =>
+        createAction(BugBashDirectoryActionTypes.ArchiveBugBashRequested, { bugBash, archived }),
+    purgeBugBashRequested: (bugBash: IBugBash) => createAction(BugBashDirectoryActionTypes.PurgeBugBashRequested, bugBash),
+    beginPurge: (bugBashId: string, title: string, total: number) =>
+        createAction(BugBashDirectoryActionTypes.BeginPurge, { bugBashId, title, total }),
+    purgeProgressed: () => createAction(BugBashDirectoryActionTypes.PurgeProgressed),
+    purgeCompleted: () => createAction(BugBashDirectoryActionTypes.PurgeCompleted)
 };
 
 export const enum BugBashDirectoryActionTypes {
@@ -20,7 +29,13 @@ export const enum BugBashDirectoryActionTypes {
     SelectTab = "BugBashDirectory/SelectTab",
     ApplyFilter = "BugBashDirectory/ApplyFilter",
     ApplySort = "BugBashDirectory/ApplySort",
-    ClearSortAndFilter = "BugBashDirectory/ClearSortAndFilter"
+    ClearSortAndFilter = "BugBashDirectory/ClearSortAndFilter",
+    CloneBugBashRequested = "BugBashDirectory/CloneBugBashRequested",
+    ArchiveBugBashRequested = "BugBashDirectory/ArchiveBugBashRequested",
+    PurgeBugBashRequested = "BugBashDirectory/PurgeBugBashRequested",
+    BeginPurge = "BugBashDirectory/BeginPurge",
+    PurgeProgressed = "BugBashDirectory/PurgeProgressed",
+    PurgeCompleted = "BugBashDirectory/PurgeCompleted"
 }
 
 export type BugBashDirectoryActions = ActionsUnion<typeof BugBashDirectoryActions>;
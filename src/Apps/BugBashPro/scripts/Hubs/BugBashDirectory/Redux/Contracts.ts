@@ -11,18 +11,28 @@ export interface IBugBashDirectoryState {
     bugBashCounts?: IBugBashCounts;
     filterState?: IFilterState;
     sortState?: ISortState;
+    purgeOperation?: IPurgeOperationState;
+}
+
+export interface IPurgeOperationState {
+    bugBashId: string;
+    title: string;
+    total: number;
+    completed: number;
 }
 
 export interface IBugBashCounts {
     past: number;
     ongoing: number;
     upcoming: number;
+    archived: number;
 }
 
 export const enum BugBashDirectoryTabId {
     Ongoing = "ongoing",
     Upcoming = "upcoming",
-    Past = "past"
+    Past = "past",
+    Archived = "archived"
 }
 
 export const defaultBugBashDirectoryState: IBugBashDirectoryState = {
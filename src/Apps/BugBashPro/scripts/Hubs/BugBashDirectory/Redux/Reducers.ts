@@ -51,6 +51,24 @@ export function bugBashDirectoryReducer(
                 break;
             }
 
+            case BugBashDirectoryActionTypes.BeginPurge: {
+                const { bugBashId, title, total } = action.payload;
+                draft.purgeOperation = { bugBashId, title, total, completed: 0 };
+                break;
+            }
+
+            case BugBashDirectoryActionTypes.PurgeProgressed: {
+                if (draft.purgeOperation) {
+                    draft.purgeOperation.completed++;
+                }
+                break;
+            }
+
+            case BugBashDirectoryActionTypes.PurgeCompleted: {
+                draft.purgeOperation = undefined;
+                break;
+            }
+
             case BugBashesActionTypes.BeginLoadBugBashes: {
                 draft.filteredBugBashes = undefined;
                 draft.bugBashCounts = undefined;
@@ -1,14 +1,29 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { IFilterState } from "azure-devops-ui/Utilities/Filter";
+import { Resources } from "BugBashPro/Resources";
 import { IBugBash, ISortState } from "BugBashPro/Shared/Contracts";
+import { getNextBugBashOccurrence, isBugBashCompleted, isBugBashOwner } from "BugBashPro/Shared/Helpers";
+import { navigateToBugBashItemsList } from "BugBashPro/Shared/NavHelpers";
+import {
+    addOrUpdateBugBashDetailsAsync,
+    deleteBugBashDetailsAsync,
+    fetchBugBashDetailsAsync
+} from "BugBashPro/Shared/Redux/BugBashDetails/DataSource";
 import { BugBashesActions, BugBashesActionTypes } from "BugBashPro/Shared/Redux/BugBashes/Actions";
+import { createBugBashAsync, updateBugBashAsync } from "BugBashPro/Shared/Redux/BugBashes/DataSource";
 import { getAllBugBashes } from "BugBashPro/Shared/Redux/BugBashes/Selectors";
+import { deleteBugBashItemAsync, fetchBugBashItemsAsync } from "BugBashPro/Shared/Redux/BugBashItems/DataSource";
+import { BugBashTemplatesActions, BugBashTemplatesActionTypes } from "BugBashPro/Shared/Redux/BugBashTemplates/Actions";
+import { deleteCommentAsync, fetchCommentsAsync } from "BugBashPro/Shared/Redux/Comments/DataSource";
 import { KeyValuePairActions } from "Common/Notifications/Redux/Actions";
 import { ActionsOfType, RT } from "Common/Redux";
+import { addToast } from "Common/ServiceWrappers/GlobalMessageService";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
 import { SagaIterator } from "redux-saga";
-import { all, call, put, select, takeEvery } from "redux-saga/effects";
+import { all, call, put, select, take, takeEvery, takeLeading } from "redux-saga/effects";
 
 import { DirectoryPageErrorKey } from "../Constants";
-import { getFilteredBugBashes } from "../Helpers";
+import { getClonedBugBash, getFilteredBugBashes } from "../Helpers";
 import { BugBashDirectoryActions, BugBashDirectoryActionTypes } from "./Actions";
 import { BugBashDirectoryTabId } from "./Contracts";
 import { getBugBashDirectorySelectedTab, getBugBashesFilterState, getBugBashesSortState } from "./Selectors";
@@ -18,8 +33,21 @@ export function* bugBashDirectorySaga(): SagaIterator {
     yield takeEvery(BugBashDirectoryActionTypes.ApplyFilter, applyFilter);
     yield takeEvery(BugBashDirectoryActionTypes.ApplySort, applySort);
     yield takeEvery(BugBashDirectoryActionTypes.ClearSortAndFilter, clearSortAndFilter);
+    yield takeEvery(BugBashDirectoryActionTypes.CloneBugBashRequested, cloneBugBash);
+    yield takeEvery(BugBashDirectoryActionTypes.ArchiveBugBashRequested, archiveBugBash);
+    yield takeLeading(BugBashDirectoryActionTypes.PurgeBugBashRequested, purgeBugBash);
 
-    yield takeEvery(BugBashesActionTypes.BugBashDeleteFailed, bugBashDeleteFailed);
+    yield takeEvery(
+        [
+            BugBashesActionTypes.BugBashDeleteFailed,
+            BugBashesActionTypes.BugBashCreateFailed,
+            BugBashTemplatesActionTypes.TemplateCreateFailed,
+            BugBashTemplatesActionTypes.TemplateDeleteFailed
+        ],
+        bugBashOrTemplateOperationFailed
+    );
+    yield takeEvery(BugBashTemplatesActionTypes.TemplateCreated, templateCreated);
+    yield takeEvery(BugBashesActionTypes.BugBashesLoaded, materializeRecurringBugBashes);
     yield takeEvery(
         [
             BugBashesActionTypes.BugBashCreated,
@@ -79,11 +107,197 @@ function* clearSortAndFilter(): SagaIterator {
     yield call(refreshFilteredItems, allBugBashes, undefined, undefined, selectedTabId);
 }
 
-function* bugBashDeleteFailed(action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashDeleteFailed>): SagaIterator {
+function* cloneBugBash(action: ActionsOfType<BugBashDirectoryActions, BugBashDirectoryActionTypes.CloneBugBashRequested>): SagaIterator {
+    const { bugBash, title, startTime } = action.payload;
+    let details = action.payload.details;
+
+    if (details === undefined) {
+        try {
+            const bugBashDetails: RT<typeof fetchBugBashDetailsAsync> = yield call(fetchBugBashDetailsAsync, bugBash.id!);
+            details = bugBashDetails.text;
+        } catch (e) {
+            yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, `Cannot read bug bash details. Reason: ${e.message}`));
+            return;
+        }
+    }
+
+    // create the clone here instead of waiting on the next BugBashCreated action, which can also come from a materialized recurring bug bash
+    let createdBugBash: RT<typeof createBugBashAsync>;
+    try {
+        createdBugBash = yield call(createBugBashAsync, getClonedBugBash(bugBash, title, startTime));
+    } catch (e) {
+        yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, e.message));
+        return;
+    }
+
+    yield put(BugBashesActions.bugBashCreated(createdBugBash));
+    if (!isNullOrWhiteSpace(details)) {
+        try {
+            yield call(addOrUpdateBugBashDetailsAsync, { id: createdBugBash.id!, text: details! });
+        } catch (e) {
+            yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, e.message));
+        }
+    }
+
+    yield call(addToast, {
+        message: Resources.BugBashCreatedMessage,
+        callToAction: Resources.View,
+        duration: 5000,
+        forceOverrideExisting: true,
+        onCallToActionClick: () => {
+            navigateToBugBashItemsList(createdBugBash.id!);
+        }
+    });
+}
+
+function* archiveBugBash(action: ActionsOfType<BugBashDirectoryActions, BugBashDirectoryActionTypes.ArchiveBugBashRequested>): SagaIterator {
+    const { bugBash, archived } = action.payload;
+    yield put(BugBashesActions.bugBashUpdateRequested({ ...bugBash, archived }));
+
+    const updateAction: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashUpdated | BugBashesActionTypes.BugBashUpdateFailed> = yield take(
+        (action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashUpdated | BugBashesActionTypes.BugBashUpdateFailed>): boolean =>
+            (action.type === BugBashesActionTypes.BugBashUpdated && equals(action.payload.id!, bugBash.id!, true)) ||
+            (action.type === BugBashesActionTypes.BugBashUpdateFailed && equals(action.payload.bugBash.id!, bugBash.id!, true))
+    );
+
+    if (updateAction.type === BugBashesActionTypes.BugBashUpdateFailed) {
+        yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, updateAction.payload.error));
+    }
+}
+
+/**
+ * Deletes the comments, items and details documents of a bug bash before deleting the bug bash itself.
+ * The bug bash document goes last, so a purge which fails halfway can be run again.
+ */
+function* purgeBugBash(action: ActionsOfType<BugBashDirectoryActions, BugBashDirectoryActionTypes.PurgeBugBashRequested>): SagaIterator {
+    const bugBash = action.payload;
+    const bugBashId = bugBash.id!;
+
+    try {
+        const bugBashItems: RT<typeof fetchBugBashItemsAsync> = yield call(fetchBugBashItemsAsync, bugBashId);
+        // one step for each item and one for the details
+        yield put(BugBashDirectoryActions.beginPurge(bugBashId, bugBash.title, bugBashItems.length + 1));
+
+        for (const bugBashItem of bugBashItems) {
+            const comments: RT<typeof fetchCommentsAsync> = yield call(fetchCommentsAsync, bugBashItem.id!);
+            for (const comment of comments) {
+                yield call(deleteCommentAsync, bugBashItem.id!, comment.id!);
+            }
+            yield call(deleteBugBashItemAsync, bugBashId, bugBashItem.id!);
+            yield put(BugBashDirectoryActions.purgeProgressed());
+        }
+
+        const details: RT<typeof fetchBugBashDetailsAsync> = yield call(fetchBugBashDetailsAsync, bugBashId);
+        if (details.__etag) {
+            yield call(deleteBugBashDetailsAsync, bugBashId);
+        }
+        yield put(BugBashDirectoryActions.purgeProgressed());
+    } catch (e) {
+        yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, `Cannot delete bug bash "${bugBash.title}". Reason: ${e.message}`));
+        yield put(BugBashDirectoryActions.purgeCompleted());
+        return;
+    }
+
+    // failures are reported by bugBashOrTemplateOperationFailed
+    yield put(BugBashesActions.bugBashDeleteRequested(bugBashId));
+    yield take(
+        (action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashDeleted | BugBashesActionTypes.BugBashDeleteFailed>): boolean =>
+            (action.type === BugBashesActionTypes.BugBashDeleted && equals(action.payload, bugBashId, true)) ||
+            (action.type === BugBashesActionTypes.BugBashDeleteFailed && equals(action.payload.bugBashId, bugBashId, true))
+    );
+    yield put(BugBashDirectoryActions.purgeCompleted());
+}
+
+function* materializeRecurringBugBashes(action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashesLoaded>): SagaIterator {
+    const currentTime = new Date();
+    // only owners can update the finished bug bash and create the next one
+    const finishedRecurringBugBashes = action.payload.filter(
+        (b) => !!b.recurrence && !b.archived && isBugBashOwner(b) && isBugBashCompleted(b, currentTime)
+    );
+
+    if (finishedRecurringBugBashes.length > 0) {
+        yield all(finishedRecurringBugBashes.map((b) => call(materializeNextOccurrence, b, currentTime)));
+    }
+}
+
+function* materializeNextOccurrence(bugBash: IBugBash, currentTime: Date): SagaIterator {
+    const nextOccurrence = getNextBugBashOccurrence(bugBash, currentTime);
+    if (!nextOccurrence) {
+        return;
+    }
+
+    // Hand the recurrence over to the next occurrence. The update fails if another user has already done it, in which case there is nothing to do.
+    const finishedBugBash = { ...bugBash };
+    delete finishedBugBash.recurrence;
+    let updatedBugBash: RT<typeof updateBugBashAsync>;
+    try {
+        updatedBugBash = yield call(updateBugBashAsync, finishedBugBash);
+        yield put(BugBashesActions.bugBashUpdated(updatedBugBash));
+    } catch {
+        return;
+    }
+
+    let details: RT<typeof fetchBugBashDetailsAsync>;
+    let createdBugBash: RT<typeof createBugBashAsync>;
+    try {
+        details = yield call(fetchBugBashDetailsAsync, bugBash.id!);
+        createdBugBash = yield call(createBugBashAsync, nextOccurrence);
+    } catch (e) {
+        yield put(
+            KeyValuePairActions.pushEntry(DirectoryPageErrorKey, `Cannot create the next occurrence of "${bugBash.title}". Reason: ${e.message}`)
+        );
+        yield call(restoreRecurrence, updatedBugBash, bugBash);
+        return;
+    }
+
+    yield put(BugBashesActions.bugBashCreated(createdBugBash));
+    if (!isNullOrWhiteSpace(details.text)) {
+        try {
+            yield call(addOrUpdateBugBashDetailsAsync, { id: createdBugBash.id!, text: details.text });
+        } catch (e) {
+            yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, e.message));
+        }
+    }
+}
+
+/**
+ * Gives the recurrence back to the finished bug bash, so that the next occurrence is created on the next load
+ */
+function* restoreRecurrence(updatedBugBash: IBugBash, bugBash: IBugBash): SagaIterator {
+    try {
+        const restoredBugBash: RT<typeof updateBugBashAsync> = yield call(updateBugBashAsync, { ...updatedBugBash, recurrence: bugBash.recurrence });
+        yield put(BugBashesActions.bugBashUpdated(restoredBugBash));
+    } catch (e) {
+        yield put(
+            KeyValuePairActions.pushEntry(
+                DirectoryPageErrorKey,
+                `Cannot restore the recurrence of "${bugBash.title}", edit the bug bash to set it up again. Reason: ${e.message}`
+            )
+        );
+    }
+}
+
+function* bugBashOrTemplateOperationFailed(
+    action: ActionsOfType<
+        BugBashesActions | BugBashTemplatesActions,
+        | BugBashesActionTypes.BugBashDeleteFailed
+        | BugBashesActionTypes.BugBashCreateFailed
+        | BugBashTemplatesActionTypes.TemplateCreateFailed
+        | BugBashTemplatesActionTypes.TemplateDeleteFailed
+    >
+): SagaIterator {
     const { error } = action.payload;
     yield put(KeyValuePairActions.pushEntry(DirectoryPageErrorKey, error));
 }
 
+function* templateCreated(): SagaIterator {
+    yield call(addToast, {
+        message: Resources.BugBashTemplateCreatedMessage,
+        duration: 5000,
+        forceOverrideExisting: true
+    });
+}
+
 function* bugBashLoadedOrCreatedOrUpdatedOrDeleted(): SagaIterator {
     const [allBugBashes, selectedTabId, filterState, sortState]: [
         RT<typeof getAllBugBashes>,
@@ -15,6 +15,8 @@ export const getFilteredBugBashes = createSelector(getBugBashDirectoryState, (st
 
 export const getBugBashCounts = createSelector(getBugBashDirectoryState, (state) => state && state.bugBashCounts);
 
+export const getPurgeOperationState = createSelector(getBugBashDirectoryState, (state) => state && state.purgeOperation);
+
 export const getBugBashesFilterState = createSelector(getBugBashDirectoryState, (state) => state && state.filterState);
 
 export const getBugBashesSortState = createSelector(getBugBashDirectoryState, (state) => state && state.sortState);
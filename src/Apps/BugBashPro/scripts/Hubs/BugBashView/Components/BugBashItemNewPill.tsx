@@ -0,0 +1,18 @@
+import * as React from "react";
+
+import { Pill, PillSize, PillVariant } from "azure-devops-ui/Pill";
+import { Resources } from "BugBashPro/Resources";
+
+import { NewBugBashItemColor } from "../Constants";
+
+interface IBugBashItemNewPillProps {
+    className?: string;
+}
+
+export function BugBashItemNewPill(props: IBugBashItemNewPillProps) {
+    return (
+        <Pill className={props.className} size={PillSize.compact} variant={PillVariant.colored} color={NewBugBashItemColor}>
+            {Resources.New}
+        </Pill>
+    );
+}
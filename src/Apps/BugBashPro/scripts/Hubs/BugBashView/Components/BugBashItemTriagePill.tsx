@@ -0,0 +1,32 @@
+import * as React from "react";
+
+import { Pill, PillSize, PillVariant } from "azure-devops-ui/Pill";
+import { BugBashItemTriageColors } from "BugBashPro/Shared/Constants";
+
+interface IBugBashItemTriagePillProps {
+    className?: string;
+    /**
+     * Text shown before the value, e.g. "Sev" or "Pri"
+     */
+    prefix: string;
+    value: string;
+    /**
+     * Allowed values ordered from the most to the least urgent, used to pick the pill color
+     */
+    allowedValues: string[];
+}
+
+export function BugBashItemTriagePill(props: IBugBashItemTriagePillProps) {
+    const { className, prefix, value, allowedValues } = props;
+    const index = allowedValues.indexOf(value);
+    const color = index === -1 ? undefined : BugBashItemTriageColors[Math.min(index, BugBashItemTriageColors.length - 1)];
+
+    return (
+        <Pill
+            className={className}
+            size={PillSize.compact}
+            variant={color ? PillVariant.colored : PillVariant.outlined}
+            color={color}
+        >{`${prefix} ${value}`}</Pill>
+    );
+}
@@ -0,0 +1,51 @@
+import "./BugBashItemVoteButton.scss";
+
+import * as React from "react";
+
+import { Button } from "azure-devops-ui/Button";
+import { css } from "azure-devops-ui/Util";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { canVoteForBugBashItem, getBugBashItemVoteCount, hasVotedForBugBashItem } from "BugBashPro/Shared/Helpers";
+import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+
+import { BugBashViewContext } from "../Constants";
+
+interface IBugBashItemVoteButtonProps {
+    className?: string;
+    bugBashItem: IBugBashItem;
+}
+
+const Actions = {
+    toggleVote: BugBashItemsActions.bugBashItemVoteToggleRequested
+};
+
+export function BugBashItemVoteButton(props: IBugBashItemVoteButtonProps) {
+    const { className, bugBashItem } = props;
+    const bugBash = React.useContext(BugBashViewContext);
+    const { toggleVote } = useActionCreators(Actions);
+    const hasVoted = hasVotedForBugBashItem(bugBashItem);
+    const canVote = canVoteForBugBashItem(bugBash, bugBashItem);
+
+    const onClick = React.useCallback(
+        (e: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>) => {
+            // dont let the click select or open the row / card
+            e.stopPropagation();
+            toggleVote(bugBashItem.bugBashId, bugBashItem.id!);
+        },
+        [bugBashItem.bugBashId, bugBashItem.id]
+    );
+
+    return (
+        <Button
+            className={css("bugbash-item-vote-button", hasVoted && "voted", className)}
+            subtle={true}
+            disabled={!canVote}
+            text={`${getBugBashItemVoteCount(bugBashItem)}`}
+            iconProps={{ iconName: hasVoted ? "LikeSolid" : "Like" }}
+            tooltipProps={{ text: !canVote ? Resources.Votes : hasVoted ? Resources.RemoveVote : Resources.Vote }}
+            onClick={onClick}
+        />
+    );
+}
@@ -0,0 +1,127 @@
+import * as React from "react";
+
+import { HeaderCommandBar } from "azure-devops-ui/HeaderCommandBar";
+import { Resources } from "BugBashPro/Resources";
+import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
+import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
+
+import { BugBashViewBulkCommands, BugBashViewContext } from "../Constants";
+import { useBugBashItemsSelection } from "../Hooks/useBugBashItemsSelection";
+import { useBulkOperation } from "../Hooks/useBulkOperation";
+import { useFilteredBugBashItems } from "../Hooks/useFilteredBugBashItems";
+import { BulkOperationResultsDialog } from "./BulkOperationResultsDialog";
+import { ReassignTeamDialog } from "./ReassignTeamDialog";
+import { RejectReasonDialog } from "./RejectReasonDialog";
+
+export function BugBashItemsBulkCommandBar() {
+    const bugBash = React.useContext(BugBashViewContext);
+    const bugBashId = bugBash.id as string;
+
+    const { filteredBugBashItems } = useFilteredBugBashItems(bugBashId);
+    const { selectedBugBashItemIds, setSelectedItems } = useBugBashItemsSelection();
+    const {
+        bulkOperation,
+        bulkAcceptRequested,
+        bulkRejectRequested,
+        bulkReassignRequested,
+        bulkDeleteRequested,
+        dismissBulkOperationResults
+    } = useBulkOperation();
+    const [isRejectDialogOpen, setRejectDialogOpen] = React.useState(false);
+    const [isReassignDialogOpen, setReassignDialogOpen] = React.useState(false);
+
+    // accepted items are already tracked as work items, so bulk commands only apply to pending and rejected items
+    const selectedIds = React.useMemo(() => {
+        const selectedIdsMap: { [id: string]: boolean } = {};
+        for (const id of selectedBugBashItemIds) {
+            selectedIdsMap[id.toLowerCase()] = true;
+        }
+        return (filteredBugBashItems || []).filter((b) => selectedIdsMap[b.id!.toLowerCase()] && !isBugBashItemAccepted(b)).map((b) => b.id!);
+    }, [filteredBugBashItems, selectedBugBashItemIds]);
+
+    const onRejectDialogDismiss = React.useCallback(() => setRejectDialogOpen(false), []);
+    const onReassignDialogDismiss = React.useCallback(() => setReassignDialogOpen(false), []);
+    const onReject = React.useCallback(
+        (rejectReason: string) => {
+            setRejectDialogOpen(false);
+            bulkRejectRequested(selectedIds, rejectReason);
+        },
+        [selectedIds]
+    );
+    const onReassign = React.useCallback(
+        (teamId: string) => {
+            setReassignDialogOpen(false);
+            bulkReassignRequested(selectedIds, teamId);
+        },
+        [selectedIds]
+    );
+
+    const inProgress = !!bulkOperation && bulkOperation.inProgress;
+    const showResults = !!bulkOperation && !bulkOperation.inProgress && bulkOperation.results.some((r) => !!r.error);
+
+    if (selectedIds.length === 0 && !inProgress && !showResults) {
+        return null;
+    }
+
+    return (
+        <div className="bulk-command-bar flex-row flex-center flex-noshrink">
+            <div className="bulk-command-bar-status flex-grow">
+                {inProgress
+                    ? `${bulkOperation!.operation}: ${bulkOperation!.results.length} of ${bulkOperation!.total} processed`
+                    : `${selectedIds.length} selected`}
+            </div>
+            <HeaderCommandBar
+                items={[
+                    {
+                        ...BugBashViewBulkCommands.accept,
+                        disabled: inProgress || bugBash.autoAccept,
+                        onActivate: () => {
+                            confirmAction(Resources.ConfirmDialogTitle, Resources.AcceptSelectedBugBashItemsConfirmation, (ok: boolean) => {
+                                if (ok) {
+                                    bulkAcceptRequested(bugBash, selectedIds);
+                                }
+                            });
+                        }
+                    },
+                    {
+                        ...BugBashViewBulkCommands.reject,
+                        disabled: inProgress,
+                        onActivate: () => {
+                            setRejectDialogOpen(true);
+                        }
+                    },
+                    {
+                        ...BugBashViewBulkCommands.reassign,
+                        disabled: inProgress,
+                        onActivate: () => {
+                            setReassignDialogOpen(true);
+                        }
+                    },
+                    {
+                        ...BugBashViewBulkCommands.delete,
+                        disabled: inProgress,
+                        onActivate: () => {
+                            confirmAction(Resources.ConfirmDialogTitle, Resources.DeleteSelectedBugBashItemsConfirmation, (ok: boolean) => {
+                                if (ok) {
+                                    bulkDeleteRequested(selectedIds);
+                                }
+                            });
+                        }
+                    },
+                    {
+                        ...BugBashViewBulkCommands.clearSelection,
+                        disabled: inProgress,
+                        onActivate: () => {
+                            setSelectedItems([]);
+                        }
+                    }
+                ]}
+            />
+            {isRejectDialogOpen && (
+                <RejectReasonDialog title={Resources.RejectSelectedBugBashItemsDialogTitle} onReject={onReject} onDismiss={onRejectDialogDismiss} />
+            )}
+            {isReassignDialogOpen && <ReassignTeamDialog onReassign={onReassign} onDismiss={onReassignDialogDismiss} />}
+            {showResults && <BulkOperationResultsDialog bulkOperation={bulkOperation!} onDismiss={dismissBulkOperationResults} />}
+        </div>
+    );
+}
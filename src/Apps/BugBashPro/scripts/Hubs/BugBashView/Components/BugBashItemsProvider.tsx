@@ -24,12 +24,12 @@ export function BugBashItemProvider(props: IBugBashItemProviderProps) {
     const { viewMode, setViewMode } = useBugBashViewMode();
 
     React.useEffect(() => {
-        if (view === AppView.ACTION_BOARD && viewMode !== BugBashViewMode.All) {
+        if ((view === AppView.ACTION_BOARD || view === AppView.ACTION_LEADERBOARD) && viewMode !== BugBashViewMode.All) {
             setViewMode(BugBashViewMode.All);
         }
     }, [view]);
 
-    if (view === AppView.ACTION_BOARD && viewMode !== BugBashViewMode.All) {
+    if ((view === AppView.ACTION_BOARD || view === AppView.ACTION_LEADERBOARD) && viewMode !== BugBashViewMode.All) {
         return null;
     }
 
@@ -4,18 +4,24 @@ import * as React from "react";
 
 import { Card } from "azure-devops-ui/Card";
 import { ConditionalChildren } from "azure-devops-ui/ConditionalChildren";
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
 import { Page } from "azure-devops-ui/Page";
 import { TabContent } from "azure-devops-ui/Tabs";
 import { ZeroData, ZeroDataActionType } from "azure-devops-ui/ZeroData";
 import * as BugBashItemsBoard_Async from "BugBashPro/Hubs/BugBashView/Pivots/Board";
 import * as BugBashItemsCharts_Async from "BugBashPro/Hubs/BugBashView/Pivots/Charts";
+import * as BugBashLeaderboard_Async from "BugBashPro/Hubs/BugBashView/Pivots/Leaderboard";
 import * as BugBashItemsTable_Async from "BugBashPro/Hubs/BugBashView/Pivots/List";
 import { BugBashPortal } from "BugBashPro/Portals/BugBashPortal";
+import { Resources } from "BugBashPro/Resources";
 import { AppView } from "BugBashPro/Shared/Constants";
+import { isBugBashClosed, isBugBashCompleted, isBugBashTriager } from "BugBashPro/Shared/Helpers";
 import { useBugBash } from "BugBashPro/Shared/Hooks/useBugBash";
 import { navigateToDirectory } from "BugBashPro/Shared/NavHelpers";
 import { getBugBashesModule } from "BugBashPro/Shared/Redux/BugBashes/Module";
 import { getBugBashItemsModule } from "BugBashPro/Shared/Redux/BugBashItems/Module";
+import { getMentionsModule } from "BugBashPro/Shared/Redux/Mentions/Module";
+import { getFieldModule } from "Common/AzDev/Fields/Redux/Module";
 import { AsyncComponent } from "Common/Components/AsyncComponent";
 import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
 import { Loading } from "Common/Components/Loading";
@@ -26,6 +32,7 @@ import { getKeyValuePairModule } from "Common/Notifications/Redux/Module";
 import { BugBashViewContext, BugBashViewPageErrorKey } from "../Constants";
 import { IBugBashItemProviderParams } from "../Interfaces";
 import { getBugBashViewModule } from "../Redux/Module";
+import { BugBashItemsBulkCommandBar } from "./BugBashItemsBulkCommandBar";
 import { BugBashItemProvider } from "./BugBashItemsProvider";
 import { BugBashViewHeader } from "./BugBashViewHeader";
 import { BugBashViewTabsWithFilter } from "./BugBashViewTabsWithFilter";
@@ -39,6 +46,7 @@ interface IBugBashViewProps {
 const chartsViewLoader = async () => import("BugBashPro/Hubs/BugBashView/Pivots/Charts");
 const listViewLoader = async () => import("BugBashPro/Hubs/BugBashView/Pivots/List");
 const boardViewLoader = async () => import("BugBashPro/Hubs/BugBashView/Pivots/Board");
+const leaderboardViewLoader = async () => import("BugBashPro/Hubs/BugBashView/Pivots/Leaderboard");
 
 function BugBashViewInternal(props: IBugBashViewProps): JSX.Element {
     const { bugBashId, view } = props;
@@ -60,15 +68,22 @@ function BugBashViewInternal(props: IBugBashViewProps): JSX.Element {
         return <Loading />;
     }
 
+    const currentTime = new Date();
     return (
         <BugBashViewContext.Provider value={bugBash}>
             <Page className="bugbash-page bugbash-view-page flex-column flex-grow">
                 <div className="flex-column flex-noshrink">
                     <ErrorMessageBox errorKey={BugBashViewPageErrorKey} />
+                    {isBugBashClosed(bugBash, currentTime) && (
+                        <MessageCard className="bugbash-closed-message" severity={MessageCardSeverity.Info}>
+                            {isBugBashCompleted(bugBash, currentTime) ? Resources.BugBashEndedMessage : Resources.BugBashClosedMessage}
+                        </MessageCard>
+                    )}
                 </div>
                 <BugBashPortal />
                 <BugBashViewHeader />
                 <BugBashViewTabsWithFilter view={view} />
+                {view !== AppView.ACTION_CHARTS && view !== AppView.ACTION_LEADERBOARD && isBugBashTriager(bugBash) && <BugBashItemsBulkCommandBar />}
                 <TabContent>
                     <div className="bugbash-page-contents flex-grow flex-column">
                         <Card
@@ -94,6 +109,11 @@ function BugBashViewInternal(props: IBugBashViewProps): JSX.Element {
                                                     {(m: typeof BugBashItemsCharts_Async) => <m.BugBashItemsCharts {...providerParams} />}
                                                 </AsyncComponent>
                                             </ConditionalChildren>
+                                            <ConditionalChildren renderChildren={view === AppView.ACTION_LEADERBOARD}>
+                                                <AsyncComponent loader={leaderboardViewLoader} key="bugbashleaderboard">
+                                                    {(m: typeof BugBashLeaderboard_Async) => <m.BugBashLeaderboard {...providerParams} />}
+                                                </AsyncComponent>
+                                            </ConditionalChildren>
                                         </>
                                     );
                                 }}
@@ -113,7 +133,9 @@ export function BugBashView(props: IBugBashViewProps) {
                 getBugBashesModule(),
                 getBugBashItemsModule(),
                 getBugBashViewModule(props.bugBashId, props.bugBashItemId),
-                getKeyValuePairModule()
+                getKeyValuePairModule(),
+                getFieldModule(),
+                getMentionsModule()
             ]}
             cleanOnUnmount={true}
         >
@@ -1,35 +1,93 @@
 import * as React from "react";
 
 import { Button } from "azure-devops-ui/Button";
+import { IMenuItem } from "azure-devops-ui/Components/Menu/Menu.Props";
 import { Header, TitleSize } from "azure-devops-ui/Header";
+import { IHeaderCommandBarItem } from "azure-devops-ui/HeaderCommandBar";
 import { IStatusProps, Status, Statuses, StatusSize } from "azure-devops-ui/Status";
 import { BugBashPortalActions } from "BugBashPro/Portals/BugBashPortal/Redux/Actions";
 import { Resources } from "BugBashPro/Resources";
 import { IBugBash } from "BugBashPro/Shared/Contracts";
-import { isBugBashCompleted, isBugBashInProgress } from "BugBashPro/Shared/Helpers";
+import {
+    canSeeBugBashItemSubmitters,
+    isBugBashClosed,
+    isBugBashCompleted,
+    isBugBashInProgress,
+    isBugBashOwner,
+    isBugBashTriager
+} from "BugBashPro/Shared/Helpers";
 import { navigateToDirectory } from "BugBashPro/Shared/NavHelpers";
 import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
 import { LoadStatus } from "Common/Contracts";
 import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { addToast } from "Common/ServiceWrappers/GlobalMessageService";
+import { copyToClipboard } from "Common/Utilities/Clipboard";
+import { downloadFile } from "Common/Utilities/Download";
 
-import { BugBashViewContext, BugBashViewHeaderCommands } from "../Constants";
+import { BugBashItemsExportFormat, BugBashViewContext, BugBashViewHeaderCommands } from "../Constants";
+import { exportBugBashItems, getExportFileName, getExportMimeType } from "../ExportHelpers";
 import { useFilteredBugBashItems } from "../Hooks/useFilteredBugBashItems";
+import { BugBashViewActions } from "../Redux/Actions";
+import { QueuedBugBashItemsIndicator } from "./QueuedBugBashItemsIndicator";
 
 const Actions = {
     openBugBashPortal: BugBashPortalActions.openBugBashPortal,
     openBugBashItemPortal: BugBashPortalActions.openBugBashItemPortal,
     openDetailsPortal: BugBashPortalActions.openDetailsPortal,
-    loadBugBashItems: BugBashItemsActions.bugBashItemsLoadRequested
+    openImportPortal: BugBashPortalActions.openImportPortal,
+    loadBugBashItems: BugBashItemsActions.bugBashItemsLoadRequested,
+    closeBugBash: BugBashViewActions.bugBashCloseRequested
 };
 
 export function BugBashViewHeader() {
     const bugBash = React.useContext(BugBashViewContext);
     const bugBashId = bugBash.id as string;
-    const { status } = useFilteredBugBashItems(bugBashId);
-    const { openBugBashPortal, openBugBashItemPortal, openDetailsPortal, loadBugBashItems } = useActionCreators(Actions);
+    const { status, filteredBugBashItems, workItemsMap } = useFilteredBugBashItems(bugBashId);
+    const { teamsMap } = useTeams();
+    const { openBugBashPortal, openBugBashItemPortal, openDetailsPortal, openImportPortal, loadBugBashItems, closeBugBash } = useActionCreators(
+        Actions
+    );
 
     const renderHeaderTitle = React.useMemo(() => onRenderHeaderTitle(bugBash), [bugBash]);
     const isLoading = status !== LoadStatus.Ready;
+    const isOwner = isBugBashOwner(bugBash);
+    const isTriager = isBugBashTriager(bugBash);
+    const currentTime = new Date();
+    const isClosed = isBugBashClosed(bugBash, currentTime);
+
+    const exportMenuItems = React.useMemo(() => {
+        const getExportedContent = (exportFormat: BugBashItemsExportFormat) =>
+            exportBugBashItems(exportFormat, filteredBugBashItems || [], workItemsMap, teamsMap, canSeeBugBashItemSubmitters(bugBash));
+        const getDownloadMenuItem = (id: string, text: string, exportFormat: BugBashItemsExportFormat): IMenuItem => ({
+            id,
+            text,
+            onActivate: () => {
+                downloadFile(getExportFileName(bugBash.title, exportFormat), getExportedContent(exportFormat), getExportMimeType(exportFormat));
+            }
+        });
+        const getCopyMenuItem = (id: string, text: string, exportFormat: BugBashItemsExportFormat): IMenuItem => ({
+            id,
+            text,
+            onActivate: () => {
+                const copied = copyToClipboard(getExportedContent(exportFormat), { copyAsHtml: exportFormat === BugBashItemsExportFormat.Html });
+                addToast({
+                    message: copied ? Resources.CopiedToClipboard : Resources.CopyToClipboardFailed,
+                    duration: 3000,
+                    forceOverrideExisting: true
+                });
+            }
+        });
+
+        return [
+            getDownloadMenuItem("download-csv", Resources.DownloadAsCsv, BugBashItemsExportFormat.Csv),
+            getDownloadMenuItem("download-html", Resources.DownloadAsHtml, BugBashItemsExportFormat.Html),
+            getDownloadMenuItem("download-md", Resources.DownloadAsMarkdown, BugBashItemsExportFormat.Markdown),
+            getCopyMenuItem("copy-csv", Resources.CopyAsCsv, BugBashItemsExportFormat.Csv),
+            getCopyMenuItem("copy-html", Resources.CopyAsHtml, BugBashItemsExportFormat.Html),
+            getCopyMenuItem("copy-md", Resources.CopyAsMarkdown, BugBashItemsExportFormat.Markdown)
+        ];
+    }, [bugBash, filteredBugBashItems, workItemsMap, teamsMap]);
 
     return (
         <Header
@@ -38,14 +96,14 @@ export function BugBashViewHeader() {
             commandBarItems={[
                 {
                     ...BugBashViewHeaderCommands.new,
-                    disabled: isLoading,
+                    disabled: isLoading || isClosed,
                     onActivate: () => {
                         openBugBashItemPortal(bugBashId, undefined);
                     }
                 },
                 {
                     ...BugBashViewHeaderCommands.edit,
-                    disabled: isLoading,
+                    disabled: isLoading || !isOwner,
                     onActivate: () => {
                         // dont refresh bug bash from server when editing from inside of bug bash view
                         openBugBashPortal(bugBashId, { readFromCache: true });
@@ -53,11 +111,27 @@ export function BugBashViewHeader() {
                 },
                 {
                     ...BugBashViewHeaderCommands.details,
-                    disabled: isLoading,
+                    disabled: isLoading || !isOwner,
                     onActivate: () => {
                         openDetailsPortal(bugBashId);
                     }
                 },
+                ...getCloseCommands(bugBash, isOwner && !isLoading, currentTime, closeBugBash),
+                {
+                    ...BugBashViewHeaderCommands.import,
+                    disabled: isLoading || !isTriager || isClosed,
+                    onActivate: () => {
+                        openImportPortal(bugBashId);
+                    }
+                },
+                {
+                    ...BugBashViewHeaderCommands.export,
+                    disabled: isLoading || !filteredBugBashItems || filteredBugBashItems.length === 0,
+                    subMenuProps: {
+                        id: "export-submenu",
+                        items: exportMenuItems
+                    }
+                },
                 {
                     ...BugBashViewHeaderCommands.refresh,
                     disabled: isLoading,
@@ -71,6 +145,29 @@ export function BugBashViewHeader() {
     );
 }
 
+function getCloseCommands(
+    bugBash: IBugBash,
+    enabled: boolean,
+    currentTime: Date,
+    closeBugBash: (bugBash: IBugBash, closed: boolean) => void
+): IHeaderCommandBarItem[] {
+    if (isBugBashCompleted(bugBash, currentTime)) {
+        // a bug bash which has ended can only be reopened by changing its end time
+        return [];
+    }
+
+    const closed = !!bugBash.closed;
+    return [
+        {
+            ...(closed ? BugBashViewHeaderCommands.reopen : BugBashViewHeaderCommands.close),
+            disabled: !enabled,
+            onActivate: () => {
+                closeBugBash(bugBash, !closed);
+            }
+        }
+    ];
+}
+
 function onRenderHeaderTitle(bugBash: IBugBash): JSX.Element {
     const currentTime = new Date();
     let statusProps: IStatusProps;
@@ -79,6 +176,11 @@ function onRenderHeaderTitle(bugBash: IBugBash): JSX.Element {
             text: Resources.Completed,
             ...Statuses.Success
         };
+    } else if (bugBash.closed) {
+        statusProps = {
+            text: Resources.Closed,
+            ...Statuses.Canceled
+        };
     } else if (isBugBashInProgress(bugBash, currentTime)) {
         statusProps = {
             text: Resources.InProgress,
@@ -101,6 +203,7 @@ function onRenderHeaderTitle(bugBash: IBugBash): JSX.Element {
             <div className="bugbash-header-status flex-column justify-center">
                 <Status {...statusProps} size={StatusSize.l} animated={false} />
             </div>
+            <QueuedBugBashItemsIndicator bugBashId={bugBash.id!} />
         </div>
     );
 }
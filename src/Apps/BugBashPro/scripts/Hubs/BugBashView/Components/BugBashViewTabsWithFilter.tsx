@@ -12,7 +12,13 @@ import { KeywordFilterBarItem } from "azure-devops-ui/TextFilterBarItem";
 import { Filter, FILTER_CHANGE_EVENT } from "azure-devops-ui/Utilities/Filter";
 import { Resources } from "BugBashPro/Resources";
 import { AppView } from "BugBashPro/Shared/Constants";
-import { navigateToBugBashItemsBoard, navigateToBugBashItemsCharts, navigateToBugBashItemsList } from "BugBashPro/Shared/NavHelpers";
+import { canSeeBugBashItemSubmitters } from "BugBashPro/Shared/Helpers";
+import {
+    navigateToBugBashItemsBoard,
+    navigateToBugBashItemsCharts,
+    navigateToBugBashItemsList,
+    navigateToBugBashLeaderboard
+} from "BugBashPro/Shared/NavHelpers";
 import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
 import { LoadStatus } from "Common/Contracts";
 import { parseUniquefiedIdentityName } from "Common/Utilities/Identity";
@@ -86,7 +92,7 @@ export function BugBashViewTabsWithFilter(props: IBugBashViewTabsWithFilterProps
                 filter={filterRef.current}
                 filterToggled={filterToggledRef.current}
                 items={
-                    bugBash.autoAccept || view === AppView.ACTION_BOARD
+                    bugBash.autoAccept || view === AppView.ACTION_BOARD || view === AppView.ACTION_LEADERBOARD
                         ? []
                         : [
                               {
@@ -127,6 +133,7 @@ export function BugBashViewTabsWithFilter(props: IBugBashViewTabsWithFilterProps
                 <Tab name={Resources.List} id={BugBashViewPagePivotKeys.List} />
                 <Tab name={Resources.Board} id={BugBashViewPagePivotKeys.Board} />
                 <Tab name={Resources.Charts} id={BugBashViewPagePivotKeys.Charts} />
+                <Tab name={Resources.Leaderboard} id={BugBashViewPagePivotKeys.Leaderboard} />
             </TabBar>
             <ConditionalChildren renderChildren={filterToggledRef.current}>
                 <FilterBar filter={filterRef.current} onDismissClicked={onFilterBarDismissClicked}>
@@ -134,7 +141,9 @@ export function BugBashViewTabsWithFilter(props: IBugBashViewTabsWithFilterProps
                     {viewMode !== BugBashViewMode.Accepted &&
                         viewMode !== BugBashViewMode.All &&
                         getDropdownFilterBarItem("Team", BugBashItemFieldNames.TeamId, filterData, teamsMap)}
-                    {getDropdownFilterBarItem("Created By", BugBashItemFieldNames.CreatedBy, filterData)}
+                    {viewMode !== BugBashViewMode.Accepted && getDropdownFilterBarItem("Severity", BugBashItemFieldNames.Severity, filterData)}
+                    {viewMode !== BugBashViewMode.Accepted && getDropdownFilterBarItem("Priority", BugBashItemFieldNames.Priority, filterData)}
+                    {canSeeBugBashItemSubmitters(bugBash) && getDropdownFilterBarItem("Created By", BugBashItemFieldNames.CreatedBy, filterData)}
                     {viewMode === BugBashViewMode.Rejected && getDropdownFilterBarItem("Rejected By", BugBashItemFieldNames.RejectedBy, filterData)}
                     {viewMode === BugBashViewMode.Accepted && getDropdownFilterBarItem("State", WorkItemFieldNames.State, filterData)}
                     {viewMode === BugBashViewMode.Accepted && getDropdownFilterBarItem("Assigned To", WorkItemFieldNames.AssignedTo, filterData)}
@@ -150,6 +159,8 @@ function onTabSelect(newTabId: string, bugBashId: string) {
         navigateToBugBashItemsList(bugBashId);
     } else if (newTabId === BugBashViewPagePivotKeys.Board) {
         navigateToBugBashItemsBoard(bugBashId);
+    } else if (newTabId === BugBashViewPagePivotKeys.Leaderboard) {
+        navigateToBugBashLeaderboard(bugBashId);
     } else {
         navigateToBugBashItemsCharts(bugBashId);
     }
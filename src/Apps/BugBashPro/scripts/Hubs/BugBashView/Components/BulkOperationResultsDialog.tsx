@@ -0,0 +1,49 @@
+import * as React from "react";
+
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { Icon } from "azure-devops-ui/Icon";
+import { Resources } from "BugBashPro/Resources";
+
+import { IBulkOperationState } from "../Redux/Contracts";
+
+interface IBulkOperationResultsDialogProps {
+    bulkOperation: IBulkOperationState;
+    onDismiss: () => void;
+}
+
+export function BulkOperationResultsDialog(props: IBulkOperationResultsDialogProps) {
+    const { bulkOperation, onDismiss } = props;
+    const failedResults = bulkOperation.results.filter((r) => !!r.error);
+    const succeededCount = bulkOperation.results.length - failedResults.length;
+
+    return (
+        <Dialog
+            className="bulk-operation-results-dialog"
+            titleProps={{ text: Resources.BulkOperationResultsDialogTitle, size: TitleSize.Medium }}
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Close,
+                    primary: true,
+                    onClick: onDismiss
+                }
+            ]}
+        >
+            <div className="bulk-operation-results flex-column">
+                <div className="bulk-operation-results-summary">
+                    {`${bulkOperation.operation}: ${succeededCount} succeeded, ${failedResults.length} failed.`}
+                </div>
+                {failedResults.map((result) => (
+                    <div key={result.bugBashItemId} className="bulk-operation-result flex-row">
+                        <Icon className="error-text flex-noshrink" iconName="StatusErrorFull" />
+                        <div className="flex-column scroll-hidden">
+                            <div className="font-weight-semibold text-ellipsis">{result.title || result.bugBashItemId}</div>
+                            <div className="secondary-text">{result.error}</div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </Dialog>
+    );
+}
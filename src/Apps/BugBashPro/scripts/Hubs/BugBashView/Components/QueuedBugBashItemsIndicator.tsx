@@ -0,0 +1,61 @@
+import * as React from "react";
+
+import { Button } from "azure-devops-ui/Button";
+import { Icon } from "azure-devops-ui/Icon";
+import { Tooltip } from "azure-devops-ui/TooltipEx";
+import { Resources } from "BugBashPro/Resources";
+import { useQueuedBugBashItems } from "BugBashPro/Shared/Hooks/useQueuedBugBashItems";
+import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
+
+interface IQueuedBugBashItemsIndicatorProps {
+    bugBashId: string;
+}
+
+const Actions = {
+    syncQueuedBugBashItems: BugBashItemsActions.queuedBugBashItemsSyncRequested,
+    discardQueuedBugBashItems: BugBashItemsActions.queuedBugBashItemsDiscardRequested
+};
+
+export function QueuedBugBashItemsIndicator(props: IQueuedBugBashItemsIndicatorProps) {
+    const { bugBashId } = props;
+    const { queuedBugBashItems } = useQueuedBugBashItems();
+    const { syncQueuedBugBashItems, discardQueuedBugBashItems } = useActionCreators(Actions);
+
+    if (queuedBugBashItems.length === 0) {
+        return null;
+    }
+
+    const count = queuedBugBashItems.length;
+    const failedCount = queuedBugBashItems.filter((q) => q.failed).length;
+    const pendingCount = count - failedCount;
+    const lastError = queuedBugBashItems[count - 1].error;
+    const onDiscard = () => {
+        confirmAction(Resources.ConfirmDialogTitle, Resources.DiscardQueuedBugBashItemsConfirmation, (ok: boolean) => {
+            if (ok) {
+                discardQueuedBugBashItems(bugBashId);
+            }
+        });
+    };
+
+    return (
+        <div className="queued-items-indicator flex-row flex-center font-size">
+            <Tooltip text={lastError}>
+                <div className="flex-row flex-center">
+                    <Icon className="queued-items-icon" iconName="CloudUpload" />
+                    {pendingCount > 0 && (
+                        <span>{pendingCount === 1 ? Resources.QueuedBugBashItem : `${pendingCount} ${Resources.QueuedBugBashItems}`}</span>
+                    )}
+                    {failedCount > 0 && (
+                        <span className="queued-items-failed error-text">
+                            {failedCount === 1 ? Resources.FailedQueuedBugBashItem : `${failedCount} ${Resources.FailedQueuedBugBashItems}`}
+                        </span>
+                    )}
+                </div>
+            </Tooltip>
+            {pendingCount > 0 && <Button subtle={true} text={Resources.SyncNow} onClick={() => syncQueuedBugBashItems(bugBashId)} />}
+            <Button subtle={true} className="error-text" text={Resources.Discard} onClick={onDiscard} />
+        </div>
+    );
+}
@@ -0,0 +1,47 @@
+import * as React from "react";
+
+import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { Resources } from "BugBashPro/Resources";
+import { TeamPicker } from "Common/AzDev/Teams/Components/TeamPicker";
+
+interface IReassignTeamDialogProps {
+    onReassign: (teamId: string) => void;
+    onDismiss: () => void;
+}
+
+export function ReassignTeamDialog(props: IReassignTeamDialogProps) {
+    const { onReassign, onDismiss } = props;
+    const [teamId, setTeamId] = React.useState<string | undefined>(undefined);
+    const onTeamChange = React.useCallback((option?: WebApiTeam) => {
+        setTeamId(option ? option.id : undefined);
+    }, []);
+    const onReassignClick = React.useCallback(() => {
+        if (teamId) {
+            onReassign(teamId);
+        }
+    }, [teamId, onReassign]);
+
+    return (
+        <Dialog
+            className="reassign-team-dialog"
+            titleProps={{ text: Resources.ReassignTeamDialogTitle, size: TitleSize.Medium }}
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Reassign,
+                    primary: true,
+                    disabled: !teamId,
+                    onClick: onReassignClick
+                }
+            ]}
+        >
+            <TeamPicker label={Resources.ReassignTeam_Label} required={true} selectedValue={teamId} onChange={onTeamChange} />
+        </Dialog>
+    );
+}
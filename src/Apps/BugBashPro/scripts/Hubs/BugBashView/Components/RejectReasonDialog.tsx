@@ -0,0 +1,53 @@
+import * as React from "react";
+
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { TitleFieldMaxLength } from "BugBashPro/Editors/BugBashItemEditor/Constants";
+import { Resources } from "BugBashPro/Resources";
+import { TextField } from "Common/Components/TextField";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
+
+interface IRejectReasonDialogProps {
+    title?: string;
+    onReject: (rejectReason: string) => void;
+    onDismiss: () => void;
+}
+
+export function RejectReasonDialog(props: IRejectReasonDialogProps) {
+    const { title, onReject, onDismiss } = props;
+    const [rejectReason, setRejectReason] = React.useState("");
+    const onRejectClick = React.useCallback(() => {
+        onReject(rejectReason.trim());
+    }, [rejectReason, onReject]);
+
+    return (
+        <Dialog
+            className="reject-reason-dialog"
+            titleProps={{ text: title || Resources.RejectBugBashItemDialogTitle, size: TitleSize.Medium }}
+            defaultActiveElement=".reject-reason-input"
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Reject,
+                    primary: true,
+                    disabled: isNullOrWhiteSpace(rejectReason),
+                    onClick: onRejectClick
+                }
+            ]}
+        >
+            <TextField
+                inputClassName="reject-reason-input"
+                label={Resources.RejectReason_Label}
+                placeholder={Resources.RejectReason_Placeholder}
+                required={true}
+                value={rejectReason}
+                onChange={setRejectReason}
+                maxLength={TitleFieldMaxLength}
+            />
+        </Dialog>
+    );
+}
@@ -0,0 +1,72 @@
+import * as React from "react";
+
+import { IListBoxItem } from "azure-devops-ui/Components/ListBox/ListBox.Props";
+import { Dialog } from "azure-devops-ui/Dialog";
+import { TitleSize } from "azure-devops-ui/Header";
+import { Resources } from "BugBashPro/Resources";
+import { BugBashItemUnacceptWorkItemAction, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { DropdownPicker } from "Common/Components/Pickers/DropdownPicker";
+
+const WorkItemActionOptions: IListBoxItem[] = [
+    { id: "keep", text: Resources.UnacceptWorkItemAction_Keep },
+    { id: "close", text: Resources.UnacceptWorkItemAction_Close },
+    { id: "delete", text: Resources.UnacceptWorkItemAction_Delete }
+];
+
+interface IUnacceptDialogProps {
+    bugBashItem: IBugBashItem;
+    onUnaccept: (workItemAction: BugBashItemUnacceptWorkItemAction) => void;
+    onDismiss: () => void;
+}
+
+export function UnacceptDialog(props: IUnacceptDialogProps) {
+    const { bugBashItem, onUnaccept, onDismiss } = props;
+    const [workItemAction, setWorkItemAction] = React.useState<BugBashItemUnacceptWorkItemAction>("keep");
+    const onWorkItemActionChange = React.useCallback((option?: IListBoxItem) => {
+        setWorkItemAction(option ? (option.id as BugBashItemUnacceptWorkItemAction) : "keep");
+    }, []);
+    const onUnacceptClick = React.useCallback(() => {
+        onUnaccept(workItemAction);
+    }, [workItemAction, onUnaccept]);
+
+    // only work items that were created by the accept can be closed or deleted
+    const canChangeWorkItem = !!bugBashItem.acceptedSnapshot && bugBashItem.acceptedSnapshot.createdWorkItem;
+
+    return (
+        <Dialog
+            className="unaccept-dialog"
+            titleProps={{ text: Resources.UnacceptDialogTitle, size: TitleSize.Medium }}
+            onDismiss={onDismiss}
+            footerButtonProps={[
+                {
+                    text: Resources.Cancel,
+                    onClick: onDismiss
+                },
+                {
+                    text: Resources.Unaccept,
+                    primary: true,
+                    onClick: onUnacceptClick
+                }
+            ]}
+        >
+            <p>{Resources.Unaccept_Info}</p>
+            {canChangeWorkItem ? (
+                <DropdownPicker<IListBoxItem>
+                    label={Resources.UnacceptWorkItemAction_Label}
+                    required={true}
+                    options={WorkItemActionOptions}
+                    limitedToAllowedOptions={true}
+                    getDropdownItem={getWorkItemActionDropdownItem}
+                    selectedValue={workItemAction}
+                    onChange={onWorkItemActionChange}
+                />
+            ) : (
+                <p>{Resources.UnacceptExistingWorkItem_Info}</p>
+            )}
+        </Dialog>
+    );
+}
+
+function getWorkItemActionDropdownItem(option: IListBoxItem): IListBoxItem {
+    return option;
+}
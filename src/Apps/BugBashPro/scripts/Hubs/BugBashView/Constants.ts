@@ -1,17 +1,35 @@
 import { createContext } from "react";
 
 import { IHeaderCommandBarItem } from "azure-devops-ui/Components/HeaderCommandBar/HeaderCommandBar.Props";
+import { IColor } from "azure-devops-ui/Utilities/Color";
 import { Resources } from "BugBashPro/Resources";
 import { IBugBash } from "BugBashPro/Shared/Contracts";
 
 export const BugBashViewPageErrorKey = "BugBashView/PageError";
 
+export const BulkOperationConcurrency = 5;
+
+export const ExportFileNameMaxLength = 100;
+
+export const BugBashItemsRefreshInterval = 30000;
+
+export const QueuedBugBashItemsSyncInterval = 15000;
+
+export const NewBugBashItemColor: IColor = { red: 0, green: 120, blue: 212 };
+
 export const BugBashViewContext = createContext<IBugBash>({} as IBugBash);
 
 export const enum BugBashViewPagePivotKeys {
     List = "list",
     Charts = "charts",
-    Board = "board"
+    Board = "board",
+    Leaderboard = "leaderboard"
+}
+
+export const enum BugBashItemsBoardColumnKeys {
+    Pending = "pending",
+    Rejected = "rejected",
+    Accepted = "accepted"
 }
 
 export const enum BugBashItemFieldNames {
@@ -27,6 +45,9 @@ export const enum BugBashItemFieldNames {
     Rejected = "rejected",
     RejectReason = "rejectReason",
     RejectedBy = "rejectedBy",
+    Votes = "votedBy",
+    Severity = "severity",
+    Priority = "priority",
     Status = "status"
 }
 
@@ -50,6 +71,9 @@ export const BugBashItemKeyTypes: { [key: string]: "string" | "identityRef" | "d
     [BugBashItemFieldNames.RejectedBy]: "identityRef",
     [BugBashItemFieldNames.RejectReason]: "string",
     [BugBashItemFieldNames.TeamId]: "string",
+    [BugBashItemFieldNames.Votes]: "number",
+    [BugBashItemFieldNames.Severity]: "string",
+    [BugBashItemFieldNames.Priority]: "string",
     [BugBashItemFieldNames.WorkItemId]: "number",
     [WorkItemFieldNames.AreaPath]: "string",
     [WorkItemFieldNames.AssignedTo]: "identityRef",
@@ -85,6 +109,38 @@ export const BugBashViewHeaderCommands: { [key: string]: IHeaderCommandBarItem }
             iconName: "Info"
         }
     },
+    close: {
+        important: false,
+        id: "closebugbash",
+        text: Resources.CloseBugBash,
+        iconProps: {
+            iconName: "Lock"
+        }
+    },
+    reopen: {
+        important: false,
+        id: "reopenbugbash",
+        text: Resources.ReopenBugBash,
+        iconProps: {
+            iconName: "Unlock"
+        }
+    },
+    import: {
+        important: false,
+        id: "import",
+        text: Resources.Import,
+        iconProps: {
+            iconName: "Upload"
+        }
+    },
+    export: {
+        important: true,
+        id: "export",
+        text: Resources.Export,
+        iconProps: {
+            iconName: "Download"
+        }
+    },
     refresh: {
         important: true,
         id: "refresh",
@@ -94,3 +150,52 @@ export const BugBashViewHeaderCommands: { [key: string]: IHeaderCommandBarItem }
         }
     }
 };
+
+export const BugBashViewBulkCommands: { [key: string]: IHeaderCommandBarItem } = {
+    accept: {
+        important: true,
+        id: "bulkaccept",
+        text: Resources.Accept,
+        iconProps: {
+            iconName: "Accept"
+        }
+    },
+    reject: {
+        important: true,
+        id: "bulkreject",
+        text: Resources.Reject,
+        iconProps: {
+            iconName: "Blocked"
+        }
+    },
+    reassign: {
+        important: true,
+        id: "bulkreassign",
+        text: Resources.ReassignTeam,
+        iconProps: {
+            iconName: "People"
+        }
+    },
+    delete: {
+        important: true,
+        id: "bulkdelete",
+        text: Resources.Delete,
+        iconProps: {
+            iconName: "Delete"
+        }
+    },
+    clearSelection: {
+        important: true,
+        id: "clearselection",
+        text: Resources.ClearSelection,
+        iconProps: {
+            iconName: "Cancel"
+        }
+    }
+};
+
+export const enum BugBashItemsExportFormat {
+    Csv = "csv",
+    Html = "html",
+    Markdown = "md"
+}
@@ -0,0 +1,166 @@
+import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { getBugBashItemVoteCount, isBugBashItemAccepted, isBugBashItemRejected } from "BugBashPro/Shared/Helpers";
+import { CoreFieldRefNames } from "Common/Constants";
+import { HtmlTableFormatter } from "Common/Utilities/HtmlTableFormatter";
+import { htmlEncode } from "Common/Utilities/String";
+import * as format from "date-fns/format";
+
+import { BugBashItemsExportFormat, ExportFileNameMaxLength } from "./Constants";
+
+interface IExportRow {
+    bugBashItem: IBugBashItem;
+    workItem?: WorkItem;
+    team?: WebApiTeam;
+}
+
+interface IExportColumn {
+    name: string;
+    getValue(row: IExportRow): string;
+}
+
+const ExportColumns: IExportColumn[] = [
+    {
+        name: "Title",
+        getValue: ({ bugBashItem, workItem }) => (workItem ? workItem.fields[CoreFieldRefNames.Title] : bugBashItem.title)
+    },
+    {
+        name: "Status",
+        getValue: ({ bugBashItem }) => (isBugBashItemAccepted(bugBashItem) ? "Accepted" : isBugBashItemRejected(bugBashItem) ? "Rejected" : "Pending")
+    },
+    {
+        name: "Work Item Id",
+        getValue: ({ workItem }) => (workItem ? `${workItem.id}` : "")
+    },
+    {
+        name: "State",
+        getValue: ({ workItem }) => (workItem && workItem.fields[CoreFieldRefNames.State]) || ""
+    },
+    {
+        name: "Assigned To",
+        getValue: ({ workItem }) => getIdentityText(workItem && workItem.fields[CoreFieldRefNames.AssignedTo])
+    },
+    {
+        name: "Area Path",
+        getValue: ({ workItem }) => (workItem && workItem.fields[CoreFieldRefNames.AreaPath]) || ""
+    },
+    {
+        name: "Team",
+        getValue: ({ bugBashItem, team }) => (team ? team.name : bugBashItem.teamId || "")
+    },
+    {
+        name: "Created By",
+        getValue: ({ bugBashItem }) => getIdentityText(bugBashItem.createdBy)
+    },
+    {
+        name: "Created Date",
+        getValue: ({ bugBashItem }) => (bugBashItem.createdDate ? format(bugBashItem.createdDate, "M/D/YYYY h:mm aa") : "")
+    },
+    {
+        name: "Rejected By",
+        getValue: ({ bugBashItem }) => (isBugBashItemRejected(bugBashItem) ? getIdentityText(bugBashItem.rejectedBy) : "")
+    },
+    {
+        name: "Reject Reason",
+        getValue: ({ bugBashItem }) => (isBugBashItemRejected(bugBashItem) ? bugBashItem.rejectReason || "" : "")
+    },
+    {
+        name: "Severity",
+        getValue: ({ bugBashItem }) => bugBashItem.severity || ""
+    },
+    {
+        name: "Priority",
+        getValue: ({ bugBashItem }) => bugBashItem.priority || ""
+    },
+    {
+        name: "Votes",
+        getValue: ({ bugBashItem }) => `${getBugBashItemVoteCount(bugBashItem)}`
+    }
+];
+
+class BugBashItemsHtmlTableFormatter extends HtmlTableFormatter<IExportRow, IExportColumn> {
+    protected getColumnName(column: IExportColumn): string {
+        return column.name;
+    }
+
+    protected getCellValue(row: IExportRow, column: IExportColumn): string {
+        return htmlEncode(column.getValue(row));
+    }
+}
+
+export function exportBugBashItems(
+    exportFormat: BugBashItemsExportFormat,
+    bugBashItems: IBugBashItem[],
+    workItemsMap: { [id: number]: WorkItem } | undefined,
+    teamsMap: { [idOrName: string]: WebApiTeam } | undefined,
+    includeSubmitters: boolean
+): string {
+    const columns = includeSubmitters ? ExportColumns : ExportColumns.filter((c) => c.name !== "Created By");
+    const rows: IExportRow[] = bugBashItems.map((b) => ({
+        bugBashItem: b,
+        workItem: b.workItemId && workItemsMap ? workItemsMap[b.workItemId] : undefined,
+        team: b.teamId && teamsMap ? teamsMap[b.teamId.toLowerCase()] : undefined
+    }));
+
+    switch (exportFormat) {
+        case BugBashItemsExportFormat.Html: {
+            return new BugBashItemsHtmlTableFormatter(rows, columns).getHtml();
+        }
+
+        case BugBashItemsExportFormat.Markdown: {
+            const header = `| ${columns.map((c) => escapeMarkdownCell(c.name)).join(" | ")} |`;
+            const separator = `| ${columns.map(() => "---").join(" | ")} |`;
+            const lines = rows.map((row) => `| ${columns.map((c) => escapeMarkdownCell(c.getValue(row))).join(" | ")} |`);
+            return [header, separator, ...lines].join("\n");
+        }
+
+        default: {
+            const header = columns.map((c) => escapeCsvCell(c.name)).join(",");
+            const lines = rows.map((row) => columns.map((c) => escapeCsvCell(c.getValue(row))).join(","));
+            return [header, ...lines].join("\r\n");
+        }
+    }
+}
+
+export function getExportMimeType(exportFormat: BugBashItemsExportFormat): string {
+    switch (exportFormat) {
+        case BugBashItemsExportFormat.Html:
+            return "text/html;charset=utf-8";
+        case BugBashItemsExportFormat.Markdown:
+            return "text/markdown;charset=utf-8";
+        default:
+            return "text/csv;charset=utf-8";
+    }
+}
+
+function getIdentityText(identity: IdentityRef | undefined): string {
+    return (identity && identity.displayName) || "";
+}
+
+/**
+ * Returns a file name for the export which is safe to use on any OS, as the bug bash title can contain any character
+ */
+export function getExportFileName(bugBashTitle: string, exportFormat: BugBashItemsExportFormat): string {
+    const fileName = bugBashTitle
+        .replace(/[\\/:*?"<>|\x00-\x1f]/g, "_")
+        .replace(/^[\s.]+|[\s.]+$/g, "")
+        .substr(0, ExportFileNameMaxLength);
+    return `${fileName || "bugbash"}.${exportFormat}`;
+}
+
+function escapeCsvCell(value: string): string {
+    // cells starting with these characters are run as formulas by spreadsheet apps, and the values come from any submitter
+    if (/^[=+\-@\t\r]/.test(value)) {
+        value = `'${value}`;
+    }
+    if (/[",\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+}
+
+function escapeMarkdownCell(value: string): string {
+    return htmlEncode(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br/>");
+}
@@ -3,9 +3,11 @@ import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
 import { caseInsensitiveContains, equals, localeIgnoreCaseComparer } from "azure-devops-ui/Core/Util/String";
 import { IFilterState } from "azure-devops-ui/Utilities/Filter";
-import { IBugBashItem, ISortState } from "BugBashPro/Shared/Contracts";
+import { IBugBash, IBugBashItem, ISortState } from "BugBashPro/Shared/Contracts";
 import {
     applyFilterAndSort,
+    getBugBashItemVoteCount,
+    getVisibleBugBashItems,
     isBugBashItemAccepted,
     isBugBashItemPending,
     isBugBashItemRejected,
@@ -25,6 +27,7 @@ interface IBugBashItemWithWorkItem {
 }
 
 export function getFilteredBugBashItems(
+    bugBash: IBugBash | undefined,
     allBugBashItems: IBugBashItem[] | undefined,
     resolvedWorkItems: { [id: number]: WorkItem } | undefined,
     teamsMap: { [idOrName: string]: WebApiTeam } | undefined,
@@ -36,7 +39,8 @@ export function getFilteredBugBashItems(
         return undefined;
     }
 
-    const bugBashItemsWithWorkItems: IBugBashItemWithWorkItem[] = allBugBashItems.map((b) => ({
+    const visibleBugBashItems = bugBash ? getVisibleBugBashItems(bugBash, allBugBashItems) : allBugBashItems;
+    const bugBashItemsWithWorkItems: IBugBashItemWithWorkItem[] = visibleBugBashItems.map((b) => ({
         bugBashItem: b,
         workItem: resolvedWorkItems && b.workItemId ? resolvedWorkItems[b.workItemId] : undefined,
         team: teamsMap ? teamsMap[b.teamId] : undefined
@@ -47,7 +51,8 @@ export function getFilteredBugBashItems(
 
     switch (viewMode) {
         case BugBashViewMode.Pending: {
-            return bugBashItems.filter(isBugBashItemPending);
+            const pendingBugBashItems = bugBashItems.filter(isBugBashItemPending);
+            return sortState ? pendingBugBashItems : sortBugBashItemsByVotes(pendingBugBashItems);
         }
         case BugBashViewMode.Rejected: {
             return bugBashItems.filter(isBugBashItemRejected);
@@ -61,6 +66,16 @@ export function getFilteredBugBashItems(
     }
 }
 
+/**
+ * Orders pending items with the most votes first so that triagers pick up the most wanted items, keeping the existing order for equal votes
+ */
+export function sortBugBashItemsByVotes(bugBashItems: IBugBashItem[]): IBugBashItem[] {
+    return bugBashItems
+        .map((bugBashItem, index) => ({ bugBashItem, index }))
+        .sort((a, b) => getBugBashItemVoteCount(b.bugBashItem) - getBugBashItemVoteCount(a.bugBashItem) || a.index - b.index)
+        .map((b) => b.bugBashItem);
+}
+
 function matcher(item: IBugBashItemWithWorkItem, filter: IFilterState): boolean {
     if (filter == null) {
         return true;
@@ -82,6 +97,17 @@ function matcher(item: IBugBashItemWithWorkItem, filter: IFilterState): boolean
         returnValue = returnValue && teamIds.filter((v) => equals(v, bugBashItem.teamId, true)).length > 0;
     }
 
+    // filter by severity and priority: only for non accepted items
+    const severities: string[] | undefined = filter[BugBashItemFieldNames.Severity] && filter[BugBashItemFieldNames.Severity]!.value;
+    if (severities && severities.length > 0 && !workItem) {
+        returnValue = returnValue && severities.filter((v) => equals(v, bugBashItem.severity || "", true)).length > 0;
+    }
+
+    const priorities: string[] | undefined = filter[BugBashItemFieldNames.Priority] && filter[BugBashItemFieldNames.Priority]!.value;
+    if (priorities && priorities.length > 0 && !workItem) {
+        returnValue = returnValue && priorities.filter((v) => equals(v, bugBashItem.priority || "", true)).length > 0;
+    }
+
     // filter by item created by
     const createdBys: string[] | undefined = filter[BugBashItemFieldNames.CreatedBy] && filter[BugBashItemFieldNames.CreatedBy]!.value;
     if (createdBys && createdBys.length > 0) {
@@ -146,7 +172,7 @@ function comparer(item1: IBugBashItemWithWorkItem, item2: IBugBashItemWithWorkIt
     } else if (BugBashItemKeyTypes[sortKey] === "identityRef") {
         compareValue = localeIgnoreCaseComparer((v1 as IdentityRef).displayName, (v2 as IdentityRef).displayName);
     } else if (BugBashItemKeyTypes[sortKey] === "number") {
-        compareValue = (v1 as number) > (v2 as number) ? 1 : -1;
+        compareValue = (v1 as number) - (v2 as number);
     }
 
     return isSortedDescending ? compareValue * -1 : compareValue;
@@ -168,14 +194,17 @@ function getBugBashItemProperty(
         v = workItem ? workItem.fields[WorkItemFieldNames.Title] : bugBashItem.title;
     } else if (key === BugBashItemFieldNames.TeamId && team) {
         v = team.name;
+    } else if (key === BugBashItemFieldNames.Votes) {
+        v = getBugBashItemVoteCount(bugBashItem);
     } else {
-        v = bugBashItem[key as keyof IBugBashItem];
+        v = bugBashItem[key as Exclude<keyof IBugBashItem, "fieldValues" | "attachments" | "votedBy" | "acceptedSnapshot">];
     }
 
     return v;
 }
 
 export function getBugBashItemsFilterData(
+    bugBash: IBugBash | undefined,
     bugBashItems: IBugBashItem[] | undefined,
     workItemsMap: { [id: number]: WorkItem } | undefined
 ): BugBashItemsFilterData {
@@ -183,6 +212,8 @@ export function getBugBashItemsFilterData(
         [BugBashItemFieldNames.TeamId]: {},
         [BugBashItemFieldNames.CreatedBy]: {},
         [BugBashItemFieldNames.RejectedBy]: {},
+        [BugBashItemFieldNames.Severity]: {},
+        [BugBashItemFieldNames.Priority]: {},
         [WorkItemFieldNames.AreaPath]: {},
         [WorkItemFieldNames.AssignedTo]: {},
         [WorkItemFieldNames.State]: {}
@@ -192,7 +223,7 @@ export function getBugBashItemsFilterData(
         return undefined;
     }
 
-    for (const bugBashItem of bugBashItems) {
+    for (const bugBashItem of bugBash ? getVisibleBugBashItems(bugBash, bugBashItems) : bugBashItems) {
         const createdBy = bugBashItem.createdBy;
         const createdByStr = getDistinctNameFromIdentityRef(createdBy);
         filterData[BugBashItemFieldNames.CreatedBy][createdByStr] = (filterData[BugBashItemFieldNames.CreatedBy][createdByStr] || 0) + 1;
@@ -201,6 +232,14 @@ export function getBugBashItemsFilterData(
             const teamId = bugBashItem.teamId;
             filterData[BugBashItemFieldNames.TeamId][teamId] = (filterData[BugBashItemFieldNames.TeamId][teamId] || 0) + 1;
 
+            const { severity, priority } = bugBashItem;
+            if (severity) {
+                filterData[BugBashItemFieldNames.Severity][severity] = (filterData[BugBashItemFieldNames.Severity][severity] || 0) + 1;
+            }
+            if (priority) {
+                filterData[BugBashItemFieldNames.Priority][priority] = (filterData[BugBashItemFieldNames.Priority][priority] || 0) + 1;
+            }
+
             if (isBugBashItemRejected(bugBashItem)) {
                 const rejectedBy = bugBashItem.rejectedBy;
                 const rejectedByStr = getDistinctNameFromIdentityRef(rejectedBy!);
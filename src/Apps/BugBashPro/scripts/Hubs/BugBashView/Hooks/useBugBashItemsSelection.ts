@@ -0,0 +1,28 @@
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+import { BugBashViewActions } from "../Redux/Actions";
+import { IBugBashViewAwareState } from "../Redux/Contracts";
+import { getSelectedBugBashItemIds } from "../Redux/Selectors";
+
+export function useBugBashItemsSelection(): IUseBugBashItemsSelectionHookMappedState & typeof Actions {
+    const { selectedBugBashItemIds } = useMappedState(mapState);
+    const { setSelectedItems, toggleItemSelection } = useActionCreators(Actions);
+
+    return { selectedBugBashItemIds, setSelectedItems, toggleItemSelection };
+}
+
+const Actions = {
+    setSelectedItems: BugBashViewActions.setSelectedItems,
+    toggleItemSelection: BugBashViewActions.toggleItemSelection
+};
+
+function mapState(state: IBugBashViewAwareState): IUseBugBashItemsSelectionHookMappedState {
+    return {
+        selectedBugBashItemIds: getSelectedBugBashItemIds(state)
+    };
+}
+
+interface IUseBugBashItemsSelectionHookMappedState {
+    selectedBugBashItemIds: string[];
+}
@@ -0,0 +1,33 @@
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+import { BugBashViewActions } from "../Redux/Actions";
+import { IBugBashViewAwareState, IBulkOperationState } from "../Redux/Contracts";
+import { getBulkOperationState } from "../Redux/Selectors";
+
+export function useBulkOperation(): IUseBulkOperationHookMappedState & typeof Actions {
+    const { bulkOperation } = useMappedState(mapState);
+    const { bulkAcceptRequested, bulkRejectRequested, bulkReassignRequested, bulkDeleteRequested, dismissBulkOperationResults } = useActionCreators(
+        Actions
+    );
+
+    return { bulkOperation, bulkAcceptRequested, bulkRejectRequested, bulkReassignRequested, bulkDeleteRequested, dismissBulkOperationResults };
+}
+
+const Actions = {
+    bulkAcceptRequested: BugBashViewActions.bulkAcceptRequested,
+    bulkRejectRequested: BugBashViewActions.bulkRejectRequested,
+    bulkReassignRequested: BugBashViewActions.bulkReassignRequested,
+    bulkDeleteRequested: BugBashViewActions.bulkDeleteRequested,
+    dismissBulkOperationResults: BugBashViewActions.dismissBulkOperationResults
+};
+
+function mapState(state: IBugBashViewAwareState): IUseBulkOperationHookMappedState {
+    return {
+        bulkOperation: getBulkOperationState(state)
+    };
+}
+
+interface IUseBulkOperationHookMappedState {
+    bulkOperation: IBulkOperationState | undefined;
+}
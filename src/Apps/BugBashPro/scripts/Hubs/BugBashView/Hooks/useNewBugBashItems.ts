@@ -0,0 +1,20 @@
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+import { IBugBashViewAwareState } from "../Redux/Contracts";
+import { getNewBugBashItemIdsMap } from "../Redux/Selectors";
+
+export function useNewBugBashItems(): IUseNewBugBashItemsHookMappedState {
+    const { newBugBashItemIdsMap } = useMappedState(mapState);
+
+    return { newBugBashItemIdsMap };
+}
+
+function mapState(state: IBugBashViewAwareState): IUseNewBugBashItemsHookMappedState {
+    return {
+        newBugBashItemIdsMap: getNewBugBashItemIdsMap(state)
+    };
+}
+
+interface IUseNewBugBashItemsHookMappedState {
+    newBugBashItemIdsMap: { [bugBashItemId: string]: boolean };
+}
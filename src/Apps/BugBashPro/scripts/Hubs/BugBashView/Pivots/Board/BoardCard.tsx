@@ -3,9 +3,15 @@ import "./BoardCard.scss";
 import * as React from "react";
 
 import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { Checkbox } from "azure-devops-ui/Checkbox";
+import { css } from "azure-devops-ui/Util";
 import { BugBashViewActions } from "BugBashPro/Hubs/BugBashView//Redux/Actions";
+import { useNewBugBashItems } from "BugBashPro/Hubs/BugBashView/Hooks/useNewBugBashItems";
+import { Resources } from "BugBashPro/Resources";
+import { BugBashItemPriorities, BugBashItemSeverities } from "BugBashPro/Shared/Constants";
 import { IBugBashItem } from "BugBashPro/Shared/Contracts";
-import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
+import { canSeeBugBashItemSubmitters, isBugBashItemAccepted, isBugBashItemPending, isBugBashTriager } from "BugBashPro/Shared/Helpers";
+import { useMentions } from "BugBashPro/Shared/Hooks/useMentions";
 import { getBugBashItemUrlAsync } from "BugBashPro/Shared/NavHelpers";
 import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
 import { TeamView } from "Common/AzDev/Teams/Components/TeamView";
@@ -17,6 +23,9 @@ import { useActionCreators } from "Common/Hooks/useActionCreators";
 import { getWorkItemUrlAsync } from "Common/Utilities/UrlHelper";
 import { Draggable } from "react-beautiful-dnd";
 
+import { BugBashItemNewPill } from "../../Components/BugBashItemNewPill";
+import { BugBashItemTriagePill } from "../../Components/BugBashItemTriagePill";
+import { BugBashItemVoteButton } from "../../Components/BugBashItemVoteButton";
 import { BugBashViewContext } from "../../Constants";
 
 const Actions = {
@@ -28,15 +37,22 @@ interface IBoardCardProps {
     bugBashItem: IBugBashItem;
     acceptedWorkItem: WorkItem | undefined;
     index: number;
+    selected: boolean;
+    onSelectionToggle: (bugBashItemId: string) => void;
 }
 
 export function BoardCard(props: IBoardCardProps) {
-    const { bugBashItem, index, acceptedWorkItem } = props;
+    const { bugBashItem, index, acceptedWorkItem, selected, onSelectionToggle } = props;
     const bugBash = React.useContext(BugBashViewContext);
     const bugBashId = bugBash.id as string;
 
     const { editBugBashItemRequested } = useActionCreators(Actions);
     const isAccepted = isBugBashItemAccepted(bugBashItem) && acceptedWorkItem !== undefined;
+    const isTriager = isBugBashTriager(bugBash);
+    const { mentionedBugBashItemIdsMap } = useMentions();
+    const isMentioned = !!mentionedBugBashItemIdsMap[bugBashItem.id!.toLowerCase()];
+    const { newBugBashItemIdsMap } = useNewBugBashItems();
+    const isNew = !!newBugBashItemIdsMap[bugBashItem.id!.toLowerCase()];
 
     const onTitleClick = React.useCallback(
         (e: React.MouseEvent<HTMLAnchorElement> | React.KeyboardEvent<HTMLAnchorElement>) => {
@@ -48,11 +64,19 @@ export function BoardCard(props: IBoardCardProps) {
         [bugBashId, bugBashItem.id]
     );
 
+    const onCheckboxChange = React.useCallback(
+        (e: React.FormEvent<HTMLElement | HTMLInputElement>) => {
+            e.stopPropagation();
+            onSelectionToggle(bugBashItem.id!);
+        },
+        [bugBashItem.id, onSelectionToggle]
+    );
+
     return (
-        <Draggable draggableId={`card_${bugBashItem.id}`} key={`card_${bugBashItem.id}`} type="board-card" index={index} isDragDisabled={true}>
+        <Draggable draggableId={`card_${bugBashItem.id}`} key={`card_${bugBashItem.id}`} type="board-card" index={index} isDragDisabled={!isTriager}>
             {(provided) => (
                 <div
-                    className="board-card scroll-hidden flex-column"
+                    className={css("board-card scroll-hidden flex-column", selected && "selected", isMentioned && "mentioned")}
                     ref={provided.innerRef}
                     {...provided.draggableProps}
                     {...provided.dragHandleProps}
@@ -80,25 +104,50 @@ export function BoardCard(props: IBoardCardProps) {
                     )}
 
                     {!isAccepted && (
-                        <div className="board-card-control font-weight-semibold">
+                        <div className="board-card-control flex-row font-weight-semibold">
+                            {isTriager && <Checkbox className="board-card-checkbox flex-noshrink" checked={selected} onChange={onCheckboxChange} />}
+                            {isNew && <BugBashItemNewPill className="board-card-new-pill flex-noshrink" />}
                             <AsyncLinkComponent
+                                className="flex-grow"
                                 key={bugBashItem.id}
                                 getHrefAsync={getBugBashItemUrlPromise(bugBashItem.bugBashId, bugBashItem.id!)}
                                 title={bugBashItem.title}
                                 onClick={onTitleClick}
                             />
+                            {isBugBashItemPending(bugBashItem) && <BugBashItemVoteButton className="flex-noshrink" bugBashItem={bugBashItem} />}
                         </div>
                     )}
 
-                    <div className="board-card-fields">
-                        <div className="board-card-control flex-row flex-center">
-                            <div className="board-card-control-label flex-noshrink">Created by</div>
-                            <IdentityView
-                                className="board-card-control-inner scroll-hidden flex-grow"
-                                size="extra-extra-small"
-                                value={bugBashItem.createdBy}
-                            />
+                    {!isAccepted && (bugBashItem.severity || bugBashItem.priority) && (
+                        <div className="board-card-control board-card-pills flex-row">
+                            {bugBashItem.severity && (
+                                <BugBashItemTriagePill
+                                    prefix={Resources.SeverityPrefix}
+                                    value={bugBashItem.severity}
+                                    allowedValues={BugBashItemSeverities}
+                                />
+                            )}
+                            {bugBashItem.priority && (
+                                <BugBashItemTriagePill
+                                    prefix={Resources.PriorityPrefix}
+                                    value={bugBashItem.priority}
+                                    allowedValues={BugBashItemPriorities}
+                                />
+                            )}
                         </div>
+                    )}
+
+                    <div className="board-card-fields">
+                        {canSeeBugBashItemSubmitters(bugBash) && (
+                            <div className="board-card-control flex-row flex-center">
+                                <div className="board-card-control-label flex-noshrink">Created by</div>
+                                <IdentityView
+                                    className="board-card-control-inner scroll-hidden flex-grow"
+                                    size="extra-extra-small"
+                                    value={bugBashItem.createdBy}
+                                />
+                            </div>
+                        )}
 
                         {!isAccepted && (
                             <div className="board-card-control flex-row flex-center">
@@ -3,15 +3,30 @@ import "./BugBashItemsBoard.scss";
 import * as React from "react";
 
 import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { Pill } from "azure-devops-ui/Pill";
 import { css } from "azure-devops-ui/Util";
+import { useBugBashItemsSelection } from "BugBashPro/Hubs/BugBashView/Hooks/useBugBashItemsSelection";
+import { useBugBashItemsSort } from "BugBashPro/Hubs/BugBashView/Hooks/useBugBashItemsSort";
 import { IBugBashItemProviderParams } from "BugBashPro/Hubs/BugBashView/Interfaces";
-import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { BugBashViewActions } from "BugBashPro/Hubs/BugBashView/Redux/Actions";
+import { BugBashItemUnacceptWorkItemAction, IBugBashItem } from "BugBashPro/Shared/Contracts";
 import { isBugBashItemAccepted, isBugBashItemPending, isBugBashItemRejected } from "BugBashPro/Shared/Helpers";
+import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
 import { DragDropContext, DragStart, Droppable, DropResult } from "react-beautiful-dnd";
 
+import { RejectReasonDialog } from "../../Components/RejectReasonDialog";
+import { UnacceptDialog } from "../../Components/UnacceptDialog";
+import { BugBashItemsBoardColumnKeys, BugBashViewContext } from "../../Constants";
+import { sortBugBashItemsByVotes } from "../../Helpers";
 import { BoardCard } from "./BoardCard";
 
+const Actions = {
+    moveBugBashItem: BugBashViewActions.bugBashItemMoveRequested,
+    unacceptBugBashItem: BugBashItemsActions.bugBashItemUnacceptRequested
+};
+
 const BugBashItemsBoardColumnHeaderCell = (props: { text: string; count: number }) => {
     return (
         <div className="board-header-cell">
@@ -25,9 +40,25 @@ const BugBashItemsBoardColumnHeaderCell = (props: { text: string; count: number
 
 export function BugBashItemsBoard(props: IBugBashItemProviderParams) {
     const { filteredBugBashItems, workItemsMap } = props;
+    const bugBash = React.useContext(BugBashViewContext);
+    const { moveBugBashItem, unacceptBugBashItem } = useActionCreators(Actions);
+    const { selectedBugBashItemIds, toggleItemSelection } = useBugBashItemsSelection();
+    const selectedIdsMap = React.useMemo(() => {
+        const map: { [id: string]: boolean } = {};
+        for (const id of selectedBugBashItemIds) {
+            map[id.toLowerCase()] = true;
+        }
+        return map;
+    }, [selectedBugBashItemIds]);
 
     const [draggingFromColumn, setDraggingFromColumn] = React.useState("");
-    const pendingItems = filteredBugBashItems.filter((b) => isBugBashItemPending(b));
+    const [rejectingBugBashItemId, setRejectingBugBashItemId] = React.useState<string | undefined>(undefined);
+    const [unacceptingBugBashItemId, setUnacceptingBugBashItemId] = React.useState<string | undefined>(undefined);
+    const { sortColumn } = useBugBashItemsSort();
+    const pendingItems = React.useMemo(() => {
+        const items = filteredBugBashItems.filter((b) => isBugBashItemPending(b));
+        return sortColumn ? items : sortBugBashItemsByVotes(items);
+    }, [filteredBugBashItems, sortColumn]);
     const rejectedItems = filteredBugBashItems.filter((b) => isBugBashItemRejected(b));
     const acceptedItems = filteredBugBashItems.filter((b) => isBugBashItemAccepted(b));
 
@@ -35,31 +66,76 @@ export function BugBashItemsBoard(props: IBugBashItemProviderParams) {
         setDraggingFromColumn(start.source.droppableId);
     }, []);
 
-    const onDragEnd = React.useCallback((result: DropResult) => {
-        const { reason, draggableId, source, destination } = result;
-        if (reason === "DROP") {
-            const sourceId = source.droppableId;
-            const targetId = destination && destination.droppableId;
-            if (sourceId !== targetId) {
-                const bugBashItemId = draggableId.replace("card_", "");
-                console.log(bugBashItemId);
-                // if (targetId === "pending") {
-                // } else if (targetId === "rejected") {
-                // } else {
-                // }
+    const onDragEnd = React.useCallback(
+        (result: DropResult) => {
+            const { reason, draggableId, source, destination } = result;
+            setDraggingFromColumn("");
+            if (reason === "DROP" && destination) {
+                const sourceId = source.droppableId;
+                const targetId = destination.droppableId as BugBashItemsBoardColumnKeys;
+                if (sourceId !== targetId) {
+                    const bugBashItemId = draggableId.replace("card_", "");
+                    if (sourceId === BugBashItemsBoardColumnKeys.Accepted) {
+                        // accepted items can only be moved back to pending, which undoes the accept
+                        setUnacceptingBugBashItemId(bugBashItemId);
+                    } else if (targetId === BugBashItemsBoardColumnKeys.Rejected) {
+                        setRejectingBugBashItemId(bugBashItemId);
+                    } else {
+                        moveBugBashItem(bugBash, bugBashItemId, targetId);
+                    }
+                }
             }
-        }
+        },
+        [bugBash, moveBugBashItem]
+    );
+
+    const onRejectDialogDismiss = React.useCallback(() => {
+        setRejectingBugBashItemId(undefined);
     }, []);
 
+    const onRejectDialogReject = React.useCallback(
+        (rejectReason: string) => {
+            if (rejectingBugBashItemId) {
+                moveBugBashItem(bugBash, rejectingBugBashItemId, BugBashItemsBoardColumnKeys.Rejected, rejectReason);
+            }
+            setRejectingBugBashItemId(undefined);
+        },
+        [bugBash, rejectingBugBashItemId, moveBugBashItem]
+    );
+
+    const onUnacceptDialogDismiss = React.useCallback(() => {
+        setUnacceptingBugBashItemId(undefined);
+    }, []);
+
+    const onUnacceptDialogUnaccept = React.useCallback(
+        (workItemAction: BugBashItemUnacceptWorkItemAction) => {
+            if (unacceptingBugBashItemId) {
+                unacceptBugBashItem(unacceptingBugBashItemId, workItemAction);
+            }
+            setUnacceptingBugBashItemId(undefined);
+        },
+        [unacceptingBugBashItemId, unacceptBugBashItem]
+    );
+    const unacceptingBugBashItem = unacceptingBugBashItemId ? acceptedItems.find((b) => equals(b.id!, unacceptingBugBashItemId, true)) : undefined;
+
     const renderCard = React.useCallback(
         (bugBashItem: IBugBashItem, index: number) => {
             let acceptedWorkItem: WorkItem | undefined;
             if (isBugBashItemAccepted(bugBashItem) && workItemsMap) {
                 acceptedWorkItem = workItemsMap[bugBashItem.workItemId!];
             }
-            return <BoardCard key={bugBashItem.id} index={index} bugBashItem={bugBashItem} acceptedWorkItem={acceptedWorkItem} />;
+            return (
+                <BoardCard
+                    key={bugBashItem.id}
+                    index={index}
+                    bugBashItem={bugBashItem}
+                    acceptedWorkItem={acceptedWorkItem}
+                    selected={!!selectedIdsMap[bugBashItem.id!.toLowerCase()]}
+                    onSelectionToggle={toggleItemSelection}
+                />
+            );
         },
-        [workItemsMap]
+        [workItemsMap, selectedIdsMap]
     );
 
     return (
@@ -73,11 +149,11 @@ export function BugBashItemsBoard(props: IBugBashItemProviderParams) {
                 <div className="board-contents-outer flex-grow v-scroll-auto">
                     <div className="board-contents flex-row">
                         <Droppable
-                            droppableId="pending"
-                            key="pending"
+                            droppableId={BugBashItemsBoardColumnKeys.Pending}
+                            key={BugBashItemsBoardColumnKeys.Pending}
                             direction="vertical"
                             type="board-column"
-                            isDropDisabled={draggingFromColumn === "pending"}
+                            isDropDisabled={draggingFromColumn === BugBashItemsBoardColumnKeys.Pending}
                         >
                             {(provided, snapshot) => (
                                 <div
@@ -91,11 +167,14 @@ export function BugBashItemsBoard(props: IBugBashItemProviderParams) {
                             )}
                         </Droppable>
                         <Droppable
-                            droppableId="rejected"
-                            key="rejected"
+                            droppableId={BugBashItemsBoardColumnKeys.Rejected}
+                            key={BugBashItemsBoardColumnKeys.Rejected}
                             direction="vertical"
                             type="board-column"
-                            isDropDisabled={draggingFromColumn === "rejected"}
+                            isDropDisabled={
+                                draggingFromColumn === BugBashItemsBoardColumnKeys.Rejected ||
+                                draggingFromColumn === BugBashItemsBoardColumnKeys.Accepted
+                            }
                         >
                             {(provided, snapshot) => (
                                 <div
@@ -108,7 +187,12 @@ export function BugBashItemsBoard(props: IBugBashItemProviderParams) {
                                 </div>
                             )}
                         </Droppable>
-                        <Droppable droppableId="accepted" key="accepted" direction="vertical" type="board-column">
+                        <Droppable
+                            droppableId={BugBashItemsBoardColumnKeys.Accepted}
+                            key={BugBashItemsBoardColumnKeys.Accepted}
+                            direction="vertical"
+                            type="board-column"
+                        >
                             {(provided, snapshot) => (
                                 <div
                                     className={css("board-contents-cell", snapshot.isDraggingOver && "cell--hovered")}
@@ -123,6 +207,10 @@ export function BugBashItemsBoard(props: IBugBashItemProviderParams) {
                     </div>
                 </div>
             </div>
+            {rejectingBugBashItemId && <RejectReasonDialog onReject={onRejectDialogReject} onDismiss={onRejectDialogDismiss} />}
+            {unacceptingBugBashItem && (
+                <UnacceptDialog bugBashItem={unacceptingBugBashItem} onUnaccept={onUnacceptDialogUnaccept} onDismiss={onUnacceptDialogDismiss} />
+            )}
         </DragDropContext>
     );
 }
@@ -4,10 +4,11 @@ import * as React from "react";
 
 import { Checkbox } from "azure-devops-ui/Checkbox";
 import { ConditionalChildren } from "azure-devops-ui/ConditionalChildren";
+import { BugBashViewContext } from "BugBashPro/Hubs/BugBashView/Constants";
 import { useBugBashViewMode } from "BugBashPro/Hubs/BugBashView/Hooks/useBugBashViewMode";
 import { IBugBashItemProviderParams } from "BugBashPro/Hubs/BugBashView/Interfaces";
 import { BugBashViewMode } from "BugBashPro/Hubs/BugBashView/Redux/Contracts";
-import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
+import { canSeeBugBashItemSubmitters, isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
 import { useUserSettings } from "BugBashPro/Shared/Hooks/useUserSettings";
 import { getBugBashUserSettingsModule } from "BugBashPro/Shared/Redux/UserSettings/Module";
 import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
@@ -18,8 +19,11 @@ import { CoreFieldRefNames } from "Common/Constants";
 import { getDistinctNameFromIdentityRef, parseUniquefiedIdentityName } from "Common/Utilities/Identity";
 import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
 
+import { BugBashItemsTimeline } from "./BugBashItemsTimeline";
+
 function BugBashItemsChartsInternal(props: IBugBashItemProviderParams) {
     const { filteredBugBashItems, workItemsMap } = props;
+    const bugBash = React.useContext(BugBashViewContext);
     const [groupedByTeam, setGroupedByTeam] = React.useState(false);
     const { userSettingsMap } = useUserSettings();
     const { teamsMap } = useTeams();
@@ -100,54 +104,61 @@ function BugBashItemsChartsInternal(props: IBugBashItemProviderParams) {
 
     return (
         <div className="bugbash-charts flex-grow">
-            <ConditionalChildren renderChildren={viewMode === BugBashViewMode.All}>
-                <div className="chart-view-container">
-                    <div className="header-container">
-                        <div>{`Assigned to ${viewMode === BugBashViewMode.Accepted ? "area path" : "team"} (${filteredBugBashItems.length})`}</div>
+            <BugBashItemsTimeline bugBashItems={filteredBugBashItems} workItemsMap={workItemsMap} />
+            <div className="charts-row">
+                <ConditionalChildren renderChildren={viewMode === BugBashViewMode.All}>
+                    <div className="chart-view-container">
+                        <div className="header-container">
+                            <div>{`Assigned to ${viewMode === BugBashViewMode.Accepted ? "area path" : "team"} (${
+                                filteredBugBashItems.length
+                            })`}</div>
+                        </div>
+                        <div className="chart-view">
+                            <ResponsiveContainer width="95%">
+                                <BarChart
+                                    layout={"vertical"}
+                                    width={600}
+                                    height={600}
+                                    data={assignedToTeamData}
+                                    barSize={5}
+                                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                >
+                                    <XAxis type="number" allowDecimals={false} />
+                                    <YAxis type="category" dataKey="name" tick={<CustomAxisTick />} allowDecimals={false} />
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <Tooltip isAnimationActive={false} content={<CustomTooltip />} />
+                                    <Bar isAnimationActive={false} dataKey="value" fill="#8884d8" />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
                     </div>
-                    <div className="chart-view">
-                        <ResponsiveContainer width="95%">
-                            <BarChart
-                                layout={"vertical"}
-                                width={600}
-                                height={600}
-                                data={assignedToTeamData}
-                                barSize={5}
-                                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-                            >
-                                <XAxis type="number" allowDecimals={false} />
-                                <YAxis type="category" dataKey="name" tick={<CustomAxisTick />} allowDecimals={false} />
-                                <CartesianGrid strokeDasharray="3 3" />
-                                <Tooltip isAnimationActive={false} content={<CustomTooltip />} />
-                                <Bar isAnimationActive={false} dataKey="value" fill="#8884d8" />
-                            </BarChart>
-                        </ResponsiveContainer>
+                </ConditionalChildren>
+                <ConditionalChildren renderChildren={canSeeBugBashItemSubmitters(bugBash)}>
+                    <div className="chart-view-container">
+                        <div className="header-container">
+                            <div className="flex-grow">{`Created By (${filteredBugBashItems.length})`}</div>
+                            <Checkbox label="Group by team" checked={groupedByTeam} className="group-by-checkbox" onChange={toggleGroupByTeam} />
+                        </div>
+                        <div className="chart-view">
+                            <ResponsiveContainer width="95%">
+                                <BarChart
+                                    layout={"vertical"}
+                                    width={600}
+                                    height={600}
+                                    data={createdByData}
+                                    barSize={5}
+                                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                >
+                                    <XAxis type="number" allowDecimals={false} />
+                                    <YAxis type="category" dataKey="name" tick={<CustomAxisTick />} allowDecimals={false} />
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <Tooltip isAnimationActive={false} content={<CustomTooltip />} />
+                                    <Bar isAnimationActive={false} dataKey="value" fill="#8884d8" />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
                     </div>
-                </div>
-            </ConditionalChildren>
-            <div className="chart-view-container">
-                <div className="header-container">
-                    <div className="flex-grow">{`Created By (${filteredBugBashItems.length})`}</div>
-                    <Checkbox label="Group by team" checked={groupedByTeam} className="group-by-checkbox" onChange={toggleGroupByTeam} />
-                </div>
-                <div className="chart-view">
-                    <ResponsiveContainer width="95%">
-                        <BarChart
-                            layout={"vertical"}
-                            width={600}
-                            height={600}
-                            data={createdByData}
-                            barSize={5}
-                            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-                        >
-                            <XAxis type="number" allowDecimals={false} />
-                            <YAxis type="category" dataKey="name" tick={<CustomAxisTick />} allowDecimals={false} />
-                            <CartesianGrid strokeDasharray="3 3" />
-                            <Tooltip isAnimationActive={false} content={<CustomTooltip />} />
-                            <Bar isAnimationActive={false} dataKey="value" fill="#8884d8" />
-                        </BarChart>
-                    </ResponsiveContainer>
-                </div>
+                </ConditionalChildren>
             </div>
         </div>
     );
@@ -0,0 +1,55 @@
+import * as React from "react";
+
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { Checkbox } from "azure-devops-ui/Checkbox";
+import { BugBashViewContext } from "BugBashPro/Hubs/BugBashView/Constants";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { getTimelineData } from "./Helpers";
+
+interface IBugBashItemsTimelineProps {
+    bugBashItems: IBugBashItem[];
+    workItemsMap: { [id: number]: WorkItem } | undefined;
+}
+
+export function BugBashItemsTimeline(props: IBugBashItemsTimelineProps) {
+    const { bugBashItems, workItemsMap } = props;
+    const bugBash = React.useContext(BugBashViewContext);
+    const [cumulative, setCumulative] = React.useState(true);
+    const toggleCumulative = React.useCallback((_: unknown, checked: boolean) => {
+        setCumulative(checked);
+    }, []);
+
+    const data = React.useMemo(() => getTimelineData(bugBashItems, workItemsMap, bugBash.startTime, bugBash.endTime, cumulative), [
+        bugBashItems,
+        workItemsMap,
+        bugBash.startTime,
+        bugBash.endTime,
+        cumulative
+    ]);
+
+    return (
+        <div className="chart-view-container">
+            <div className="header-container">
+                <div className="flex-grow">{Resources.Timeline}</div>
+                <Checkbox label={Resources.Cumulative} checked={cumulative} className="group-by-checkbox" onChange={toggleCumulative} />
+            </div>
+            <div className="chart-view">
+                <ResponsiveContainer width="95%">
+                    <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                        <XAxis dataKey="name" tick={{ fontSize: 12, fill: "#767676" }} />
+                        <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: "#767676" }} />
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <Tooltip isAnimationActive={false} />
+                        <Legend />
+                        <Line isAnimationActive={false} type="monotone" dataKey="filed" name={Resources.Filed} stroke="#8884d8" dot={false} />
+                        <Line isAnimationActive={false} type="monotone" dataKey="accepted" name={Resources.Accepted} stroke="#107c10" dot={false} />
+                        <Line isAnimationActive={false} type="monotone" dataKey="rejected" name={Resources.Rejected} stroke="#da0a00" dot={false} />
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { isBugBashItemAccepted, isBugBashItemRejected } from "BugBashPro/Shared/Helpers";
+import { CoreFieldRefNames } from "Common/Constants";
+import * as addDays from "date-fns/add_days";
+import * as addHours from "date-fns/add_hours";
+import * as format from "date-fns/format";
+import * as startOfDay from "date-fns/start_of_day";
+import * as startOfHour from "date-fns/start_of_hour";
+
+export interface ITimelineDataPoint {
+    name: string;
+    filed: number;
+    accepted: number;
+    rejected: number;
+}
+
+type TimelineSeries = "filed" | "accepted" | "rejected";
+
+// bug bashes that last up to 3 days are shown per hour, longer ones per day
+const MaxHourlyTimelineBuckets = 72;
+
+export function getTimelineData(
+    bugBashItems: IBugBashItem[],
+    workItemsMap: { [id: number]: WorkItem } | undefined,
+    startTime: Date | undefined,
+    endTime: Date | undefined,
+    cumulative: boolean
+): ITimelineDataPoint[] {
+    const events: { date: Date; series: TimelineSeries }[] = [];
+    for (const bugBashItem of bugBashItems) {
+        events.push({ date: bugBashItem.createdDate, series: "filed" });
+
+        if (isBugBashItemAccepted(bugBashItem)) {
+            const { acceptedSnapshot } = bugBashItem;
+            // items accepted before the accept date was tracked fall back to the created date of their work item
+            const workItem = workItemsMap && workItemsMap[bugBashItem.workItemId!];
+            if (acceptedSnapshot && acceptedSnapshot.acceptedDate) {
+                events.push({ date: acceptedSnapshot.acceptedDate, series: "accepted" });
+            } else if (workItem && workItem.fields[CoreFieldRefNames.CreatedDate]) {
+                events.push({ date: new Date(workItem.fields[CoreFieldRefNames.CreatedDate]), series: "accepted" });
+            }
+        } else if (isBugBashItemRejected(bugBashItem)) {
+            // items rejected before the reject date was tracked fall back to their created date
+            events.push({ date: bugBashItem.rejectedDate || bugBashItem.createdDate, series: "rejected" });
+        }
+    }
+
+    const validEvents = events.filter((e) => e.date && !isNaN(e.date.getTime()));
+    if (validEvents.length === 0) {
+        return [];
+    }
+
+    // the chart covers the bug bash, events before or after it (e.g. items triaged once it is over) are counted at its edges
+    const now = Date.now();
+    const rangeStartTime = startTime ? startTime.getTime() : Math.min(...validEvents.map((e) => e.date.getTime()));
+    const rangeEndTime = Math.max(Math.min(endTime ? endTime.getTime() : now, now), rangeStartTime);
+    const rangeStart = new Date(rangeStartTime);
+    const rangeEnd = new Date(rangeEndTime);
+
+    const isHourly = (rangeEnd.getTime() - rangeStart.getTime()) / (60 * 60 * 1000) <= MaxHourlyTimelineBuckets;
+    const getBucketStart = (date: Date) => (isHourly ? startOfHour(date) : startOfDay(date));
+    const getNextBucketStart = (date: Date) => (isHourly ? addHours(date, 1) : addDays(date, 1));
+
+    const dataPoints: ITimelineDataPoint[] = [];
+    const bucketIndexMap: { [time: number]: number } = {};
+    for (let bucketStart = getBucketStart(rangeStart); bucketStart <= rangeEnd; bucketStart = getNextBucketStart(bucketStart)) {
+        bucketIndexMap[bucketStart.getTime()] = dataPoints.length;
+        dataPoints.push({ name: format(bucketStart, isHourly ? "M/D h aa" : "M/D/YYYY"), filed: 0, accepted: 0, rejected: 0 });
+    }
+
+    for (const event of validEvents) {
+        const eventTime = Math.min(Math.max(event.date.getTime(), rangeStartTime), rangeEndTime);
+        const index = bucketIndexMap[getBucketStart(new Date(eventTime)).getTime()];
+        if (index !== undefined) {
+            dataPoints[index][event.series]++;
+        }
+    }
+
+    if (cumulative) {
+        for (let i = 1; i < dataPoints.length; i++) {
+            dataPoints[i].filed += dataPoints[i - 1].filed;
+            dataPoints[i].accepted += dataPoints[i - 1].accepted;
+            dataPoints[i].rejected += dataPoints[i - 1].rejected;
+        }
+    }
+
+    return dataPoints;
+}
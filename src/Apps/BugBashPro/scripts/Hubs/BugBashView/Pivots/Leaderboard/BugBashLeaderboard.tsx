@@ -0,0 +1,124 @@
+import "./BugBashLeaderboard.scss";
+
+import * as React from "react";
+
+import { SimpleTableCell } from "azure-devops-ui/Table";
+import { Tooltip } from "azure-devops-ui/TooltipEx";
+import { BugBashViewContext } from "BugBashPro/Hubs/BugBashView/Constants";
+import { IBugBashItemProviderParams } from "BugBashPro/Hubs/BugBashView/Interfaces";
+import { Resources } from "BugBashPro/Resources";
+import { IBugBashScoring } from "BugBashPro/Shared/Contracts";
+import { canSeeBugBashItemSubmitters, getBugBashScoring } from "BugBashPro/Shared/Helpers";
+import { useUserSettings } from "BugBashPro/Shared/Hooks/useUserSettings";
+import { getBugBashUserSettingsModule } from "BugBashPro/Shared/Redux/UserSettings/Module";
+import { useTeams } from "Common/AzDev/Teams/Hooks/useTeams";
+import { getTeamModule } from "Common/AzDev/Teams/Redux/Module";
+import { useWorkItemTypeStateCategories } from "Common/AzDev/WorkItemTypeStates/Hooks/useWorkItemTypeStateCategories";
+import { getWorkItemTypeStateModule } from "Common/AzDev/WorkItemTypeStates/Redux/Module";
+import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
+import { Loading } from "Common/Components/Loading";
+import { ITableColumn, Table } from "Common/Components/Table";
+
+import { getTeamLeaderboard, getUserLeaderboard, ILeaderboardEntry } from "./Helpers";
+
+function BugBashLeaderboardInternal(props: IBugBashItemProviderParams) {
+    const { filteredBugBashItems, workItemsMap } = props;
+    const bugBash = React.useContext(BugBashViewContext);
+    const { userSettingsMap } = useUserSettings();
+    const { teamsMap } = useTeams();
+    const { stateCategories } = useWorkItemTypeStateCategories(bugBash.workItemType);
+    const scoring = getBugBashScoring(bugBash);
+
+    const userEntries = React.useMemo(
+        () => getUserLeaderboard(filteredBugBashItems, workItemsMap, stateCategories, scoring, bugBash.startTime, bugBash.endTime),
+        [filteredBugBashItems, workItemsMap, stateCategories, bugBash.scoring, bugBash.startTime, bugBash.endTime]
+    );
+    const teamEntries = React.useMemo(
+        () => (userSettingsMap && teamsMap ? getTeamLeaderboard(userEntries, filteredBugBashItems, userSettingsMap, teamsMap) : []),
+        [userEntries, userSettingsMap, teamsMap]
+    );
+    const userColumns = React.useMemo(() => getColumns(Resources.Leaderboard_Name, scoring.resolvedBonusPoints !== 0, false), [bugBash.scoring]);
+    const teamColumns = React.useMemo(() => getColumns(Resources.Leaderboard_Team, scoring.resolvedBonusPoints !== 0, true), [bugBash.scoring]);
+
+    if (!teamsMap || !userSettingsMap) {
+        return <Loading />;
+    }
+
+    return (
+        <div className="bugbash-leaderboard flex-column flex-grow">
+            <div className="leaderboard-scoring font-size-s">{getScoringText(scoring)}</div>
+            <div className="flex-row flex-grow">
+                {canSeeBugBashItemSubmitters(bugBash) && (
+                    <div className="leaderboard-container flex-column">
+                        <div className="leaderboard-header font-weight-semibold">{`${Resources.Leaderboard_Individuals} (${userEntries.length})`}</div>
+                        <Table<ILeaderboardEntry> className="leaderboard-table" columns={userColumns} items={userEntries} scrollable={true} />
+                    </div>
+                )}
+                <div className="leaderboard-container flex-column">
+                    <div className="leaderboard-header font-weight-semibold">{`${Resources.Leaderboard_Teams} (${teamEntries.length})`}</div>
+                    {teamEntries.length > 0 ? (
+                        <Table<ILeaderboardEntry> className="leaderboard-table" columns={teamColumns} items={teamEntries} scrollable={true} />
+                    ) : (
+                        <div className="leaderboard-empty">{Resources.Leaderboard_NoTeams}</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function getScoringText(scoring: IBugBashScoring): string {
+    const parts = [
+        `${Resources.Accepted}: ${scoring.acceptedPoints}`,
+        `${Resources.Pending}: ${scoring.pendingPoints}`,
+        `${Resources.Rejected}: ${scoring.rejectedPoints}`
+    ];
+    if (scoring.resolvedBonusPoints !== 0) {
+        parts.push(`${Resources.Resolved}: +${scoring.resolvedBonusPoints}`);
+    }
+    return `${Resources.Leaderboard_Scoring} ${parts.join(", ")}`;
+}
+
+function getColumns(nameColumnText: string, showResolved: boolean, showMembers: boolean): ITableColumn<ILeaderboardEntry>[] {
+    const columns: ITableColumn<ILeaderboardEntry>[] = [
+        getColumn("rank", "#", 50, (entry) => `${entry.rank}`),
+        getColumn("name", nameColumnText, -40, (entry) => entry.name)
+    ];
+    if (showMembers) {
+        columns.push(getColumn("members", Resources.Leaderboard_Members, 80, (entry) => `${entry.members || 0}`));
+    }
+    columns.push(
+        getColumn("accepted", Resources.Accepted, 80, (entry) => `${entry.accepted}`),
+        getColumn("pending", Resources.Pending, 80, (entry) => `${entry.pending}`),
+        getColumn("rejected", Resources.Rejected, 80, (entry) => `${entry.rejected}`)
+    );
+    if (showResolved) {
+        columns.push(getColumn("resolved", Resources.Resolved, 80, (entry) => `${entry.resolved}`));
+    }
+    columns.push(getColumn("score", Resources.Leaderboard_Score, 80, (entry) => `${entry.score}`));
+
+    return columns;
+}
+
+function getColumn(id: string, name: string, width: number, getText: (entry: ILeaderboardEntry) => string): ITableColumn<ILeaderboardEntry> {
+    return {
+        id: id,
+        name: name,
+        width: width,
+        renderCell: (_: unknown, columnIndex: number, tableColumn: ITableColumn<ILeaderboardEntry>, entry: ILeaderboardEntry) => (
+            <SimpleTableCell columnIndex={columnIndex} tableColumn={tableColumn} key={`col-${columnIndex}`}>
+                <Tooltip overflowOnly={true}>
+                    <span className="text-ellipsis">{getText(entry)}</span>
+                </Tooltip>
+            </SimpleTableCell>
+        )
+    };
+}
+
+export function BugBashLeaderboard(props: IBugBashItemProviderParams) {
+    return (
+        <DynamicModuleLoader modules={[getBugBashUserSettingsModule(), getTeamModule(), getWorkItemTypeStateModule()]}>
+            <BugBashLeaderboardInternal {...props} />
+        </DynamicModuleLoader>
+    );
+}
@@ -0,0 +1,137 @@
+import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
+import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { StateChangeDateFieldRefName } from "BugBashPro/Shared/Constants";
+import { IBugBashItem, IBugBashScoring, IUserSetting } from "BugBashPro/Shared/Contracts";
+import { isBugBashItemAccepted, isBugBashItemRejected } from "BugBashPro/Shared/Helpers";
+import { CoreFieldRefNames } from "Common/Constants";
+import { getDistinctNameFromIdentityRef } from "Common/Utilities/Identity";
+
+export interface ILeaderboardEntry {
+    key: string;
+    name: string;
+    rank: number;
+    score: number;
+    accepted: number;
+    pending: number;
+    rejected: number;
+    resolved: number;
+    members?: number;
+}
+
+const ResolvedStateCategories = ["resolved", "completed"];
+
+export function getUserLeaderboard(
+    bugBashItems: IBugBashItem[],
+    workItemsMap: { [id: number]: WorkItem } | undefined,
+    stateCategories: { [stateName: string]: string } | undefined,
+    scoring: IBugBashScoring,
+    startTime: Date | undefined,
+    endTime: Date | undefined
+): ILeaderboardEntry[] {
+    const entriesMap: { [key: string]: ILeaderboardEntry } = {};
+
+    for (const bugBashItem of bugBashItems) {
+        const key = getDistinctNameFromIdentityRef(bugBashItem.createdBy);
+        if (!entriesMap[key]) {
+            entriesMap[key] = getEmptyEntry(key, bugBashItem.createdBy.displayName);
+        }
+
+        const entry = entriesMap[key];
+        if (isBugBashItemAccepted(bugBashItem)) {
+            entry.accepted++;
+            entry.score += scoring.acceptedPoints;
+
+            const workItem = workItemsMap && workItemsMap[bugBashItem.workItemId!];
+            if (
+                workItem &&
+                isResolvedState(workItem.fields[CoreFieldRefNames.State], stateCategories) &&
+                isResolvedDuringBugBash(workItem, startTime, endTime)
+            ) {
+                entry.resolved++;
+                entry.score += scoring.resolvedBonusPoints;
+            }
+        } else if (isBugBashItemRejected(bugBashItem)) {
+            entry.rejected++;
+            entry.score += scoring.rejectedPoints;
+        } else {
+            entry.pending++;
+            entry.score += scoring.pendingPoints;
+        }
+    }
+
+    return rankEntries(Object.keys(entriesMap).map((key) => entriesMap[key]));
+}
+
+export function getTeamLeaderboard(
+    userEntries: ILeaderboardEntry[],
+    bugBashItems: IBugBashItem[],
+    userSettingsMap: { [key: string]: IUserSetting },
+    teamsMap: { [idOrName: string]: WebApiTeam }
+): ILeaderboardEntry[] {
+    // user entries are keyed by distinct name, the user settings by unique name
+    const uniqueNamesMap: { [key: string]: string } = {};
+    for (const bugBashItem of bugBashItems) {
+        uniqueNamesMap[getDistinctNameFromIdentityRef(bugBashItem.createdBy)] = bugBashItem.createdBy.uniqueName;
+    }
+
+    const entriesMap: { [key: string]: ILeaderboardEntry } = {};
+    for (const userEntry of userEntries) {
+        const uniqueName = uniqueNamesMap[userEntry.key];
+        const userSetting = uniqueName ? userSettingsMap[uniqueName.toLowerCase()] : undefined;
+        const team = userSetting && userSetting.associatedTeam ? teamsMap[userSetting.associatedTeam.toLowerCase()] : undefined;
+        if (!team) {
+            continue;
+        }
+
+        if (!entriesMap[team.id]) {
+            entriesMap[team.id] = { ...getEmptyEntry(team.id, team.name), members: 0 };
+        }
+
+        const entry = entriesMap[team.id];
+        entry.members!++;
+        entry.score += userEntry.score;
+        entry.accepted += userEntry.accepted;
+        entry.pending += userEntry.pending;
+        entry.rejected += userEntry.rejected;
+        entry.resolved += userEntry.resolved;
+    }
+
+    return rankEntries(Object.keys(entriesMap).map((key) => entriesMap[key]));
+}
+
+function isResolvedState(stateName: string | undefined, stateCategories: { [stateName: string]: string } | undefined): boolean {
+    const category = stateName && stateCategories ? stateCategories[stateName.toLowerCase()] : undefined;
+    return !!category && ResolvedStateCategories.indexOf(category.toLowerCase()) !== -1;
+}
+
+function getEmptyEntry(key: string, name: string): ILeaderboardEntry {
+    return { key, name, rank: 0, score: 0, accepted: 0, pending: 0, rejected: 0, resolved: 0 };
+}
+
+function rankEntries(entries: ILeaderboardEntry[]): ILeaderboardEntry[] {
+    entries.sort((e1, e2) => e2.score - e1.score || e2.accepted - e1.accepted || e1.name.localeCompare(e2.name));
+
+    // entries with the same score share a rank
+    entries.forEach((entry, index) => {
+        entry.rank = index > 0 && entries[index - 1].score === entry.score ? entries[index - 1].rank : index + 1;
+    });
+
+    return entries;
+}
+
+/**
+ * Work items accepted as existing can have been resolved before the bug bash started, and work items resolved after it finished do not earn a bonus either
+ */
+function isResolvedDuringBugBash(workItem: WorkItem, startTime: Date | undefined, endTime: Date | undefined): boolean {
+    if (!startTime && !endTime) {
+        return true;
+    }
+
+    const stateChangeDate = workItem.fields[StateChangeDateFieldRefName];
+    if (!stateChangeDate) {
+        return false;
+    }
+
+    const stateChangeTime = new Date(stateChangeDate).getTime();
+    return (!startTime || stateChangeTime >= startTime.getTime()) && (!endTime || stateChangeTime <= endTime.getTime());
+}
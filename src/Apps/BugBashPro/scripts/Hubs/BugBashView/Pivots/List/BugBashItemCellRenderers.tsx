@@ -6,6 +6,8 @@ import { ITableColumn, SimpleTableCell } from "azure-devops-ui/Table";
 import { Tooltip } from "azure-devops-ui/TooltipEx";
 import { ago } from "azure-devops-ui/Utilities/Date";
 import { BugBashItemFieldNames, BugBashItemKeyTypes, WorkItemFieldNames } from "BugBashPro/Hubs/BugBashView/Constants";
+import { Resources } from "BugBashPro/Resources";
+import { BugBashItemPriorities, BugBashItemSeverities } from "BugBashPro/Shared/Constants";
 import { IBugBashItem } from "BugBashPro/Shared/Contracts";
 import { isBugBashItemAccepted, isBugBashItemRejected, isWorkItemFieldName } from "BugBashPro/Shared/Helpers";
 import { getBugBashItemUrlAsync } from "BugBashPro/Shared/NavHelpers";
@@ -15,15 +17,22 @@ import { WorkItemStateView } from "Common/AzDev/WorkItemTypeStates/Components";
 import { AsyncLinkComponent } from "Common/Components/AsyncComponent/AsyncLinkComponent";
 import { IdentityView } from "Common/Components/IdentityView";
 import { CoreFieldRefNames } from "Common/Constants";
+import { toString } from "Common/Utilities/String";
 import * as format from "date-fns/format";
 
+import { BugBashItemNewPill } from "../../Components/BugBashItemNewPill";
+import { BugBashItemTriagePill } from "../../Components/BugBashItemTriagePill";
+import { BugBashItemVoteButton } from "../../Components/BugBashItemVoteButton";
+
 export function onRenderBugBashItemCell(
     columnIndex: number,
     tableColumn: ITableColumn<IBugBashItem>,
     key: BugBashItemFieldNames | WorkItemFieldNames,
     bugBashItem: IBugBashItem,
     acceptedWorkItem: WorkItem | undefined,
-    onTitleClick: (e: React.MouseEvent<HTMLAnchorElement> | React.KeyboardEvent<HTMLAnchorElement>) => void
+    onTitleClick: (e: React.MouseEvent<HTMLAnchorElement> | React.KeyboardEvent<HTMLAnchorElement>) => void,
+    isMentioned?: boolean,
+    isNew?: boolean
 ): JSX.Element {
     let value: any;
     let isLink = false;
@@ -35,7 +44,7 @@ export function onRenderBugBashItemCell(
         }
     } else if (key === BugBashItemFieldNames.Title && isAccepted && acceptedWorkItem) {
         value = acceptedWorkItem.fields[WorkItemFieldNames.Title];
-    } else if (key !== BugBashItemFieldNames.Status) {
+    } else if (key !== BugBashItemFieldNames.Status && key !== BugBashItemFieldNames.Votes) {
         value = bugBashItem[key as keyof IBugBashItem];
     }
 
@@ -66,6 +75,34 @@ export function onRenderBugBashItemCell(
                 />
             );
         }
+        if (isNew) {
+            innerElement = (
+                <>
+                    <BugBashItemNewPill className="new-item-pill flex-noshrink" />
+                    {innerElement}
+                </>
+            );
+        }
+        if (isMentioned) {
+            innerElement = (
+                <>
+                    <Tooltip text={Resources.MentionedInComment}>
+                        {Icon({ className: "mentioned-icon flex-noshrink communication-foreground", iconName: "CommentActive" })}
+                    </Tooltip>
+                    {innerElement}
+                </>
+            );
+        }
+    } else if (key === BugBashItemFieldNames.Severity || key === BugBashItemFieldNames.Priority) {
+        innerElement = value ? (
+            <BugBashItemTriagePill
+                prefix={key === BugBashItemFieldNames.Severity ? Resources.SeverityPrefix : Resources.PriorityPrefix}
+                value={value}
+                allowedValues={key === BugBashItemFieldNames.Severity ? BugBashItemSeverities : BugBashItemPriorities}
+            />
+        ) : null;
+    } else if (key === BugBashItemFieldNames.Votes) {
+        innerElement = <BugBashItemVoteButton bugBashItem={bugBashItem} />;
     } else if (key === WorkItemFieldNames.State && isAccepted) {
         innerElement = <WorkItemStateView stateName={value as string} workItemTypeName={acceptedWorkItem!.fields[WorkItemFieldNames.WorkItemType]} />;
     } else if (key === BugBashItemFieldNames.TeamId) {
@@ -106,6 +143,40 @@ export function onRenderBugBashItemCell(
     );
 }
 
+export function onRenderBugBashItemFieldCell(
+    columnIndex: number,
+    tableColumn: ITableColumn<IBugBashItem>,
+    fieldRefName: string,
+    bugBashItem: IBugBashItem,
+    acceptedWorkItem: WorkItem | undefined
+): JSX.Element {
+    // accepted items no longer carry the field values, they are read from the created work item instead
+    let value: any;
+    if (isBugBashItemAccepted(bugBashItem)) {
+        value = acceptedWorkItem && acceptedWorkItem.fields[fieldRefName];
+    } else {
+        value = bugBashItem.fieldValues && bugBashItem.fieldValues[fieldRefName];
+    }
+
+    let innerElement: JSX.Element | null = null;
+    if (value != null && typeof value === "object" && !(value instanceof Date)) {
+        innerElement = <IdentityView value={value} />;
+    } else {
+        const text = value == null ? "" : toString(value).replace(/<[^>]*>/g, " ");
+        innerElement = (
+            <Tooltip overflowOnly={true}>
+                <span className="text-ellipsis">{text}</span>
+            </Tooltip>
+        );
+    }
+
+    return (
+        <SimpleTableCell columnIndex={columnIndex} tableColumn={tableColumn} key={`col-${columnIndex}`}>
+            {innerElement}
+        </SimpleTableCell>
+    );
+}
+
 function getBugBashItemUrlPromise(bugBashId: string, bugBashItemId: string): () => Promise<string> {
     return async () => getBugBashItemUrlAsync(bugBashId, bugBashItemId);
 }
@@ -1,19 +1,24 @@
 import * as React from "react";
 
-import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { WorkItem, WorkItemField } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
 import { IMenuItem } from "azure-devops-ui/Components/Menu/Menu.Props";
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { ListSelection } from "azure-devops-ui/List";
 import { ColumnMore, ColumnSelect, ITableColumn as VSSUI_ITableColumn, ITableRow, SortOrder } from "azure-devops-ui/Table";
 import { BugBashViewActions } from "BugBashPro/Hubs/BugBashView//Redux/Actions";
 import { BugBashViewMode } from "BugBashPro/Hubs/BugBashView//Redux/Contracts";
-import { BugBashItemFieldNames, BugBashViewContext, WorkItemFieldNames } from "BugBashPro/Hubs/BugBashView/Constants";
+import { BugBashItemFieldNames, BugBashItemKeyTypes, BugBashViewContext, WorkItemFieldNames } from "BugBashPro/Hubs/BugBashView/Constants";
+import { useBugBashItemsSelection } from "BugBashPro/Hubs/BugBashView/Hooks/useBugBashItemsSelection";
 import { useBugBashItemsSort } from "BugBashPro/Hubs/BugBashView/Hooks/useBugBashItemsSort";
 import { useBugBashViewMode } from "BugBashPro/Hubs/BugBashView/Hooks/useBugBashViewMode";
+import { useNewBugBashItems } from "BugBashPro/Hubs/BugBashView/Hooks/useNewBugBashItems";
 import { IBugBashItemProviderParams } from "BugBashPro/Hubs/BugBashView/Interfaces";
 import { Resources } from "BugBashPro/Resources";
-import { IBugBashItem } from "BugBashPro/Shared/Contracts";
-import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
+import { BugBashItemUnacceptWorkItemAction, IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { canEditBugBashItem, canSeeBugBashItemSubmitters, isBugBashItemAccepted, isBugBashTriager } from "BugBashPro/Shared/Helpers";
+import { useMentions } from "BugBashPro/Shared/Hooks/useMentions";
 import { BugBashItemsActions } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
+import { useFields } from "Common/AzDev/Fields/Hooks/useFields";
 import { ITableColumn, Table } from "Common/Components/Table";
 import { ColumnSorting } from "Common/Components/Table/ColumnSorting";
 import { CoreFieldRefNames } from "Common/Constants";
@@ -22,11 +27,14 @@ import { openNewWindow } from "Common/ServiceWrappers/HostNavigationService";
 import { confirmAction } from "Common/ServiceWrappers/HostPageLayoutService";
 import { getQueryUrlAsync } from "Common/Utilities/UrlHelper";
 
-import { onRenderBugBashItemCell } from "./BugBashItemCellRenderers";
+import { UnacceptDialog } from "../../Components/UnacceptDialog";
+import { onRenderBugBashItemCell, onRenderBugBashItemFieldCell } from "./BugBashItemCellRenderers";
 
 const Actions = {
     editBugBashItemRequested: BugBashViewActions.editBugBashItemRequested,
-    deleteBugBashItem: BugBashItemsActions.bugBashItemDeleteRequested
+    deleteBugBashItem: BugBashItemsActions.bugBashItemDeleteRequested,
+    bulkDeleteRequested: BugBashViewActions.bulkDeleteRequested,
+    unacceptBugBashItem: BugBashItemsActions.bugBashItemUnacceptRequested
 };
 
 export function BugBashItemsTable(props: IBugBashItemProviderParams) {
@@ -34,11 +42,51 @@ export function BugBashItemsTable(props: IBugBashItemProviderParams) {
     const bugBash = React.useContext(BugBashViewContext);
     const bugBashId = bugBash.id as string;
 
-    const { editBugBashItemRequested, deleteBugBashItem } = useActionCreators(Actions);
+    const { editBugBashItemRequested, deleteBugBashItem, bulkDeleteRequested, unacceptBugBashItem } = useActionCreators(Actions);
+    const [unacceptingBugBashItem, setUnacceptingBugBashItem] = React.useState<IBugBashItem | undefined>(undefined);
     const { viewMode } = useBugBashViewMode();
     const { applySort, sortColumn, isSortedDescending } = useBugBashItemsSort();
+    const { selectedBugBashItemIds, setSelectedItems } = useBugBashItemsSelection();
     const selectionRef = React.useRef(new ListSelection(true));
     const columnSelect = React.useMemo(() => new ColumnSelect(), [viewMode]);
+    const bugBashItemsRef = React.useRef(filteredBugBashItems);
+    const isSyncingSelectionRef = React.useRef(false);
+    bugBashItemsRef.current = filteredBugBashItems;
+
+    React.useEffect(() => {
+        const selection = selectionRef.current;
+        const onSelectionChanged = () => {
+            if (!isSyncingSelectionRef.current) {
+                setSelectedItems(getSelectedBugBashItems(bugBashItemsRef.current, selection).map((b) => b.id!));
+            }
+        };
+
+        selection.subscribe(onSelectionChanged);
+        return () => {
+            selection.unsubscribe(onSelectionChanged);
+        };
+    }, []);
+
+    React.useEffect(() => {
+        // the selection in store is shared with the board and survives re-filtering and re-sorting, so push it back into the row selection
+        const selection = selectionRef.current;
+        const selectedIdsMap: { [id: string]: boolean } = {};
+        for (const id of selectedBugBashItemIds) {
+            selectedIdsMap[id.toLowerCase()] = true;
+        }
+
+        const currentSelectedItems = getSelectedBugBashItems(filteredBugBashItems, selection);
+        if (currentSelectedItems.length !== selectedBugBashItemIds.length || currentSelectedItems.some((b) => !selectedIdsMap[b.id!.toLowerCase()])) {
+            isSyncingSelectionRef.current = true;
+            selection.clear();
+            filteredBugBashItems.forEach((b, index) => {
+                if (selectedIdsMap[b.id!.toLowerCase()]) {
+                    selection.select(index, 1, true);
+                }
+            });
+            isSyncingSelectionRef.current = false;
+        }
+    }, [filteredBugBashItems, selectedBugBashItemIds]);
     const onEditBugBashItem = React.useCallback(
         (bugBashItemId: string) => {
             editBugBashItemRequested(bugBashId, bugBashItemId);
@@ -49,18 +97,22 @@ export function BugBashItemsTable(props: IBugBashItemProviderParams) {
     const columnMore = React.useMemo(
         () =>
             getContextMenuItems(
+                bugBash,
                 filteredBugBashItems,
-                viewMode === BugBashViewMode.Accepted ? selectionRef.current : undefined,
+                selectionRef.current,
                 onEditBugBashItem,
-                deleteBugBashItem
+                deleteBugBashItem,
+                bulkDeleteRequested,
+                setUnacceptingBugBashItem
             ),
-        [filteredBugBashItems, viewMode]
+        [bugBash, filteredBugBashItems, viewMode]
     );
 
     const sortingBehavior = React.useMemo(
         () =>
             new ColumnSorting<IBugBashItem>((proposedColumn: VSSUI_ITableColumn<IBugBashItem>, proposedSortOrder: SortOrder) => {
-                if (proposedColumn.id === BugBashItemFieldNames.Status) {
+                // custom item field columns are not sortable
+                if (proposedColumn.id === BugBashItemFieldNames.Status || !BugBashItemKeyTypes[proposedColumn.id]) {
                     return;
                 }
 
@@ -72,31 +124,74 @@ export function BugBashItemsTable(props: IBugBashItemProviderParams) {
         [viewMode]
     );
 
-    const columns = React.useMemo(() => {
-        const columns = getColumns(viewMode, workItemsMap, sortColumn, isSortedDescending, onEditBugBashItem);
-        if (viewMode === BugBashViewMode.Accepted) {
-            columns.unshift(columnSelect);
+    const { fieldsMap } = useFields();
+    const itemFields = React.useMemo(() => {
+        if (!fieldsMap || !bugBash.itemFields) {
+            return [];
         }
+        return bugBash.itemFields.map((f) => fieldsMap[f.toLowerCase()]).filter((f) => !!f);
+    }, [fieldsMap, bugBash.itemFields]);
+
+    const { mentionedBugBashItemIdsMap } = useMentions();
+    const { newBugBashItemIdsMap } = useNewBugBashItems();
+    const showSubmitters = canSeeBugBashItemSubmitters(bugBash);
+    const columns = React.useMemo(() => {
+        const columns = getColumns(
+            viewMode,
+            workItemsMap,
+            sortColumn,
+            isSortedDescending,
+            onEditBugBashItem,
+            itemFields,
+            mentionedBugBashItemIdsMap,
+            newBugBashItemIdsMap
+        ).filter((c) => showSubmitters || c.id !== BugBashItemFieldNames.CreatedBy);
+        columns.unshift(columnSelect);
         columns.push(columnMore);
         return columns;
-    }, [viewMode, workItemsMap, sortColumn, isSortedDescending]);
+    }, [
+        viewMode,
+        workItemsMap,
+        sortColumn,
+        isSortedDescending,
+        itemFields,
+        columnMore,
+        showSubmitters,
+        mentionedBugBashItemIdsMap,
+        newBugBashItemIdsMap
+    ]);
 
     const onRowActivate = React.useCallback((_: unknown, tableRow: ITableRow<IBugBashItem>) => {
         onEditBugBashItem(tableRow.data.id!);
     }, []);
+    const onUnacceptDialogUnaccept = React.useCallback(
+        (workItemAction: BugBashItemUnacceptWorkItemAction) => {
+            if (unacceptingBugBashItem) {
+                unacceptBugBashItem(unacceptingBugBashItem.id!, workItemAction);
+            }
+            setUnacceptingBugBashItem(undefined);
+        },
+        [unacceptingBugBashItem]
+    );
+    const onUnacceptDialogDismiss = React.useCallback(() => setUnacceptingBugBashItem(undefined), []);
 
     return (
-        <Table<IBugBashItem>
-            key={viewMode}
-            columns={columns}
-            items={filteredBugBashItems}
-            scrollable={true}
-            showLines={false}
-            behaviors={[sortingBehavior]}
-            singleClickActivation={viewMode === BugBashViewMode.Accepted ? false : true}
-            onActivate={onRowActivate}
-            selection={viewMode === BugBashViewMode.Accepted ? selectionRef.current : undefined}
-        />
+        <>
+            <Table<IBugBashItem>
+                key={viewMode}
+                columns={columns}
+                items={filteredBugBashItems}
+                scrollable={true}
+                showLines={false}
+                behaviors={[sortingBehavior]}
+                singleClickActivation={viewMode !== BugBashViewMode.Accepted}
+                onActivate={onRowActivate}
+                selection={selectionRef.current}
+            />
+            {unacceptingBugBashItem && (
+                <UnacceptDialog bugBashItem={unacceptingBugBashItem} onUnaccept={onUnacceptDialogUnaccept} onDismiss={onUnacceptDialogDismiss} />
+            )}
+        </>
     );
 }
 
@@ -105,7 +200,10 @@ export function getColumns(
     workItemsMap: { [workItemId: number]: WorkItem } | undefined,
     sortColumn: string | undefined,
     isSortedDescending: boolean | undefined,
-    onEditBugBashItem: (bugBashItemId: string) => void
+    onEditBugBashItem: (bugBashItemId: string) => void,
+    itemFields: WorkItemField[] = [],
+    mentionedBugBashItemIdsMap: { [bugBashItemId: string]: boolean } = {},
+    newBugBashItemIdsMap: { [bugBashItemId: string]: boolean } = {}
 ): ITableColumn<IBugBashItem>[] {
     let columns: ITableColumn<IBugBashItem>[];
     switch (viewMode) {
@@ -129,8 +227,11 @@ export function getColumns(
         }
     }
 
+    const firstItemFieldColumnIndex = columns.length;
+    columns.push(...itemFields.map(getItemFieldColumn));
+
     columns[columns.length - 1].resizable = false; // last column always non resizable
-    for (const column of columns) {
+    for (const column of columns.slice(0, firstItemFieldColumnIndex)) {
         if (column.id === sortColumn) {
             column.isSorted = true;
             column.isSortedDescending = isSortedDescending;
@@ -147,7 +248,21 @@ export function getColumns(
                         e.preventDefault();
                         onEditBugBashItem(bugBashItem.id!);
                     }
-                }
+                },
+                !!mentionedBugBashItemIdsMap[bugBashItem.id!.toLowerCase()],
+                !!newBugBashItemIdsMap[bugBashItem.id!.toLowerCase()]
+            );
+        };
+    }
+
+    for (const column of columns.slice(firstItemFieldColumnIndex)) {
+        column.renderCell = (_: unknown, columnIndex: number, tableColumn: ITableColumn<IBugBashItem>, bugBashItem: IBugBashItem) => {
+            return onRenderBugBashItemFieldCell(
+                columnIndex,
+                tableColumn,
+                column.id,
+                bugBashItem,
+                bugBashItem.workItemId && workItemsMap ? workItemsMap[bugBashItem.workItemId] : undefined
             );
         };
     }
@@ -156,42 +271,77 @@ export function getColumns(
 }
 
 function getContextMenuItems(
+    bugBash: IBugBash,
     bugBashItems: IBugBashItem[],
-    selection: ListSelection | undefined,
+    selection: ListSelection,
     onEditBugBashItem: (bugBashItemId: string) => void,
-    onDeleteBugBashItem: (bugBashId: string, bugBashItemId: string) => void
+    onDeleteBugBashItem: (bugBashId: string, bugBashItemId: string) => void,
+    onDeleteBugBashItems: (bugBashItemIds: string[]) => void,
+    onUnacceptBugBashItem: (bugBashItem: IBugBashItem) => void
 ): ColumnMore<IBugBashItem> {
     return new ColumnMore((bugBashItem: IBugBashItem) => {
         const menuItems: IMenuItem[] = [];
-        if (!selection || selection.selectedCount === 1) {
-            // if there is no selection (non-accepted view mode), or if only 1 row is selected in accepted view mode, show Edit menu item
-            menuItems.push({
-                id: "edit",
-                text: Resources.Edit,
-                onActivate: () => {
-                    onEditBugBashItem(bugBashItem.id!);
-                },
-                iconProps: { iconName: "Edit", className: "communication-foreground" }
-            });
-        } else if (selection && selection.selectedCount > 1) {
-            // only for accepted work items
+        const selectedBugBashItems = getSelectedBugBashItems(bugBashItems, selection);
+
+        // when the row is part of a multi row selection, the menu acts on all the selected rows
+        if (selectedBugBashItems.length > 1 && selectedBugBashItems.some((b) => equals(b.id!, bugBashItem.id!, true))) {
+            const selectedWorkItemIds = selectedBugBashItems.filter(isBugBashItemAccepted).map((b) => b.workItemId!);
+            const deletableBugBashItemIds = selectedBugBashItems
+                .filter((b) => !isBugBashItemAccepted(b) && canEditBugBashItem(bugBash, b))
+                .map((b) => b.id!);
+
+            if (selectedWorkItemIds.length > 0) {
+                menuItems.push({
+                    id: "openInQueries",
+                    text: Resources.OpenSelectedWorkItems,
+                    onActivate: () => {
+                        navigateToQueries(selectedWorkItemIds);
+                    },
+                    iconProps: { iconName: "ReplyMirrored", className: "communication-foreground" }
+                });
+            }
+            if (deletableBugBashItemIds.length > 0) {
+                menuItems.push({
+                    id: "deleteSelected",
+                    text: Resources.DeleteSelected,
+                    onActivate: () => {
+                        confirmAction(Resources.ConfirmDialogTitle, Resources.DeleteSelectedBugBashItemsConfirmation, (ok: boolean) => {
+                            if (ok) {
+                                onDeleteBugBashItems(deletableBugBashItemIds);
+                            }
+                        });
+                    },
+                    iconProps: { iconName: "Cancel", className: "error-text" }
+                });
+            }
+
+            return {
+                id: "sub-menu",
+                items: menuItems
+            };
+        }
+
+        menuItems.push({
+            id: "edit",
+            text: Resources.Edit,
+            onActivate: () => {
+                onEditBugBashItem(bugBashItem.id!);
+            },
+            iconProps: { iconName: "Edit", className: "communication-foreground" }
+        });
+
+        if (isBugBashItemAccepted(bugBashItem) && isBugBashTriager(bugBash)) {
             menuItems.push({
-                id: "openInQueries",
-                text: Resources.OpenSelectedWorkItems,
+                id: "unaccept",
+                text: Resources.Unaccept,
                 onActivate: () => {
-                    const selectedWorkItemIds: number[] = [];
-                    const ranges = selection.value;
-                    for (const range of ranges) {
-                        const { endIndex, beginIndex } = range;
-                        selectedWorkItemIds.push(...bugBashItems.slice(beginIndex, endIndex + 1).map((b) => b.workItemId!));
-                    }
-                    navigateToQueries(selectedWorkItemIds);
+                    onUnacceptBugBashItem(bugBashItem);
                 },
-                iconProps: { iconName: "ReplyMirrored", className: "communication-foreground" }
+                iconProps: { iconName: "Undo", className: "communication-foreground" }
             });
         }
 
-        if (!isBugBashItemAccepted(bugBashItem)) {
+        if (!isBugBashItemAccepted(bugBashItem) && canEditBugBashItem(bugBash, bugBashItem)) {
             menuItems.push({
                 id: "delete",
                 text: Resources.Delete,
@@ -212,13 +362,23 @@ function getContextMenuItems(
     });
 }
 
+function getSelectedBugBashItems(bugBashItems: IBugBashItem[], selection: ListSelection): IBugBashItem[] {
+    const selectedBugBashItems: IBugBashItem[] = [];
+    for (const range of selection.value) {
+        const { endIndex, beginIndex } = range;
+        selectedBugBashItems.push(...bugBashItems.slice(beginIndex, endIndex + 1));
+    }
+    return selectedBugBashItems;
+}
+
 function getAllColumns(): ITableColumn<IBugBashItem>[] {
     return [
         getColumn(BugBashItemFieldNames.Status, "", [40, 40, 40]),
         getColumn(BugBashItemFieldNames.Title, "Title", [-40, 300, 1500]),
         getColumn(BugBashItemFieldNames.TeamId, "Assigned to team", [-20, 150, 500]),
         getColumn(BugBashItemFieldNames.CreatedBy, "Created By", [-20, 150, 500]),
-        getColumn(BugBashItemFieldNames.CreatedDate, "Created Date", [-20, 150, 500])
+        getColumn(BugBashItemFieldNames.CreatedDate, "Created Date", [-20, 150, 500]),
+        getColumn(BugBashItemFieldNames.Votes, "Votes", [80, 80, 120])
     ];
 }
 
@@ -249,7 +409,10 @@ function getPendingColumns(): ITableColumn<IBugBashItem>[] {
         getColumn(BugBashItemFieldNames.Title, "Title", [-40, 300, 1500]),
         getColumn(BugBashItemFieldNames.TeamId, "Assigned to team", [-20, 150, 500]),
         getColumn(BugBashItemFieldNames.CreatedBy, "Created By", [-20, 150, 500]),
-        getColumn(BugBashItemFieldNames.CreatedDate, "Created Date", [-20, 150, 500])
+        getColumn(BugBashItemFieldNames.CreatedDate, "Created Date", [-20, 150, 500]),
+        getColumn(BugBashItemFieldNames.Severity, "Severity", [120, 100, 200]),
+        getColumn(BugBashItemFieldNames.Priority, "Priority", [80, 80, 120]),
+        getColumn(BugBashItemFieldNames.Votes, "Votes", [80, 80, 120])
     ];
 }
 
@@ -265,6 +428,17 @@ function getColumn(key: BugBashItemFieldNames | WorkItemFieldNames, name: string
     } as ITableColumn<IBugBashItem>;
 }
 
+function getItemFieldColumn(field: WorkItemField): ITableColumn<IBugBashItem> {
+    return {
+        id: field.referenceName,
+        name: field.name,
+        minWidth: 100,
+        maxWidth: 300,
+        width: -15,
+        resizable: true
+    } as ITableColumn<IBugBashItem>;
+}
+
 async function navigateToQueries(workItemIds: number[]) {
     const queryUrl = await getQueryUrlAsync(workItemIds, [
         CoreFieldRefNames.Id,
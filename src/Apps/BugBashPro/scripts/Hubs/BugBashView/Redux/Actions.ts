@@ -1,8 +1,9 @@
 import { IFilterState } from "azure-devops-ui/Utilities/Filter";
-import { IBugBashItem, ISortState } from "BugBashPro/Shared/Contracts";
+import { IBugBash, IBugBashItem, ISortState } from "BugBashPro/Shared/Contracts";
 import { ActionsUnion, createAction } from "Common/Redux";
 
-import { BugBashItemsFilterData, BugBashViewMode } from "./Contracts";
+import { BugBashItemsBoardColumnKeys } from "../Constants";
+import { BugBashItemsBulkOperation, BugBashItemsFilterData, BugBashViewMode, IBulkOperationItemResult } from "./Contracts";
 
 export const BugBashViewActions = {
     initialize: (bugBashId: string, initialBugBashItemId: string | undefined) =>
@@ -19,7 +20,28 @@ export const BugBashViewActions = {
         createAction(BugBashViewActionTypes.EditBugBashItemRequested, { bugBashId, bugBashItemId }),
 
     dismissBugBashItemPortalRequested: (bugBashId: string, bugBashItemId: string, workItemId: number | undefined) =>
-        createAction(BugBashViewActionTypes.DismissBugBashItemPortalRequested, { bugBashId, bugBashItemId, workItemId })
+        createAction(BugBashViewActionTypes.DismissBugBashItemPortalRequested, { bugBashId, bugBashItemId, workItemId }),
+
+    bugBashCloseRequested: (bugBash: IBugBash, closed: boolean) => createAction(BugBashViewActionTypes.BugBashCloseRequested, { bugBash, closed }),
+
+    bugBashItemMoveRequested: (bugBash: IBugBash, bugBashItemId: string, targetColumn: BugBashItemsBoardColumnKeys, rejectReason?: string) =>
+        createAction(BugBashViewActionTypes.BugBashItemMoveRequested, { bugBash, bugBashItemId, targetColumn, rejectReason }),
+
+    setSelectedItems: (bugBashItemIds: string[]) => createAction(BugBashViewActionTypes.SetSelectedItems, bugBashItemIds),
+    toggleItemSelection: (bugBashItemId: string) => createAction(BugBashViewActionTypes.ToggleItemSelection, bugBashItemId),
+
+    bulkAcceptRequested: (bugBash: IBugBash, bugBashItemIds: string[]) =>
+        createAction(BugBashViewActionTypes.BulkAcceptRequested, { bugBash, bugBashItemIds }),
+    bulkRejectRequested: (bugBashItemIds: string[], rejectReason: string) =>
+        createAction(BugBashViewActionTypes.BulkRejectRequested, { bugBashItemIds, rejectReason }),
+    bulkReassignRequested: (bugBashItemIds: string[], teamId: string) =>
+        createAction(BugBashViewActionTypes.BulkReassignRequested, { bugBashItemIds, teamId }),
+    bulkDeleteRequested: (bugBashItemIds: string[]) => createAction(BugBashViewActionTypes.BulkDeleteRequested, bugBashItemIds),
+    beginBulkOperation: (operation: BugBashItemsBulkOperation, total: number) =>
+        createAction(BugBashViewActionTypes.BeginBulkOperation, { operation, total }),
+    bulkOperationItemCompleted: (result: IBulkOperationItemResult) => createAction(BugBashViewActionTypes.BulkOperationItemCompleted, result),
+    bulkOperationCompleted: () => createAction(BugBashViewActionTypes.BulkOperationCompleted),
+    dismissBulkOperationResults: () => createAction(BugBashViewActionTypes.DismissBulkOperationResults)
 };
 
 export const enum BugBashViewActionTypes {
@@ -31,7 +53,19 @@ export const enum BugBashViewActionTypes {
     ApplySort = "BugBashView/ApplySort",
     ClearSortAndFilter = "BugBashView/ClearSortAndFilter",
     EditBugBashItemRequested = "BugBashView/EditBugBashItemRequested",
-    DismissBugBashItemPortalRequested = "BugBashView/DismissBugBashItemPortalRequested"
+    DismissBugBashItemPortalRequested = "BugBashView/DismissBugBashItemPortalRequested",
+    BugBashCloseRequested = "BugBashView/BugBashCloseRequested",
+    BugBashItemMoveRequested = "BugBashView/BugBashItemMoveRequested",
+    SetSelectedItems = "BugBashView/SetSelectedItems",
+    ToggleItemSelection = "BugBashView/ToggleItemSelection",
+    BulkAcceptRequested = "BugBashView/BulkAcceptRequested",
+    BulkRejectRequested = "BugBashView/BulkRejectRequested",
+    BulkReassignRequested = "BugBashView/BulkReassignRequested",
+    BulkDeleteRequested = "BugBashView/BulkDeleteRequested",
+    BeginBulkOperation = "BugBashView/BeginBulkOperation",
+    BulkOperationItemCompleted = "BugBashView/BulkOperationItemCompleted",
+    BulkOperationCompleted = "BugBashView/BulkOperationCompleted",
+    DismissBulkOperationResults = "BugBashView/DismissBulkOperationResults"
 }
 
 export type BugBashViewActions = ActionsUnion<typeof BugBashViewActions>;
@@ -6,11 +6,38 @@ export interface IBugBashViewAwareState {
 }
 
 export interface IBugBashViewState {
+    bugBashId?: string;
     viewMode: BugBashViewMode;
     filteredBugBashItems?: IBugBashItem[];
     bugBashItemsFilterData?: BugBashItemsFilterData;
     filterState?: IFilterState;
     sortState?: ISortState;
+    selectedBugBashItemIds: string[];
+    bulkOperation?: IBulkOperationState;
+    /**
+     * Items submitted by others that arrived through the live refresh and have not been opened yet
+     */
+    newBugBashItemIds: string[];
+}
+
+export interface IBulkOperationState {
+    operation: BugBashItemsBulkOperation;
+    total: number;
+    inProgress: boolean;
+    results: IBulkOperationItemResult[];
+}
+
+export interface IBulkOperationItemResult {
+    bugBashItemId: string;
+    title: string;
+    error?: string;
+}
+
+export const enum BugBashItemsBulkOperation {
+    Accept = "Accept",
+    Reject = "Reject",
+    Reassign = "Reassign",
+    Delete = "Delete"
 }
 
 export const enum BugBashViewMode {
@@ -21,7 +48,9 @@ export const enum BugBashViewMode {
 }
 
 export const defaultBugBashViewState: IBugBashViewState = {
-    viewMode: BugBashViewMode.All
+    viewMode: BugBashViewMode.All,
+    selectedBugBashItemIds: [],
+    newBugBashItemIds: []
 };
 
 export type BugBashItemsFilterData = { [key: string]: { [subkey: string]: number } } | undefined;
@@ -1,3 +1,4 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { BugBashItemsActions, BugBashItemsActionTypes } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
 import { readLocalSetting, writeLocalSetting } from "Common/Utilities/LocalStorageService";
 import { produce } from "immer";
@@ -9,11 +10,15 @@ export function bugBashViewReducer(state: IBugBashViewState | undefined, action:
     return produce(state || defaultBugBashViewState, (draft) => {
         switch (action.type) {
             case BugBashViewActionTypes.Initialize: {
+                draft.bugBashId = action.payload.bugBashId;
                 draft.viewMode = readLocalSetting("bugbashviewactionkey", BugBashViewMode.All) as BugBashViewMode;
                 draft.filteredBugBashItems = undefined;
                 draft.bugBashItemsFilterData = undefined;
                 draft.filterState = undefined;
                 draft.sortState = undefined;
+                draft.selectedBugBashItemIds = [];
+                draft.bulkOperation = undefined;
+                draft.newBugBashItemIds = [];
                 break;
             }
 
@@ -25,7 +30,59 @@ export function bugBashViewReducer(state: IBugBashViewState | undefined, action:
             }
 
             case BugBashViewActionTypes.SetFilteredItems: {
-                draft.filteredBugBashItems = action.payload;
+                const filteredBugBashItems = action.payload;
+                draft.filteredBugBashItems = filteredBugBashItems;
+
+                // drop selected items which are no longer visible
+                draft.selectedBugBashItemIds = draft.selectedBugBashItemIds.filter(
+                    (id) => !!filteredBugBashItems && filteredBugBashItems.some((b) => equals(b.id!, id, true))
+                );
+                break;
+            }
+
+            case BugBashViewActionTypes.SetSelectedItems: {
+                draft.selectedBugBashItemIds = action.payload;
+                break;
+            }
+
+            case BugBashViewActionTypes.ToggleItemSelection: {
+                const bugBashItemId = action.payload;
+                const index = draft.selectedBugBashItemIds.findIndex((id) => equals(id, bugBashItemId, true));
+                if (index === -1) {
+                    draft.selectedBugBashItemIds.push(bugBashItemId);
+                } else {
+                    draft.selectedBugBashItemIds.splice(index, 1);
+                }
+                break;
+            }
+
+            case BugBashViewActionTypes.BeginBulkOperation: {
+                const { operation, total } = action.payload;
+                draft.bulkOperation = {
+                    operation,
+                    total,
+                    inProgress: true,
+                    results: []
+                };
+                break;
+            }
+
+            case BugBashViewActionTypes.BulkOperationItemCompleted: {
+                if (draft.bulkOperation) {
+                    draft.bulkOperation.results.push(action.payload);
+                }
+                break;
+            }
+
+            case BugBashViewActionTypes.BulkOperationCompleted: {
+                if (draft.bulkOperation) {
+                    draft.bulkOperation.inProgress = false;
+                }
+                break;
+            }
+
+            case BugBashViewActionTypes.DismissBulkOperationResults: {
+                draft.bulkOperation = undefined;
                 break;
             }
 
@@ -50,9 +107,26 @@ export function bugBashViewReducer(state: IBugBashViewState | undefined, action:
                 break;
             }
 
+            case BugBashViewActionTypes.EditBugBashItemRequested: {
+                const { bugBashItemId } = action.payload;
+                draft.newBugBashItemIds = draft.newBugBashItemIds.filter((id) => !equals(id, bugBashItemId, true));
+                break;
+            }
+
             case BugBashItemsActionTypes.BeginLoadBugBashItems: {
                 draft.filteredBugBashItems = undefined;
                 draft.bugBashItemsFilterData = undefined;
+                draft.selectedBugBashItemIds = [];
+                draft.newBugBashItemIds = [];
+                break;
+            }
+
+            case BugBashItemsActionTypes.BugBashItemsRefreshed: {
+                const { newBugBashItemIds, removedBugBashItemIds } = action.payload;
+                draft.newBugBashItemIds = [
+                    ...draft.newBugBashItemIds.filter((id) => !removedBugBashItemIds.some((removedId) => equals(id, removedId, true))),
+                    ...newBugBashItemIds
+                ];
             }
         }
     });
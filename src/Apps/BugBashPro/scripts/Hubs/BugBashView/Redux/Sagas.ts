@@ -1,37 +1,68 @@
 import { WebApiTeam } from "azure-devops-extension-api/Core/Core";
 import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { IFilterState } from "azure-devops-ui/Utilities/Filter";
 import { BugBashPortalActions } from "BugBashPro/Portals/BugBashPortal/Redux/Actions";
 import { Resources } from "BugBashPro/Resources";
-import { IBugBashItem, ISortState } from "BugBashPro/Shared/Contracts";
-import { isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
+import { IBugBash, IBugBashItem, ISortState } from "BugBashPro/Shared/Contracts";
+import { getVisibleBugBashItems, isBugBashItemAccepted } from "BugBashPro/Shared/Helpers";
 import { BugBashesActions, BugBashesActionTypes } from "BugBashPro/Shared/Redux/BugBashes/Actions";
+import { getBugBash } from "BugBashPro/Shared/Redux/BugBashes/Selectors";
 import { BugBashItemsActions, BugBashItemsActionTypes } from "BugBashPro/Shared/Redux/BugBashItems/Actions";
-import { getAllBugBashItems, getBugBashItem, getResolvedWorkItemsMap } from "BugBashPro/Shared/Redux/BugBashItems/Selectors";
+import {
+    getAllBugBashItems,
+    getBugBashItem,
+    getBugBashItemStatus,
+    getQueuedBugBashItems,
+    getResolvedWorkItemsMap
+} from "BugBashPro/Shared/Redux/BugBashItems/Selectors";
 import { getTeamsMap } from "Common/AzDev/Teams/Redux/Selectors";
+import { LoadStatus } from "Common/Contracts";
 import { KeyValuePairActions } from "Common/Notifications/Redux/Actions";
 import { ActionsOfType, RT } from "Common/Redux";
 import { addToast } from "Common/ServiceWrappers/GlobalMessageService";
 import { openNewWindow, reloadPage } from "Common/ServiceWrappers/HostNavigationService";
 import { openWorkItem } from "Common/ServiceWrappers/WorkItemNavigationService";
+import { getCurrentUser } from "Common/Utilities/Identity";
 import { getWorkItemUrlAsync } from "Common/Utilities/UrlHelper";
-import { Channel, channel, SagaIterator } from "redux-saga";
-import { all, call, delay, put, race, select, take, takeEvery } from "redux-saga/effects";
+import { buffers, Channel, channel, SagaIterator } from "redux-saga";
+import { all, call, delay, put, race, select, take, takeEvery, takeLeading } from "redux-saga/effects";
 
-import { BugBashViewPageErrorKey } from "../Constants";
+import {
+    BugBashItemsBoardColumnKeys,
+    BugBashItemsRefreshInterval,
+    BugBashViewPageErrorKey,
+    BulkOperationConcurrency,
+    QueuedBugBashItemsSyncInterval
+} from "../Constants";
 import { getBugBashItemsFilterData, getFilteredBugBashItems } from "../Helpers";
 import { BugBashViewActions, BugBashViewActionTypes } from "./Actions";
-import { BugBashViewMode } from "./Contracts";
-import { getBugBashItemsFilterState, getBugBashItemsSortState, getBugBashViewMode } from "./Selectors";
+import { BugBashItemsBulkOperation, BugBashViewMode } from "./Contracts";
+import {
+    getBugBashItemsFilterState,
+    getBugBashItemsSortState,
+    getBugBashViewBugBashId,
+    getBugBashViewMode,
+    getBulkOperationState,
+    getFilteredBugBashItems as getFilteredBugBashItemsFromState
+} from "./Selectors";
 
 export function* bugBashViewSaga(): SagaIterator {
     yield takeEvery(BugBashViewActionTypes.Initialize, initializeView);
+    yield takeLeading(BugBashViewActionTypes.Initialize, pollBugBashItems);
+    yield takeLeading(BugBashViewActionTypes.Initialize, syncQueuedBugBashItems);
     yield takeEvery(BugBashViewActionTypes.SetViewMode, setViewMode);
     yield takeEvery(BugBashViewActionTypes.ApplyFilter, applyFilter);
     yield takeEvery(BugBashViewActionTypes.ApplySort, applySort);
     yield takeEvery(BugBashViewActionTypes.ClearSortAndFilter, clearSortAndFilter);
     yield takeEvery(BugBashViewActionTypes.EditBugBashItemRequested, editBugBashItemRequested);
     yield takeEvery(BugBashViewActionTypes.DismissBugBashItemPortalRequested, onBugBashItemPortalDismissed);
+    yield takeEvery(BugBashViewActionTypes.BugBashItemMoveRequested, bugBashItemMoveRequested);
+    yield takeLeading(BugBashViewActionTypes.BugBashCloseRequested, bugBashCloseRequested);
+    yield takeLeading(BugBashViewActionTypes.BulkAcceptRequested, bulkAcceptRequested);
+    yield takeLeading(BugBashViewActionTypes.BulkRejectRequested, bulkRejectRequested);
+    yield takeLeading(BugBashViewActionTypes.BulkReassignRequested, bulkReassignRequested);
+    yield takeLeading(BugBashViewActionTypes.BulkDeleteRequested, bulkDeleteRequested);
 
     yield takeEvery(BugBashesActionTypes.BugBashLoaded, bugBashLoaded);
     yield takeEvery(BugBashesActionTypes.BugBashUpdated, bugBashUpdated);
@@ -44,7 +75,8 @@ export function* bugBashViewSaga(): SagaIterator {
             BugBashItemsActionTypes.BugBashItemLoaded,
             BugBashItemsActionTypes.BugBashItemUpdated,
             BugBashItemsActionTypes.BugBashItemCreated,
-            BugBashItemsActionTypes.BugBashItemDeleted
+            BugBashItemsActionTypes.BugBashItemDeleted,
+            BugBashItemsActionTypes.BugBashItemsRefreshed
         ],
         bugBashItemLoadedOrCreatedOrUpdatedOrDeleted
     );
@@ -65,6 +97,38 @@ function* initializeView(action: ActionsOfType<BugBashViewActions, BugBashViewAc
     }
 }
 
+/**
+ * Keeps the items fresh during a live bug bash, changes are merged into the store so selection and open editors are kept
+ */
+function* pollBugBashItems(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.Initialize>): SagaIterator {
+    const { bugBashId } = action.payload;
+    for (;;) {
+        yield delay(BugBashItemsRefreshInterval);
+
+        // dont poll while the page is in a background tab
+        if (!document.hidden) {
+            yield put(BugBashItemsActions.bugBashItemsRefreshRequested(bugBashId));
+        }
+    }
+}
+
+/**
+ * Submissions which failed to be created are retried until the queue is empty
+ */
+function* syncQueuedBugBashItems(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.Initialize>): SagaIterator {
+    const { bugBashId } = action.payload;
+    yield put(BugBashItemsActions.queuedBugBashItemsLoadRequested(bugBashId));
+
+    for (;;) {
+        yield delay(QueuedBugBashItemsSyncInterval);
+
+        const queuedBugBashItems: RT<typeof getQueuedBugBashItems> = yield select(getQueuedBugBashItems);
+        if (queuedBugBashItems.some((q) => !q.failed) && !document.hidden && navigator.onLine) {
+            yield put(BugBashItemsActions.queuedBugBashItemsSyncRequested(bugBashId));
+        }
+    }
+}
+
 function* bugBashLoaded(action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashLoaded>) {
     const bugBash = action.payload;
 
@@ -80,6 +144,22 @@ function* bugBashUpdated() {
     yield call(reloadPage);
 }
 
+function* bugBashCloseRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.BugBashCloseRequested>): SagaIterator {
+    const { bugBash, closed } = action.payload;
+    yield put(BugBashesActions.bugBashUpdateRequested({ ...bugBash, closed }));
+
+    // the page reloads once the bug bash is updated, so only failures need to be handled here
+    const updateAction: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashUpdated | BugBashesActionTypes.BugBashUpdateFailed> = yield take(
+        (action: ActionsOfType<BugBashesActions, BugBashesActionTypes.BugBashUpdated | BugBashesActionTypes.BugBashUpdateFailed>): boolean =>
+            (action.type === BugBashesActionTypes.BugBashUpdated && equals(action.payload.id!, bugBash.id!, true)) ||
+            (action.type === BugBashesActionTypes.BugBashUpdateFailed && equals(action.payload.bugBash.id!, bugBash.id!, true))
+    );
+
+    if (updateAction.type === BugBashesActionTypes.BugBashUpdateFailed) {
+        yield put(KeyValuePairActions.pushEntry(BugBashViewPageErrorKey, updateAction.payload.error));
+    }
+}
+
 function* setViewMode(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.SetViewMode>): SagaIterator {
     const viewMode = action.payload;
     const [allBugBashItems, resolvedWorkItemsMap, teamsMap, filterState, sortState]: [
@@ -159,7 +239,8 @@ function* bugBashItemsLoaded(action: ActionsOfType<BugBashItemsActions, BugBashI
     ] = yield all([select(getBugBashItemsFilterState), select(getBugBashItemsSortState), select(getTeamsMap), select(getBugBashViewMode)]);
     yield call(refreshFilteredItems, bugBashItems, resolvedWorkItems, teamsMap, viewMode, filterState, sortState);
 
-    const filterData = getBugBashItemsFilterData(bugBashItems, resolvedWorkItems);
+    const bugBash: IBugBash | undefined = yield call(selectViewBugBash);
+    const filterData = getBugBashItemsFilterData(bugBash, bugBashItems, resolvedWorkItems);
     yield put(BugBashViewActions.setFilterData(filterData));
 }
 
@@ -182,15 +263,21 @@ function* bugBashItemLoadedOrCreatedOrUpdatedOrDeleted(): SagaIterator {
 
     yield call(refreshFilteredItems, allBugBashItems, resolvedWorkItemsMap, teamsMap, viewMode, filterState, sortState);
 
-    const filterData = getBugBashItemsFilterData(allBugBashItems, resolvedWorkItemsMap);
+    const bugBash: IBugBash | undefined = yield call(selectViewBugBash);
+    const filterData = getBugBashItemsFilterData(bugBash, allBugBashItems, resolvedWorkItemsMap);
     yield put(BugBashViewActions.setFilterData(filterData));
 }
 
 function* editBugBashItemRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.EditBugBashItemRequested>) {
     const { bugBashId, bugBashItemId } = action.payload;
-    const bugBashItem: RT<typeof getBugBashItem> = yield select(getBugBashItem, bugBashItemId);
+    const [bugBash, bugBashItem]: [RT<typeof getBugBash>, RT<typeof getBugBashItem>] = yield all([
+        select(getBugBash, bugBashId),
+        select(getBugBashItem, bugBashItemId)
+    ]);
 
-    if (bugBashItem && isBugBashItemAccepted(bugBashItem)) {
+    if (bugBash && bugBashItem && getVisibleBugBashItems(bugBash, [bugBashItem]).length === 0) {
+        yield put(KeyValuePairActions.pushEntry(BugBashViewPageErrorKey, Resources.BugBashItemViewNotAllowed));
+    } else if (bugBashItem && isBugBashItemAccepted(bugBashItem)) {
         const workItem: RT<typeof openWorkItem> = yield call(openWorkItem, bugBashItem.workItemId!);
         yield put(BugBashItemsActions.bugBashItemUpdated(bugBashItem, workItem));
     } else {
@@ -239,6 +326,189 @@ function* onBugBashItemPortalDismissed(action: ActionsOfType<BugBashViewActions,
     }
 }
 
+function* bugBashItemMoveRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.BugBashItemMoveRequested>): SagaIterator {
+    const { bugBash, bugBashItemId, targetColumn, rejectReason } = action.payload;
+    const [bugBashItem, status]: [RT<typeof getBugBashItem>, RT<typeof getBugBashItemStatus>] = yield all([
+        select(getBugBashItem, bugBashItemId),
+        select(getBugBashItemStatus, bugBashItemId)
+    ]);
+
+    // accepted items can't be moved back and items which are being saved can't be moved at all
+    if (!bugBashItem || isBugBashItemAccepted(bugBashItem) || (status !== LoadStatus.Ready && status !== LoadStatus.UpdateFailed)) {
+        return;
+    }
+
+    if (targetColumn === BugBashItemsBoardColumnKeys.Accepted) {
+        yield put(BugBashItemsActions.bugBashItemAcceptRequested(bugBash, bugBashItemId, false));
+        return;
+    }
+
+    const updatedBugBashItem: IBugBashItem =
+        targetColumn === BugBashItemsBoardColumnKeys.Rejected
+            ? { ...bugBashItem, rejected: true, rejectReason: rejectReason, rejectedBy: getCurrentUser(), rejectedDate: new Date() }
+            : { ...bugBashItem, rejected: false, rejectReason: "", rejectedBy: undefined, rejectedDate: undefined };
+
+    // move the card right away and roll it back if the save fails
+    const filteredBugBashItems: RT<typeof getFilteredBugBashItemsFromState> = yield select(getFilteredBugBashItemsFromState);
+    if (filteredBugBashItems) {
+        yield put(
+            BugBashViewActions.setFilteredItems(filteredBugBashItems.map((b) => (equals(b.id!, bugBashItemId, true) ? updatedBugBashItem : b)))
+        );
+    }
+
+    yield put(BugBashItemsActions.bugBashItemUpdateRequested(updatedBugBashItem));
+    const error: string | undefined = yield call(waitForBugBashItemUpdate, bugBashItemId);
+
+    if (error) {
+        yield put(KeyValuePairActions.pushEntry(BugBashViewPageErrorKey, error));
+        yield call(bugBashItemLoadedOrCreatedOrUpdatedOrDeleted);
+    }
+}
+
+function* bulkAcceptRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.BulkAcceptRequested>): SagaIterator {
+    const { bugBash, bugBashItemIds } = action.payload;
+    yield call(runBulkOperation, BugBashItemsBulkOperation.Accept, bugBashItemIds, function* (bugBashItem: IBugBashItem) {
+        yield put(BugBashItemsActions.bugBashItemAcceptRequested(bugBash, bugBashItem.id!, false));
+        return yield call(waitForBugBashItemUpdate, bugBashItem.id!);
+    });
+}
+
+function* bulkRejectRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.BulkRejectRequested>): SagaIterator {
+    const { bugBashItemIds, rejectReason } = action.payload;
+    const rejectedBy = getCurrentUser();
+    const rejectedDate = new Date();
+    yield call(runBulkOperation, BugBashItemsBulkOperation.Reject, bugBashItemIds, function* (bugBashItem: IBugBashItem) {
+        yield put(BugBashItemsActions.bugBashItemUpdateRequested({ ...bugBashItem, rejected: true, rejectReason, rejectedBy, rejectedDate }));
+        return yield call(waitForBugBashItemUpdate, bugBashItem.id!);
+    });
+}
+
+function* bulkReassignRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.BulkReassignRequested>): SagaIterator {
+    const { bugBashItemIds, teamId } = action.payload;
+    yield call(runBulkOperation, BugBashItemsBulkOperation.Reassign, bugBashItemIds, function* (bugBashItem: IBugBashItem) {
+        yield put(BugBashItemsActions.bugBashItemUpdateRequested({ ...bugBashItem, teamId }));
+        return yield call(waitForBugBashItemUpdate, bugBashItem.id!);
+    });
+}
+
+function* bulkDeleteRequested(action: ActionsOfType<BugBashViewActions, BugBashViewActionTypes.BulkDeleteRequested>): SagaIterator {
+    const bugBashItemIds = action.payload;
+    yield call(runBulkOperation, BugBashItemsBulkOperation.Delete, bugBashItemIds, function* (bugBashItem: IBugBashItem) {
+        yield put(BugBashItemsActions.bugBashItemDeleteRequested(bugBashItem.bugBashId, bugBashItem.id!));
+        const deletedOrFailedAction: ActionsOfType<
+            BugBashItemsActions,
+            BugBashItemsActionTypes.BugBashItemDeleted | BugBashItemsActionTypes.BugBashItemDeleteFailed
+        > = yield take(
+            (
+                action: ActionsOfType<
+                    BugBashItemsActions,
+                    BugBashItemsActionTypes.BugBashItemDeleted | BugBashItemsActionTypes.BugBashItemDeleteFailed
+                >
+            ): boolean => {
+                if (action.type === BugBashItemsActionTypes.BugBashItemDeleted && equals(action.payload, bugBashItem.id!, true)) {
+                    return true;
+                } else if (
+                    action.type === BugBashItemsActionTypes.BugBashItemDeleteFailed &&
+                    equals(action.payload.bugBashItemId, bugBashItem.id!, true)
+                ) {
+                    return true;
+                } else {
+                    return false;
+                }
+            }
+        );
+
+        return deletedOrFailedAction.type === BugBashItemsActionTypes.BugBashItemDeleteFailed ? deletedOrFailedAction.payload.error : undefined;
+    });
+}
+
+function* runBulkOperation(
+    operation: BugBashItemsBulkOperation,
+    bugBashItemIds: string[],
+    processItem: (bugBashItem: IBugBashItem) => IterableIterator<unknown>
+): SagaIterator {
+    yield put(BugBashViewActions.beginBulkOperation(operation, bugBashItemIds.length));
+
+    // a few workers pick up the next item as soon as they are free, so that we dont flood the extension data service with requests
+    // and one slow item does not hold back the others
+    const bugBashItemIdsChannel: Channel<string> = yield call(channel, buffers.fixed<string>(Math.max(bugBashItemIds.length, 1)));
+    for (const bugBashItemId of bugBashItemIds) {
+        yield put(bugBashItemIdsChannel, bugBashItemId);
+    }
+    bugBashItemIdsChannel.close();
+
+    const workerCount = Math.min(BulkOperationConcurrency, bugBashItemIds.length);
+    const workers = [];
+    for (let i = 0; i < workerCount; i++) {
+        workers.push(call(runBulkOperationWorker, bugBashItemIdsChannel, processItem));
+    }
+    yield all(workers);
+
+    // keep the failed items selected so that the operation can be retried on them
+    const bulkOperation: RT<typeof getBulkOperationState> = yield select(getBulkOperationState);
+    const failedBugBashItemIds = bulkOperation ? bulkOperation.results.filter((r) => !!r.error).map((r) => r.bugBashItemId) : [];
+    yield put(BugBashViewActions.setSelectedItems(failedBugBashItemIds));
+    yield put(BugBashViewActions.bulkOperationCompleted());
+
+    if (failedBugBashItemIds.length === 0) {
+        yield put(BugBashViewActions.dismissBulkOperationResults());
+        yield call(addToast, {
+            message: Resources.BulkOperationSucceededMessage,
+            duration: 5000,
+            forceOverrideExisting: true
+        });
+    }
+}
+
+function* runBulkOperationWorker(
+    bugBashItemIdsChannel: Channel<string>,
+    processItem: (bugBashItem: IBugBashItem) => IterableIterator<unknown>
+): SagaIterator {
+    // taking from the closed and drained channel ends the worker
+    for (;;) {
+        const bugBashItemId: string = yield take(bugBashItemIdsChannel);
+        yield call(runBulkOperationOnItem, bugBashItemId, processItem);
+    }
+}
+
+function* runBulkOperationOnItem(bugBashItemId: string, processItem: (bugBashItem: IBugBashItem) => IterableIterator<unknown>): SagaIterator {
+    const [bugBashItem, status]: [RT<typeof getBugBashItem>, RT<typeof getBugBashItemStatus>] = yield all([
+        select(getBugBashItem, bugBashItemId),
+        select(getBugBashItemStatus, bugBashItemId)
+    ]);
+
+    let error: string | undefined;
+    if (!bugBashItem) {
+        error = Resources.BulkOperationItemNotFound;
+    } else if (isBugBashItemAccepted(bugBashItem)) {
+        error = Resources.BulkOperationItemAccepted;
+    } else if (status !== LoadStatus.Ready && status !== LoadStatus.UpdateFailed) {
+        error = Resources.BulkOperationItemBusy;
+    } else {
+        error = yield call(processItem, bugBashItem);
+    }
+
+    yield put(BugBashViewActions.bulkOperationItemCompleted({ bugBashItemId, title: (bugBashItem && bugBashItem.title) || "", error }));
+}
+
+function* waitForBugBashItemUpdate(bugBashItemId: string) {
+    const updatedOrFailedAction: ActionsOfType<
+        BugBashItemsActions,
+        BugBashItemsActionTypes.BugBashItemUpdated | BugBashItemsActionTypes.BugBashItemUpdateFailed
+    > = yield take(
+        (
+            action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemUpdated | BugBashItemsActionTypes.BugBashItemUpdateFailed>
+        ): boolean => {
+            return (
+                (action.type === BugBashItemsActionTypes.BugBashItemUpdated || action.type === BugBashItemsActionTypes.BugBashItemUpdateFailed) &&
+                equals(action.payload.bugBashItem.id!, bugBashItemId, true)
+            );
+        }
+    );
+
+    return updatedOrFailedAction.type === BugBashItemsActionTypes.BugBashItemUpdateFailed ? updatedOrFailedAction.payload.error : undefined;
+}
+
 function* refreshFilteredItems(
     allBugBashItems: IBugBashItem[] | undefined,
     resolvedWorkItemsMap: { [id: number]: WorkItem } | undefined,
@@ -247,6 +517,17 @@ function* refreshFilteredItems(
     filterState: IFilterState | undefined,
     sortState: ISortState | undefined
 ): SagaIterator {
-    const filteredBugBashItems = getFilteredBugBashItems(allBugBashItems, resolvedWorkItemsMap, teamsMap, viewMode, filterState, sortState);
+    const bugBash: IBugBash | undefined = yield call(selectViewBugBash);
+    const filteredBugBashItems = getFilteredBugBashItems(bugBash, allBugBashItems, resolvedWorkItemsMap, teamsMap, viewMode, filterState, sortState);
     yield put(BugBashViewActions.setFilteredItems(filteredBugBashItems));
 }
+
+function* selectViewBugBash() {
+    const bugBashId: RT<typeof getBugBashViewBugBashId> = yield select(getBugBashViewBugBashId);
+    if (!bugBashId) {
+        return undefined;
+    }
+
+    const bugBash: RT<typeof getBugBash> = yield select(getBugBash, bugBashId);
+    return bugBash;
+}
@@ -6,6 +6,8 @@ export function getBugBashViewState(state: IBugBashViewAwareState): IBugBashView
     return state.bugBashViewState;
 }
 
+export const getBugBashViewBugBashId = createSelector(getBugBashViewState, (state) => state && state.bugBashId);
+
 export const getFilteredBugBashItems = createSelector(getBugBashViewState, (state) => state && state.filteredBugBashItems);
 
 export const getBugBashItemsFilterState = createSelector(getBugBashViewState, (state) => state && state.filterState);
@@ -19,3 +21,15 @@ export const getBugBashItemsSortState = createSelector(getBugBashViewState, (sta
 export const getBugBashItemsSortColumn = createSelector(getBugBashItemsSortState, (state) => state && state.sortKey);
 
 export const areBugBashItemsSortedDescending = createSelector(getBugBashItemsSortState, (state) => state && state.isSortedDescending);
+
+export const getSelectedBugBashItemIds = createSelector(getBugBashViewState, (state) => (state && state.selectedBugBashItemIds) || []);
+
+export const getNewBugBashItemIdsMap = createSelector(getBugBashViewState, (state) => {
+    const map: { [bugBashItemId: string]: boolean } = {};
+    for (const id of (state && state.newBugBashItemIds) || []) {
+        map[id.toLowerCase()] = true;
+    }
+    return map;
+});
+
+export const getBulkOperationState = createSelector(getBugBashViewState, (state) => state && state.bulkOperation);
@@ -3,6 +3,7 @@ import * as React from "react";
 import * as DetailsEditor_Async from "BugBashPro/Editors/BugBashDetailsEditor";
 import * as BugBashEditor_Async from "BugBashPro/Editors/BugBashEditor";
 import * as BugBashItemEditor_Async from "BugBashPro/Editors/BugBashItemEditor";
+import * as BugBashItemsImporter_Async from "BugBashPro/Editors/BugBashItemsImporter";
 import * as SettingsEditor_Async from "BugBashPro/Editors/BugBashSettingsEditor";
 import { AsyncComponent } from "Common/Components/AsyncComponent";
 import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
@@ -15,6 +16,7 @@ import {
     IBugBashDetailsEditPortalProps,
     IBugBashEditPortalProps,
     IBugBashItemEditPortalProps,
+    IBugBashItemsImportPortalProps,
     IBugBashPortalAwareState,
     PortalType
 } from "../Redux/Contracts";
@@ -24,7 +26,7 @@ import { getPortalProps, getPortalType, isPortalOpen } from "../Redux/Selectors"
 interface IBugBashPortalStateProps {
     portalOpen: boolean;
     portalType: PortalType | undefined;
-    portalProps: IBugBashEditPortalProps | IBugBashItemEditPortalProps | IBugBashDetailsEditPortalProps | undefined;
+    portalProps: IBugBashEditPortalProps | IBugBashItemEditPortalProps | IBugBashDetailsEditPortalProps | IBugBashItemsImportPortalProps | undefined;
 }
 
 function mapState(state: IBugBashPortalAwareState): IBugBashPortalStateProps {
@@ -43,6 +45,7 @@ const bugBashEditorLoader = async () => import("BugBashPro/Editors/BugBashEditor
 const bugBashItemEditorLoader = async () => import("BugBashPro/Editors/BugBashItemEditor");
 const settingsEditorLoader = async () => import("BugBashPro/Editors/BugBashSettingsEditor");
 const bugBashDetailsEditorLoader = async () => import("BugBashPro/Editors/BugBashDetailsEditor");
+const bugBashItemsImporterLoader = async () => import("BugBashPro/Editors/BugBashItemsImporter");
 
 function BugBashPortalInternal() {
     const { portalOpen, portalProps, portalType } = useMappedState(mapState);
@@ -88,6 +91,13 @@ function BugBashPortalInternal() {
                 {(m: typeof DetailsEditor_Async) => <m.BugBashDetailsEditorPanel bugBashId={bugBashId} onDismiss={dismissPortal} />}
             </AsyncComponent>
         );
+    } else if (portalType === PortalType.ItemsImport) {
+        const { bugBashId } = portalProps as IBugBashItemsImportPortalProps;
+        return (
+            <AsyncComponent key="items-importer" loader={bugBashItemsImporterLoader} loadingComponent={emptyRenderer}>
+                {(m: typeof BugBashItemsImporter_Async) => <m.BugBashItemsImportPanel bugBashId={bugBashId} onDismiss={dismissPortal} />}
+            </AsyncComponent>
+        );
     } else {
         return null;
     }
@@ -15,6 +15,8 @@ export const BugBashPortalActions = {
 
     openDetailsPortal: (bugBashId: string) => createAction(BugBashPortalActionTypes.OpenDetailsPortal, bugBashId),
 
+    openImportPortal: (bugBashId: string) => createAction(BugBashPortalActionTypes.OpenImportPortal, bugBashId),
+
     dismissPortal: () => createAction(BugBashPortalActionTypes.DismissPortal)
 };
 
@@ -23,6 +25,7 @@ export const enum BugBashPortalActionTypes {
     OpenBugBashItemPortal = "BugBashPortalAction/OpenBugBashItemPortal",
     OpenSettingsPortal = "BugBashPortalAction/OpenSettingsPortal",
     OpenDetailsPortal = "BugBashPortalAction/OpenDetailsPortal",
+    OpenImportPortal = "BugBashPortalAction/OpenImportPortal",
     DismissPortal = "BugBashPortalAction/DismissPortal"
 }
 
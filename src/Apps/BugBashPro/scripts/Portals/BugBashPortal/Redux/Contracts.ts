@@ -5,7 +5,7 @@ export interface IBugBashPortalAwareState {
 export interface IBugBashPortalState {
     portalOpen: boolean;
     portalType: PortalType | undefined;
-    portalProps: IBugBashEditPortalProps | IBugBashItemEditPortalProps | IBugBashDetailsEditPortalProps | undefined;
+    portalProps: IBugBashEditPortalProps | IBugBashItemEditPortalProps | IBugBashDetailsEditPortalProps | IBugBashItemsImportPortalProps | undefined;
 }
 
 export const defaultBugBashPortalState: IBugBashPortalState = {
@@ -18,13 +18,18 @@ export const enum PortalType {
     BugBashEdit = 1,
     BugBashItemEdit,
     SettingsEdit,
-    DetailsEdit
+    DetailsEdit,
+    ItemsImport
 }
 
 export interface IBugBashDetailsEditPortalProps {
     bugBashId: string;
 }
 
+export interface IBugBashItemsImportPortalProps {
+    bugBashId: string;
+}
+
 export interface IBugBashEditPortalProps {
     bugBashId: string | undefined;
     readFromCache: boolean;
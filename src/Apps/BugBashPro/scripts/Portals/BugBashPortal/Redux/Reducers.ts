@@ -37,6 +37,14 @@ export function portalReducer(state: IBugBashPortalState | undefined, action: Bu
                 break;
             }
 
+            case BugBashPortalActionTypes.OpenImportPortal: {
+                const bugBashId = action.payload;
+                draft.portalOpen = true;
+                draft.portalProps = { bugBashId };
+                draft.portalType = PortalType.ItemsImport;
+                break;
+            }
+
             case BugBashPortalActionTypes.DismissPortal: {
                 draft.portalOpen = false;
                 draft.portalProps = undefined;
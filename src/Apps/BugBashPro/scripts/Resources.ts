@@ -10,6 +10,7 @@ export namespace Resources {
     export const List = "List";
     export const Charts = "Charts";
     export const Board = "Board";
+    export const Leaderboard = "Leaderboard";
     export const EditBugBashTitle = "Edit Bug Bash";
     export const CreateBugBashPanelTitle = "Create Bug Bash";
     export const EditBugBashItemPanelTitle = "Edit Bug Bash Item";
@@ -19,7 +20,8 @@ export namespace Resources {
     export const StartTimeColumn = "Start Time";
     export const EndTimeColumn = "End Time";
     export const ConfirmDialogTitle = "Are you sure?";
-    export const DeleteBugBashConfirmation = "Are you sure you want to delete this bug bash instance? This step can not be reversed.";
+    export const DeleteBugBashConfirmation =
+        "Are you sure you want to delete this bug bash instance? All of its items, comments and details will be deleted as well. This step can not be reversed.";
     export const DeleteBugBashItemConfirmation = "Are you sure you want to delete this bug bash item? This step can not be reversed.";
     export const Edit = "Edit";
     export const Delete = "Delete";
@@ -29,6 +31,11 @@ export namespace Resources {
     export const WorkItemType_LabelInfo = "Select a work item type which would be used to create work items for each bug bash item";
     export const DescriptionField_Label = "Description Field";
     export const DescriptionField_LabelInfo = "Select a HTML field that you would want to set while creating a workitem for each bug bash item";
+    export const ItemFields_Label = "Item Fields";
+    export const ItemFields_LabelInfo =
+        "Select additional work item fields that submitters can fill in for each bug bash item. These values are set on the work item when the item is accepted.";
+    export const AddItemField_Placeholder = "Add a work item field";
+    export const RemoveItemField = "Remove field";
     export const AutoAccept_LabelInfo = "Auto create work items on creation of a bug bash item";
     export const DefaultTeam_Label = "Default Team";
     export const DefaultTeam_LabelInfo = "Pick a default team for bug bash items in this bug bash.";
@@ -36,20 +43,242 @@ export namespace Resources {
     export const TemplateTeam_LabelInfo = "Select a team to pull its templates.";
     export const Template_LabelInfo = "Select a work item template that would be applied during work item creation.";
     export const Template_Label = "Work item template";
+    export const AcceptedFromBugBash = "Accepted from bug bash";
+    export const AcceptAsExisting = "Accept as existing";
+    export const AcceptAsExistingDialogTitle = "Accept into an existing work item";
+    export const AcceptAsExisting_Info =
+        "The item description, comments and attachments are added to the discussion of the selected work item, and the item shows as accepted.";
+    export const WorkItemSearch_Placeholder = "Search by work item id or title";
+    export const WorkItemSearch_NoResults = "No work items found";
+    export const AddLinkToBugBashItem = "Add a link to this bug bash item on the work item";
+    export const Unaccept = "Undo accept";
+    export const UnacceptDialogTitle = "Undo accept";
+    export const Unaccept_Info = "The item goes back to pending with its original title, description, team and field values.";
+    export const UnacceptExistingWorkItem_Info =
+        "The item was accepted into an existing work item or before undo was supported, so its work item is kept as it is.";
+    export const UnacceptWorkItemAction_Label = "Work item";
+    export const UnacceptWorkItemAction_Keep = "Keep the work item";
+    export const UnacceptWorkItemAction_Close = "Close the work item";
+    export const UnacceptWorkItemAction_Delete = "Delete the work item (moves it to the recycle bin)";
+    export const UnacceptWorkItemError = "The item is back to pending, but it was not possible to update work item";
+    export const New = "New";
+    export const AcceptIteration_Label = "Accepted items iteration";
+    export const AcceptIteration_LabelInfo =
+        "Select the iteration of the work items created for accepted items. The team iterations are read from the team the item is assigned to.";
+    export const AcceptIteration_Template = "From the work item template";
+    export const AcceptIteration_Current = "Current iteration of the item's team";
+    export const AcceptIteration_Backlog = "Backlog iteration of the item's team";
     export const BugBashWrongDatesError = "Bugbash end time cannot be a date before bugbash start time.";
     export const ConfirmPanelTitle = "Are you sure you want to close the panel?";
     export const ConfirmPanelClose_Content = "Changes you made may not be saved.";
     export const GitRepoPickerLabel = "Media Git Repo";
     export const GitRepoPickerLabel_Info = "Select a git repo to store media and attachments";
+    export const GitMediaBranch_Label = "Media branch";
+    export const GitMediaBranch_LabelInfo = "Branch to push media to. The default branch of the repo is used when it is empty.";
+    export const GitMediaBranch_Placeholder = "Default branch";
+    export const GitMediaFolder_Label = "Media folder";
+    export const GitMediaFolder_LabelInfo = "Folder to push media to. {bugBashId} is replaced with the id of the bug bash.";
+    export const CreateGitMediaBranch_Label = "Create branch if missing";
+    export const CreateGitMediaBranch_LabelInfo = "Create the media branch from the default branch of the repo when it does not exist yet.";
     export const AssociatedTeamLabel = "Associated team";
     export const AssociatedTeamLabel_Info = "Select a team associated with you.";
     export const ProjectSettingsHeader = "Project settings";
     export const UserSettingsHeader = "User settings";
     export const BugBashCreatedMessage = "New bug bash created";
     export const BugBashItemCreatedMessage = "New bug bash item created";
+    export const BugBashItemQueuedMessage = "The bug bash item could not be submitted. It is saved and will be submitted automatically.";
+    export const QueuedBugBashItem = "1 item waiting to sync";
+    export const QueuedBugBashItems = "items waiting to sync";
+    export const FailedQueuedBugBashItem = "1 item could not be submitted";
+    export const FailedQueuedBugBashItems = "items could not be submitted";
+    export const SyncNow = "Sync now";
+    export const Discard = "Discard";
+    export const DiscardQueuedBugBashItemsConfirmation = "The queued items will be discarded and cannot be recovered.";
+    export const ConflictDialogTitle = "This item was changed by someone else";
+    export const Conflict_Info = "Pick the value to keep for each field that differs. Your choices are saved on top of the latest version.";
+    export const NoConflicts = "The latest version already contains all of your changes.";
+    export const YourChange = "Your change";
+    export const LatestVersion = "Latest version";
+    export const EmptyValue = "Empty";
+    export const NotRejected = "Not rejected";
+    export const AssignedToTeam_Label = "Assigned to team";
+    export const Rejection_Label = "Rejection";
+    export const Description_Label = "Description";
+    export const BugBashConflictDialogTitle = "This bug bash was changed by someone else";
+    export const BugBashConflict_Info = "Pick the value to keep for each setting that differs. Your choices are saved on top of the latest version.";
+    export const AutoAccept_Label = "Auto accept";
+    export const Yes = "Yes";
+    export const No = "No";
+    export const Recurrence_WeeklySummary = "Every {0} week(s)";
+    export const Recurrence_MonthlySummary = "Every {0} month(s)";
     export const BugBashAcceptedCreatedMessage = "Work item created";
+    export const DeleteSelected = "Delete selected";
     export const OpenSelectedWorkItems = "Open selected work items";
     export const View = "View";
     export const Open = "Open";
     export const Details = "Details";
+    export const Reject = "Reject";
+    export const Cancel = "Cancel";
+    export const RejectBugBashItemDialogTitle = "Reject bug bash item";
+    export const RejectReason_Label = "Reject reason";
+    export const RejectReason_Placeholder = "Enter reject reason";
+    export const Accept = "Accept";
+    export const ReassignTeam = "Reassign team";
+    export const Reassign = "Reassign";
+    export const ClearSelection = "Clear selection";
+    export const Close = "Close";
+    export const RejectSelectedBugBashItemsDialogTitle = "Reject selected bug bash items";
+    export const ReassignTeamDialogTitle = "Reassign selected bug bash items";
+    export const ReassignTeam_Label = "Team";
+    export const DeleteSelectedBugBashItemsConfirmation = "Are you sure you want to delete the selected bug bash items?";
+    export const AcceptSelectedBugBashItemsConfirmation = "Are you sure you want to create work items for the selected bug bash items?";
+    export const BulkOperationResultsDialogTitle = "Bulk operation results";
+    export const BulkOperationItemNotFound = "This bug bash item no longer exists.";
+    export const BulkOperationItemAccepted = "This bug bash item has already been accepted.";
+    export const BulkOperationItemBusy = "This bug bash item is being saved.";
+    export const Export = "Export";
+    export const DownloadAsCsv = "Download as CSV";
+    export const DownloadAsHtml = "Download as HTML";
+    export const DownloadAsMarkdown = "Download as Markdown";
+    export const CopyAsCsv = "Copy as CSV";
+    export const CopyAsHtml = "Copy as HTML table";
+    export const CopyAsMarkdown = "Copy as Markdown";
+    export const CopiedToClipboard = "Copied to clipboard";
+    export const CopyToClipboardFailed = "Could not copy to clipboard";
+    export const Import = "Import";
+    export const ImportBugBashItemsTitle = "Import bug bash items";
+    export const ImportFile_Label = "Upload a CSV or tab separated file";
+    export const ImportText_Label = "Or paste rows copied from a spreadsheet";
+    export const ImportHasHeaderRow_Label = "First row contains column headers";
+    export const ImportColumnMappingHeader = "Column mapping";
+    export const ImportPreviewHeader = "Preview";
+    export const BugBashItemsImportedMessage = "bug bash items imported";
+    export const ImportTitleRequiredError = "Title is required.";
+    export const ImportTitleTooLongError = "Title is longer than {0} characters.";
+    export const ImportTeamRequiredError = "Team is required.";
+    export const ImportUnknownTeamError = 'Unknown team "{0}".';
+    export const ImportFileReadError = 'Cannot read file "{0}".';
+    export const ImportRowImported = "Imported";
+    export const ImportRowReady = "Ready";
+    export const ImportUnknownCreatedByError = 'Created by "{0}" is not an identity. Use the "Display Name <user@domain.com>" format.';
+    export const BulkOperationSucceededMessage = "All selected bug bash items were processed";
+    export const PossibleDuplicates_Label = "Possible duplicates";
+    export const PossibleDuplicates_LabelInfo = "Other items in this bug bash with a similar title or description";
+    export const MarkAsDuplicate = "Mark as duplicate";
+    export const MarkedAsDuplicate = "Marked as duplicate";
+    export const DuplicateOf_RejectReason = "Duplicate of";
+    export const Accepted = "Accepted";
+    export const Pending = "Pending";
+    export const Rejected = "Rejected";
+    export const Resolved = "Resolved";
+    export const Filed = "Filed";
+    export const Timeline = "Timeline";
+    export const Cumulative = "Cumulative";
+    export const Clone = "Clone";
+    export const Create = "Create";
+    export const Save = "Save";
+    export const CopyOf = "Copy of";
+    export const Title_Label = "Title";
+    export const SaveAsTemplate = "Save as template";
+    export const NewBugBashFromTemplate = "New from template";
+    export const CloneBugBashDialogTitle = "Clone bug bash";
+    export const NewBugBashFromTemplateDialogTitle = "New bug bash from template";
+    export const SaveAsTemplateDialogTitle = "Save bug bash as template";
+    export const CloneEndTime_LabelInfo = "The finish time is shifted along with the start time to keep the duration of the original bug bash";
+    export const BugBashTemplate_Label = "Bug bash template";
+    export const BugBashTemplate_Placeholder = "Select a template";
+    export const TemplateName_Label = "Template name";
+    export const TemplateName_LabelInfo = "The template stores the bug bash settings along with its details text";
+    export const DeleteBugBashTemplate = "Delete template";
+    export const DeleteBugBashTemplateConfirmation = "Are you sure you want to delete this bug bash template? This step can not be reversed.";
+    export const BugBashTemplateCreatedMessage = "Bug bash template saved";
+    export const ScheduledOccurrence = "scheduled";
+    export const ScheduledOccurrence_Tooltip =
+        "Upcoming occurrence of a recurring bug bash. It is created automatically when the previous occurrence finishes.";
+    export const Recurrence_Label = "Recurrence";
+    export const Recurrence_LabelInfo =
+        "When the bug bash finishes, its next occurrence is created automatically with the same settings and details, and its own set of items.";
+    export const Recurrence_None = "Does not repeat";
+    export const Recurrence_Weekly = "Weekly";
+    export const Recurrence_Monthly = "Monthly";
+    export const RecurrenceIntervalWeeks_Label = "Every N weeks";
+    export const RecurrenceIntervalMonths_Label = "Every N months";
+    export const RecurrenceDayOfMonth_Label = "On day";
+    export const RecurrenceIntervalError = "Enter a whole number greater than 0";
+    export const RecurrenceDayOfMonthError = "Enter a day between 1 and 31";
+    export const Owners_Label = "Owners";
+    export const Owners_LabelInfo = "Only owners can edit or delete this bug bash. When no owner is set, everyone can.";
+    export const Owners_Placeholder = "Add owners";
+    export const Triagers_Label = "Triagers";
+    export const Triagers_LabelInfo =
+        "Triagers and owners can accept, reject, edit or delete any bug bash item and review private submissions. Everyone else can only edit or delete their own items.";
+    export const PrivateSubmissions_Label = "Private submissions?";
+    export const PrivateSubmissions_LabelInfo =
+        "Submitters only see their own items until they are accepted. Owners and triagers review all items, so add reviewers as triagers.";
+    export const HideSubmitters_Label = "Hide submitters?";
+    export const HideSubmitters_LabelInfo = "Hide who created the items from everyone except owners and triagers.";
+    export const Triagers_Placeholder = "Add triagers";
+    export const Archived = "Archived";
+    export const Archive = "Archive";
+    export const Unarchive = "Unarchive";
+    export const Closed = "Closed";
+    export const CloseBugBash = "Close bug bash";
+    export const ReopenBugBash = "Reopen bug bash";
+    export const BugBashClosedMessage = "This bug bash is closed. New items can not be submitted, but triage of the remaining items can continue.";
+    export const BugBashEndedMessage =
+        "This bug bash has ended and is closed. New items can not be submitted, but triage of the remaining items can continue. Change its end time to reopen it.";
+    export const BugBashClosedError = "This bug bash is closed and does not accept new items.";
+    export const BugBashEditNotAllowed = "Only the owners of this bug bash can edit it.";
+    export const BugBashItemViewNotAllowed =
+        "This item is a private submission. Only its submitter, the owners and the triagers of this bug bash can open it.";
+    export const RecurrenceDatesError = "A recurring bug bash needs both a start and a finish time";
+    export const RecurrenceDurationError = "A recurring bug bash has to finish before its next occurrence starts";
+    export const Leaderboard_Individuals = "Individuals";
+    export const Leaderboard_Teams = "Teams";
+    export const Leaderboard_Name = "Name";
+    export const Leaderboard_Team = "Team";
+    export const Leaderboard_Members = "Members";
+    export const Leaderboard_Score = "Score";
+    export const Leaderboard_Scoring = "Points per item -";
+    export const Leaderboard_NoTeams = "No team rankings yet. Submitters can pick their team from the user settings.";
+    export const Scoring_Label = "Leaderboard scoring";
+    export const Scoring_LabelInfo =
+        "Points given to the creator of each bug bash item on the leaderboard. Use zero or negative values to discourage rejected items.";
+    export const AcceptedPoints_Label = "Accepted item";
+    export const PendingPoints_Label = "Pending item";
+    export const RejectedPoints_Label = "Rejected item";
+    export const ResolvedBonusPoints_Label = "Resolved bonus";
+    export const ResolvedBonusPoints_LabelInfo =
+        "Extra points when the work item of an accepted item reaches a resolved or completed state during the bug bash";
+    export const ScoringPointsError = "Enter a whole number";
+    export const Attachments_Label = "Attachments";
+    export const Attachments_LabelInfo =
+        "Screenshots, logs, videos or any other files. They are attached to the work item when this item is accepted.";
+    export const AddAttachments = "Drop files here or click to add attachments";
+    export const UploadingAttachments = "Uploading attachments...";
+    export const RemoveAttachment = "Remove attachment";
+    export const Reply = "Reply";
+    export const CommentEdited = "(edited)";
+    export const CommentDeleted = "This comment was deleted.";
+    export const MentionPeople_Placeholder = "Mention people";
+    export const MentionedInComment = "You were mentioned in a comment on this item";
+    export const Votes = "Votes";
+    export const Severity_Label = "Severity";
+    export const Severity_LabelInfo = "How bad the issue is. Only triagers can set it.";
+    export const Priority_Label = "Priority";
+    export const Priority_LabelInfo = "How soon the issue should be fixed. Only triagers can set it.";
+    export const SeverityPrefix = "Sev";
+    export const PriorityPrefix = "Pri";
+    export const SeverityField_Label = "Severity Field";
+    export const SeverityField_LabelInfo = "Select a field that receives the severity set by the triagers when an item is accepted";
+    export const PriorityField_Label = "Priority Field";
+    export const PriorityField_LabelInfo = "Select a field that receives the priority set by the triagers when an item is accepted";
+    export const SeverityValueMap_Label = "Severity values";
+    export const PriorityValueMap_Label = "Priority values";
+    export const TriageValueMap_LabelInfo = "Value written to the selected field for each triage value, pick one of the values the field allows";
+    export const TriageValueNotAllowedError = "The selected field does not accept this value";
+    export const Vote = "Me too! Vote for this item";
+    export const RemoveVote = "Remove your vote";
+    export const DeleteCommentConfirmation = "This comment will be deleted. Any replies to it are kept.";
+    export const AttachmentTooLargeError = "is larger than the maximum attachment size of 60 MB.";
 }
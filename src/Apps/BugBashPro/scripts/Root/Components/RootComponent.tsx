@@ -41,6 +41,7 @@ export function RootComponent() {
             case AppView.ACTION_LIST:
             case AppView.ACTION_CHARTS:
             case AppView.ACTION_BOARD:
+            case AppView.ACTION_LEADERBOARD:
                 view = (
                     <AsyncComponent loader={bugBashViewLoader} key="bugbashview">
                         {(m: typeof BugBashView_Async) => (
@@ -22,7 +22,10 @@ export function useHashParams(): IHashParams | undefined {
                 view: AppView.ACTION_ALL
             });
         } else if (
-            (viewMode === AppView.ACTION_LIST || viewMode === AppView.ACTION_CHARTS || viewMode === AppView.ACTION_BOARD) &&
+            (viewMode === AppView.ACTION_LIST ||
+                viewMode === AppView.ACTION_CHARTS ||
+                viewMode === AppView.ACTION_BOARD ||
+                viewMode === AppView.ACTION_LEADERBOARD) &&
             !isNullOrWhiteSpace(queryParams.id)
         ) {
             setHashParams({
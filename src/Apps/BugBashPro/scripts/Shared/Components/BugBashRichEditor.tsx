@@ -1,16 +1,23 @@
 import * as React from "react";
 
 import { getClient } from "azure-devops-extension-api/Common/Client";
-import { GitPush, GitRestClient, ItemContentType, VersionControlChangeType } from "azure-devops-extension-api/Git";
+import { VssServerError } from "azure-devops-extension-api/Common/Fetch";
+import { GitPush, GitRef, GitRestClient, ItemContentType, VersionControlChangeType } from "azure-devops-extension-api/Git";
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { DefaultGitMediaFolder, GitMediaPushMaxAttempts } from "BugBashPro/Shared/Constants";
+import { IProjectSetting } from "BugBashPro/Shared/Contracts";
 import { useProjectSetting } from "BugBashPro/Shared/Hooks/useProjectSetting";
 import { getBugBashProjectSettingsModule } from "BugBashPro/Shared/Redux/ProjectSettings/Module";
 import { DynamicModuleLoader } from "Common/Components/DynamicModuleLoader";
 import { Loading } from "Common/Components/Loading";
 import { IRichEditorProps, RichEditor } from "Common/Components/RichEditor";
 import { LoadStatus } from "Common/Contracts";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
 import { getProjectUrlAsync } from "Common/Utilities/UrlHelper";
 import { getCurrentProjectId } from "Common/Utilities/WebContext";
 
+const EmptyObjectId = "0000000000000000000000000000000000000000";
+
 interface IBugBashRichEditorProps extends IRichEditorProps {
     bugBashId: string;
     onImageUploadError?: (error: string) => void;
@@ -26,8 +33,7 @@ function BugBashRichEditorInternal(props: IBugBashRichEditorProps) {
 
     const uploadImage = async (file: File) => {
         return new Promise<string>(async (resolve) => {
-            const gitMediaRepo = projectSetting && projectSetting.gitMediaRepo;
-            if (gitMediaRepo) {
+            if (projectSetting && projectSetting.gitMediaRepo) {
                 const reader = new FileReader();
 
                 reader.onload = async (event: ProgressEvent) => {
@@ -39,27 +45,8 @@ function BugBashRichEditorInternal(props: IBugBashRichEditorProps) {
 
                         const extension = metaPart.split(";")[0].split("/").pop();
                         const fileName = `pastedImage_${Date.now().toString()}.${extension}`;
-                        const gitPath = `BugBash_${bugBashId}/pastedImages/${fileName}`;
-
-                        const gitClient = await getClient(GitRestClient);
-                        const projectId = await getCurrentProjectId();
-                        const projectUrl = await getProjectUrlAsync();
-
-                        const gitItem = await gitClient.getItem(gitMediaRepo, "/", projectId);
-                        const pushModel = buildGitPush(
-                            gitPath,
-                            gitItem.commitId,
-                            VersionControlChangeType.Add,
-                            dataPart,
-                            ItemContentType.Base64Encoded
-                        );
-                        await gitClient.createPush(pushModel, gitMediaRepo, projectId);
-
-                        resolve(
-                            `${projectUrl}/_api/_versioncontrol/itemContent?repositoryId=${gitMediaRepo}&path=${encodeURIComponent(
-                                gitPath
-                            )}&version=GBmaster&contentOnly=true`
-                        );
+
+                        resolve(await pushGitMediaAsync(projectSetting, bugBashId, fileName, dataPart));
                     } catch (e) {
                         if (onImageUploadError) {
                             onImageUploadError(`Image copy failed. Error: ${e.message}`);
@@ -82,27 +69,84 @@ function BugBashRichEditorInternal(props: IBugBashRichEditorProps) {
     return <RichEditor {...richEditorProps} />;
 }
 
+async function pushGitMediaAsync(projectSetting: IProjectSetting, bugBashId: string, fileName: string, content: string): Promise<string> {
+    const { gitMediaRepo, gitMediaBranch, gitMediaFolder, createGitMediaBranch } = projectSetting;
+    const gitClient = await getClient(GitRestClient);
+    const projectId = await getCurrentProjectId();
+    const projectUrl = await getProjectUrlAsync();
+
+    const repository = await gitClient.getRepository(gitMediaRepo, projectId);
+    const defaultBranchName = repository.defaultBranch ? getBranchName(repository.defaultBranch) : undefined;
+    const branchName = isNullOrWhiteSpace(gitMediaBranch) ? defaultBranchName || "master" : getBranchName(gitMediaBranch!);
+    const folder = (isNullOrWhiteSpace(gitMediaFolder) ? DefaultGitMediaFolder : gitMediaFolder!)
+        .replace(/{bugBashId}/gi, bugBashId)
+        .replace(/^\/+|\/+$/g, "");
+    const gitPath = folder ? `${folder}/${fileName}` : fileName;
+
+    for (let attempt = 1; ; attempt++) {
+        const branchRef = await getBranchRefAsync(gitClient, gitMediaRepo, projectId, branchName);
+        let oldObjectId: string;
+        let parentObjectId: string | undefined;
+
+        if (branchRef) {
+            oldObjectId = branchRef.objectId;
+        } else if (createGitMediaBranch) {
+            // branch off the default branch, or start the history if the repo is still empty
+            const defaultBranchRef = defaultBranchName ? await getBranchRefAsync(gitClient, gitMediaRepo, projectId, defaultBranchName) : undefined;
+            oldObjectId = EmptyObjectId;
+            parentObjectId = defaultBranchRef && defaultBranchRef.objectId;
+        } else {
+            throw new Error(`Branch "${branchName}" does not exist in the media git repo.`);
+        }
+
+        try {
+            const pushModel = buildGitPush(gitPath, branchName, oldObjectId, parentObjectId, content, ItemContentType.Base64Encoded);
+            await gitClient.createPush(pushModel, gitMediaRepo, projectId);
+            break;
+        } catch (e) {
+            // the branch moved on since its head was read, read it again and retry
+            if ((e as VssServerError).status !== 409 || attempt >= GitMediaPushMaxAttempts) {
+                throw e;
+            }
+        }
+    }
+
+    return `${projectUrl}/_api/_versioncontrol/itemContent?repositoryId=${gitMediaRepo}&path=${encodeURIComponent(
+        gitPath
+    )}&version=GB${encodeURIComponent(branchName)}&contentOnly=true`;
+}
+
+async function getBranchRefAsync(gitClient: GitRestClient, repositoryId: string, projectId: string, branchName: string): Promise<GitRef | undefined> {
+    const refName = `refs/heads/${branchName}`;
+    // the filter matches by prefix, so pick the exact ref out of the results
+    const refs = await gitClient.getRefs(repositoryId, projectId, `heads/${branchName}`);
+    return (refs || []).filter((r) => equals(r.name, refName, true))[0];
+}
+
+function getBranchName(branch: string): string {
+    return branch.trim().replace(/^refs\/heads\//i, "");
+}
+
 function buildGitPush(
     path: string,
+    branchName: string,
     oldObjectId: string,
-    changeType: VersionControlChangeType,
+    parentObjectId: string | undefined,
     content: string,
     contentType: ItemContentType
 ): GitPush {
     const commits = [
         {
             comment: "Adding new image from bug bash pro extension",
+            parents: parentObjectId ? [parentObjectId] : undefined,
             changes: [
                 {
-                    changeType,
+                    changeType: VersionControlChangeType.Add,
                     item: { path },
-                    newContent:
-                        content !== undefined
-                            ? {
-                                  content,
-                                  contentType
-                              }
-                            : undefined
+                    newContent: {
+                        content,
+                        contentType
+                    }
                 }
             ]
         }
@@ -111,7 +155,7 @@ function buildGitPush(
     return {
         refUpdates: [
             {
-                name: "refs/heads/master",
+                name: `refs/heads/${branchName}`,
                 oldObjectId: oldObjectId
             }
         ],
@@ -0,0 +1,52 @@
+import "./IdentityListEditor.scss";
+
+import * as React from "react";
+
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
+import { IdentityPicker, IIdentity, IPeoplePickerProvider } from "azure-devops-ui/IdentityPicker";
+import { css } from "azure-devops-ui/Util";
+import { LabelledComponent } from "Common/Components/LabelledComponent";
+import { PeoplePickerProvider } from "Common/ServiceWrappers/IdentityService";
+import { getIdentityFromIdentityRef, getIdentityRefFromIdentity } from "Common/Utilities/Identity";
+
+interface IIdentityListEditorProps {
+    className?: string;
+    label?: string;
+    info?: string;
+    placeholder?: string;
+    identities: IdentityRef[];
+    disabled?: boolean;
+    onChange: (identities: IdentityRef[]) => void;
+}
+
+export function IdentityListEditor(props: IIdentityListEditorProps) {
+    const { className, label, info, placeholder, identities, disabled, onChange } = props;
+    const pickerProvider = React.useRef<IPeoplePickerProvider>(new PeoplePickerProvider(["user"]));
+    const selectedIdentities = React.useMemo(() => identities.map(getIdentityFromIdentityRef), [identities]);
+
+    const onIdentityAdded = (identity: IIdentity) => {
+        const identityRef = getIdentityRefFromIdentity(identity);
+        if (!identities.some((i) => i.id === identityRef.id)) {
+            onChange([...identities, identityRef]);
+        }
+    };
+    const onIdentitiesRemoved = (removedIdentities: IIdentity[]) => {
+        onChange(identities.filter((i) => !removedIdentities.some((r) => r.localId === i.id)));
+    };
+    const onIdentityRemoved = (identity: IIdentity) => onIdentitiesRemoved([identity]);
+
+    return (
+        <LabelledComponent className={css("identity-list-editor", className)} label={label} info={info}>
+            <div className={css("identity-list-picker", disabled && "disabled")}>
+                <IdentityPicker
+                    pickerProvider={pickerProvider.current}
+                    placeholderText={placeholder}
+                    selectedIdentities={selectedIdentities}
+                    onIdentityAdded={onIdentityAdded}
+                    onIdentityRemoved={onIdentityRemoved}
+                    onIdentitiesRemoved={onIdentitiesRemoved}
+                />
+            </div>
+        </LabelledComponent>
+    );
+}
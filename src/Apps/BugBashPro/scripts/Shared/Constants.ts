@@ -1,6 +1,63 @@
+import { IColor } from "azure-devops-ui/Utilities/Color";
+
+import { IBugBashScoring } from "./Contracts";
+
 export const enum AppView {
     ACTION_ALL = "all",
     ACTION_LIST = "list",
     ACTION_CHARTS = "charts",
-    ACTION_BOARD = "board"
+    ACTION_BOARD = "board",
+    ACTION_LEADERBOARD = "leaderboard"
 }
+
+/**
+ * Number of future occurrences of a recurring bug bash shown in the upcoming tab of the directory
+ */
+export const UpcomingOccurrencesCount = 3;
+
+export const DefaultBugBashScoring: IBugBashScoring = {
+    acceptedPoints: 3,
+    pendingPoints: 1,
+    rejectedPoints: 0,
+    resolvedBonusPoints: 0
+};
+
+export const DefaultGitMediaFolder = "BugBash_{bugBashId}/pastedImages";
+
+/**
+ * Number of times a media push is attempted when the branch moved on since its head was read
+ */
+export const GitMediaPushMaxAttempts = 3;
+
+/**
+ * Number of times a vote is attempted when the item was updated by some one else since it was read
+ */
+export const BugBashItemVoteMaxAttempts = 3;
+
+/**
+ * Set when the state of a work item changes, which tells when an accepted work item got resolved
+ */
+export const StateChangeDateFieldRefName = "Microsoft.VSTS.Common.StateChangeDate";
+
+/**
+ * Time after which a queued item which is being submitted by another tab is submitted again, because that tab was most likely closed mid-submit
+ */
+export const QueuedBugBashItemLeaseDuration = 2 * 60 * 1000;
+
+/**
+ * Severity values match the allowed values of the Microsoft.VSTS.Common.Severity field so that they can be copied as is when an item is accepted.
+ * Other fields get them through the value map of the bug bash.
+ */
+export const BugBashItemSeverities = ["1 - Critical", "2 - High", "3 - Medium", "4 - Low"];
+
+export const BugBashItemPriorities = ["1", "2", "3", "4"];
+
+/**
+ * Pill colors of the severity and priority values, from the most to the least urgent
+ */
+export const BugBashItemTriageColors: IColor[] = [
+    { red: 218, green: 10, blue: 0 },
+    { red: 247, green: 99, blue: 12 },
+    { red: 255, green: 185, blue: 0 },
+    { red: 200, green: 200, blue: 200 }
+];
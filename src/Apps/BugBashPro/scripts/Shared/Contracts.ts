@@ -13,6 +13,86 @@ export interface IBugBash {
     defaultTeam?: string;
     acceptTemplateTeam?: string;
     acceptTemplateId?: string;
+    itemFields?: string[];
+    scoring?: IBugBashScoring;
+    recurrence?: IBugBashRecurrence;
+    /**
+     * Set when an owner closes the bug bash before its end time. A bug bash is also closed once its end time has passed.
+     */
+    closed?: boolean;
+    /**
+     * Archived bug bashes are hidden from the directory tabs other than the archive tab
+     */
+    archived?: boolean;
+    /**
+     * When set, submitters who are not triagers only see their own items until they are accepted
+     */
+    privateSubmissions?: boolean;
+    /**
+     * When set, the creators of items are only shown to triagers
+     */
+    hideSubmitters?: boolean;
+    /**
+     * Users who can edit or delete the bug bash. When empty, everyone is treated as an owner.
+     */
+    owners?: IdentityRef[];
+    /**
+     * Users who can accept, reject, edit or delete any item of the bug bash, in addition to the owners
+     */
+    triagers?: IdentityRef[];
+    /**
+     * Work item field which receives the severity of an item when it is accepted
+     */
+    severityField?: string;
+    /**
+     * Value written to the severity field for each of BugBashItemSeverities, for fields which do not accept those values as is
+     */
+    severityValueMap?: { [severity: string]: string };
+    /**
+     * Work item field which receives the priority of an item when it is accepted
+     */
+    priorityField?: string;
+    /**
+     * Value written to the priority field for each of BugBashItemPriorities, for fields which do not accept those values as is
+     */
+    priorityValueMap?: { [priority: string]: string };
+    /**
+     * Iteration of the work items created for accepted items. When not set, the iteration comes from the accept template.
+     */
+    acceptIteration?: BugBashAcceptIteration;
+}
+
+/**
+ * "current" uses the current sprint of the item's team and "backlog" uses its backlog iteration
+ */
+export type BugBashAcceptIteration = "template" | "current" | "backlog";
+
+export interface IBugBashRecurrence {
+    frequency: "weekly" | "monthly";
+    /**
+     * Number of weeks or months between two occurrences
+     */
+    interval: number;
+    /**
+     * Day of the month of each occurrence, only used by monthly recurrences
+     */
+    dayOfMonth?: number;
+}
+
+export interface IBugBashTemplate {
+    id?: string;
+    __etag?: number;
+    name: string;
+    projectId: string;
+    bugBash: IBugBash;
+    details: string;
+}
+
+export interface IBugBashScoring {
+    acceptedPoints: number;
+    pendingPoints: number;
+    rejectedPoints: number;
+    resolvedBonusPoints: number;
 }
 
 export interface IBugBashItem {
@@ -28,6 +108,79 @@ export interface IBugBashItem {
     rejected?: boolean;
     rejectReason?: string;
     rejectedBy?: IdentityRef;
+    rejectedDate?: Date;
+    duplicateOfId?: string;
+    fieldValues?: { [fieldRefName: string]: any };
+    attachments?: IBugBashItemAttachment[];
+    /**
+     * Ids of the users who voted for this item while it was pending
+     */
+    votedBy?: string[];
+    /**
+     * Set by triagers before accepting, one of BugBashItemSeverities
+     */
+    severity?: string;
+    /**
+     * Set by triagers before accepting, one of BugBashItemPriorities
+     */
+    priority?: string;
+    /**
+     * The submission as it was before accepting, used to restore the item when the accept is undone
+     */
+    acceptedSnapshot?: IBugBashItemSnapshot;
+}
+
+export interface IBugBashItemLocalDraft {
+    bugBashItem: IBugBashItem;
+    comment?: string;
+}
+
+/**
+ * A submission whose create failed, kept in local storage and retried until it is synced
+ */
+export interface IQueuedBugBashItem {
+    queueId: string;
+    bugBashItem: IBugBashItem;
+    comment?: string;
+    commentMentions?: IdentityRef[];
+    queuedDate: Date;
+    error: string;
+    /**
+     * Set while a tab submits the item, so that other tabs skip it. A lease which is older than QueuedBugBashItemLeaseDuration belongs to a tab which was closed mid-submit.
+     */
+    leaseDate?: Date;
+    /**
+     * Set when the item can not be submitted by retrying, e.g. because it was rejected or the bug bash closed. Failed items stay in the queue until they are discarded.
+     */
+    failed?: boolean;
+}
+
+export interface IBugBashItemSnapshot {
+    title: string;
+    description?: string;
+    teamId: string;
+    fieldValues?: { [fieldRefName: string]: any };
+    attachments?: IBugBashItemAttachment[];
+    severity?: string;
+    priority?: string;
+    acceptedBy: IdentityRef;
+    acceptedDate: Date;
+    /**
+     * False when the item was accepted into an existing work item, which is never closed or deleted on undo
+     */
+    createdWorkItem: boolean;
+}
+
+/**
+ * What happens to the work item of an accepted item when the accept is undone
+ */
+export type BugBashItemUnacceptWorkItemAction = "keep" | "close" | "delete";
+
+export interface IBugBashItemAttachment {
+    id: string;
+    url: string;
+    fileName: string;
+    size: number;
 }
 
 export interface IBugBashItemComment {
@@ -36,6 +189,28 @@ export interface IBugBashItemComment {
     content: string;
     createdDate: Date;
     createdBy: IdentityRef;
+    /**
+     * Id of the top level comment of the thread this comment replies to
+     */
+    parentId?: string;
+    /**
+     * Set when the comment has been edited after it was posted
+     */
+    modifiedDate?: Date;
+    mentions?: IdentityRef[];
+    /**
+     * Set when the author deleted a top level comment which has replies. The comment is kept without its content so that the replies stay in their thread.
+     */
+    deleted?: boolean;
+}
+
+export interface IBugBashItemMention {
+    id?: string;
+    __etag?: number;
+    bugBashItemId: string;
+    commentId: string;
+    mentionedBy: IdentityRef;
+    createdDate: Date;
 }
 
 export interface ILongText {
@@ -57,4 +232,13 @@ export interface IUserSetting {
 
 export interface IProjectSetting {
     gitMediaRepo: string;
+    /**
+     * Branch to push media to. The default branch of the repo is used when it is not set
+     */
+    gitMediaBranch?: string;
+    /**
+     * Folder to push media to. "{bugBashId}" is replaced with the id of the bug bash
+     */
+    gitMediaFolder?: string;
+    createGitMediaBranch?: boolean;
 }
@@ -1,7 +1,14 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { IFilterState } from "azure-devops-ui/Utilities/Filter";
 import { defaultDateComparer } from "Common/Utilities/Date";
+import { getCurrentUser, isCurrentUser } from "Common/Utilities/Identity";
+import * as addMonths from "date-fns/add_months";
+import * as addWeeks from "date-fns/add_weeks";
+import * as getDaysInMonth from "date-fns/get_days_in_month";
+import * as setDate from "date-fns/set_date";
 
-import { IBugBash, IBugBashItem, ISortState } from "./Contracts";
+import { DefaultBugBashScoring } from "./Constants";
+import { IBugBash, IBugBashItem, IBugBashRecurrence, IBugBashScoring, ISortState } from "./Contracts";
 
 export function applyFilterAndSort<T>(
     items: T[],
@@ -27,6 +34,10 @@ export function isBugBashCompleted(bugBash: IBugBash, currentTime: Date): boolea
     return endTime != null && defaultDateComparer(endTime, currentTime) < 0;
 }
 
+export function isBugBashClosed(bugBash: IBugBash, currentTime: Date): boolean {
+    return !!bugBash.closed || isBugBashCompleted(bugBash, currentTime);
+}
+
 export function isBugBashScheduled(bugBash: IBugBash, currentTime: Date): boolean {
     const startTime = bugBash.startTime;
     return startTime != null && defaultDateComparer(startTime, currentTime) > 0;
@@ -60,6 +71,133 @@ export function isBugBashItemAccepted(bugBashItem: IBugBashItem): boolean {
     return workItemId != null && workItemId > 0;
 }
 
+export function isBugBashOwner(bugBash: IBugBash): boolean {
+    const { owners } = bugBash;
+    return !owners || owners.length === 0 || owners.some(isCurrentUser);
+}
+
+export function isBugBashTriager(bugBash: IBugBash): boolean {
+    const { triagers } = bugBash;
+    return isBugBashOwner(bugBash) || (!!triagers && triagers.some(isCurrentUser));
+}
+
+/**
+ * Triagers can edit any item, while plain submitters can only edit their own items which are not accepted yet, as long as the bug bash is not closed
+ */
+export function canEditBugBashItem(bugBash: IBugBash, bugBashItem: IBugBashItem): boolean {
+    return (
+        isBugBashTriager(bugBash) ||
+        (isCurrentUser(bugBashItem.createdBy) && !isBugBashItemAccepted(bugBashItem) && !isBugBashClosed(bugBash, new Date()))
+    );
+}
+
+/**
+ * Filters out the items which the current user should not see when the bug bash accepts private submissions
+ */
+export function getVisibleBugBashItems(bugBash: IBugBash, bugBashItems: IBugBashItem[]): IBugBashItem[] {
+    if (!bugBash.privateSubmissions || isBugBashTriager(bugBash)) {
+        return bugBashItems;
+    }
+    return bugBashItems.filter((b) => isBugBashItemAccepted(b) || isCurrentUser(b.createdBy));
+}
+
+export function canSeeBugBashItemSubmitters(bugBash: IBugBash): boolean {
+    return !bugBash.hideSubmitters || isBugBashTriager(bugBash);
+}
+
+export function getBugBashItemVoteCount(bugBashItem: IBugBashItem): number {
+    return bugBashItem.votedBy ? bugBashItem.votedBy.length : 0;
+}
+
+export function hasVotedForBugBashItem(bugBashItem: IBugBashItem): boolean {
+    const userId = getCurrentUser().id;
+    return !!bugBashItem.votedBy && bugBashItem.votedBy.some((id) => equals(id, userId, true));
+}
+
+/**
+ * Anyone but the submitter can vote for a pending item, as long as the bug bash is not closed
+ */
+export function canVoteForBugBashItem(bugBash: IBugBash, bugBashItem: IBugBashItem): boolean {
+    return isBugBashItemPending(bugBashItem) && !isCurrentUser(bugBashItem.createdBy) && !isBugBashClosed(bugBash, new Date());
+}
+
 export function isWorkItemFieldName(field: string) {
     return field.indexOf("System.") === 0;
 }
+
+const MaxOccurrenceLookup = 1000;
+
+export function getBugBashOccurrence(bugBash: IBugBash, occurrence: number): IBugBash | undefined {
+    const { startTime, endTime, recurrence } = bugBash;
+    if (!startTime || !endTime || !recurrence) {
+        return undefined;
+    }
+
+    const occurrenceStartTime = getOccurrenceStartTime(startTime, recurrence, occurrence);
+    const occurrenceBugBash: IBugBash = {
+        ...bugBash,
+        startTime: occurrenceStartTime,
+        endTime: new Date(occurrenceStartTime.getTime() + (endTime.getTime() - startTime.getTime()))
+    };
+    delete occurrenceBugBash.id;
+    delete occurrenceBugBash.__etag;
+    delete occurrenceBugBash.closed;
+    delete occurrenceBugBash.archived;
+
+    return occurrenceBugBash;
+}
+
+/**
+ * Returns the first occurrence after the given recurring bug bash which has not finished yet
+ */
+export function getNextBugBashOccurrence(bugBash: IBugBash, currentTime: Date): IBugBash | undefined {
+    for (let occurrence = 1; occurrence <= MaxOccurrenceLookup; occurrence++) {
+        const occurrenceBugBash = getBugBashOccurrence(bugBash, occurrence);
+        if (!occurrenceBugBash) {
+            return undefined;
+        } else if (!isBugBashCompleted(occurrenceBugBash, currentTime)) {
+            return occurrenceBugBash;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the occurrences after the given recurring bug bash which have not started yet
+ */
+export function getUpcomingBugBashOccurrences(bugBash: IBugBash, currentTime: Date, count: number): IBugBash[] {
+    const occurrences: IBugBash[] = [];
+    for (let occurrence = 1; occurrence <= MaxOccurrenceLookup && occurrences.length < count; occurrence++) {
+        const occurrenceBugBash = getBugBashOccurrence(bugBash, occurrence);
+        if (!occurrenceBugBash) {
+            break;
+        } else if (isBugBashScheduled(occurrenceBugBash, currentTime)) {
+            occurrences.push(occurrenceBugBash);
+        }
+    }
+
+    return occurrences;
+}
+
+function getOccurrenceStartTime(startTime: Date, recurrence: IBugBashRecurrence, occurrence: number): Date {
+    const interval = Math.max(recurrence.interval || 1, 1) * occurrence;
+    if (recurrence.frequency === "monthly") {
+        const date = addMonths(startTime, interval);
+        // clamp the day for shorter months, e.g. day 31 in April becomes April 30
+        return recurrence.dayOfMonth ? setDate(date, Math.min(recurrence.dayOfMonth, getDaysInMonth(date))) : date;
+    } else {
+        return addWeeks(startTime, interval);
+    }
+}
+
+/**
+ * Returns the value written to the severity or priority field of the bug bash, values without an entry in the map are written as is
+ */
+export function getMappedTriageValue(value: string, valueMap: { [value: string]: string } | undefined): string {
+    return (valueMap && valueMap[value]) || value;
+}
+
+export function getBugBashScoring(bugBash: IBugBash): IBugBashScoring {
+    return { ...DefaultBugBashScoring, ...bugBash.scoring };
+}
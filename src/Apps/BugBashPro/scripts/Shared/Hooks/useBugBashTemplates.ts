@@ -0,0 +1,38 @@
+import { useEffect } from "react";
+
+import { IBugBashTemplate } from "BugBashPro/Shared/Contracts";
+import { BugBashTemplatesActions } from "BugBashPro/Shared/Redux/BugBashTemplates/Actions";
+import { IBugBashTemplatesAwareState } from "BugBashPro/Shared/Redux/BugBashTemplates/Contracts";
+import { getBugBashTemplates, getBugBashTemplatesStatus } from "BugBashPro/Shared/Redux/BugBashTemplates/Selectors";
+import { LoadStatus } from "Common/Contracts";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+export function useBugBashTemplates(): IUseBugBashTemplatesMappedState {
+    const { templates, status } = useMappedState(mapState);
+    const { loadTemplates } = useActionCreators(Actions);
+
+    useEffect(() => {
+        if (status === LoadStatus.NotLoaded) {
+            loadTemplates();
+        }
+    }, []);
+
+    return { templates, status };
+}
+
+function mapState(state: IBugBashTemplatesAwareState): IUseBugBashTemplatesMappedState {
+    return {
+        templates: getBugBashTemplates(state),
+        status: getBugBashTemplatesStatus(state)
+    };
+}
+
+interface IUseBugBashTemplatesMappedState {
+    templates: IBugBashTemplate[] | undefined;
+    status: LoadStatus;
+}
+
+const Actions = {
+    loadTemplates: BugBashTemplatesActions.templatesLoadRequested
+};
@@ -3,7 +3,7 @@ import { useCallback, useEffect } from "react";
 import { IBugBashItemComment } from "BugBashPro/Shared/Contracts";
 import { CommentActions } from "BugBashPro/Shared/Redux/Comments/Actions";
 import { ICommentsAwareState } from "BugBashPro/Shared/Redux/Comments/Contracts";
-import { getComments, getCommentsStatus } from "BugBashPro/Shared/Redux/Comments/Selectors";
+import { getComments, getCommentsError, getCommentsStatus } from "BugBashPro/Shared/Redux/Comments/Selectors";
 import { LoadStatus } from "Common/Contracts";
 import { useActionCreators } from "Common/Hooks/useActionCreators";
 import { useMappedState } from "Common/Hooks/useMappedState";
@@ -13,12 +13,13 @@ export function useComments(bugBashItemId: string): IUseCommentsMappedState {
         (state: ICommentsAwareState): IUseCommentsMappedState => {
             return {
                 comments: getComments(state, bugBashItemId),
-                status: getCommentsStatus(state, bugBashItemId)
+                status: getCommentsStatus(state, bugBashItemId),
+                error: getCommentsError(state, bugBashItemId)
             };
         },
         [bugBashItemId]
     );
-    const { comments, status } = useMappedState(mapState);
+    const { comments, status, error } = useMappedState(mapState);
     const { requestCommentsLoad } = useActionCreators(Actions);
 
     useEffect(() => {
@@ -27,12 +28,13 @@ export function useComments(bugBashItemId: string): IUseCommentsMappedState {
         }
     }, [bugBashItemId]);
 
-    return { comments, status };
+    return { comments, status, error };
 }
 
 interface IUseCommentsMappedState {
     comments: IBugBashItemComment[] | undefined;
     status: LoadStatus;
+    error?: string;
 }
 
 const Actions = {
@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+
+import { IBugBashItemMention } from "BugBashPro/Shared/Contracts";
+import { MentionActions } from "BugBashPro/Shared/Redux/Mentions/Actions";
+import { IMentionsAwareState } from "BugBashPro/Shared/Redux/Mentions/Contracts";
+import { getMentionedBugBashItemIdsMap, getMentions, getMentionsStatus } from "BugBashPro/Shared/Redux/Mentions/Selectors";
+import { LoadStatus } from "Common/Contracts";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+export function useMentions(): IUseMentionsMappedState {
+    const { mentions, mentionedBugBashItemIdsMap, status } = useMappedState(mapState);
+    const { loadMentions } = useActionCreators(Actions);
+
+    useEffect(() => {
+        if (status === LoadStatus.NotLoaded) {
+            loadMentions();
+        }
+    }, []);
+
+    return { mentions, mentionedBugBashItemIdsMap, status };
+}
+
+function mapState(state: IMentionsAwareState): IUseMentionsMappedState {
+    return {
+        mentions: getMentions(state),
+        mentionedBugBashItemIdsMap: getMentionedBugBashItemIdsMap(state),
+        status: getMentionsStatus(state)
+    };
+}
+
+interface IUseMentionsMappedState {
+    mentions: IBugBashItemMention[] | undefined;
+    mentionedBugBashItemIdsMap: { [bugBashItemId: string]: boolean };
+    status: LoadStatus;
+}
+
+const Actions = {
+    loadMentions: MentionActions.mentionsLoadRequested
+};
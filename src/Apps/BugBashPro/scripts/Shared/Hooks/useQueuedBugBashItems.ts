@@ -0,0 +1,20 @@
+import { IQueuedBugBashItem } from "BugBashPro/Shared/Contracts";
+import { IBugBashItemsAwareState } from "BugBashPro/Shared/Redux/BugBashItems/Contracts";
+import { getQueuedBugBashItems } from "BugBashPro/Shared/Redux/BugBashItems/Selectors";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+export function useQueuedBugBashItems(): IUseQueuedBugBashItemsMappedState {
+    const { queuedBugBashItems } = useMappedState(mapState);
+
+    return { queuedBugBashItems };
+}
+
+function mapState(state: IBugBashItemsAwareState): IUseQueuedBugBashItemsMappedState {
+    return {
+        queuedBugBashItems: getQueuedBugBashItems(state)
+    };
+}
+
+interface IUseQueuedBugBashItemsMappedState {
+    queuedBugBashItems: IQueuedBugBashItem[];
+}
@@ -23,6 +23,10 @@ export function navigateToBugBashItemsBoard(bugBashId: string) {
     setHash({ view: AppView.ACTION_BOARD, id: bugBashId });
 }
 
+export function navigateToBugBashLeaderboard(bugBashId: string) {
+    setHash({ view: AppView.ACTION_LEADERBOARD, id: bugBashId });
+}
+
 export async function getBugBashDirectoryUrlAsync(): Promise<string> {
     const hubUrl = await getContributionHubUrlAsync();
     return `${hubUrl}#view=${AppView.ACTION_ALL}`;
@@ -48,6 +52,11 @@ export async function getBugBashItemsBoardUrlAsync(bugBashId: string): Promise<s
     return `${hubUrl}#view=${AppView.ACTION_BOARD}&id=${bugBashId}`;
 }
 
+export async function getBugBashLeaderboardUrlAsync(bugBashId: string): Promise<string> {
+    const hubUrl = await getContributionHubUrlAsync();
+    return `${hubUrl}#view=${AppView.ACTION_LEADERBOARD}&id=${bugBashId}`;
+}
+
 export async function getBugBashItemUrlAsync(bugBashId: string, bugBashItemId: string): Promise<string> {
     const hubUrl = await getContributionHubUrlAsync();
     return `${hubUrl}#view=${AppView.ACTION_LIST}&id=${bugBashId}&bugBashItemId=${bugBashItemId}`;
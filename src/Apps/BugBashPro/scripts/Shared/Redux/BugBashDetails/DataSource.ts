@@ -1,5 +1,5 @@
 import { ILongText } from "BugBashPro/Shared/Contracts";
-import { addOrUpdateDocument, readDocument } from "Common/ServiceWrappers/ExtensionDataManager";
+import { addOrUpdateDocument, deleteDocument, readDocument } from "Common/ServiceWrappers/ExtensionDataManager";
 import { memoizePromise } from "Common/Utilities/Memoize";
 
 export const fetchBugBashDetailsAsync = memoizePromise(
@@ -23,6 +23,14 @@ export const addOrUpdateBugBashDetailsAsync = memoizePromise(
     (details: ILongText) => `addOrUpdateBugBashDetails_${details.id}`
 );
 
+export async function deleteBugBashDetailsAsync(bugBashId: string): Promise<void> {
+    try {
+        await deleteDocument(getCollectionKey(), bugBashId, false);
+    } catch (e) {
+        throw new Error(`Cannot delete bug bash details. Reason: ${e.message}`);
+    }
+}
+
 function getCollectionKey(): string {
     return "longtexts";
 }
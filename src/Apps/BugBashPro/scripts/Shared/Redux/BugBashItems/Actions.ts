@@ -1,5 +1,6 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
-import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { BugBashItemUnacceptWorkItemAction, IBugBash, IBugBashItem, IQueuedBugBashItem } from "BugBashPro/Shared/Contracts";
 import { ActionsUnion, createAction } from "Common/Redux";
 
 export const BugBashItemsActions = {
@@ -10,6 +11,14 @@ export const BugBashItemsActions = {
     bugBashItemsLoaded: (bugBashItems: IBugBashItem[], resolvedWorkItems: { [id: number]: WorkItem }) =>
         createAction(BugBashItemsActionTypes.BugBashItemsLoaded, { bugBashItems, resolvedWorkItems }),
 
+    bugBashItemsRefreshRequested: (bugBashId: string) => createAction(BugBashItemsActionTypes.BugBashItemsRefreshRequested, bugBashId),
+    bugBashItemsRefreshed: (
+        bugBashItems: IBugBashItem[],
+        removedBugBashItemIds: string[],
+        newBugBashItemIds: string[],
+        resolvedWorkItems: { [id: number]: WorkItem }
+    ) => createAction(BugBashItemsActionTypes.BugBashItemsRefreshed, { bugBashItems, removedBugBashItemIds, newBugBashItemIds, resolvedWorkItems }),
+
     bugBashItemLoadRequested: (bugBashId: string, bugBashItemId: string) =>
         createAction(BugBashItemsActionTypes.BugBashItemLoadRequested, { bugBashId, bugBashItemId }),
     beginLoadBugBashItem: (bugBashItemId: string) => createAction(BugBashItemsActionTypes.BeginLoadBugBashItem, bugBashItemId),
@@ -25,12 +34,20 @@ export const BugBashItemsActions = {
     bugBashItemCreateFailed: (bugBashItem: IBugBashItem, error: string) =>
         createAction(BugBashItemsActionTypes.BugBashItemCreateFailed, { bugBashItem, error }),
 
+    bugBashItemQueueRequested: (bugBashItem: IBugBashItem, comment: string | undefined, commentMentions: IdentityRef[] | undefined, error: string) =>
+        createAction(BugBashItemsActionTypes.BugBashItemQueueRequested, { bugBashItem, comment, commentMentions, error }),
+    queuedBugBashItemsLoadRequested: (bugBashId: string) => createAction(BugBashItemsActionTypes.QueuedBugBashItemsLoadRequested, bugBashId),
+    queuedBugBashItemsLoaded: (queuedBugBashItems: IQueuedBugBashItem[]) =>
+        createAction(BugBashItemsActionTypes.QueuedBugBashItemsLoaded, queuedBugBashItems),
+    queuedBugBashItemsSyncRequested: (bugBashId: string) => createAction(BugBashItemsActionTypes.QueuedBugBashItemsSyncRequested, bugBashId),
+    queuedBugBashItemsDiscardRequested: (bugBashId: string) => createAction(BugBashItemsActionTypes.QueuedBugBashItemsDiscardRequested, bugBashId),
+
     bugBashItemUpdateRequested: (bugBashItem: IBugBashItem) => createAction(BugBashItemsActionTypes.BugBashItemUpdateRequested, bugBashItem),
     beginUpdateBugBashItem: (bugBashItem: IBugBashItem) => createAction(BugBashItemsActionTypes.BeginUpdateBugBashItem, bugBashItem),
     bugBashItemUpdated: (bugBashItem: IBugBashItem, resolvedWorkItem: WorkItem | undefined) =>
         createAction(BugBashItemsActionTypes.BugBashItemUpdated, { bugBashItem, resolvedWorkItem }),
-    bugBashItemUpdateFailed: (bugBashItem: IBugBashItem, error: string) =>
-        createAction(BugBashItemsActionTypes.BugBashItemUpdateFailed, { bugBashItem, error }),
+    bugBashItemUpdateFailed: (bugBashItem: IBugBashItem, error: string, isConflict?: boolean) =>
+        createAction(BugBashItemsActionTypes.BugBashItemUpdateFailed, { bugBashItem, error, isConflict }),
 
     bugBashItemDeleteRequested: (bugBashId: string, bugBashItemId: string) =>
         createAction(BugBashItemsActionTypes.BugBashItemDeleteRequested, { bugBashId, bugBashItemId }),
@@ -40,7 +57,15 @@ export const BugBashItemsActions = {
         createAction(BugBashItemsActionTypes.BugBashItemDeleteFailed, { bugBashItemId, error }),
 
     bugBashItemAcceptRequested: (bugBash: IBugBash, bugBashItemId: string, acceptingDuringCreation: boolean) =>
-        createAction(BugBashItemsActionTypes.BugBashItemAcceptRequested, { bugBash, bugBashItemId, acceptingDuringCreation })
+        createAction(BugBashItemsActionTypes.BugBashItemAcceptRequested, { bugBash, bugBashItemId, acceptingDuringCreation }),
+    bugBashItemAcceptAsExistingRequested: (bugBash: IBugBash, bugBashItemId: string, workItemId: number, addLink: boolean) =>
+        createAction(BugBashItemsActionTypes.BugBashItemAcceptAsExistingRequested, { bugBash, bugBashItemId, workItemId, addLink }),
+
+    bugBashItemUnacceptRequested: (bugBashItemId: string, workItemAction: BugBashItemUnacceptWorkItemAction) =>
+        createAction(BugBashItemsActionTypes.BugBashItemUnacceptRequested, { bugBashItemId, workItemAction }),
+
+    bugBashItemVoteToggleRequested: (bugBashId: string, bugBashItemId: string) =>
+        createAction(BugBashItemsActionTypes.BugBashItemVoteToggleRequested, { bugBashId, bugBashItemId })
 };
 
 export const enum BugBashItemsActionTypes {
@@ -50,6 +75,9 @@ export const enum BugBashItemsActionTypes {
     BeginLoadBugBashItems = "BugBashItemsAction/BeginLoadBugBashItems",
     BugBashItemsLoaded = "BugBashItemsAction/BugBashItemsLoaded",
 
+    BugBashItemsRefreshRequested = "BugBashItemsAction/BugBashItemsRefreshRequested",
+    BugBashItemsRefreshed = "BugBashItemsAction/BugBashItemsRefreshed",
+
     BugBashItemLoadRequested = "BugBashItemsAction/BugBashItemLoadRequested",
     BeginLoadBugBashItem = "BugBashItemsAction/BeginLoadBugBashItem",
     BugBashItemLoaded = "BugBashItemsAction/BugBashItemLoaded",
@@ -60,6 +88,12 @@ export const enum BugBashItemsActionTypes {
     BugBashItemCreated = "BugBashItemsAction/BugBashItemCreated",
     BugBashItemCreateFailed = "BugBashItemsAction/BugBashItemCreateFailed",
 
+    BugBashItemQueueRequested = "BugBashItemsAction/BugBashItemQueueRequested",
+    QueuedBugBashItemsLoadRequested = "BugBashItemsAction/QueuedBugBashItemsLoadRequested",
+    QueuedBugBashItemsLoaded = "BugBashItemsAction/QueuedBugBashItemsLoaded",
+    QueuedBugBashItemsSyncRequested = "BugBashItemsAction/QueuedBugBashItemsSyncRequested",
+    QueuedBugBashItemsDiscardRequested = "BugBashItemsAction/QueuedBugBashItemsDiscardRequested",
+
     BugBashItemUpdateRequested = "BugBashItemsAction/BugBashItemUpdateRequested",
     BeginUpdateBugBashItem = "BugBashItemsAction/BeginUpdateBugBashItem",
     BugBashItemUpdated = "BugBashItemsAction/BugBashItemUpdated",
@@ -70,7 +104,11 @@ export const enum BugBashItemsActionTypes {
     BugBashItemDeleted = "BugBashItemsAction/BugBashItemDeleted",
     BugBashItemDeleteFailed = "BugBashItemsAction/BugBashItemDeleteFailed",
 
-    BugBashItemAcceptRequested = "BugBashItemsAction/BugBashItemAcceptRequested"
+    BugBashItemAcceptRequested = "BugBashItemsAction/BugBashItemAcceptRequested",
+    BugBashItemAcceptAsExistingRequested = "BugBashItemsAction/BugBashItemAcceptAsExistingRequested",
+    BugBashItemUnacceptRequested = "BugBashItemsAction/BugBashItemUnacceptRequested",
+
+    BugBashItemVoteToggleRequested = "BugBashItemsAction/BugBashItemVoteToggleRequested"
 }
 
 export type BugBashItemsActions = ActionsUnion<typeof BugBashItemsActions>;
@@ -1,5 +1,5 @@
 import { WorkItem } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
-import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { IBugBashItem, IQueuedBugBashItem } from "BugBashPro/Shared/Contracts";
 import { LoadStatus } from "Common/Contracts";
 
 export interface IBugBashItemsAwareState {
@@ -11,6 +11,7 @@ export interface IBugBashItemsState {
     bugBashItems?: IBugBashItem[];
     bugBashItemMap?: { [id: string]: IBugBashItemStateModel };
     resolvedWorkItemsMap?: { [id: number]: WorkItem };
+    queuedBugBashItems?: IQueuedBugBashItem[];
 }
 
 export interface IBugBashItemStateModel {
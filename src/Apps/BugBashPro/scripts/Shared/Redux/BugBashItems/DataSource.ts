@@ -2,10 +2,20 @@ import { getClient } from "azure-devops-extension-api/Common/Client";
 import { IdentityRef, JsonPatchDocument, JsonPatchOperation, Operation } from "azure-devops-extension-api/WebApi/WebApi";
 import { WorkItem, WorkItemErrorPolicy, WorkItemTrackingRestClient } from "azure-devops-extension-api/WorkItemTracking";
 import { isGuid } from "azure-devops-ui/Core/Util/String";
-import { IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { QueuedBugBashItemLeaseDuration, StateChangeDateFieldRefName } from "BugBashPro/Shared/Constants";
+import { IBugBashItem, IBugBashItemAttachment, IBugBashItemLocalDraft, IQueuedBugBashItem } from "BugBashPro/Shared/Contracts";
 import { CoreFieldRefNames } from "Common/Constants";
-import { createDocument, deleteDocument, readDocument, readDocuments, updateDocument } from "Common/ServiceWrappers/ExtensionDataManager";
+import {
+    createDocument,
+    deleteDocument,
+    isDocumentConflictError,
+    isTransientError,
+    readDocument,
+    readDocuments,
+    updateDocument
+} from "Common/ServiceWrappers/ExtensionDataManager";
 import { parseUniquefiedIdentityName } from "Common/Utilities/Identity";
+import { readLocalSetting, removeLocalSetting, writeLocalSetting } from "Common/Utilities/LocalStorageService";
 import { memoizePromise } from "Common/Utilities/Memoize";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
 import { getCurrentProjectId } from "Common/Utilities/WebContext";
@@ -42,9 +52,11 @@ export const updateBugBashItemAsync = memoizePromise(
             preProcessBugBashItem(updatedBugBashItem);
             return updatedBugBashItem;
         } catch (e) {
-            throw new Error(
-                "This bug bash item has been modified by some one else. Please refresh the item to get the latest version and try updating it again."
-            );
+            if (isDocumentConflictError(e)) {
+                e.message = "This bug bash item has been modified by some one else since you opened it.";
+                throw e;
+            }
+            throw new Error(`Cannot update bug bash item. Reason: ${e.message}`);
         }
     },
     (bugBashId: string, bugBashItem: IBugBashItem) => `updateBugBashItem_${bugBashId}_${bugBashItem.id}`
@@ -71,23 +83,106 @@ export async function createBugBashItemAsync(bugBashId: string, bugBashItem: IBu
         preProcessBugBashItem(createdBugBashItem);
         return createdBugBashItem;
     } catch (e) {
+        if (isTransientError(e)) {
+            e.message = `Cannot create bug bash item. Reason: ${e.message}`;
+            throw e;
+        }
         throw new Error(`Cannot create bug bash item. Reason: ${e.message}`);
     }
 }
 
-export async function createWorkItemAsync(workItemType: string, fieldValues: { [fieldRefName: string]: string }): Promise<WorkItem> {
-    const patchDocument: JsonPatchDocument & JsonPatchOperation[] = [];
-    for (const fieldRefName of Object.keys(fieldValues)) {
+export async function uploadAttachmentAsync(file: File): Promise<IBugBashItemAttachment> {
+    try {
+        const client = await getClient(WorkItemTrackingRestClient);
+        const projectId = await getCurrentProjectId();
+        const attachmentReference = await client.createAttachment(file, projectId, file.name);
+        return {
+            id: attachmentReference.id,
+            url: attachmentReference.url,
+            fileName: file.name,
+            size: file.size
+        };
+    } catch (e) {
+        throw new Error(`Cannot upload "${file.name}". Reason: ${e.message}`);
+    }
+}
+
+export async function createWorkItemAsync(
+    workItemType: string,
+    fieldValues: { [fieldRefName: string]: string },
+    attachments?: IBugBashItemAttachment[]
+): Promise<WorkItem> {
+    const patchDocument = getWorkItemPatchDocument(fieldValues, attachments);
+    const client = await getClient(WorkItemTrackingRestClient);
+    const projectId = await getCurrentProjectId();
+    return client.createWorkItem(patchDocument, projectId, workItemType);
+}
+
+export async function updateWorkItemAsync(
+    workItemId: number,
+    fieldValues: { [fieldRefName: string]: string },
+    attachments?: IBugBashItemAttachment[],
+    hyperlinkUrl?: string
+): Promise<WorkItem> {
+    const patchDocument = getWorkItemPatchDocument(fieldValues, attachments);
+    if (hyperlinkUrl) {
         patchDocument.push({
             op: Operation.Add,
-            path: `/fields/${fieldRefName}`,
-            value: fieldValues[fieldRefName]
+            path: "/relations/-",
+            value: {
+                rel: "Hyperlink",
+                url: hyperlinkUrl
+            }
         } as JsonPatchOperation);
     }
 
     const client = await getClient(WorkItemTrackingRestClient);
     const projectId = await getCurrentProjectId();
-    return client.createWorkItem(patchDocument, projectId, workItemType);
+    return client.updateWorkItem(patchDocument, workItemId, projectId);
+}
+
+/**
+ * Moves the work item into the first state of the "Removed" category, or else of the "Completed" category, of its type
+ */
+export async function closeWorkItemAsync(workItemId: number): Promise<WorkItem> {
+    const client = await getClient(WorkItemTrackingRestClient);
+    const projectId = await getCurrentProjectId();
+    const workItem = await client.getWorkItem(workItemId, projectId, [CoreFieldRefNames.WorkItemType]);
+    const workItemType: string = workItem.fields[CoreFieldRefNames.WorkItemType];
+    const states = await client.getWorkItemTypeStates(projectId, workItemType);
+    const closedState = states.find((s) => s.category === "Removed") || states.find((s) => s.category === "Completed");
+    if (!closedState) {
+        throw new Error(`Work item type "${workItemType}" does not have a closed state.`);
+    }
+
+    return updateWorkItemAsync(workItemId, { [CoreFieldRefNames.State]: closedState.name });
+}
+
+/**
+ * Moves the work item to the recycle bin, from where it can still be restored
+ */
+export async function deleteWorkItemAsync(workItemId: number): Promise<void> {
+    const client = await getClient(WorkItemTrackingRestClient);
+    const projectId = await getCurrentProjectId();
+    await client.deleteWorkItem(workItemId, projectId, false);
+}
+
+/**
+ * Finds work items of the current project by id, when the search text is a number, or else by title
+ */
+export async function searchWorkItemsAsync(searchText: string, top: number): Promise<WorkItem[]> {
+    const text = searchText.trim();
+    if (/^\d+$/.test(text)) {
+        return getWorkItemsAsync([parseInt(text, 10)]);
+    }
+
+    const client = await getClient(WorkItemTrackingRestClient);
+    const projectId = await getCurrentProjectId();
+    const wiql = `SELECT [${CoreFieldRefNames.Id}] FROM WorkItems WHERE [${CoreFieldRefNames.TeamProject}] = @project AND [${
+        CoreFieldRefNames.Title
+    }] CONTAINS '${text.replace(/'/g, "''")}' ORDER BY [${CoreFieldRefNames.ChangedDate}] DESC`;
+    const queryResult = await client.queryByWiql({ query: wiql }, projectId, undefined, false, top);
+    return queryResult.workItems && queryResult.workItems.length > 0 ? getWorkItemsAsync(queryResult.workItems.map((w) => w.id)) : [];
 }
 
 export async function getWorkItemsAsync(ids: number[]): Promise<WorkItem[]> {
@@ -107,7 +202,9 @@ export async function getWorkItemsAsync(ids: number[]): Promise<WorkItem[]> {
         CoreFieldRefNames.WorkItemType,
         CoreFieldRefNames.State,
         CoreFieldRefNames.AssignedTo,
-        CoreFieldRefNames.AreaPath
+        CoreFieldRefNames.AreaPath,
+        CoreFieldRefNames.CreatedDate,
+        StateChangeDateFieldRefName
     ];
 
     const promises = idsToFetch.map(async (witIds) =>
@@ -140,6 +237,149 @@ function filterNullWorkItems(workItems: WorkItem[], idsToFetch: number[]): WorkI
     return filteredWorkItems;
 }
 
+function getWorkItemPatchDocument(
+    fieldValues: { [fieldRefName: string]: string },
+    attachments?: IBugBashItemAttachment[]
+): JsonPatchDocument & JsonPatchOperation[] {
+    const patchDocument: JsonPatchDocument & JsonPatchOperation[] = [];
+    for (const fieldRefName of Object.keys(fieldValues)) {
+        patchDocument.push({
+            op: Operation.Add,
+            path: `/fields/${fieldRefName}`,
+            value: fieldValues[fieldRefName]
+        } as JsonPatchOperation);
+    }
+    for (const attachment of attachments || []) {
+        patchDocument.push({
+            op: Operation.Add,
+            path: "/relations/-",
+            value: {
+                rel: "AttachedFile",
+                url: attachment.url,
+                attributes: {
+                    name: attachment.fileName
+                }
+            }
+        } as JsonPatchOperation);
+    }
+
+    return patchDocument;
+}
+
+/**
+ * Unsaved changes of an open item are kept in local storage, so that they can be restored if the page is closed or reloaded
+ */
+export function readBugBashItemDraft(bugBashId: string, bugBashItemId: string | undefined): IBugBashItemLocalDraft | undefined {
+    const value = readLocalSetting(getDraftKey(bugBashId, bugBashItemId));
+    if (!value) {
+        return undefined;
+    }
+
+    try {
+        const localDraft: IBugBashItemLocalDraft = JSON.parse(value);
+        preProcessBugBashItem(localDraft.bugBashItem);
+        return localDraft;
+    } catch {
+        return undefined;
+    }
+}
+
+export function writeBugBashItemDraft(bugBashId: string, bugBashItemId: string | undefined, localDraft: IBugBashItemLocalDraft) {
+    writeLocalSetting(getDraftKey(bugBashId, bugBashItemId), JSON.stringify(localDraft));
+}
+
+export function removeBugBashItemDraft(bugBashId: string, bugBashItemId: string | undefined) {
+    removeLocalSetting(getDraftKey(bugBashId, bugBashItemId));
+}
+
+function getDraftKey(bugBashId: string, bugBashItemId: string | undefined): string {
+    return `bugbashitemdraft_${bugBashId}_${bugBashItemId || "new"}`;
+}
+
+/**
+ * Queued items live in local storage, so that they survive a reload while the connection is down
+ */
+export function readQueuedBugBashItems(bugBashId: string): IQueuedBugBashItem[] {
+    const value = readLocalSetting(getQueueKey(bugBashId));
+    if (!value) {
+        return [];
+    }
+
+    try {
+        const queuedBugBashItems: IQueuedBugBashItem[] = JSON.parse(value);
+        for (const queuedBugBashItem of queuedBugBashItems) {
+            queuedBugBashItem.queuedDate = new Date(queuedBugBashItem.queuedDate);
+            if (queuedBugBashItem.leaseDate) {
+                queuedBugBashItem.leaseDate = new Date(queuedBugBashItem.leaseDate);
+            }
+            preProcessBugBashItem(queuedBugBashItem.bugBashItem);
+        }
+        return queuedBugBashItems;
+    } catch {
+        return [];
+    }
+}
+
+export function enqueueBugBashItem(bugBashId: string, queuedBugBashItem: IQueuedBugBashItem) {
+    writeQueuedBugBashItems(bugBashId, [...readQueuedBugBashItems(bugBashId), queuedBugBashItem]);
+}
+
+export function dequeueBugBashItem(bugBashId: string, queueId: string) {
+    writeQueuedBugBashItems(
+        bugBashId,
+        readQueuedBugBashItems(bugBashId).filter((q) => q.queueId !== queueId)
+    );
+}
+
+/**
+ * Marks a queued item as being submitted by this tab. Returns false when the item is gone, failed or is being submitted by another tab.
+ */
+export function leaseQueuedBugBashItem(bugBashId: string, queueId: string, currentTime: Date): boolean {
+    const queuedBugBashItems = readQueuedBugBashItems(bugBashId);
+    const queuedBugBashItem = queuedBugBashItems.find((q) => q.queueId === queueId);
+    if (
+        !queuedBugBashItem ||
+        queuedBugBashItem.failed ||
+        (queuedBugBashItem.leaseDate && currentTime.getTime() - queuedBugBashItem.leaseDate.getTime() < QueuedBugBashItemLeaseDuration)
+    ) {
+        return false;
+    }
+
+    queuedBugBashItem.leaseDate = currentTime;
+    writeQueuedBugBashItems(bugBashId, queuedBugBashItems);
+    return true;
+}
+
+/**
+ * Gives a queued item which could not be submitted back to the queue
+ */
+export function releaseQueuedBugBashItem(bugBashId: string, queueId: string, error: string, failed: boolean) {
+    const queuedBugBashItems = readQueuedBugBashItems(bugBashId);
+    const queuedBugBashItem = queuedBugBashItems.find((q) => q.queueId === queueId);
+    if (queuedBugBashItem) {
+        delete queuedBugBashItem.leaseDate;
+        queuedBugBashItem.error = error;
+        queuedBugBashItem.failed = failed;
+        writeQueuedBugBashItems(bugBashId, queuedBugBashItems);
+    }
+}
+
+export function discardQueuedBugBashItems(bugBashId: string) {
+    removeLocalSetting(getQueueKey(bugBashId));
+}
+
+function writeQueuedBugBashItems(bugBashId: string, queuedBugBashItems: IQueuedBugBashItem[]) {
+    if (queuedBugBashItems.length > 0) {
+        writeLocalSetting(getQueueKey(bugBashId), JSON.stringify(queuedBugBashItems));
+    } else {
+        removeLocalSetting(getQueueKey(bugBashId));
+    }
+}
+
+function getQueueKey(bugBashId: string): string {
+    return `bugbashitemqueue_${bugBashId}`;
+}
+
 function getCollectionKey(bugBashId: string): string {
     return isGuid(bugBashId) ? `Items_${bugBashId}` : `BugBashCollection_${bugBashId}`;
 }
@@ -153,6 +393,18 @@ function preProcessBugBashItem(bugBashItem: IBugBashItem) {
         }
     }
 
+    if (bugBashItem.acceptedSnapshot && typeof bugBashItem.acceptedSnapshot.acceptedDate === "string") {
+        bugBashItem.acceptedSnapshot.acceptedDate = new Date(bugBashItem.acceptedSnapshot.acceptedDate);
+    }
+
+    if (typeof bugBashItem.rejectedDate === "string") {
+        if (isNullOrWhiteSpace(bugBashItem.rejectedDate)) {
+            bugBashItem.rejectedDate = undefined;
+        } else {
+            bugBashItem.rejectedDate = new Date(bugBashItem.rejectedDate);
+        }
+    }
+
     // back-compat -  If created by is uniquefied string, parse it into identityref object
     if (typeof bugBashItem.rejectedBy === "string") {
         if (isNullOrWhiteSpace(bugBashItem.rejectedBy)) {
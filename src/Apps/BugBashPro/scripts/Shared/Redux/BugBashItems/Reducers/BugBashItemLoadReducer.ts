@@ -1,4 +1,5 @@
 import { equals } from "azure-devops-ui/Core/Util/String";
+import { IBugBashItem } from "BugBashPro/Shared/Contracts";
 import { LoadStatus } from "Common/Contracts";
 import { resolveNullableMapKey } from "Common/Utilities/String";
 import { produce } from "immer";
@@ -43,6 +44,54 @@ export function bugBashItemLoadReducer(state: IBugBashItemsState | undefined, ac
                 break;
             }
 
+            case BugBashItemsActionTypes.QueuedBugBashItemsLoaded: {
+                draft.queuedBugBashItems = action.payload;
+                break;
+            }
+
+            /** Periodic refresh while the bug bash view is open */
+            case BugBashItemsActionTypes.BugBashItemsRefreshed: {
+                const { bugBashItems, removedBugBashItemIds, resolvedWorkItems } = action.payload;
+                if (!draft.bugBashItems || !draft.bugBashItemMap) {
+                    break;
+                }
+
+                for (const bugBashItem of bugBashItems) {
+                    const key = resolveNullableMapKey(bugBashItem.id);
+                    const existingModel = draft.bugBashItemMap[key];
+
+                    // items with a save in flight or a newer version in store keep what they have, their own result lands later
+                    if (existingModel && !isRefreshable(existingModel, bugBashItem)) {
+                        continue;
+                    }
+
+                    draft.bugBashItemMap[key] = {
+                        status: LoadStatus.Ready,
+                        bugBashItem: bugBashItem
+                    };
+                    const index = draft.bugBashItems.findIndex((b) => equals(b.id!, bugBashItem.id!, true));
+                    if (index !== -1) {
+                        draft.bugBashItems[index] = bugBashItem;
+                    } else {
+                        draft.bugBashItems.push(bugBashItem);
+                    }
+                }
+
+                for (const bugBashItemId of removedBugBashItemIds) {
+                    const key = resolveNullableMapKey(bugBashItemId);
+                    const existingModel = draft.bugBashItemMap[key];
+                    if (existingModel && existingModel.status !== LoadStatus.Ready && existingModel.status !== LoadStatus.UpdateFailed) {
+                        continue;
+                    }
+
+                    delete draft.bugBashItemMap[key];
+                    draft.bugBashItems = draft.bugBashItems.filter((b) => !equals(b.id!, bugBashItemId, true));
+                }
+
+                draft.resolvedWorkItemsMap = { ...draft.resolvedWorkItemsMap, ...resolvedWorkItems };
+                break;
+            }
+
             /** Single bug bash load, used by item view page */
             case BugBashItemsActionTypes.BeginLoadBugBashItem: {
                 const bugBashItemId = action.payload;
@@ -105,3 +154,11 @@ export function bugBashItemLoadReducer(state: IBugBashItemsState | undefined, ac
         }
     });
 }
+
+function isRefreshable(existingModel: IBugBashItemStateModel, bugBashItem: IBugBashItem): boolean {
+    if (existingModel.status !== LoadStatus.Ready && existingModel.status !== LoadStatus.UpdateFailed) {
+        return false;
+    }
+
+    return !existingModel.bugBashItem || (existingModel.bugBashItem.__etag || 0) < (bugBashItem.__etag || 0);
+}
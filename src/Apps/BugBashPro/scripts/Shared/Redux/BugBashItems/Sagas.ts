@@ -1,37 +1,72 @@
 import { TeamFieldValues } from "azure-devops-extension-api/Work/Work";
 import { WorkItem, WorkItemTemplate } from "azure-devops-extension-api/WorkItemTracking/WorkItemTracking";
 import { equals } from "azure-devops-ui/Core/Util/String";
-import { IBugBash, IBugBashItem } from "BugBashPro/Shared/Contracts";
+import { Resources } from "BugBashPro/Resources";
+import { BugBashItemVoteMaxAttempts } from "BugBashPro/Shared/Constants";
+import { BugBashAcceptIteration, IBugBash, IBugBashItem, IBugBashItemComment } from "BugBashPro/Shared/Contracts";
+import { canSeeBugBashItemSubmitters, getMappedTriageValue, hasVotedForBugBashItem, isBugBashClosed } from "BugBashPro/Shared/Helpers";
+import { getBugBashItemUrlAsync } from "BugBashPro/Shared/NavHelpers";
 import { TeamFieldActions, TeamFieldActionTypes } from "Common/AzDev/TeamFields/Redux/Actions";
+import { fetchTeamCurrentIterations, fetchTeamSettings } from "Common/AzDev/TeamFields/Redux/DataSource";
 import { getTeamFieldValues } from "Common/AzDev/TeamFields/Redux/Selectors";
 import { WorkItemTemplateActions, WorkItemTemplateActionTypes } from "Common/AzDev/WorkItemTemplates/Redux/Actions";
 import { getTemplateState } from "Common/AzDev/WorkItemTemplates/Redux/Selectors";
 import { CoreFieldRefNames } from "Common/Constants";
 import { LoadStatus } from "Common/Contracts";
 import { ActionsOfType, RT } from "Common/Redux";
-import { isNullOrWhiteSpace } from "Common/Utilities/String";
+import { isDocumentConflictError, isTransientError } from "Common/ServiceWrappers/ExtensionDataManager";
+import { getCurrentUser, isCurrentUser } from "Common/Utilities/Identity";
+import { htmlEncode, isNullOrWhiteSpace } from "Common/Utilities/String";
+import * as format from "date-fns/format";
 import { SagaIterator } from "redux-saga";
 import { call, put, select, take, takeEvery, takeLeading } from "redux-saga/effects";
 
+import { getBugBash } from "../BugBashes/Selectors";
+import { createCommentAsync, fetchCommentsAsync } from "../Comments/DataSource";
+import { createMentionsAsync } from "../Mentions/DataSource";
 import { BugBashItemsActions, BugBashItemsActionTypes } from "./Actions";
 import {
+    closeWorkItemAsync,
     createBugBashItemAsync,
     createWorkItemAsync,
     deleteBugBashItemAsync,
+    deleteWorkItemAsync,
+    dequeueBugBashItem,
+    discardQueuedBugBashItems,
+    enqueueBugBashItem,
     fetchBugBashItemAsync,
     fetchBugBashItemsAsync,
     getWorkItemsAsync,
-    updateBugBashItemAsync
+    leaseQueuedBugBashItem,
+    readQueuedBugBashItems,
+    releaseQueuedBugBashItem,
+    updateBugBashItemAsync,
+    updateWorkItemAsync
 } from "./DataSource";
-import { getBugBashItem, getBugBashItemsStatus, getBugBashItemStatus, getResolvedWorkItem } from "./Selectors";
+import {
+    getAllBugBashItems,
+    getBugBashItem,
+    getBugBashItemsStatus,
+    getBugBashItemStatus,
+    getResolvedWorkItem,
+    getResolvedWorkItemsMap
+} from "./Selectors";
 
 export function* bugBashItemsSaga(): SagaIterator {
     yield takeLeading(BugBashItemsActionTypes.BugBashItemsLoadRequested, loadBugBashItems);
+    yield takeLeading(BugBashItemsActionTypes.BugBashItemsRefreshRequested, refreshBugBashItems);
     yield takeEvery(BugBashItemsActionTypes.BugBashItemLoadRequested, loadBugBashItem);
     yield takeEvery(BugBashItemsActionTypes.BugBashItemCreateRequested, createBugBashItem);
+    yield takeEvery(BugBashItemsActionTypes.BugBashItemQueueRequested, queueBugBashItem);
+    yield takeEvery(BugBashItemsActionTypes.QueuedBugBashItemsLoadRequested, loadQueuedBugBashItems);
+    yield takeLeading(BugBashItemsActionTypes.QueuedBugBashItemsSyncRequested, syncQueuedBugBashItems);
+    yield takeEvery(BugBashItemsActionTypes.QueuedBugBashItemsDiscardRequested, discardBugBashItemsQueue);
     yield takeEvery(BugBashItemsActionTypes.BugBashItemUpdateRequested, updateBugBashItem);
     yield takeEvery(BugBashItemsActionTypes.BugBashItemDeleteRequested, deleteBugBashItem);
     yield takeEvery(BugBashItemsActionTypes.BugBashItemAcceptRequested, acceptBugBashItem);
+    yield takeEvery(BugBashItemsActionTypes.BugBashItemAcceptAsExistingRequested, acceptBugBashItemAsExisting);
+    yield takeEvery(BugBashItemsActionTypes.BugBashItemUnacceptRequested, unacceptBugBashItem);
+    yield takeEvery(BugBashItemsActionTypes.BugBashItemVoteToggleRequested, toggleBugBashItemVote);
 }
 
 function* loadBugBashItems(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemsLoadRequested>): SagaIterator {
@@ -59,6 +94,55 @@ function* loadBugBashItems(action: ActionsOfType<BugBashItemsActions, BugBashIte
     }
 }
 
+function* refreshBugBashItems(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemsRefreshRequested>): SagaIterator {
+    const bugBashId = action.payload;
+    const status: RT<typeof getBugBashItemsStatus> = yield select(getBugBashItemsStatus);
+    if (status !== LoadStatus.Ready) {
+        return;
+    }
+
+    // diff against the items as they were before reading, so that items created or updated in the meantime are not dropped
+    const currentBugBashItems: RT<typeof getAllBugBashItems> = yield select(getAllBugBashItems);
+    let latestBugBashItems: RT<typeof fetchBugBashItemsAsync>;
+    try {
+        latestBugBashItems = yield call(fetchBugBashItemsAsync, bugBashId);
+    } catch {
+        // a failed refresh is retried on the next poll
+        return;
+    }
+
+    const { removedBugBashItemIds, ...diff } = getBugBashItemsDiff(currentBugBashItems || [], latestBugBashItems);
+    let { changedBugBashItems, newBugBashItemIds } = diff;
+
+    // the work items of all accepted items are read again, their state, assignee and area change outside of the bug bash
+    const workItemIdsToLoad = latestBugBashItems.filter((b) => !!b.workItemId).map((b) => b.workItemId!);
+    const workItemsMap: { [id: number]: WorkItem } = {};
+    const readWorkItemIds: { [id: number]: boolean } = {};
+    if (workItemIdsToLoad.length > 0) {
+        const currentWorkItemsMap: RT<typeof getResolvedWorkItemsMap> = yield select(getResolvedWorkItemsMap);
+        try {
+            const resolvedWorkItems: RT<typeof getWorkItemsAsync> = yield call(getWorkItemsAsync, workItemIdsToLoad);
+            resolvedWorkItems.forEach((w) => {
+                readWorkItemIds[w.id] = true;
+                const currentWorkItem = currentWorkItemsMap && currentWorkItemsMap[w.id];
+                if (!currentWorkItem || currentWorkItem.rev !== w.rev) {
+                    workItemsMap[w.id] = w;
+                }
+            });
+        } catch {
+            return;
+        }
+
+        // same as the initial load, accepted items whose work item can not be read are not shown
+        changedBugBashItems = changedBugBashItems.filter((b) => !b.workItemId || readWorkItemIds[b.workItemId]);
+        newBugBashItemIds = newBugBashItemIds.filter((id) => changedBugBashItems.some((b) => equals(b.id!, id, true)));
+    }
+
+    if (changedBugBashItems.length > 0 || removedBugBashItemIds.length > 0 || Object.keys(workItemsMap).length > 0) {
+        yield put(BugBashItemsActions.bugBashItemsRefreshed(changedBugBashItems, removedBugBashItemIds, newBugBashItemIds, workItemsMap));
+    }
+}
+
 function* loadBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemLoadRequested>): SagaIterator {
     const { bugBashId, bugBashItemId } = action.payload;
     const status: RT<typeof getBugBashItemStatus> = yield select(getBugBashItemStatus, bugBashItemId);
@@ -129,7 +213,7 @@ function* updateBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashIt
             const updatedBugBashItem: RT<typeof updateBugBashItemAsync> = yield call(updateBugBashItemAsync, bugBashItem.bugBashId, bugBashItem);
             yield put(BugBashItemsActions.bugBashItemUpdated(updatedBugBashItem, undefined));
         } catch (e) {
-            yield put(BugBashItemsActions.bugBashItemUpdateFailed(bugBashItem, e.message));
+            yield put(BugBashItemsActions.bugBashItemUpdateFailed(bugBashItem, e.message, isDocumentConflictError(e)));
         }
     }
 }
@@ -179,8 +263,11 @@ function* acceptBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashIt
                 // load team field
                 const teamFieldValue: TeamFieldValues = yield call(loadTeamFieldValues, bugBashItem.teamId);
 
+                // load the iteration of the team when the bug bash routes accepted items to it
+                const iterationPath: string | undefined = yield call(loadTeamIterationPath, bugBashItem.teamId, bugBash.acceptIteration);
+
                 // fill in field values
-                const fieldValues = getAcceptFieldValues(bugBash, bugBashItem, acceptTemplate, teamFieldValue);
+                const fieldValues = getAcceptFieldValues(bugBash, bugBashItem, acceptTemplate, teamFieldValue, iterationPath);
 
                 if (!acceptingDuringCreation) {
                     // do an empty update first to make sure we are on the latest revision.
@@ -188,19 +275,198 @@ function* acceptBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashIt
                 }
 
                 // attempt to save work item
-                const acceptedWorkItem: RT<typeof createWorkItemAsync> = yield call(createWorkItemAsync, bugBash.workItemType, fieldValues);
+                const acceptedWorkItem: RT<typeof createWorkItemAsync> = yield call(
+                    createWorkItemAsync,
+                    bugBash.workItemType,
+                    fieldValues,
+                    bugBashItem.attachments
+                );
+
+                // update bug bash item again with work item id
+                updatedBugBashItem = yield call(
+                    updateBugBashItemAsync,
+                    bugBashItem.bugBashId,
+                    getAcceptedBugBashItem(updatedBugBashItem, acceptedWorkItem.id, true)
+                );
+
+                yield put(BugBashItemsActions.bugBashItemUpdated(updatedBugBashItem, acceptedWorkItem));
+            } catch (e) {
+                yield put(BugBashItemsActions.bugBashItemUpdateFailed(updatedBugBashItem, e.message));
+            }
+        }
+    }
+}
+
+function* queueBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemQueueRequested>): SagaIterator {
+    const { bugBashItem, comment, commentMentions, error } = action.payload;
+    const queuedDate = new Date();
+    yield call(enqueueBugBashItem, bugBashItem.bugBashId, {
+        queueId: `${queuedDate.getTime()}`,
+        bugBashItem: bugBashItem,
+        comment: comment,
+        commentMentions: commentMentions,
+        queuedDate: queuedDate,
+        error: error
+    });
+
+    const queuedBugBashItems: RT<typeof readQueuedBugBashItems> = yield call(readQueuedBugBashItems, bugBashItem.bugBashId);
+    yield put(BugBashItemsActions.queuedBugBashItemsLoaded(queuedBugBashItems));
+}
+
+function* loadQueuedBugBashItems(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.QueuedBugBashItemsLoadRequested>): SagaIterator {
+    const queuedBugBashItems: RT<typeof readQueuedBugBashItems> = yield call(readQueuedBugBashItems, action.payload);
+    yield put(BugBashItemsActions.queuedBugBashItemsLoaded(queuedBugBashItems));
+}
+
+function* syncQueuedBugBashItems(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.QueuedBugBashItemsSyncRequested>): SagaIterator {
+    const bugBashId = action.payload;
+    const queuedBugBashItems: RT<typeof readQueuedBugBashItems> = yield call(readQueuedBugBashItems, bugBashId);
+    const bugBash: RT<typeof getBugBash> = yield select(getBugBash, bugBashId);
+
+    for (const queuedBugBashItem of queuedBugBashItems) {
+        const { queueId } = queuedBugBashItem;
+        if (bugBash && isBugBashClosed(bugBash, new Date())) {
+            yield call(releaseQueuedBugBashItem, bugBashId, queueId, Resources.BugBashClosedError, true);
+            continue;
+        }
+
+        // the item stays in the queue until it is created, so that it is not lost when the tab is closed mid-submit
+        const isLeased: RT<typeof leaseQueuedBugBashItem> = yield call(leaseQueuedBugBashItem, bugBashId, queueId, new Date());
+        if (!isLeased) {
+            continue;
+        }
+
+        let createdBugBashItem: RT<typeof createBugBashItemAsync>;
+        try {
+            createdBugBashItem = yield call(createBugBashItemAsync, bugBashId, queuedBugBashItem.bugBashItem);
+        } catch (e) {
+            const isTransient = isTransientError(e);
+            yield call(releaseQueuedBugBashItem, bugBashId, queueId, e.message, !isTransient);
+            if (isTransient) {
+                // the remaining items most likely fail for the same reason, so they wait for the next sync
+                break;
+            }
+            continue;
+        }
+        yield call(dequeueBugBashItem, bugBashId, queueId);
+
+        if (queuedBugBashItem.comment) {
+            try {
+                const createdComment: RT<typeof createCommentAsync> = yield call(
+                    createCommentAsync,
+                    createdBugBashItem.id!,
+                    queuedBugBashItem.comment,
+                    undefined,
+                    queuedBugBashItem.commentMentions
+                );
+                yield call(createMentionsAsync, createdBugBashItem.id!, createdComment);
+            } catch {
+                // the item itself is submitted, only its first comment is lost
+            }
+        }
+
+        yield put(BugBashItemsActions.bugBashItemCreated(createdBugBashItem, undefined));
+        if (bugBash && bugBash.autoAccept) {
+            yield put(BugBashItemsActions.bugBashItemAcceptRequested(bugBash, createdBugBashItem.id!, true));
+        }
+    }
+
+    const remainingBugBashItems: RT<typeof readQueuedBugBashItems> = yield call(readQueuedBugBashItems, bugBashId);
+    yield put(BugBashItemsActions.queuedBugBashItemsLoaded(remainingBugBashItems));
+}
+
+function* discardBugBashItemsQueue(
+    action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.QueuedBugBashItemsDiscardRequested>
+): SagaIterator {
+    yield call(discardQueuedBugBashItems, action.payload);
+    yield put(BugBashItemsActions.queuedBugBashItemsLoaded([]));
+}
+
+function* toggleBugBashItemVote(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemVoteToggleRequested>): SagaIterator {
+    const { bugBashId, bugBashItemId } = action.payload;
+    const bugBashItem: RT<typeof getBugBashItem> = yield select(getBugBashItem, bugBashItemId);
+    const status: RT<typeof getBugBashItemStatus> = yield select(getBugBashItemStatus, bugBashItemId);
+
+    if (!bugBashItem || (status !== LoadStatus.Ready && status !== LoadStatus.UpdateFailed)) {
+        return;
+    }
+
+    // the intent is decided from the item the user looked at, so that a retry does not flip the vote back
+    const vote = !hasVotedForBugBashItem(bugBashItem);
+    const userId = getCurrentUser().id;
+
+    yield put(BugBashItemsActions.beginUpdateBugBashItem(bugBashItem));
+    let latestBugBashItem: IBugBashItem = bugBashItem;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const votedBy = (latestBugBashItem.votedBy || []).filter((id) => !equals(id, userId, true));
+            if (vote) {
+                votedBy.push(userId);
+            }
+
+            const updatedBugBashItem: RT<typeof updateBugBashItemAsync> = yield call(updateBugBashItemAsync, bugBashId, {
+                ...latestBugBashItem,
+                votedBy: votedBy
+            });
+            yield put(BugBashItemsActions.bugBashItemUpdated(updatedBugBashItem, undefined));
+            return;
+        } catch (e) {
+            if (attempt >= BugBashItemVoteMaxAttempts) {
+                yield put(BugBashItemsActions.bugBashItemUpdateFailed(bugBashItem, e.message));
+                return;
+            }
+        }
+
+        // votes are usually cast on a stale copy of the item, so re-read it and vote again
+        try {
+            latestBugBashItem = yield call(fetchBugBashItemAsync, bugBashId, bugBashItemId);
+        } catch (e) {
+            yield put(BugBashItemsActions.bugBashItemUpdateFailed(bugBashItem, e.message));
+            return;
+        }
+    }
+}
+
+function* acceptBugBashItemAsExisting(
+    action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemAcceptAsExistingRequested>
+): SagaIterator {
+    const { bugBashItemId, bugBash, workItemId, addLink } = action.payload;
+    const bugBashItem: RT<typeof getBugBashItem> = yield select(getBugBashItem, bugBashItemId);
+
+    if (!bugBashItem || isNullOrWhiteSpace(bugBashItem.bugBashId)) {
+        throw new Error("This bug bash item is not associated with any bug bash");
+    }
+
+    if (bugBashItem.id && !bugBashItem.workItemId) {
+        const status: RT<typeof getBugBashItemStatus> = yield select(getBugBashItemStatus, bugBashItem.id);
+
+        if (status === LoadStatus.Ready || status === LoadStatus.UpdateFailed) {
+            yield put(BugBashItemsActions.beginUpdateBugBashItem(bugBashItem));
+
+            let updatedBugBashItem: IBugBashItem = { ...bugBashItem };
+            try {
+                // do an empty update first to make sure we are on the latest revision.
+                updatedBugBashItem = yield call(updateBugBashItemAsync, bugBashItem.bugBashId, bugBashItem);
+
+                // the item is appended to the discussion of the existing work item along with its comments
+                const comments: RT<typeof fetchCommentsAsync> = yield call(fetchCommentsAsync, bugBashItem.id);
+                const bugBashItemUrl: RT<typeof getBugBashItemUrlAsync> | undefined = addLink
+                    ? yield call(getBugBashItemUrlAsync, bugBashItem.bugBashId, bugBashItem.id)
+                    : undefined;
+                const acceptedWorkItem: RT<typeof updateWorkItemAsync> = yield call(
+                    updateWorkItemAsync,
+                    workItemId,
+                    { [CoreFieldRefNames.History]: getAcceptAsExistingHistory(bugBash, bugBashItem, comments) },
+                    bugBashItem.attachments,
+                    bugBashItemUrl
+                );
 
                 // update bug bash item again with work item id
-                updatedBugBashItem = yield call(updateBugBashItemAsync, bugBashItem.bugBashId, {
-                    ...updatedBugBashItem,
-                    title: "",
-                    description: "",
-                    teamId: "",
-                    rejectReason: "",
-                    rejected: false,
-                    rejectedBy: undefined,
-                    workItemId: acceptedWorkItem.id
-                });
+                updatedBugBashItem = yield call(
+                    updateBugBashItemAsync,
+                    bugBashItem.bugBashId,
+                    getAcceptedBugBashItem(updatedBugBashItem, acceptedWorkItem.id, false)
+                );
 
                 yield put(BugBashItemsActions.bugBashItemUpdated(updatedBugBashItem, acceptedWorkItem));
             } catch (e) {
@@ -210,6 +476,159 @@ function* acceptBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashIt
     }
 }
 
+function* unacceptBugBashItem(action: ActionsOfType<BugBashItemsActions, BugBashItemsActionTypes.BugBashItemUnacceptRequested>): SagaIterator {
+    const { bugBashItemId, workItemAction } = action.payload;
+    const bugBashItem: RT<typeof getBugBashItem> = yield select(getBugBashItem, bugBashItemId);
+
+    if (!bugBashItem || !bugBashItem.workItemId) {
+        return;
+    }
+
+    const status: RT<typeof getBugBashItemStatus> = yield select(getBugBashItemStatus, bugBashItemId);
+    if (status !== LoadStatus.Ready && status !== LoadStatus.UpdateFailed) {
+        return;
+    }
+
+    yield put(BugBashItemsActions.beginUpdateBugBashItem(bugBashItem));
+    const acceptedWorkItem: RT<typeof getResolvedWorkItem> = yield select(getResolvedWorkItem, bugBashItem.workItemId);
+    let updatedBugBashItem: IBugBashItem = bugBashItem;
+    try {
+        // restore the item first, so that it never points to a work item that has already been closed or deleted
+        updatedBugBashItem = yield call(updateBugBashItemAsync, bugBashItem.bugBashId, getUnacceptedBugBashItem(bugBashItem, acceptedWorkItem));
+    } catch (e) {
+        yield put(BugBashItemsActions.bugBashItemUpdateFailed(bugBashItem, e.message));
+        return;
+    }
+
+    yield put(BugBashItemsActions.bugBashItemUpdated(updatedBugBashItem, undefined));
+
+    const snapshot = bugBashItem.acceptedSnapshot;
+    if (workItemAction !== "keep" && snapshot && snapshot.createdWorkItem) {
+        try {
+            if (workItemAction === "delete") {
+                yield call(deleteWorkItemAsync, bugBashItem.workItemId);
+            } else {
+                yield call(closeWorkItemAsync, bugBashItem.workItemId);
+            }
+        } catch (e) {
+            yield put(
+                BugBashItemsActions.bugBashItemUpdateFailed(
+                    updatedBugBashItem,
+                    `${Resources.UnacceptWorkItemError} ${bugBashItem.workItemId}: ${e.message}`
+                )
+            );
+        }
+    }
+}
+
+/**
+ * Items are compared by their etag, which changes with every update
+ */
+function getBugBashItemsDiff(
+    currentBugBashItems: IBugBashItem[],
+    latestBugBashItems: IBugBashItem[]
+): { changedBugBashItems: IBugBashItem[]; removedBugBashItemIds: string[]; newBugBashItemIds: string[] } {
+    const currentBugBashItemsMap: { [id: string]: IBugBashItem } = {};
+    for (const bugBashItem of currentBugBashItems) {
+        if (bugBashItem.id) {
+            currentBugBashItemsMap[bugBashItem.id.toLowerCase()] = bugBashItem;
+        }
+    }
+
+    const latestIdsMap: { [id: string]: boolean } = {};
+    const changedBugBashItems: IBugBashItem[] = [];
+    const newBugBashItemIds: string[] = [];
+    for (const bugBashItem of latestBugBashItems) {
+        const id = bugBashItem.id!.toLowerCase();
+        const currentBugBashItem = currentBugBashItemsMap[id];
+        latestIdsMap[id] = true;
+
+        if (!currentBugBashItem) {
+            changedBugBashItems.push(bugBashItem);
+            if (!isCurrentUser(bugBashItem.createdBy)) {
+                newBugBashItemIds.push(bugBashItem.id!);
+            }
+        } else if (currentBugBashItem.__etag !== bugBashItem.__etag) {
+            changedBugBashItems.push(bugBashItem);
+        }
+    }
+
+    const removedBugBashItemIds = Object.keys(currentBugBashItemsMap)
+        .filter((id) => !latestIdsMap[id])
+        .map((id) => currentBugBashItemsMap[id].id!);
+
+    return { changedBugBashItems, removedBugBashItemIds, newBugBashItemIds };
+}
+
+/**
+ * Accepted items only keep a reference to their work item, which owns the title, description and field values from then on.
+ * The submission is kept aside in a snapshot so that the accept can be undone.
+ */
+function getAcceptedBugBashItem(bugBashItem: IBugBashItem, workItemId: number, createdWorkItem: boolean): IBugBashItem {
+    return {
+        ...bugBashItem,
+        acceptedSnapshot: {
+            title: bugBashItem.title,
+            description: bugBashItem.description,
+            teamId: bugBashItem.teamId,
+            fieldValues: bugBashItem.fieldValues,
+            attachments: bugBashItem.attachments,
+            severity: bugBashItem.severity,
+            priority: bugBashItem.priority,
+            acceptedBy: getCurrentUser(),
+            acceptedDate: new Date(),
+            createdWorkItem: createdWorkItem
+        },
+        title: "",
+        description: "",
+        teamId: "",
+        rejectReason: "",
+        rejected: false,
+        rejectedBy: undefined,
+        rejectedDate: undefined,
+        duplicateOfId: undefined,
+        fieldValues: undefined,
+        attachments: undefined,
+        severity: undefined,
+        priority: undefined,
+        workItemId: workItemId
+    };
+}
+
+/**
+ * Items accepted before snapshots were kept are restored with the title of their work item and have to be completed by a triager
+ */
+function getUnacceptedBugBashItem(bugBashItem: IBugBashItem, acceptedWorkItem: WorkItem | undefined): IBugBashItem {
+    const snapshot = bugBashItem.acceptedSnapshot;
+    return {
+        ...bugBashItem,
+        title: snapshot ? snapshot.title : acceptedWorkItem ? acceptedWorkItem.fields[CoreFieldRefNames.Title] : "",
+        description: snapshot ? snapshot.description : "",
+        teamId: snapshot ? snapshot.teamId : "",
+        fieldValues: snapshot ? snapshot.fieldValues : undefined,
+        attachments: snapshot ? snapshot.attachments : undefined,
+        severity: snapshot ? snapshot.severity : undefined,
+        priority: snapshot ? snapshot.priority : undefined,
+        acceptedSnapshot: undefined,
+        workItemId: undefined
+    };
+}
+
+function getAcceptAsExistingHistory(bugBash: IBugBash, bugBashItem: IBugBashItem, comments: IBugBashItemComment[]): string {
+    const createdBy = canSeeBugBashItemSubmitters(bugBash) ? ` by ${htmlEncode(bugBashItem.createdBy.displayName)}` : "";
+    const parts = [
+        `<p><b>${Resources.AcceptedFromBugBash} "${htmlEncode(bugBash.title)}"${createdBy}: ${htmlEncode(bugBashItem.title)}</b></p>`,
+        bugBashItem.description || ""
+    ];
+    for (const comment of comments.filter((c) => !c.deleted)) {
+        parts.push(
+            `<p><i>${htmlEncode(comment.createdBy.displayName)} (${format(comment.createdDate, "M/D/YYYY h:mm aa")}):</i></p>${comment.content}`
+        );
+    }
+
+    return parts.join("");
+}
+
 function* loadTemplate(templateId: string, teamId: string) {
     const template: RT<typeof getTemplateState> = yield select(getTemplateState, templateId);
 
@@ -277,27 +696,72 @@ function* loadTeamFieldValues(teamId: string) {
     }
 }
 
+function* loadTeamIterationPath(teamId: string, acceptIteration: BugBashAcceptIteration | undefined) {
+    if (acceptIteration === "current") {
+        const currentIterations: RT<typeof fetchTeamCurrentIterations> = yield call(fetchTeamCurrentIterations, teamId);
+        if (currentIterations.length > 0) {
+            return yield currentIterations[0].path;
+        }
+    }
+
+    if (acceptIteration === "current" || acceptIteration === "backlog") {
+        // teams without a current sprint still get the item on their backlog
+        const teamSettings: RT<typeof fetchTeamSettings> = yield call(fetchTeamSettings, teamId);
+        const backlogIteration = teamSettings.backlogIteration;
+        return yield backlogIteration ? backlogIteration.path || backlogIteration.name : undefined;
+    }
+
+    return yield undefined;
+}
+
 function getAcceptFieldValues(
     bugBash: IBugBash,
     bugBashItem: IBugBashItem,
     acceptTemplate: WorkItemTemplate | undefined,
-    teamFieldValue: TeamFieldValues
+    teamFieldValue: TeamFieldValues,
+    iterationPath: string | undefined
 ): { [refName: string]: any } {
     const itemDescriptionField = bugBash.itemDescriptionField;
     const fieldValues = acceptTemplate ? { ...acceptTemplate.fields } : {};
+
+    if (fieldValues["System.Tags-Add"]) {
+        fieldValues[CoreFieldRefNames.Tags] = fieldValues["System.Tags-Add"];
+    }
+
+    delete fieldValues["System.Tags-Add"];
+    delete fieldValues["System.Tags-Remove"];
+
+    // values entered on the bug bash item win over the template, except for tags which are combined
+    for (const fieldRefName of bugBash.itemFields || []) {
+        const value = bugBashItem.fieldValues && bugBashItem.fieldValues[fieldRefName];
+        if (value === undefined || value === null || value === "") {
+            continue;
+        }
+
+        if (equals(fieldRefName, CoreFieldRefNames.Tags, true) && fieldValues[CoreFieldRefNames.Tags]) {
+            fieldValues[CoreFieldRefNames.Tags] = `${fieldValues[CoreFieldRefNames.Tags]};${value}`;
+        } else {
+            fieldValues[fieldRefName] = value;
+        }
+    }
+
+    // the triage values are mapped onto the fields configured on the bug bash
+    if (bugBash.severityField && bugBashItem.severity) {
+        fieldValues[bugBash.severityField] = getMappedTriageValue(bugBashItem.severity, bugBash.severityValueMap);
+    }
+    if (bugBash.priorityField && bugBashItem.priority) {
+        fieldValues[bugBash.priorityField] = getMappedTriageValue(bugBashItem.priority, bugBash.priorityValueMap);
+    }
+
     fieldValues[CoreFieldRefNames.Title] = bugBashItem.title;
     fieldValues[itemDescriptionField] = bugBashItem.description || "";
 
     if (teamFieldValue.defaultValue) {
         fieldValues[teamFieldValue.field.referenceName] = teamFieldValue.defaultValue;
     }
-
-    if (fieldValues["System.Tags-Add"]) {
-        fieldValues["System.Tags"] = fieldValues["System.Tags-Add"];
+    if (iterationPath) {
+        fieldValues[CoreFieldRefNames.IterationPath] = iterationPath;
     }
 
-    delete fieldValues["System.Tags-Add"];
-    delete fieldValues["System.Tags-Remove"];
-
     return fieldValues;
 }
@@ -21,6 +21,8 @@ export function getResolvedWorkItem(state: IBugBashItemsAwareState, id: number):
 
 export const getAllBugBashItems = createSelector(getBugBashItemsState, (state) => state && state.bugBashItems);
 
+export const getQueuedBugBashItems = createSelector(getBugBashItemsState, (state) => (state && state.queuedBugBashItems) || []);
+
 export const getResolvedWorkItemsMap = createSelector(getBugBashItemsState, (state) => state && state.resolvedWorkItemsMap);
 
 export const getBugBashItemsStatus = createSelector(getBugBashItemsState, (state) => (state && state.status) || LoadStatus.NotLoaded);
@@ -0,0 +1,33 @@
+import { IBugBash, IBugBashTemplate } from "BugBashPro/Shared/Contracts";
+import { ActionsUnion, createAction } from "Common/Redux";
+
+export const BugBashTemplatesActions = {
+    templatesLoadRequested: () => createAction(BugBashTemplatesActionTypes.TemplatesLoadRequested),
+    beginLoadTemplates: () => createAction(BugBashTemplatesActionTypes.BeginLoadTemplates),
+    templatesLoaded: (templates: IBugBashTemplate[]) => createAction(BugBashTemplatesActionTypes.TemplatesLoaded, templates),
+
+    templateCreateRequested: (bugBash: IBugBash, name: string) =>
+        createAction(BugBashTemplatesActionTypes.TemplateCreateRequested, { bugBash, name }),
+    templateCreated: (template: IBugBashTemplate) => createAction(BugBashTemplatesActionTypes.TemplateCreated, template),
+    templateCreateFailed: (name: string, error: string) => createAction(BugBashTemplatesActionTypes.TemplateCreateFailed, { name, error }),
+
+    templateDeleteRequested: (templateId: string) => createAction(BugBashTemplatesActionTypes.TemplateDeleteRequested, templateId),
+    templateDeleted: (templateId: string) => createAction(BugBashTemplatesActionTypes.TemplateDeleted, templateId),
+    templateDeleteFailed: (templateId: string, error: string) => createAction(BugBashTemplatesActionTypes.TemplateDeleteFailed, { templateId, error })
+};
+
+export const enum BugBashTemplatesActionTypes {
+    TemplatesLoadRequested = "BugBashTemplatesAction/TemplatesLoadRequested",
+    BeginLoadTemplates = "BugBashTemplatesAction/BeginLoadTemplates",
+    TemplatesLoaded = "BugBashTemplatesAction/TemplatesLoaded",
+
+    TemplateCreateRequested = "BugBashTemplatesAction/TemplateCreateRequested",
+    TemplateCreated = "BugBashTemplatesAction/TemplateCreated",
+    TemplateCreateFailed = "BugBashTemplatesAction/TemplateCreateFailed",
+
+    TemplateDeleteRequested = "BugBashTemplatesAction/TemplateDeleteRequested",
+    TemplateDeleted = "BugBashTemplatesAction/TemplateDeleted",
+    TemplateDeleteFailed = "BugBashTemplatesAction/TemplateDeleteFailed"
+}
+
+export type BugBashTemplatesActions = ActionsUnion<typeof BugBashTemplatesActions>;
@@ -0,0 +1,15 @@
+import { IBugBashTemplate } from "BugBashPro/Shared/Contracts";
+import { LoadStatus } from "Common/Contracts";
+
+export interface IBugBashTemplatesAwareState {
+    bugBashTemplatesState: IBugBashTemplatesState;
+}
+
+export interface IBugBashTemplatesState {
+    status: LoadStatus;
+    templates?: IBugBashTemplate[];
+}
+
+export const defaultBugBashTemplatesState: IBugBashTemplatesState = {
+    status: LoadStatus.NotLoaded
+};
@@ -0,0 +1,57 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { IBugBashTemplate } from "BugBashPro/Shared/Contracts";
+import { createDocument, deleteDocument, readDocuments } from "Common/ServiceWrappers/ExtensionDataManager";
+import { memoizePromise } from "Common/Utilities/Memoize";
+import { getCurrentProjectId } from "Common/Utilities/WebContext";
+
+export const fetchBugBashTemplatesAsync = memoizePromise(
+    async (): Promise<IBugBashTemplate[]> => {
+        let templates = await readDocuments<IBugBashTemplate>(getCollectionKey(), false);
+        const projectId = await getCurrentProjectId();
+        templates = templates.filter((t) => equals(projectId, t.projectId, true));
+
+        for (const template of templates) {
+            preProcessTemplate(template);
+        }
+
+        return templates;
+    },
+    () => "fetchBugBashTemplates"
+);
+
+export async function createBugBashTemplateAsync(template: IBugBashTemplate): Promise<IBugBashTemplate> {
+    try {
+        const projectId = await getCurrentProjectId();
+        const createdTemplate = await createDocument<IBugBashTemplate>(getCollectionKey(), { ...template, projectId: projectId }, false);
+        preProcessTemplate(createdTemplate);
+
+        return createdTemplate;
+    } catch (e) {
+        throw new Error(`Cannot create bug bash template. Reason: ${e.message}`);
+    }
+}
+
+export const deleteBugBashTemplateAsync = memoizePromise(
+    async (templateId: string) => {
+        try {
+            await deleteDocument(getCollectionKey(), templateId, false);
+        } catch (e) {
+            throw new Error(`Cannot delete bug bash template. Reason: ${e.message}`);
+        }
+    },
+    (templateId: string) => `deleteBugBashTemplate_${templateId}`
+);
+
+function getCollectionKey(): string {
+    return "bugbashtemplates";
+}
+
+function preProcessTemplate(template: IBugBashTemplate) {
+    const { bugBash } = template;
+    if (typeof bugBash.startTime === "string") {
+        bugBash.startTime = new Date(bugBash.startTime);
+    }
+    if (typeof bugBash.endTime === "string") {
+        bugBash.endTime = new Date(bugBash.endTime);
+    }
+}
@@ -0,0 +1,19 @@
+import { ReducersMapObject } from "redux";
+import { ISagaModule } from "redux-dynamic-modules-saga";
+
+import { BugBashTemplatesActions } from "./Actions";
+import { IBugBashTemplatesAwareState } from "./Contracts";
+import { bugBashTemplatesReducer } from "./Reducers";
+import { bugBashTemplatesSaga } from "./Sagas";
+
+export function getBugBashTemplatesModule(): ISagaModule<IBugBashTemplatesAwareState> {
+    const reducerMap: ReducersMapObject<IBugBashTemplatesAwareState, BugBashTemplatesActions> = {
+        bugBashTemplatesState: bugBashTemplatesReducer
+    };
+
+    return {
+        id: "bugBashTemplates",
+        reducerMap,
+        sagas: [bugBashTemplatesSaga]
+    };
+}
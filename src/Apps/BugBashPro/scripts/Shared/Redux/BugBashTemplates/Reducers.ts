@@ -0,0 +1,41 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { LoadStatus } from "Common/Contracts";
+import { produce } from "immer";
+
+import { BugBashTemplatesActions, BugBashTemplatesActionTypes } from "./Actions";
+import { defaultBugBashTemplatesState, IBugBashTemplatesState } from "./Contracts";
+
+export function bugBashTemplatesReducer(state: IBugBashTemplatesState | undefined, action: BugBashTemplatesActions): IBugBashTemplatesState {
+    return produce(state || defaultBugBashTemplatesState, (draft) => {
+        switch (action.type) {
+            case BugBashTemplatesActionTypes.BeginLoadTemplates: {
+                draft.status = LoadStatus.Loading;
+                draft.templates = undefined;
+                break;
+            }
+
+            case BugBashTemplatesActionTypes.TemplatesLoaded: {
+                draft.status = LoadStatus.Ready;
+                draft.templates = action.payload;
+                break;
+            }
+
+            case BugBashTemplatesActionTypes.TemplateCreated: {
+                const template = action.payload;
+                if (draft.templates) {
+                    draft.templates.push(template);
+                } else {
+                    draft.templates = [template];
+                }
+                break;
+            }
+
+            case BugBashTemplatesActionTypes.TemplateDeleted: {
+                const templateId = action.payload;
+                if (draft.templates) {
+                    draft.templates = draft.templates.filter((t) => !equals(t.id!, templateId, true));
+                }
+            }
+        }
+    });
+}
@@ -0,0 +1,62 @@
+import { IBugBashTemplate } from "BugBashPro/Shared/Contracts";
+import { fetchBugBashDetailsAsync } from "BugBashPro/Shared/Redux/BugBashDetails/DataSource";
+import { LoadStatus } from "Common/Contracts";
+import { ActionsOfType, RT } from "Common/Redux";
+import { SagaIterator } from "redux-saga";
+import { call, put, select, takeEvery, takeLeading } from "redux-saga/effects";
+
+import { BugBashTemplatesActions, BugBashTemplatesActionTypes } from "./Actions";
+import { createBugBashTemplateAsync, deleteBugBashTemplateAsync, fetchBugBashTemplatesAsync } from "./DataSource";
+import { getBugBashTemplatesStatus } from "./Selectors";
+
+export function* bugBashTemplatesSaga(): SagaIterator {
+    yield takeLeading(BugBashTemplatesActionTypes.TemplatesLoadRequested, loadTemplates);
+    yield takeEvery(BugBashTemplatesActionTypes.TemplateCreateRequested, createTemplate);
+    yield takeEvery(BugBashTemplatesActionTypes.TemplateDeleteRequested, deleteTemplate);
+}
+
+function* loadTemplates(): SagaIterator {
+    const status: RT<typeof getBugBashTemplatesStatus> = yield select(getBugBashTemplatesStatus);
+
+    if (status !== LoadStatus.Loading) {
+        yield put(BugBashTemplatesActions.beginLoadTemplates());
+        const data: RT<typeof fetchBugBashTemplatesAsync> = yield call(fetchBugBashTemplatesAsync);
+        yield put(BugBashTemplatesActions.templatesLoaded(data));
+    }
+}
+
+function* createTemplate(action: ActionsOfType<BugBashTemplatesActions, BugBashTemplatesActionTypes.TemplateCreateRequested>): SagaIterator {
+    const { bugBash, name } = action.payload;
+
+    try {
+        const details: RT<typeof fetchBugBashDetailsAsync> = yield call(fetchBugBashDetailsAsync, bugBash.id!);
+        const bugBashCopy = { ...bugBash };
+        delete bugBashCopy.id;
+        delete bugBashCopy.__etag;
+        delete bugBashCopy.recurrence;
+        delete bugBashCopy.closed;
+        delete bugBashCopy.archived;
+
+        const template: IBugBashTemplate = {
+            name: name,
+            projectId: bugBash.projectId,
+            bugBash: bugBashCopy,
+            details: details.text || ""
+        };
+        const createdTemplate: RT<typeof createBugBashTemplateAsync> = yield call(createBugBashTemplateAsync, template);
+        yield put(BugBashTemplatesActions.templateCreated(createdTemplate));
+    } catch (e) {
+        yield put(BugBashTemplatesActions.templateCreateFailed(name, e.message));
+    }
+}
+
+function* deleteTemplate(action: ActionsOfType<BugBashTemplatesActions, BugBashTemplatesActionTypes.TemplateDeleteRequested>): SagaIterator {
+    const templateId = action.payload;
+
+    try {
+        yield call(deleteBugBashTemplateAsync, templateId);
+        yield put(BugBashTemplatesActions.templateDeleted(templateId));
+    } catch (e) {
+        yield put(BugBashTemplatesActions.templateDeleteFailed(templateId, e.message));
+    }
+}
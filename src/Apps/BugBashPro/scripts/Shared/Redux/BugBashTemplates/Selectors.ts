@@ -0,0 +1,12 @@
+import { LoadStatus } from "Common/Contracts";
+import { createSelector } from "reselect";
+
+import { IBugBashTemplatesAwareState, IBugBashTemplatesState } from "./Contracts";
+
+export function getBugBashTemplatesState(state: IBugBashTemplatesAwareState): IBugBashTemplatesState | undefined {
+    return state.bugBashTemplatesState;
+}
+
+export const getBugBashTemplates = createSelector(getBugBashTemplatesState, (state) => state && state.templates);
+
+export const getBugBashTemplatesStatus = createSelector(getBugBashTemplatesState, (state) => (state && state.status) || LoadStatus.NotLoaded);
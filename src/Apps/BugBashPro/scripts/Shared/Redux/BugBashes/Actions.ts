@@ -21,7 +21,8 @@ export const BugBashesActions = {
     bugBashUpdateRequested: (bugBash: IBugBash) => createAction(BugBashesActionTypes.BugBashUpdateRequested, bugBash),
     beginUpdateBugBash: (bugBash: IBugBash) => createAction(BugBashesActionTypes.BeginUpdateBugBash, bugBash),
     bugBashUpdated: (bugBash: IBugBash) => createAction(BugBashesActionTypes.BugBashUpdated, bugBash),
-    bugBashUpdateFailed: (bugBash: IBugBash, error: string) => createAction(BugBashesActionTypes.BugBashUpdateFailed, { bugBash, error }),
+    bugBashUpdateFailed: (bugBash: IBugBash, error: string, isConflict?: boolean) =>
+        createAction(BugBashesActionTypes.BugBashUpdateFailed, { bugBash, error, isConflict }),
 
     bugBashDeleteRequested: (bugBashId: string) => createAction(BugBashesActionTypes.BugBashDeleteRequested, bugBashId),
     beginDeleteBugBash: (bugBashId: string) => createAction(BugBashesActionTypes.BeginDeleteBugBash, bugBashId),
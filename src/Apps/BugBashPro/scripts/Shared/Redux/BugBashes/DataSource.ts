@@ -1,6 +1,13 @@
 import { equals } from "azure-devops-ui/Core/Util/String";
 import { IBugBash } from "BugBashPro/Shared/Contracts";
-import { createDocument, deleteDocument, readDocument, readDocuments, updateDocument } from "Common/ServiceWrappers/ExtensionDataManager";
+import {
+    createDocument,
+    deleteDocument,
+    isDocumentConflictError,
+    readDocument,
+    readDocuments,
+    updateDocument
+} from "Common/ServiceWrappers/ExtensionDataManager";
 import { memoizePromise } from "Common/Utilities/Memoize";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
 import { getCurrentProjectId } from "Common/Utilities/WebContext";
@@ -42,9 +49,11 @@ export const updateBugBashAsync = memoizePromise(
 
             return updatedBugBash;
         } catch (e) {
-            throw new Error(
-                "This bug bash instance has been modified by some one else. Please refresh the instance to get the latest version and try updating it again."
-            );
+            if (isDocumentConflictError(e)) {
+                e.message = "This bug bash has been modified by some one else since you opened it.";
+                throw e;
+            }
+            throw new Error(`Cannot update bug bash. Reason: ${e.message}`);
         }
     },
     (bugBash: IBugBash) => `updateBugBash_${bugBash.id}`
@@ -1,6 +1,7 @@
 import { IBugBash } from "BugBashPro/Shared/Contracts";
 import { LoadStatus } from "Common/Contracts";
 import { ActionsOfType, RT } from "Common/Redux";
+import { isDocumentConflictError } from "Common/ServiceWrappers/ExtensionDataManager";
 import { SagaIterator } from "redux-saga";
 import { call, put, select, takeEvery, takeLeading } from "redux-saga/effects";
 
@@ -63,7 +64,7 @@ function* updateBugBash(action: ActionsOfType<BugBashesActions, BugBashesActionT
             const updatedBugBash: RT<typeof updateBugBashAsync> = yield call(updateBugBashAsync, bugBash);
             yield put(BugBashesActions.bugBashUpdated(updatedBugBash));
         } catch (e) {
-            yield put(BugBashesActions.bugBashUpdateFailed(bugBash, e.message));
+            yield put(BugBashesActions.bugBashUpdateFailed(bugBash, e.message, isDocumentConflictError(e)));
         }
     }
 }
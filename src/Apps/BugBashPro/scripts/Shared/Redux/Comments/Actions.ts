@@ -1,3 +1,4 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { IBugBashItemComment } from "BugBashPro/Shared/Contracts";
 import { ActionsUnion, createAction } from "Common/Redux";
 
@@ -7,14 +8,31 @@ export const CommentActions = {
     commentsLoaded: (bugBashItemId: string, comments: IBugBashItemComment[]) =>
         createAction(CommentActionTypes.CommentsLoaded, { bugBashItemId, comments }),
 
-    commentCreateRequested: (bugBashItemId: string, commentText: string) =>
-        createAction(CommentActionTypes.CommentCreateRequested, { bugBashItemId, commentText }),
+    commentCreateRequested: (bugBashItemId: string, commentText: string, parentId?: string, mentions?: IdentityRef[]) =>
+        createAction(CommentActionTypes.CommentCreateRequested, { bugBashItemId, commentText, parentId, mentions }),
     beginCreateComment: (bugBashItemId: string, commentText: string) =>
         createAction(CommentActionTypes.BeginCreateComment, { bugBashItemId, commentText }),
     commentCreated: (bugBashItemId: string, comment: IBugBashItemComment) =>
         createAction(CommentActionTypes.CommentCreated, { bugBashItemId, comment }),
     commentCreateFailed: (bugBashItemId: string, commentText: string, error: string) =>
-        createAction(CommentActionTypes.CommentCreateFailed, { bugBashItemId, commentText, error })
+        createAction(CommentActionTypes.CommentCreateFailed, { bugBashItemId, commentText, error }),
+
+    commentUpdateRequested: (bugBashItemId: string, comment: IBugBashItemComment) =>
+        createAction(CommentActionTypes.CommentUpdateRequested, { bugBashItemId, comment }),
+    beginUpdateComment: (bugBashItemId: string, comment: IBugBashItemComment) =>
+        createAction(CommentActionTypes.BeginUpdateComment, { bugBashItemId, comment }),
+    commentUpdated: (bugBashItemId: string, comment: IBugBashItemComment) =>
+        createAction(CommentActionTypes.CommentUpdated, { bugBashItemId, comment }),
+    commentUpdateFailed: (bugBashItemId: string, comment: IBugBashItemComment, error: string) =>
+        createAction(CommentActionTypes.CommentUpdateFailed, { bugBashItemId, comment, error }),
+
+    commentDeleteRequested: (bugBashItemId: string, commentId: string) =>
+        createAction(CommentActionTypes.CommentDeleteRequested, { bugBashItemId, commentId }),
+    beginDeleteComment: (bugBashItemId: string, commentId: string) =>
+        createAction(CommentActionTypes.BeginDeleteComment, { bugBashItemId, commentId }),
+    commentsDeleted: (bugBashItemId: string, commentIds: string[]) => createAction(CommentActionTypes.CommentsDeleted, { bugBashItemId, commentIds }),
+    commentDeleteFailed: (bugBashItemId: string, commentId: string, error: string) =>
+        createAction(CommentActionTypes.CommentDeleteFailed, { bugBashItemId, commentId, error })
 };
 
 export const enum CommentActionTypes {
@@ -25,7 +43,17 @@ export const enum CommentActionTypes {
     CommentCreateRequested = "CommentActions/CommentCreateRequested",
     BeginCreateComment = "CommentActions/BeginCreateComment",
     CommentCreated = "CommentActions/CommentCreated",
-    CommentCreateFailed = "CommentActions/CommentCreateFailed"
+    CommentCreateFailed = "CommentActions/CommentCreateFailed",
+
+    CommentUpdateRequested = "CommentActions/CommentUpdateRequested",
+    BeginUpdateComment = "CommentActions/BeginUpdateComment",
+    CommentUpdated = "CommentActions/CommentUpdated",
+    CommentUpdateFailed = "CommentActions/CommentUpdateFailed",
+
+    CommentDeleteRequested = "CommentActions/CommentDeleteRequested",
+    BeginDeleteComment = "CommentActions/BeginDeleteComment",
+    CommentsDeleted = "CommentActions/CommentsDeleted",
+    CommentDeleteFailed = "CommentActions/CommentDeleteFailed"
 }
 
 export type CommentActions = ActionsUnion<typeof CommentActions>;
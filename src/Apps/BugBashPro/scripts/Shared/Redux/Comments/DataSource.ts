@@ -1,7 +1,7 @@
 import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import { isGuid } from "azure-devops-ui/Core/Util/String";
 import { IBugBashItemComment } from "BugBashPro/Shared/Contracts";
-import { createDocument, readDocuments } from "Common/ServiceWrappers/ExtensionDataManager";
+import { createDocument, deleteDocument, readDocuments, updateDocument } from "Common/ServiceWrappers/ExtensionDataManager";
 import { defaultDateComparer } from "Common/Utilities/Date";
 import { getCurrentUser, parseUniquefiedIdentityName } from "Common/Utilities/Identity";
 import { memoizePromise } from "Common/Utilities/Memoize";
@@ -33,12 +33,19 @@ export const fetchCommentsAsync = memoizePromise(
     (bugBashItemId: string) => `fetchComments_${bugBashItemId}`
 );
 
-export async function createCommentAsync(bugBashItemId: string, commentText: string): Promise<IBugBashItemComment> {
+export async function createCommentAsync(
+    bugBashItemId: string,
+    commentText: string,
+    parentId?: string,
+    mentions?: IdentityRef[]
+): Promise<IBugBashItemComment> {
     try {
         const comment: IBugBashItemComment = {
             createdBy: getCurrentUser(),
             createdDate: new Date(),
-            content: commentText
+            content: commentText,
+            parentId: parentId,
+            mentions: mentions && mentions.length > 0 ? mentions : undefined
         };
 
         const savedComment = await createDocument<IBugBashItemComment>(getCollectionKey(bugBashItemId), comment, false);
@@ -50,6 +57,29 @@ export async function createCommentAsync(bugBashItemId: string, commentText: str
     }
 }
 
+export async function updateCommentAsync(bugBashItemId: string, comment: IBugBashItemComment): Promise<IBugBashItemComment> {
+    try {
+        const updatedComment = await updateDocument<IBugBashItemComment>(
+            getCollectionKey(bugBashItemId),
+            { ...comment, modifiedDate: new Date() },
+            false
+        );
+        preProcessModel(updatedComment);
+
+        return updatedComment;
+    } catch (e) {
+        throw new Error(`Cannot update comment. Reason: ${e.message}`);
+    }
+}
+
+export async function deleteCommentAsync(bugBashItemId: string, commentId: string): Promise<void> {
+    try {
+        await deleteDocument(getCollectionKey(bugBashItemId), commentId, false);
+    } catch (e) {
+        throw new Error(`Cannot delete comment. Reason: ${e.message}`);
+    }
+}
+
 function getCollectionKey(bugBashItemId: string): string {
     return isGuid(bugBashItemId) ? `Comments_${bugBashItemId}` : `BugBashItemCollection_${bugBashItemId}`;
 }
@@ -63,6 +93,14 @@ function preProcessModel(bugBashItemComment: IBugBashItemComment) {
         }
     }
 
+    if (typeof bugBashItemComment.modifiedDate === "string") {
+        if (isNullOrWhiteSpace(bugBashItemComment.modifiedDate as string)) {
+            bugBashItemComment.modifiedDate = undefined;
+        } else {
+            bugBashItemComment.modifiedDate = new Date(bugBashItemComment.modifiedDate);
+        }
+    }
+
     // back-compat -  If created by is uniquefied string, parse it into identityref object
     if (typeof bugBashItemComment.createdBy === "string") {
         bugBashItemComment.createdBy = parseUniquefiedIdentityName(bugBashItemComment.createdBy) as IdentityRef;
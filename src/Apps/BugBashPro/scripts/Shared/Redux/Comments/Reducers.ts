@@ -1,3 +1,4 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
 import { LoadStatus } from "Common/Contracts";
 import { resolveNullableMapKey } from "Common/Utilities/String";
 import { produce } from "immer";
@@ -25,7 +26,9 @@ export function commentsReducer(state: ICommentsState | undefined, action: Comme
                 break;
             }
 
-            case CommentActionTypes.BeginCreateComment: {
+            case CommentActionTypes.BeginCreateComment:
+            case CommentActionTypes.BeginUpdateComment:
+            case CommentActionTypes.BeginDeleteComment: {
                 const { bugBashItemId } = action.payload;
 
                 if (draft.commentsMap[resolveNullableMapKey(bugBashItemId)]) {
@@ -47,6 +50,50 @@ export function commentsReducer(state: ICommentsState | undefined, action: Comme
                 draft.commentsMap[resolveNullableMapKey(bugBashItemId)].comments!.push(comment);
                 draft.commentsMap[resolveNullableMapKey(bugBashItemId)].error = undefined;
                 draft.commentsMap[resolveNullableMapKey(bugBashItemId)].status = LoadStatus.Ready;
+                break;
+            }
+
+            case CommentActionTypes.CommentUpdated: {
+                const { bugBashItemId, comment } = action.payload;
+                const model = draft.commentsMap[resolveNullableMapKey(bugBashItemId)];
+
+                if (model) {
+                    if (model.comments) {
+                        const index = model.comments.findIndex((c) => equals(c.id!, comment.id!, true));
+                        if (index !== -1) {
+                            model.comments[index] = comment;
+                        }
+                    }
+                    model.error = undefined;
+                    model.status = LoadStatus.Ready;
+                }
+                break;
+            }
+
+            case CommentActionTypes.CommentsDeleted: {
+                const { bugBashItemId, commentIds } = action.payload;
+                const model = draft.commentsMap[resolveNullableMapKey(bugBashItemId)];
+
+                if (model) {
+                    if (model.comments) {
+                        model.comments = model.comments.filter((c) => !commentIds.some((id) => equals(id, c.id!, true)));
+                    }
+                    model.error = undefined;
+                    model.status = LoadStatus.Ready;
+                }
+                break;
+            }
+
+            case CommentActionTypes.CommentCreateFailed:
+            case CommentActionTypes.CommentUpdateFailed:
+            case CommentActionTypes.CommentDeleteFailed: {
+                const { bugBashItemId, error } = action.payload;
+                const model = draft.commentsMap[resolveNullableMapKey(bugBashItemId)];
+
+                if (model) {
+                    model.error = error;
+                    model.status = LoadStatus.Ready;
+                }
             }
         }
     });
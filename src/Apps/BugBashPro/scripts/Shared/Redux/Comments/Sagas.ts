@@ -1,15 +1,19 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { createMentionsAsync, deleteCommentMentionsAsync } from "BugBashPro/Shared/Redux/Mentions/DataSource";
 import { LoadStatus } from "Common/Contracts";
 import { ActionsOfType, RT } from "Common/Redux";
 import { SagaIterator } from "redux-saga";
-import { call, put, select, takeEvery, takeLeading } from "redux-saga/effects";
+import { all, call, put, select, takeEvery, takeLeading } from "redux-saga/effects";
 
 import { CommentActions, CommentActionTypes } from "./Actions";
-import { createCommentAsync, fetchCommentsAsync } from "./DataSource";
-import { getCommentsStatus } from "./Selectors";
+import { createCommentAsync, deleteCommentAsync, fetchCommentsAsync, updateCommentAsync } from "./DataSource";
+import { getComments, getCommentsStatus } from "./Selectors";
 
 export function* commentsSaga(): SagaIterator {
     yield takeLeading(CommentActionTypes.CommentsLoadRequested, loadComments);
     yield takeEvery(CommentActionTypes.CommentCreateRequested, createComment);
+    yield takeEvery(CommentActionTypes.CommentUpdateRequested, updateComment);
+    yield takeEvery(CommentActionTypes.CommentDeleteRequested, deleteComment);
 }
 
 function* loadComments(action: ActionsOfType<CommentActions, CommentActionTypes.CommentsLoadRequested>): SagaIterator {
@@ -24,12 +28,97 @@ function* loadComments(action: ActionsOfType<CommentActions, CommentActionTypes.
 }
 
 function* createComment(action: ActionsOfType<CommentActions, CommentActionTypes.CommentCreateRequested>): SagaIterator {
-    const { bugBashItemId, commentText } = action.payload;
+    const { bugBashItemId, commentText, parentId, mentions } = action.payload;
     yield put(CommentActions.beginCreateComment(bugBashItemId, commentText));
+    let createdComment: RT<typeof createCommentAsync>;
     try {
-        const createdComment: RT<typeof createCommentAsync> = yield call(createCommentAsync, bugBashItemId, commentText);
+        createdComment = yield call(createCommentAsync, bugBashItemId, commentText, parentId, mentions);
         yield put(CommentActions.commentCreated(bugBashItemId, createdComment));
     } catch (e) {
         yield put(CommentActions.commentCreateFailed(bugBashItemId, commentText, e.message));
+        return;
+    }
+
+    try {
+        yield call(createMentionsAsync, bugBashItemId, createdComment);
+    } catch {
+        // the comment itself is saved, a failed mention only means the mentioned user does not get highlighted about it
+    }
+}
+
+function* updateComment(action: ActionsOfType<CommentActions, CommentActionTypes.CommentUpdateRequested>): SagaIterator {
+    const { bugBashItemId, comment } = action.payload;
+    const comments: RT<typeof getComments> = yield select(getComments, bugBashItemId);
+    const originalComment = (comments || []).find((c) => equals(c.id!, comment.id!, true));
+
+    yield put(CommentActions.beginUpdateComment(bugBashItemId, comment));
+    let updatedComment: RT<typeof updateCommentAsync>;
+    try {
+        updatedComment = yield call(updateCommentAsync, bugBashItemId, comment);
+        yield put(CommentActions.commentUpdated(bugBashItemId, updatedComment));
+    } catch (e) {
+        yield put(CommentActions.commentUpdateFailed(bugBashItemId, comment, e.message));
+        return;
+    }
+
+    const originalMentions = (originalComment && originalComment.mentions) || [];
+    const mentions = updatedComment.mentions || [];
+    const addedMentions = mentions.filter((m) => !originalMentions.some((o) => equals(o.id, m.id, true)));
+    const removedMentions = originalMentions.filter((o) => !mentions.some((m) => equals(o.id, m.id, true)));
+    try {
+        yield all([
+            call(deleteCommentMentionsAsync, updatedComment.id!, removedMentions),
+            call(createMentionsAsync, bugBashItemId, updatedComment, addedMentions)
+        ]);
+    } catch {
+        // mentions are only a notification, see createComment
+    }
+}
+
+function* deleteComment(action: ActionsOfType<CommentActions, CommentActionTypes.CommentDeleteRequested>): SagaIterator {
+    const { bugBashItemId, commentId } = action.payload;
+    const comments: RT<typeof getComments> = yield select(getComments, bugBashItemId);
+    const comment = (comments || []).find((c) => equals(c.id!, commentId, true));
+    if (!comment) {
+        return;
+    }
+
+    const getReplies = (parentId: string) => (comments || []).filter((c) => c.parentId && equals(c.parentId, parentId, true));
+    const parentComment = comment.parentId ? (comments || []).find((c) => equals(c.id!, comment.parentId!, true)) : undefined;
+
+    yield put(CommentActions.beginDeleteComment(bugBashItemId, commentId));
+    try {
+        if (getReplies(commentId).length > 0) {
+            // keep the top level comment as a placeholder, so that the replies of other users are not deleted along with it
+            const deletedComment: RT<typeof updateCommentAsync> = yield call(updateCommentAsync, bugBashItemId, {
+                ...comment,
+                content: "",
+                mentions: undefined,
+                deleted: true
+            });
+            yield put(CommentActions.commentUpdated(bugBashItemId, deletedComment));
+        } else {
+            yield call(deleteCommentAsync, bugBashItemId, commentId);
+            yield put(CommentActions.commentsDeleted(bugBashItemId, [commentId]));
+        }
+    } catch (e) {
+        yield put(CommentActions.commentDeleteFailed(bugBashItemId, commentId, e.message));
+        return;
+    }
+
+    try {
+        yield call(deleteCommentMentionsAsync, commentId, comment.mentions || []);
+    } catch {
+        // a mention of a deleted comment only highlights the thread it was in
+    }
+
+    // a placeholder is not needed anymore once its last reply is deleted
+    if (parentComment && parentComment.deleted && getReplies(parentComment.id!).length === 1) {
+        try {
+            yield call(deleteCommentAsync, bugBashItemId, parentComment.id!);
+            yield put(CommentActions.commentsDeleted(bugBashItemId, [parentComment.id!]));
+        } catch {
+            // the placeholder is shown without replies until it can be deleted
+        }
     }
 }
@@ -0,0 +1,22 @@
+import { IBugBashItemMention } from "BugBashPro/Shared/Contracts";
+import { ActionsUnion, createAction } from "Common/Redux";
+
+export const MentionActions = {
+    mentionsLoadRequested: () => createAction(MentionActionTypes.MentionsLoadRequested),
+    beginLoadMentions: () => createAction(MentionActionTypes.BeginLoadMentions),
+    mentionsLoaded: (mentions: IBugBashItemMention[]) => createAction(MentionActionTypes.MentionsLoaded, mentions),
+
+    mentionsAcknowledgeRequested: (bugBashItemId: string) => createAction(MentionActionTypes.MentionsAcknowledgeRequested, bugBashItemId),
+    mentionsAcknowledged: (bugBashItemId: string) => createAction(MentionActionTypes.MentionsAcknowledged, bugBashItemId)
+};
+
+export const enum MentionActionTypes {
+    MentionsLoadRequested = "BugBashMentions/MentionsLoadRequested",
+    BeginLoadMentions = "BugBashMentions/BeginLoadMentions",
+    MentionsLoaded = "BugBashMentions/MentionsLoaded",
+
+    MentionsAcknowledgeRequested = "BugBashMentions/MentionsAcknowledgeRequested",
+    MentionsAcknowledged = "BugBashMentions/MentionsAcknowledged"
+}
+
+export type MentionActions = ActionsUnion<typeof MentionActions>;
@@ -0,0 +1,18 @@
+import { IBugBashItemMention } from "BugBashPro/Shared/Contracts";
+import { LoadStatus } from "Common/Contracts";
+
+export interface IMentionsAwareState {
+    mentionsState: IMentionsState;
+}
+
+/**
+ * Mentions of the current user in comments which the user has not seen yet
+ */
+export interface IMentionsState {
+    status: LoadStatus;
+    mentions?: IBugBashItemMention[];
+}
+
+export const defaultMentionsState: IMentionsState = {
+    status: LoadStatus.NotLoaded
+};
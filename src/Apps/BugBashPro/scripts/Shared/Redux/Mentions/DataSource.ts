@@ -0,0 +1,73 @@
+import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
+import { IBugBashItemComment, IBugBashItemMention } from "BugBashPro/Shared/Contracts";
+import { createDocument, deleteDocument, readDocuments } from "Common/ServiceWrappers/ExtensionDataManager";
+import { getCurrentUser, isCurrentUser } from "Common/Utilities/Identity";
+import { memoizePromise } from "Common/Utilities/Memoize";
+import { isNullOrWhiteSpace } from "Common/Utilities/String";
+
+export const fetchMentionsAsync = memoizePromise(
+    async () => {
+        const mentions = await readDocuments<IBugBashItemMention>(getCollectionKey(getCurrentUser()), false);
+        for (const mention of mentions) {
+            preProcessModel(mention);
+        }
+        return mentions;
+    },
+    () => "fetchMentions"
+);
+
+export async function createMentionsAsync(
+    bugBashItemId: string,
+    comment: IBugBashItemComment,
+    mentionedUsers: IdentityRef[] = comment.mentions || []
+): Promise<void> {
+    // mentions live in a collection of the mentioned user, so that they can be found without loading every comment.
+    // They are keyed by the comment id, so that they can be removed again when the comment is edited or deleted.
+    await Promise.all(
+        mentionedUsers
+            .filter((m) => !isCurrentUser(m))
+            .map(async (mentionedUser) =>
+                createDocument<IBugBashItemMention>(
+                    getCollectionKey(mentionedUser),
+                    {
+                        id: comment.id!,
+                        bugBashItemId: bugBashItemId,
+                        commentId: comment.id!,
+                        mentionedBy: comment.createdBy,
+                        createdDate: new Date()
+                    },
+                    false
+                )
+            )
+    );
+}
+
+export async function deleteCommentMentionsAsync(commentId: string, mentionedUsers: IdentityRef[]): Promise<void> {
+    await Promise.all(
+        mentionedUsers
+            .filter((m) => !isCurrentUser(m))
+            .map(async (mentionedUser) => deleteDocument(getCollectionKey(mentionedUser), commentId, false))
+    );
+}
+
+export async function deleteMentionAsync(mentionId: string): Promise<void> {
+    try {
+        await deleteDocument(getCollectionKey(getCurrentUser()), mentionId, false);
+    } catch (e) {
+        throw new Error(`Cannot delete mention. Reason: ${e.message}`);
+    }
+}
+
+function getCollectionKey(user: IdentityRef): string {
+    return `Mentions_${user.id}`;
+}
+
+function preProcessModel(mention: IBugBashItemMention) {
+    if (typeof mention.createdDate === "string") {
+        if (isNullOrWhiteSpace(mention.createdDate as string)) {
+            (mention as any).createdDate = undefined;
+        } else {
+            mention.createdDate = new Date(mention.createdDate);
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import { ReducersMapObject } from "redux";
+import { ISagaModule } from "redux-dynamic-modules-saga";
+
+import { MentionActions } from "./Actions";
+import { IMentionsAwareState } from "./Contracts";
+import { mentionsReducer } from "./Reducers";
+import { mentionsSaga } from "./Sagas";
+
+export function getMentionsModule(): ISagaModule<IMentionsAwareState> {
+    const reducerMap: ReducersMapObject<IMentionsAwareState, MentionActions> = {
+        mentionsState: mentionsReducer
+    };
+
+    return {
+        id: "bugBashMentions",
+        reducerMap,
+        sagas: [mentionsSaga]
+    };
+}
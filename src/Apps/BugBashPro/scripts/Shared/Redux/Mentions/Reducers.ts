@@ -0,0 +1,31 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { LoadStatus } from "Common/Contracts";
+import { produce } from "immer";
+
+import { MentionActions, MentionActionTypes } from "./Actions";
+import { defaultMentionsState, IMentionsState } from "./Contracts";
+
+export function mentionsReducer(state: IMentionsState | undefined, action: MentionActions): IMentionsState {
+    return produce(state || defaultMentionsState, (draft) => {
+        switch (action.type) {
+            case MentionActionTypes.BeginLoadMentions: {
+                draft.status = LoadStatus.Loading;
+                draft.mentions = undefined;
+                break;
+            }
+
+            case MentionActionTypes.MentionsLoaded: {
+                draft.status = LoadStatus.Ready;
+                draft.mentions = action.payload;
+                break;
+            }
+
+            case MentionActionTypes.MentionsAcknowledged: {
+                const bugBashItemId = action.payload;
+                if (draft.mentions) {
+                    draft.mentions = draft.mentions.filter((m) => !equals(m.bugBashItemId, bugBashItemId, true));
+                }
+            }
+        }
+    });
+}
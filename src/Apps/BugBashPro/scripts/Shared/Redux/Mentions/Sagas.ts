@@ -0,0 +1,37 @@
+import { LoadStatus } from "Common/Contracts";
+import { ActionsOfType, RT } from "Common/Redux";
+import { SagaIterator } from "redux-saga";
+import { all, call, put, select, takeEvery, takeLeading } from "redux-saga/effects";
+
+import { MentionActions, MentionActionTypes } from "./Actions";
+import { deleteMentionAsync, fetchMentionsAsync } from "./DataSource";
+import { getBugBashItemMentions, getMentionsStatus } from "./Selectors";
+
+export function* mentionsSaga(): SagaIterator {
+    yield takeLeading(MentionActionTypes.MentionsLoadRequested, loadMentions);
+    yield takeEvery(MentionActionTypes.MentionsAcknowledgeRequested, acknowledgeMentions);
+}
+
+function* loadMentions(): SagaIterator {
+    const status: RT<typeof getMentionsStatus> = yield select(getMentionsStatus);
+
+    if (status !== LoadStatus.Loading) {
+        yield put(MentionActions.beginLoadMentions());
+        const mentions: RT<typeof fetchMentionsAsync> = yield call(fetchMentionsAsync);
+        yield put(MentionActions.mentionsLoaded(mentions));
+    }
+}
+
+function* acknowledgeMentions(action: ActionsOfType<MentionActions, MentionActionTypes.MentionsAcknowledgeRequested>): SagaIterator {
+    const bugBashItemId = action.payload;
+    const mentions: RT<typeof getBugBashItemMentions> = yield select(getBugBashItemMentions, bugBashItemId);
+
+    if (mentions.length > 0) {
+        yield put(MentionActions.mentionsAcknowledged(bugBashItemId));
+        try {
+            yield all(mentions.map((m) => call(deleteMentionAsync, m.id!)));
+        } catch {
+            // a mention which could not be deleted shows up again the next time the hub is opened
+        }
+    }
+}
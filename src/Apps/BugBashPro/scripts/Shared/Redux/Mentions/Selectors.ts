@@ -0,0 +1,27 @@
+import { equals } from "azure-devops-ui/Core/Util/String";
+import { IBugBashItemMention } from "BugBashPro/Shared/Contracts";
+import { LoadStatus } from "Common/Contracts";
+import { createSelector } from "reselect";
+
+import { IMentionsAwareState, IMentionsState } from "./Contracts";
+
+export function getMentionsState(state: IMentionsAwareState): IMentionsState | undefined {
+    return state.mentionsState;
+}
+
+export const getMentions = createSelector(getMentionsState, (state) => state && state.mentions);
+
+export const getMentionsStatus = createSelector(getMentionsState, (state) => (state && state.status) || LoadStatus.NotLoaded);
+
+export const getMentionedBugBashItemIdsMap = createSelector(getMentions, (mentions) => {
+    const map: { [bugBashItemId: string]: boolean } = {};
+    for (const mention of mentions || []) {
+        map[mention.bugBashItemId.toLowerCase()] = true;
+    }
+    return map;
+});
+
+export function getBugBashItemMentions(state: IMentionsAwareState, bugBashItemId: string): IBugBashItemMention[] {
+    const mentions = getMentions(state) || [];
+    return mentions.filter((m) => equals(m.bugBashItemId, bugBashItemId, true));
+}
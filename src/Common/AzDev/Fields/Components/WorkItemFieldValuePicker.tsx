@@ -98,7 +98,7 @@ function WorkItemFieldValuePickerInternal(props: IWorkItemFieldValuePickerOwnPro
     switch (field.type) {
         case FieldType.Boolean:
             const checked = value === 1 || value === "1" || equals(value as string, "true", true) || (value as boolean) ? true : false;
-            return <Checkbox className={cssClassName} checked={checked} onChange={onCheckboxChanged} disabled={disabled} />;
+            return <Checkbox className={cssClassName} label={label} checked={checked} onChange={onCheckboxChanged} disabled={disabled} />;
         case FieldType.PlainText:
             return (
                 <TextField
@@ -6,15 +6,34 @@ import { getCurrentProjectId } from "Common/Utilities/WebContext";
 
 export const fetchTeamFieldValues = memoizePromise(
     async (teamId: string) => {
-        const projectId = await getCurrentProjectId();
-        const teamContext: TeamContext = {
-            project: "",
-            projectId: projectId,
-            team: "",
-            teamId: teamId
-        };
-
+        const teamContext = await getTeamContextAsync(teamId);
         return getClient(WorkRestClient).getTeamFieldValues(teamContext);
     },
     (teamId: string) => `teamFieldValues_${teamId}`
 );
+
+export const fetchTeamCurrentIterations = memoizePromise(
+    async (teamId: string) => {
+        const teamContext = await getTeamContextAsync(teamId);
+        return getClient(WorkRestClient).getTeamIterations(teamContext, "current");
+    },
+    (teamId: string) => `teamCurrentIterations_${teamId}`
+);
+
+export const fetchTeamSettings = memoizePromise(
+    async (teamId: string) => {
+        const teamContext = await getTeamContextAsync(teamId);
+        return getClient(WorkRestClient).getTeamSettings(teamContext);
+    },
+    (teamId: string) => `teamSettings_${teamId}`
+);
+
+async function getTeamContextAsync(teamId: string): Promise<TeamContext> {
+    const projectId = await getCurrentProjectId();
+    return {
+        project: "",
+        projectId: projectId,
+        team: "",
+        teamId: teamId
+    };
+}
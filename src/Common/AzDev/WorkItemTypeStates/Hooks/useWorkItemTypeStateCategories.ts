@@ -0,0 +1,38 @@
+import { useCallback, useEffect } from "react";
+
+import { LoadStatus } from "Common/Contracts";
+import { useActionCreators } from "Common/Hooks/useActionCreators";
+import { useMappedState } from "Common/Hooks/useMappedState";
+
+import { WorkItemTypeStateActions } from "../Redux/Actions";
+import { IWorkItemTypeStateAwareState } from "../Redux/Contracts";
+import { getWorkItemTypeStateCategories, getWorkItemTypeStatesStatus } from "../Redux/Selectors";
+
+interface IUseWorkItemTypeStateCategoriesMappedState {
+    stateCategories: { [stateName: string]: string } | undefined;
+    status: LoadStatus;
+}
+
+const Actions = { loadWorkItemTypeStates: WorkItemTypeStateActions.loadRequested };
+
+export function useWorkItemTypeStateCategories(workItemTypeName: string): IUseWorkItemTypeStateCategoriesMappedState {
+    const mapState = useCallback(
+        (state: IWorkItemTypeStateAwareState): IUseWorkItemTypeStateCategoriesMappedState => {
+            return {
+                stateCategories: getWorkItemTypeStateCategories(state, workItemTypeName),
+                status: getWorkItemTypeStatesStatus(state, workItemTypeName)
+            };
+        },
+        [workItemTypeName]
+    );
+    const { stateCategories, status } = useMappedState(mapState);
+    const { loadWorkItemTypeStates } = useActionCreators(Actions);
+
+    useEffect(() => {
+        if (status === LoadStatus.NotLoaded) {
+            loadWorkItemTypeStates(workItemTypeName);
+        }
+    }, [workItemTypeName]);
+
+    return { stateCategories, status };
+}
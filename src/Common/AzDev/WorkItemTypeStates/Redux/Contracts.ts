@@ -13,6 +13,7 @@ export interface IWorkItemTypeStateColors {
     status: LoadStatus;
     error?: string;
     stateColors?: { [stateName: string]: string };
+    stateCategories?: { [stateName: string]: string };
 }
 
 export const defaultState: IWorkItemTypeStateState = {
@@ -33,6 +33,11 @@ export function workItemTypeStateReducer(state: IWorkItemTypeStateState | undefi
                         stateColors,
                         (s) => s.name.toLowerCase(),
                         (s) => s.color
+                    ),
+                    stateCategories: toDictionary(
+                        stateColors,
+                        (s) => s.name.toLowerCase(),
+                        (s) => s.category
                     )
                 };
             }
@@ -17,6 +17,14 @@ export function getWorkItemTypeStateColor(state: IWorkItemTypeStateAwareState, w
     return states && states.stateColors && states.stateColors[stateName.toLowerCase()];
 }
 
+export function getWorkItemTypeStateCategories(
+    state: IWorkItemTypeStateAwareState,
+    workItemTypeName: string
+): { [stateName: string]: string } | undefined {
+    const states = getWorkItemTypeStates(state, workItemTypeName);
+    return states && states.stateCategories;
+}
+
 export const getWorkItemTypeStatesStatus = createSelector(
     getWorkItemTypeStates,
     (states: IWorkItemTypeStateColors | undefined) => (states && states.status) || LoadStatus.NotLoaded
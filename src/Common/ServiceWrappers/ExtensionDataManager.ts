@@ -65,6 +65,28 @@ export async function updateDocument<T>(key: string, data: T, isPrivate?: boolea
     return dataManager.updateDocument(key, data, isPrivate ? { scopeType: "User" } : undefined);
 }
 
+/**
+ * Whether a document update was rejected because the document was changed by someone else since it was read.
+ * Data sources rethrow such errors as they are with only a friendlier message, so that callers can still check them.
+ */
+export function isDocumentConflictError(error: any): boolean {
+    return !!error && (error.status === 409 || (!!error.serverError && error.serverError.typeKey === "InvalidDocumentVersionException"));
+}
+
+/**
+ * Whether a request failed because the service could not be reached or failed temporarily, so that it can succeed when it is retried later.
+ * Data sources rethrow such errors as they are with only a friendlier message, so that callers can still check them.
+ */
+export function isTransientError(error: any): boolean {
+    if (!navigator.onLine) {
+        return true;
+    }
+
+    // fetch rejects with a TypeError when the request does not get a response at all
+    const status = error && error.status;
+    return error instanceof TypeError || status === 0 || status === 408 || status === 429 || (typeof status === "number" && status >= 500);
+}
+
 /**
  * Add or Update user/account scoped document
  */
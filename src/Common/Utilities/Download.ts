@@ -0,0 +1,25 @@
+type LegacyNavigator = Navigator & { msSaveOrOpenBlob?: (blob: Blob, defaultName?: string) => boolean };
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+    const blob = new Blob([content], { type: mimeType });
+
+    const navigator: LegacyNavigator | undefined = window.navigator;
+    if (navigator && navigator.msSaveOrOpenBlob) {
+        // IE and legacy Edge dont support download attribute on anchors
+        navigator.msSaveOrOpenBlob(blob, fileName);
+        return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    try {
+        link.click();
+    } finally {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+}
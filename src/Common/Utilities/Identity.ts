@@ -1,5 +1,6 @@
 import { IdentityRef } from "azure-devops-extension-api/WebApi/WebApi";
 import * as SDK from "azure-devops-extension-sdk";
+import { IIdentity } from "azure-devops-ui/Components/IdentityPickerDropdown/SharedIdentityPicker.Props";
 import { isGuid, startsWith } from "azure-devops-ui/Core/Util/String";
 import { isNullOrWhiteSpace } from "Common/Utilities/String";
 import { getIdentityAvatarUrlAsync } from "Common/Utilities/UrlHelper";
@@ -50,6 +51,47 @@ export function getCurrentUser(): IdentityRef {
     } as IdentityRef;
 }
 
+export function isCurrentUser(identityRef: IdentityRef | undefined): boolean {
+    if (!identityRef) {
+        return false;
+    }
+
+    const { id, name } = SDK.getUser();
+    return (
+        (!isNullOrWhiteSpace(identityRef.id) && identityRef.id.toLowerCase() === id.toLowerCase()) ||
+        (!isNullOrWhiteSpace(identityRef.uniqueName) && identityRef.uniqueName.toLowerCase() === (name || "").toLowerCase())
+    );
+}
+
+/**
+ * Converts an identity returned by the people picker into an identity ref which can be stored in extension data
+ */
+export function getIdentityRefFromIdentity(identity: IIdentity): IdentityRef {
+    return {
+        id: identity.localId || identity.originId,
+        displayName: identity.displayName || "",
+        uniqueName: identity.signInAddress || identity.mail || identity.samAccountName || "",
+        imageUrl: identity.image || ""
+    } as IdentityRef;
+}
+
+/**
+ * Converts a stored identity ref back into an identity which can be shown in the people picker
+ */
+export function getIdentityFromIdentityRef(identityRef: IdentityRef): IIdentity {
+    return {
+        entityId: identityRef.id,
+        entityType: "User",
+        originDirectory: "vsd",
+        originId: identityRef.id,
+        localDirectory: "vsd",
+        localId: identityRef.id,
+        displayName: identityRef.displayName,
+        signInAddress: identityRef.uniqueName,
+        image: identityRef.imageUrl
+    };
+}
+
 export function getDistinctNameFromIdentityRef(identityRef: IdentityRef): string {
     if (identityRef == null) {
         return "";